@@ -1,13 +1,28 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Banana } from 'lucide-react';
-import { Message, UploadedImage, GenerationSlotResult } from './types';
+import {
+  AppSettings,
+  AspectRatio,
+  DerivedImageSource,
+  Message,
+  ProviderConfig,
+  UploadedImage,
+  GenerationSlot,
+  GenerationSlotDescriptor,
+  GenerationSlotResult,
+  BatchImportRowRef
+} from './types';
 import { generateUUID } from './utils/uuid';
 import { getUserErrorMessage } from './utils/errorHandler';
 import { useSessionState } from './hooks/useSessionState';
 import { useImageGeneration } from './hooks/useImageGeneration';
+import { usePromptQueue } from './hooks/usePromptQueue';
 import { useSettings } from './hooks/useSettings';
 import { useProviderConfig } from './hooks/useProviderConfig';
 import { useTheme } from './hooks/useTheme';
+import { useWildcards } from './hooks/useWildcards';
+import { useSchedulerLimits } from './hooks/useSchedulerLimits';
+import { useSpending } from './hooks/useSpending';
 import { getStorageEstimate, AppStorageEstimate } from './utils/indexedDb';
 import MessageList from './components/MessageList';
 import InputArea from './components/InputArea';
@@ -16,24 +31,51 @@ import SessionList from './components/SessionList';
 import ErrorBoundary from './components/ErrorBoundary';
 import {
   applyGenerationSlotResult,
+  cancelPendingGenerationSlots,
   createPendingGenerationSlots,
   getMessageGenerationSlots,
+  getPausedGenerationSlots,
+  getSuccessfulImages,
   markGenerationSlotPending,
   toSlotDescriptors
 } from './core/generationSlots';
+import { expandBatchPrompts } from './core/promptTemplate';
+import { summarizePromptQueueRun, type PromptQueueItem } from './core/promptQueue';
+import { createComparisonSlots, getSlotProviderConfigs, toSlotGroup } from './core/comparison';
+import { getBatchImportProgress, type BatchImportJob } from './core/batchImport';
+import { previewGenerationRequest } from './core/requestPreview';
+import { collectHistoryImages } from './core/contextImages';
+import { buildOutpaintPrompt } from './core/outpaint';
+import { createOutpaintImage } from './utils/imageMask';
+import {
+  assertWithinBudget,
+  checkBudget,
+  estimateCost,
+  findImagePrice,
+  toPriceTarget,
+  type CostPreview
+} from './core/pricing';
+import { getOrphanResumeSettings, ORPHANED_SLOT_REASON } from './core/generationJobs';
+import { useOrphanedGenerations } from './hooks/useOrphanedGenerations';
+import OrphanedGenerationsBanner from './components/OrphanedGenerationsBanner';
+import PromptQueuePanel from './components/PromptQueuePanel';
+import OutpaintDialog from './components/OutpaintDialog';
 
 const App: React.FC = () => {
   // Session management
   const {
     sessions,
+    isHydrated,
     storageRevision,
     currentSessionId,
     getCurrentSession,
     getLatestSessionMessages,
+    getLatestSessionContext,
     createSession,
     switchSession,
     deleteSession,
     updateSessionTitle,
+    updateSessionContext,
     updateSessionMessagesById,
     clearAllSessions
   } = useSessionState();
@@ -43,7 +85,13 @@ const App: React.FC = () => {
     updateProvider,
     updateApiKey,
     updateBaseUrl,
-    updateModel
+    updateModel,
+    updateOptions,
+    updateRetryPolicy,
+    fallbackProviders,
+    updateFallbackProviders,
+    compareProviders,
+    updateCompareProviders
   } = useProviderConfig();
 
   const { settings, updateSettings, updateProviderConfig } = useSettings({
@@ -54,11 +102,33 @@ const App: React.FC = () => {
   });
 
   const { theme, setTheme } = useTheme();
+  const { wildcards, saveWildcard, removeWildcard } = useWildcards();
+  const { schedulerLimits, updateSchedulerLimits } = useSchedulerLimits();
+  const {
+    pricingTable,
+    updatePricingTable,
+    resetPricingTable,
+    budget,
+    updateBudget,
+    spendTotals,
+    recordSpend,
+    resetSpendTotals
+  } = useSpending();
+
+  const expandPrompt = useCallback(
+    (text: string) => expandBatchPrompts(text, settings.batchSize, { wildcards }),
+    [settings.batchSize, wildcards]
+  );
   const [prefillRequest, setPrefillRequest] = useState<{ text: string; images?: UploadedImage[] } | null>(null);
   const [storageUsage, setStorageUsage] = useState<AppStorageEstimate | null>(null);
   const [isClearingData, setIsClearingData] = useState(false);
+  const batchImportControllersRef = useRef<Record<string, AbortController>>({});
   const currentSession = getCurrentSession();
   const messages = currentSession?.messages ?? [];
+  const batchImportRows = useMemo(
+    () => (currentSession ? getBatchImportProgress(currentSession) : []),
+    [currentSession]
+  );
 
   useEffect(() => {
     setPrefillRequest(null);
@@ -83,6 +153,10 @@ const App: React.FC = () => {
     updateProviderConfig(providerConfig);
   }, [providerConfig, updateProviderConfig]);
 
+  useEffect(() => {
+    updateSettings({ fallbackProviders });
+  }, [fallbackProviders, updateSettings]);
+
   const addMessagesToSession = useCallback(
     (sessionId: string, newMessages: Message[]) => {
       updateSessionMessagesById(sessionId, (prev) => [...prev, ...newMessages]);
@@ -177,10 +251,13 @@ const App: React.FC = () => {
 
   // Image generation callbacks
   const handleSlotResult = useCallback(
-    (sessionId: string, messageId: string, result: GenerationSlotResult) => {
+    (sessionId: string, messageId: string, result: GenerationSlotResult, slotSettings: AppSettings) => {
       applySlotResultToMessage(sessionId, messageId, result);
+      if (result.status === 'success' && result.source) {
+        recordSpend(sessionId, findImagePrice(pricingTable, toPriceTarget(result.source, slotSettings)) ?? 0);
+      }
     },
-    [applySlotResultToMessage]
+    [applySlotResultToMessage, pricingTable, recordSpend]
   );
 
   const handleTextGenerated = useCallback(
@@ -190,11 +267,19 @@ const App: React.FC = () => {
     [addTextToMessageInSession]
   );
 
-  const { generationStates, generateImages, retrySlots, stopGeneration } =
+  const {
+    generationStates,
+    generateImages,
+    retrySlots,
+    stopGeneration,
+    cancelSlot,
+    pauseGeneration
+  } =
     useImageGeneration({
       onSlotResult: handleSlotResult,
       onTextGenerated: handleTextGenerated,
-      getLatestMessages
+      getLatestMessages,
+      getConversationContext: getLatestSessionContext
     });
 
   const currentGenerationState = generationStates[currentSessionId] || {
@@ -203,11 +288,74 @@ const App: React.FC = () => {
     activeGenerations: {}
   };
 
-  // Handle sending new message
-  const handleSend = useCallback(
-    async (text: string, images?: UploadedImage[]) => {
-      // Remove the concurrent generation check - allow multiple generations
-      const sessionId = currentSessionId;
+  // Compare sends go to the current provider plus every saved compare target.
+  const compareTargets = useMemo(
+    () => [providerConfig, ...compareProviders],
+    [providerConfig, compareProviders]
+  );
+
+  // Comparison messages rerun each slot on its column's provider; throws if
+  // that provider is no longer configured.
+  const getSlotConfigs = useCallback(
+    (message: Message, slots: GenerationSlotDescriptor[]) =>
+      message.slotGroups ? getSlotProviderConfigs(slots, message.slotGroups, compareTargets) : undefined,
+    [compareTargets]
+  );
+
+  // Estimated cost of `imagesPerTarget` images on each target and how it
+  // stands against the budget.
+  const getCostPreview = useCallback(
+    (
+      sessionId: string,
+      targets: Array<Pick<ProviderConfig, 'provider' | 'model'>>,
+      imagesPerTarget: number,
+      sendSettings: AppSettings
+    ): CostPreview => {
+      const estimate = estimateCost(
+        pricingTable,
+        targets.map((target) => toPriceTarget(target, sendSettings)),
+        imagesPerTarget
+      );
+      return { estimate, budget: checkBudget(budget, spendTotals, sessionId, estimate.total) };
+    },
+    [pricingTable, budget, spendTotals]
+  );
+
+  // Reruns are priced per slot on the provider it runs on.
+  const getRetryCostPreview = useCallback(
+    (
+      sessionId: string,
+      slots: GenerationSlotDescriptor[],
+      slotConfigs: Record<string, ProviderConfig> | undefined,
+      sendSettings: AppSettings
+    ): CostPreview =>
+      getCostPreview(
+        sessionId,
+        slots.map((slot) => slotConfigs?.[slot.slotId] ?? sendSettings.providerConfig),
+        1,
+        sendSettings
+      ),
+    [getCostPreview]
+  );
+
+  // Sends a new message and resolves with its slot results; throws if the
+  // prompt template cannot be expanded or the budget blocks the batch. `compare` fans the prompt out to
+  // every compare target, one slot group each. `derivedFrom` links the model
+  // message back to the image it was made from.
+  const sendPrompt = useCallback(
+    async (
+      sessionId: string,
+      text: string,
+      images: UploadedImage[] | undefined,
+      sendSettings: AppSettings,
+      compare = false,
+      derivedFrom?: DerivedImageSource
+    ) => {
+      const slotPrompts = expandBatchPrompts(text, sendSettings.batchSize, { wildcards });
+      const slotGroups = compare ? compareTargets.map(toSlotGroup) : undefined;
+      assertWithinBudget(
+        getCostPreview(sessionId, slotGroups ?? [sendSettings.providerConfig], slotPrompts.length, sendSettings).budget
+      );
 
       // Create user message
       const userMsg: Message = {
@@ -220,34 +368,174 @@ const App: React.FC = () => {
 
       // Create model message placeholder
       const modelMsgId = generateUUID();
-      const slots = createPendingGenerationSlots(settings.batchSize);
+      const slots = slotGroups
+        ? createComparisonSlots(slotGroups, slotPrompts)
+        : createPendingGenerationSlots(slotPrompts);
       const modelMsg: Message = {
         id: modelMsgId,
         role: 'model',
         text: undefined,
         textVariations: [],
         generationSlots: slots,
+        ...(slotGroups ? { slotGroups } : {}),
+        ...(derivedFrom ? { derivedFrom } : {}),
         generationSettings: {
-          aspectRatio: settings.aspectRatio,
-          resolution: settings.resolution
+          aspectRatio: sendSettings.aspectRatio,
+          resolution: sendSettings.resolution
         },
         timestamp: Date.now()
       };
+      const descriptors = toSlotDescriptors(slots);
+      const slotConfigs = getSlotConfigs(modelMsg, descriptors);
 
       // Add both messages
       addMessagesToSession(sessionId, [userMsg, modelMsg]);
 
       // Start generation
-      await generateImages(
+      return generateImages(
         sessionId,
         text || '',
-        settings,
+        sendSettings,
         modelMsgId,
-        toSlotDescriptors(slots),
-        images
+        descriptors,
+        images,
+        slotConfigs
+      );
+    },
+    [wildcards, compareTargets, getSlotConfigs, getCostPreview, addMessagesToSession, generateImages]
+  );
+
+  // Handle sending new message
+  const handleSend = useCallback(
+    async (text: string, images?: UploadedImage[], excludedImageIds?: string[]) => {
+      // Remove the concurrent generation check - allow multiple generations
+      try {
+        await sendPrompt(currentSessionId, text, images, { ...settings, excludedImageIds });
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+      }
+    },
+    [currentSessionId, settings, sendPrompt]
+  );
+
+  // Shown next to the send buttons while typing.
+  const previewSendCost = useCallback(
+    (text: string, compare: boolean) => {
+      let imagesPerTarget = settings.batchSize;
+      try {
+        imagesPerTarget = expandPrompt(text).length;
+      } catch {
+        // Template errors are reported by the input itself.
+      }
+      return getCostPreview(
+        currentSessionId,
+        compare ? compareTargets : [settings.providerConfig],
+        imagesPerTarget,
+        settings
       );
     },
-    [currentSessionId, settings, addMessagesToSession, generateImages]
+    [currentSessionId, settings, compareTargets, expandPrompt, getCostPreview]
+  );
+
+  // Shown by the context inspector; templated prompts preview their first variant.
+  const previewRequest = useCallback(
+    (text: string, images: UploadedImage[] | undefined, excludedImageIds: string[]) => {
+      let prompt = text;
+      try {
+        prompt = expandPrompt(text)[0] ?? text;
+      } catch {
+        // Template errors are reported by the input itself.
+      }
+      return previewGenerationRequest({
+        prompt,
+        history: messages,
+        uploadedImages: images,
+        settings: { ...settings, context: currentSession?.context, excludedImageIds }
+      });
+    },
+    [messages, settings, currentSession?.context, expandPrompt]
+  );
+
+  const handleCompare = useCallback(
+    async (text: string, images?: UploadedImage[], excludedImageIds?: string[]) => {
+      try {
+        await sendPrompt(currentSessionId, text, images, { ...settings, excludedImageIds }, true);
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+      }
+    },
+    [currentSessionId, settings, sendPrompt]
+  );
+
+  // Outpainting: the padded image goes out as a masked upload, without the
+  // session's selected images so the edit route only sees the source.
+  const [outpaintSource, setOutpaintSource] = useState<{ messageId: string; imageId: string; data: string } | null>(
+    null
+  );
+
+  const handleOutpaintImage = useCallback(
+    (messageId: string, imageId: string) => {
+      const message = messages.find((msg) => msg.id === messageId);
+      const image = message && getSuccessfulImages(message).find((img) => img.id === imageId);
+      if (image) {
+        setOutpaintSource({ messageId, imageId, data: image.data });
+      }
+    },
+    [messages]
+  );
+
+  const handleOutpaint = useCallback(
+    async (aspectRatio: AspectRatio, description: string) => {
+      if (!outpaintSource) return;
+      const { data, mask } = await createOutpaintImage(outpaintSource.data, aspectRatio);
+      const upload: UploadedImage = { id: generateUUID(), data, mimeType: 'image/png', name: '扩图', mask };
+      const excludedImageIds = collectHistoryImages(messages).map((image) => image.id);
+      // Generation runs in the background; the dialog closes once it is queued.
+      void sendPrompt(
+        currentSessionId,
+        buildOutpaintPrompt(description),
+        [upload],
+        { ...settings, aspectRatio, excludedImageIds },
+        false,
+        { kind: 'outpaint', messageId: outpaintSource.messageId, imageId: outpaintSource.imageId }
+      ).catch((error) => alert(getUserErrorMessage(error)));
+    },
+    [outpaintSource, messages, currentSessionId, settings, sendPrompt]
+  );
+
+  const runQueuedPrompt = useCallback(
+    async (item: PromptQueueItem) =>
+      summarizePromptQueueRun(
+        await sendPrompt(item.sessionId, item.prompt, item.uploadedImages, { ...settings, ...item.settings })
+      ),
+    [settings, sendPrompt]
+  );
+
+  const promptQueue = usePromptQueue({ runItem: runQueuedPrompt });
+  const currentQueueItems = useMemo(
+    () => promptQueue.items.filter((item) => item.sessionId === currentSessionId),
+    [promptQueue.items, currentSessionId]
+  );
+
+  const handleEnqueue = useCallback(
+    (text: string, images?: UploadedImage[], excludedImageIds?: string[]) => {
+      try {
+        promptQueue.enqueue(
+          currentSessionId,
+          text,
+          {
+            batchSize: settings.batchSize,
+            aspectRatio: settings.aspectRatio,
+            resolution: settings.resolution,
+            excludedImageIds
+          },
+          images
+        );
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+      }
+    },
+    [currentSessionId, settings, promptQueue.enqueue]
   );
 
   const resolveMessagePair = useCallback(
@@ -288,7 +576,22 @@ const App: React.FC = () => {
         (maximum, slot) => Math.max(maximum, slot.index + 1),
         0
       );
-      const slots = createPendingGenerationSlots(settings.batchSize, nextIndex);
+      let slots: GenerationSlot[];
+      let slotConfigs: ReturnType<typeof getSlotConfigs>;
+      try {
+        const slotPrompts = expandPrompt(userMsg.text || '');
+        // Comparison messages get another round in every column.
+        slots = modelMsg.slotGroups
+          ? createComparisonSlots(modelMsg.slotGroups, slotPrompts, nextIndex)
+          : createPendingGenerationSlots(slotPrompts, nextIndex);
+        slotConfigs = getSlotConfigs(modelMsg, toSlotDescriptors(slots));
+        assertWithinBudget(
+          getCostPreview(sessionId, modelMsg.slotGroups ?? [settings.providerConfig], slotPrompts.length, settings).budget
+        );
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+        return;
+      }
 
       updateMessageInSession(sessionId, modelMessageId, {
         generationSlots: [...existingSlots, ...slots],
@@ -302,10 +605,20 @@ const App: React.FC = () => {
         settings,
         modelMessageId,
         toSlotDescriptors(slots),
-        userMsg.uploadedImages
+        userMsg.uploadedImages,
+        slotConfigs
       );
     },
-    [currentSessionId, settings, resolveMessagePair, retrySlots, updateMessageInSession]
+    [
+      currentSessionId,
+      settings,
+      expandPrompt,
+      getSlotConfigs,
+      getCostPreview,
+      resolveMessagePair,
+      retrySlots,
+      updateMessageInSession
+    ]
   );
 
   const handleRetrySlot = useCallback(
@@ -318,6 +631,16 @@ const App: React.FC = () => {
       const target = slots.find((slot) => slot.slotId === slotId);
       if (!target || target.status === 'success' || target.status === 'pending') return;
 
+      const descriptors = toSlotDescriptors([target]);
+      let slotConfigs: ReturnType<typeof getSlotConfigs>;
+      try {
+        slotConfigs = getSlotConfigs(resolved.modelMsg, descriptors);
+        assertWithinBudget(getRetryCostPreview(sessionId, descriptors, slotConfigs, settings).budget);
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+        return;
+      }
+
       updateMessageInSession(sessionId, modelMessageId, {
         generationSlots: markGenerationSlotPending(slots, slotId),
         images: undefined
@@ -329,13 +652,145 @@ const App: React.FC = () => {
         resolved.history,
         { ...settings, batchSize: 1 },
         modelMessageId,
-        [{ slotId: target.slotId, index: target.index }],
-        resolved.userMsg.uploadedImages
+        descriptors,
+        resolved.userMsg.uploadedImages,
+        slotConfigs
       );
     },
-    [currentSessionId, resolveMessagePair, retrySlots, settings, updateMessageInSession]
+    [
+      currentSessionId,
+      getRetryCostPreview,
+      getSlotConfigs,
+      resolveMessagePair,
+      retrySlots,
+      settings,
+      updateMessageInSession
+    ]
   );
 
+  const handleCancelSlot = useCallback(
+    (modelMessageId: string, slotId: string) => {
+      cancelSlot(currentSessionId, modelMessageId, slotId);
+    },
+    [currentSessionId, cancelSlot]
+  );
+
+  const handlePauseMessage = useCallback(
+    (modelMessageId: string) => {
+      pauseGeneration(currentSessionId, modelMessageId);
+    },
+    [currentSessionId, pauseGeneration]
+  );
+
+  // Reruns the slots cancelled by a pause, keeping their slotIds and indexes.
+  const handleResumeMessage = useCallback(
+    async (modelMessageId: string) => {
+      const sessionId = currentSessionId;
+      const resolved = resolveMessagePair(sessionId, modelMessageId);
+      if (!resolved) return;
+
+      const slots = getMessageGenerationSlots(resolved.modelMsg);
+      const paused = getPausedGenerationSlots(slots);
+      if (paused.length === 0) return;
+
+      const descriptors = toSlotDescriptors(paused);
+      let slotConfigs: ReturnType<typeof getSlotConfigs>;
+      try {
+        slotConfigs = getSlotConfigs(resolved.modelMsg, descriptors);
+        assertWithinBudget(getRetryCostPreview(sessionId, descriptors, slotConfigs, settings).budget);
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+        return;
+      }
+
+      updateMessageInSession(sessionId, modelMessageId, {
+        generationSlots: paused.reduce(
+          (next, slot) => markGenerationSlotPending(next, slot.slotId),
+          slots
+        ),
+        images: undefined
+      });
+
+      await retrySlots(
+        sessionId,
+        resolved.userMsg.text || '',
+        resolved.history,
+        { ...settings, batchSize: paused.length },
+        modelMessageId,
+        descriptors,
+        resolved.userMsg.uploadedImages,
+        slotConfigs
+      );
+    },
+    [
+      currentSessionId,
+      getRetryCostPreview,
+      getSlotConfigs,
+      resolveMessagePair,
+      retrySlots,
+      settings,
+      updateMessageInSession
+    ]
+  );
+
+  const { orphans, dismissOrphans } = useOrphanedGenerations(sessions, isHydrated);
+
+  // Orphans are still `pending`, so they rerun as they are.
+  const handleResumeOrphans = useCallback(() => {
+    const handled = orphans;
+    let runs;
+    try {
+      runs = handled.flatMap((orphan) => {
+        const resolved = resolveMessagePair(orphan.sessionId, orphan.messageId);
+        if (!resolved) return [];
+        const slotConfigs = getSlotConfigs(resolved.modelMsg, orphan.slots);
+        const resumeSettings = getOrphanResumeSettings(orphan, settings);
+        assertWithinBudget(
+          getRetryCostPreview(orphan.sessionId, orphan.slots, slotConfigs, resumeSettings).budget
+        );
+        return [{ orphan, resolved, slotConfigs, resumeSettings }];
+      });
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+      return;
+    }
+
+    dismissOrphans(handled);
+    for (const { orphan, resolved, slotConfigs, resumeSettings } of runs) {
+      void retrySlots(
+        orphan.sessionId,
+        orphan.job?.prompt ?? resolved.userMsg.text ?? '',
+        resolved.history,
+        resumeSettings,
+        orphan.messageId,
+        orphan.slots,
+        resolved.userMsg.uploadedImages,
+        slotConfigs
+      );
+    }
+  }, [orphans, dismissOrphans, getRetryCostPreview, getSlotConfigs, resolveMessagePair, retrySlots, settings]);
+
+  const handleCancelOrphans = useCallback(() => {
+    const handled = orphans;
+    dismissOrphans(handled);
+    for (const orphan of handled) {
+      updateSessionMessagesById(orphan.sessionId, (prev) =>
+        prev.map((msg) =>
+          msg.id === orphan.messageId
+            ? {
+                ...msg,
+                generationSlots: cancelPendingGenerationSlots(
+                  getMessageGenerationSlots(msg),
+                  orphan.slots,
+                  ORPHANED_SLOT_REASON
+                )
+              }
+            : msg
+        )
+      );
+    }
+  }, [orphans, dismissOrphans, updateSessionMessagesById]);
+
   const handleRegenerate = useCallback(
     (modelMessageId: string) => {
       // Remove the concurrent generation check - allow multiple generations
@@ -352,6 +807,119 @@ const App: React.FC = () => {
     [currentSessionId, resolveMessagePair]
   );
 
+  // Each imported row becomes an independent user/model pair; rows run one
+  // after another without earlier rows as history.
+  const handleImportBatch = useCallback(
+    async (jobs: BatchImportJob[], sourceName: string) => {
+      const importedAt = Date.now();
+      let entries;
+      try {
+        entries = jobs.map((job, rowIndex) => {
+          const rowSettings = {
+            ...settings,
+            aspectRatio: job.aspectRatio ?? settings.aspectRatio,
+            resolution: job.resolution ?? settings.resolution,
+            batchSize: job.batchSize ?? settings.batchSize
+          };
+          let slotPrompts: string[];
+          try {
+            slotPrompts = expandBatchPrompts(job.prompt, rowSettings.batchSize, { wildcards });
+          } catch (error) {
+            throw new Error(`第 ${job.rowNumber} 行：${getUserErrorMessage(error)}`);
+          }
+          const slots = createPendingGenerationSlots(slotPrompts);
+          // Distinct timestamps keep rows in file order when hydrated from IndexedDB.
+          const userMsg: Message = {
+            id: generateUUID(),
+            role: 'user',
+            text: job.prompt,
+            uploadedImages: job.uploadedImages.length > 0 ? job.uploadedImages : undefined,
+            timestamp: importedAt + rowIndex * 2
+          };
+          const modelMsg: Message = {
+            id: generateUUID(),
+            role: 'model',
+            text: undefined,
+            textVariations: [],
+            generationSlots: slots,
+            generationSettings: {
+              aspectRatio: rowSettings.aspectRatio,
+              resolution: rowSettings.resolution
+            },
+            timestamp: importedAt + rowIndex * 2 + 1
+          };
+          return { job, rowSettings, slots, userMsg, modelMsg };
+        });
+        // The import gets a new session, so only the daily cap applies.
+        const importCost = entries.reduce(
+          (sum, { rowSettings, slots }) =>
+            sum + estimateCost(pricingTable, [toPriceTarget(settings.providerConfig, rowSettings)], slots.length).total,
+          0
+        );
+        assertWithinBudget(checkBudget(budget, spendTotals, '', importCost));
+      } catch (error) {
+        alert(`导入失败：${getUserErrorMessage(error)}`);
+        return;
+      }
+
+      const rows: BatchImportRowRef[] = entries.map(({ job, userMsg, modelMsg }) => ({
+        rowNumber: job.rowNumber,
+        userMessageId: userMsg.id,
+        modelMessageId: modelMsg.id
+      }));
+      const sessionId = createSession({
+        title: sourceName,
+        messages: entries.flatMap(({ userMsg, modelMsg }) => [userMsg, modelMsg]),
+        batchImport: { sourceName, importedAt, rows }
+      });
+
+      const controller = new AbortController();
+      batchImportControllersRef.current[sessionId] = controller;
+      try {
+        for (const { job, rowSettings, slots, modelMsg } of entries) {
+          const stillExists = getLatestMessages(sessionId).some((msg) => msg.id === modelMsg.id);
+          if (!stillExists) break;
+
+          if (controller.signal.aborted) {
+            updateMessageInSession(sessionId, modelMsg.id, {
+              generationSlots: cancelPendingGenerationSlots(slots, toSlotDescriptors(slots))
+            });
+            continue;
+          }
+
+          await retrySlots(
+            sessionId,
+            job.prompt,
+            [],
+            rowSettings,
+            modelMsg.id,
+            toSlotDescriptors(slots),
+            job.uploadedImages
+          );
+        }
+      } finally {
+        delete batchImportControllersRef.current[sessionId];
+      }
+    },
+    [
+      settings,
+      wildcards,
+      pricingTable,
+      budget,
+      spendTotals,
+      createSession,
+      getLatestMessages,
+      retrySlots,
+      updateMessageInSession
+    ]
+  );
+
+  const handleStop = useCallback(() => {
+    batchImportControllersRef.current[currentSessionId]?.abort();
+    promptQueue.pauseQueue(currentSessionId);
+    stopGeneration(currentSessionId);
+  }, [currentSessionId, stopGeneration, promptQueue.pauseQueue]);
+
   // Handle image selection
   const handleSelectImage = useCallback(
     (messageId: string, imageId: string) => {
@@ -371,6 +939,9 @@ const App: React.FC = () => {
   const handleClearAllData = useCallback(async () => {
     setIsClearingData(true);
     try {
+      for (const sessionId of Object.keys(batchImportControllersRef.current)) {
+        batchImportControllersRef.current[sessionId].abort();
+      }
       for (const sessionId of Object.keys(generationStates)) {
         if (generationStates[sessionId]?.isGenerating) {
           stopGeneration(sessionId);
@@ -461,12 +1032,33 @@ const App: React.FC = () => {
             onApiKeyChange={handleApiKeyChange}
             onBaseUrlChange={updateBaseUrl}
             onModelChange={updateModel}
+            onOptionsChange={updateOptions}
+            onRetryPolicyChange={updateRetryPolicy}
+            fallbackProviders={fallbackProviders}
+            onFallbackProvidersChange={updateFallbackProviders}
+            compareProviders={compareProviders}
+            onCompareProvidersChange={updateCompareProviders}
+            schedulerLimits={schedulerLimits}
+            onSchedulerLimitsChange={updateSchedulerLimits}
             theme={theme}
             onThemeChange={setTheme}
             onClearAllData={handleClearAllData}
             isClearingData={isClearingData}
             messages={messages}
             storageUsage={storageUsage}
+            wildcards={wildcards}
+            onSaveWildcard={saveWildcard}
+            onRemoveWildcard={removeWildcard}
+            onImportBatch={(jobs, sourceName) => void handleImportBatch(jobs, sourceName)}
+            batchImportRows={batchImportRows}
+            pricingTable={pricingTable}
+            onPricingTableChange={updatePricingTable}
+            onResetPricingTable={resetPricingTable}
+            budget={budget}
+            onBudgetChange={updateBudget}
+            spendTotals={spendTotals}
+            onResetSpendTotals={resetSpendTotals}
+            sessionId={currentSessionId}
             onImportMessages={(importedMessages) => {
               if (currentGenerationState.isGenerating) {
                 stopGeneration(currentSessionId);
@@ -493,31 +1085,70 @@ const App: React.FC = () => {
 
           {/* Chat Area */}
           <div className="flex-1 flex flex-col min-h-0">
+            <OrphanedGenerationsBanner
+              orphans={orphans}
+              onResume={handleResumeOrphans}
+              onCancel={handleCancelOrphans}
+              theme={theme}
+            />
             <MessageList
               messages={messages}
               isGenerating={currentGenerationState.isGenerating}
               onSelectImage={handleSelectImage}
               onRetry={handleGenerateMore}
               onRetrySlot={handleRetrySlot}
+              onCancelSlot={handleCancelSlot}
+              onPauseMessage={handlePauseMessage}
+              onResumeMessage={handleResumeMessage}
               onRegenerate={handleRegenerate}
               onDeleteMessage={handleDeleteMessages}
+              onOutpaintImage={handleOutpaintImage}
               theme={theme}
               activeGenerations={currentGenerationState.activeGenerations || {}}
             />
 
             {/* Input Area (Sticky) */}
             <div className="flex-none z-40">
+              <PromptQueuePanel
+                items={currentQueueItems}
+                isRunning={Boolean(promptQueue.runningSessions[currentSessionId])}
+                concurrency={promptQueue.concurrency}
+                onStart={() => promptQueue.startQueue(currentSessionId)}
+                onPause={() => promptQueue.pauseQueue(currentSessionId)}
+                onConcurrencyChange={promptQueue.setConcurrency}
+                onMove={promptQueue.moveItem}
+                onRemove={promptQueue.removeItem}
+                onRequeue={promptQueue.requeueItem}
+                onClearFinished={() => promptQueue.clearFinished(currentSessionId)}
+                theme={theme}
+              />
               <InputArea
                 onSend={handleSend}
-                onStop={() => stopGeneration(currentSessionId)}
+                onEnqueue={handleEnqueue}
+                onCompare={compareProviders.length > 0 ? handleCompare : undefined}
+                compareCount={compareTargets.length}
+                onStop={handleStop}
                 disabled={currentGenerationState.isGenerating}
                 theme={theme}
                 prefillRequest={prefillRequest ?? undefined}
+                expandPrompt={expandPrompt}
+                previewCost={previewSendCost}
+                context={currentSession?.context}
+                onContextChange={(context) => updateSessionContext(currentSessionId, context)}
+                previewRequest={previewRequest}
               />
             </div>
           </div>
         </main>
       </div>
+      {outpaintSource && (
+        <OutpaintDialog
+          src={outpaintSource.data}
+          theme={theme}
+          onSubmit={handleOutpaint}
+          onClose={() => setOutpaintSource(null)}
+        />
+      )}
     </ErrorBoundary>
   );
 };
@@ -0,0 +1,49 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  createFetchRecorder,
+  createReplayFetch,
+  installFetch,
+  parseHttpFixture
+} from '../utils/httpRecorder.ts';
+
+export interface HttpCaptureOptions {
+  recordPath?: string;
+  replayPath?: string;
+  secrets: string[];
+}
+
+export interface HttpCapture {
+  /** Restores the global fetch and, when recording, writes the fixture file. */
+  finish: () => Promise<string | undefined>;
+}
+
+export async function startHttpCapture(options: HttpCaptureOptions): Promise<HttpCapture> {
+  if (options.replayPath) {
+    const fixture = parseHttpFixture(JSON.parse(await readFile(options.replayPath, 'utf8')));
+    const restore = installFetch(createReplayFetch(fixture).fetch);
+    return {
+      finish: async () => {
+        restore();
+        return undefined;
+      }
+    };
+  }
+
+  if (options.recordPath) {
+    const recordPath = path.resolve(options.recordPath);
+    const recorder = createFetchRecorder({ secrets: options.secrets });
+    const restore = installFetch(recorder.fetch);
+    return {
+      finish: async () => {
+        restore();
+        const fixture = await recorder.toFixture(path.basename(recordPath, path.extname(recordPath)));
+        await mkdir(path.dirname(recordPath), { recursive: true });
+        await writeFile(recordPath, `${JSON.stringify(fixture, null, 2)}\n`);
+        return recordPath;
+      }
+    };
+  }
+
+  return { finish: async () => undefined };
+}
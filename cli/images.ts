@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { UploadedImage } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { generateUUID } from '../utils/uuid.ts';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+export async function readReferenceImage(filePath: string): Promise<UploadedImage> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    throw new ValidationError(`Unsupported reference image type: ${filePath}`, 'image');
+  }
+  const bytes = await readFile(filePath);
+  return {
+    id: generateUUID(),
+    data: `data:${mimeType};base64,${bytes.toString('base64')}`,
+    mimeType,
+    name: path.basename(filePath)
+  };
+}
+
+export async function readImageBytes(data: string): Promise<{ bytes: Buffer; mimeType?: string }> {
+  const match = data.match(/^data:([^;]+);base64,(.+)$/);
+  if (match) {
+    return { bytes: Buffer.from(match[2], 'base64'), mimeType: match[1] };
+  }
+
+  // Some OpenAI-compatible proxies answer with a hosted URL instead of base64.
+  const response = await fetch(data);
+  if (!response.ok) {
+    throw new Error(`Failed to download image (${response.status}): ${data}`);
+  }
+  return {
+    bytes: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get('content-type')?.split(';')[0] || undefined
+  };
+}
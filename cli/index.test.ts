@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, mock, test } from 'node:test';
+import { main, parsePromptLines } from './index.ts';
+
+let workDir = '';
+
+before(async () => {
+  workDir = await mkdtemp(path.join(tmpdir(), 'banana-cli-'));
+});
+
+after(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+// Captures the CLI's stdout/stderr text and undoes the console.log redirect
+// `generate` installs. The test runner reports over stdout in binary chunks,
+// which are passed through.
+async function runCli(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const consoleLog = console.log;
+  const write = process.stdout.write.bind(process.stdout) as (chunk: unknown) => boolean;
+  const stdoutWrite = mock.method(process.stdout, 'write', (chunk: unknown) => {
+    if (typeof chunk !== 'string') return write(chunk);
+    stdout += chunk;
+    return true;
+  });
+  const stderrWrite = mock.method(process.stderr, 'write', (chunk: string) => {
+    stderr += chunk;
+    return true;
+  });
+  const consoleInfo = mock.method(console, 'info', (message: string) => {
+    stdout += `${message}\n`;
+  });
+  try {
+    return { code: await main(argv), stdout, stderr };
+  } finally {
+    stdoutWrite.mock.restore();
+    stderrWrite.mock.restore();
+    consoleInfo.mock.restore();
+    console.log = consoleLog;
+  }
+}
+
+test('prompt files skip blank lines and # comments', () => {
+  assert.deepEqual(parsePromptLines('# header\n\n  a lighthouse  \r\n#skip\n{red|blue} kite\n'), [
+    'a lighthouse',
+    '{red|blue} kite'
+  ]);
+});
+
+test('generate writes images and sidecars for flags and a prompts file', async () => {
+  const outDir = path.join(workDir, 'mock-out');
+  const promptsFile = path.join(workDir, 'prompts.txt');
+  await writeFile(promptsFile, '# batch\n\n{red|blue} kite\n');
+
+  const { code, stdout } = await runCli([
+    'generate',
+    '-p', 'a lighthouse at dusk',
+    '-f', promptsFile,
+    '--provider', 'mock',
+    '--ar', '16:9',
+    '-r', '2K',
+    '-w', workDir,
+    '-o', outDir
+  ]);
+
+  assert.equal(code, 0);
+  const files = (await readdir(outDir)).sort();
+  assert.deepEqual(files, [
+    '001-01.json', '001-01.png',
+    '002-01.json', '002-01.png',
+    '002-02.json', '002-02.png'
+  ]);
+  assert.deepEqual(
+    stdout.trim().split('\n').filter((line) => line.endsWith('.png')).map((line) => path.basename(line)).sort(),
+    ['001-01.png', '002-01.png', '002-02.png']
+  );
+
+  const sidecar = JSON.parse(await readFile(path.join(outDir, '002-02.json'), 'utf8'));
+  assert.equal(sidecar.status, 'success');
+  assert.equal(sidecar.provider, 'mock');
+  assert.equal(sidecar.template, '{red|blue} kite');
+  assert.equal(sidecar.prompt, 'blue kite');
+  assert.equal(sidecar.aspectRatio, '16:9');
+  assert.equal(sidecar.resolution, '2K');
+  assert.equal(sidecar.image, '002-02.png');
+
+  const png = await readFile(path.join(outDir, '001-01.png'));
+  assert.equal(png.subarray(1, 4).toString('ascii'), 'PNG');
+});
+
+test('failed slots exit with 1 and leave an error sidecar', async () => {
+  const outDir = path.join(workDir, 'replay-out');
+  const { code } = await runCli([
+    'generate',
+    '-p', 'a lighthouse at dusk',
+    '-n', '2',
+    '--provider', 'openai',
+    '--base-url', 'https://api.example.com/v1',
+    '--model', 'gpt-image-2',
+    '--replay', new URL('../core/fixtures/openai-images.json', import.meta.url).pathname,
+    '-w', workDir,
+    '-o', outDir
+  ]);
+
+  assert.equal(code, 1);
+  const sidecars = await Promise.all(
+    ['001-01.json', '001-02.json'].map(async (name) => JSON.parse(await readFile(path.join(outDir, name), 'utf8')))
+  );
+  assert.deepEqual(sidecars.map((sidecar) => sidecar.status).sort(), ['failed', 'success']);
+  assert.equal(sidecars.find((sidecar) => sidecar.status === 'failed').error.kind, 'moderation');
+});
+
+test('runtime errors exit with 1, invalid usage with 2', async () => {
+  const missingFile = await runCli(['generate', '-f', path.join(workDir, 'missing.txt'), '--provider', 'mock']);
+  assert.equal(missingFile.code, 1);
+  assert.match(missingFile.stderr, /^Error: ENOENT/);
+
+  const unknownProvider = await runCli(['generate', '-p', 'x', '--provider', 'nope', '-w', workDir]);
+  assert.equal(unknownProvider.code, 1);
+
+  for (const argv of [
+    [],
+    ['paint'],
+    ['generate'],
+    ['generate', '-p', 'x', '--ar', '7:5'],
+    ['generate', '-p', 'x', '-n', '0'],
+    ['generate', '-p', 'x', '--record', 'a.json', '--replay', 'b.json'],
+    ['generate', '--unknown-flag']
+  ]) {
+    const { code } = await runCli(argv);
+    assert.equal(code, 2, `expected usage error for ${JSON.stringify(argv)}`);
+  }
+
+  const help = await runCli(['generate', '--help']);
+  assert.equal(help.code, 0);
+  assert.match(help.stdout, /^Usage: banana-batch generate/);
+});
@@ -0,0 +1,286 @@
+#!/usr/bin/env -S node --experimental-transform-types --no-warnings
+import { realpathSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  ASPECT_RATIO_OPTIONS,
+  type AspectRatio,
+  type Resolution
+} from '../types.ts';
+import {
+  createPendingGenerationSlots,
+  getGenerationSlotProgress,
+  readFallbackProvidersFromEnv,
+  readProviderConfigFromEnv,
+  resolveSettings,
+  runImageGeneration,
+  toSlotDescriptors,
+  applyGenerationSlotResult,
+  applyProviderDefaults,
+  configureGenerationScheduler,
+  expandBatchPrompts,
+  readSchedulerLimitsFromEnv,
+  requireImageProvider,
+  type WildcardLists
+} from '../core/index.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+import { startHttpCapture } from './httpFixtures.ts';
+import { readReferenceImage } from './images.ts';
+import { writeSlotOutput } from './output.ts';
+import { loadWildcardDirectory } from './wildcards.ts';
+
+const USAGE = `Usage: banana-batch generate [options]
+
+Options:
+  -p, --prompt <text>        Prompt to generate (repeatable)
+  -f, --prompts-file <path>  Read prompts from a file, one per line (# comments allowed)
+  -n, --n <count>            Images per prompt or per template variant (1-20, default 1)
+      --ar <ratio>           Aspect ratio, e.g. 16:9 (default Auto)
+  -r, --resolution <res>     1K | 2K | 4K (default 1K)
+  -i, --image <path>         Reference image (repeatable)
+  -o, --out <dir>            Output directory (default ./banana-output)
+      --provider <id>        Provider id (env BANANA_PROVIDER)
+      --model <name>         Model name (env BANANA_MODEL)
+      --base-url <url>       Base URL (env BANANA_BASE_URL)
+      --api-key <key>        API key (env BANANA_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY)
+  -w, --wildcards <dir>      Wildcard lists for __name__ (default ./wildcards if present)
+      --record <file>        Save sanitized provider HTTP traffic to a fixture file
+      --replay <file>        Serve provider HTTP traffic from a fixture instead of the network
+  -v, --verbose              Forward provider debug logs to stderr
+  -h, --help                 Show this help
+
+Prompts may be templates: {red|blue} car, __color__ car, [oil,ink]×[day,night].
+
+Concurrent requests are capped by BANANA_MAX_CONCURRENCY (all providers) and
+BANANA_PROVIDER_CONCURRENCY (per provider); both default to 10.
+BANANA_MAX_ATTEMPTS sets how many attempts each image gets (default 4).
+BANANA_FALLBACK_PROVIDERS takes a JSON array of provider configs tried in order
+when an image fails with a network, 429 or 5xx error.
+
+Exit codes: 0 all slots succeeded, 1 some slots failed or were cancelled or the run
+hit an error, 2 invalid usage.`;
+
+class UsageError extends Error {}
+
+export function parsePromptLines(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+function parseAspectRatio(value: string | undefined): AspectRatio {
+  if (!value) return 'Auto';
+  const option = ASPECT_RATIO_OPTIONS.find(
+    (candidate) => candidate.value.toLowerCase() === value.toLowerCase()
+  );
+  if (!option) {
+    throw new UsageError(
+      `Unknown aspect ratio "${value}". Use one of: ${ASPECT_RATIO_OPTIONS.map((o) => o.value).join(', ')}`
+    );
+  }
+  return option.value;
+}
+
+function parseResolution(value: string | undefined): Resolution {
+  const normalized = (value ?? '1K').toUpperCase();
+  if (normalized !== '1K' && normalized !== '2K' && normalized !== '4K') {
+    throw new UsageError(`Unknown resolution "${value}". Use 1K, 2K or 4K.`);
+  }
+  return normalized;
+}
+
+function parseBatchSize(value: string | undefined): number {
+  const batchSize = value === undefined ? 1 : Number(value);
+  const { MIN_BATCH_SIZE, MAX_BATCH_SIZE } = VALIDATION_LIMITS;
+  if (!Number.isInteger(batchSize) || batchSize < MIN_BATCH_SIZE || batchSize > MAX_BATCH_SIZE) {
+    throw new UsageError(`Invalid --n "${value}": expected an integer between ${MIN_BATCH_SIZE} and ${MAX_BATCH_SIZE}.`);
+  }
+  return batchSize;
+}
+
+async function readWildcards(dir: string | undefined): Promise<WildcardLists> {
+  try {
+    return await loadWildcardDirectory(path.resolve(dir ?? 'wildcards'));
+  } catch (error) {
+    // The default directory is optional; an explicit one must exist.
+    if (!dir && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+async function runGenerate(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      prompt: { type: 'string', short: 'p', multiple: true },
+      'prompts-file': { type: 'string', short: 'f' },
+      n: { type: 'string', short: 'n' },
+      ar: { type: 'string' },
+      resolution: { type: 'string', short: 'r' },
+      image: { type: 'string', short: 'i', multiple: true },
+      out: { type: 'string', short: 'o' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      wildcards: { type: 'string', short: 'w' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    },
+    strict: true
+  });
+
+  if (values.help) {
+    console.info(USAGE);
+    return 0;
+  }
+
+  const prompts = [...(values.prompt ?? [])];
+  if (values['prompts-file']) {
+    prompts.push(...parsePromptLines(await readFile(values['prompts-file'], 'utf8')));
+  }
+  if (prompts.length === 0) {
+    throw new UsageError('Provide at least one --prompt or a --prompts-file.');
+  }
+  if (values.record && values.replay) {
+    throw new UsageError('--record and --replay cannot be used together.');
+  }
+
+  // Services print verbose request/response dumps through console.log; keep
+  // stdout clean for pipelines unless explicitly asked for.
+  console.log = values.verbose ? console.error : () => {};
+
+  const envConfig = readProviderConfigFromEnv(process.env, values.provider);
+  if (envConfig.provider) requireImageProvider(envConfig.provider);
+  configureGenerationScheduler(readSchedulerLimitsFromEnv(process.env));
+  const settings = resolveSettings(
+    {
+      batchSize: parseBatchSize(values.n),
+      aspectRatio: parseAspectRatio(values.ar),
+      resolution: parseResolution(values.resolution),
+      fallbackProviders: readFallbackProvidersFromEnv(process.env)
+    },
+    applyProviderDefaults({
+      ...envConfig,
+      ...(values.model ? { model: values.model } : {}),
+      ...(values['base-url'] ? { baseUrl: values['base-url'] } : {}),
+      ...(values['api-key'] ? { apiKey: values['api-key'] } : {})
+    })
+  );
+  // Replayed traffic never reaches the provider, so any well-formed key will do.
+  if (values.replay && !settings.providerConfig.apiKey) {
+    settings.providerConfig.apiKey = 'replay-placeholder-key';
+  }
+  const wildcards = await readWildcards(values.wildcards);
+  // Expand every template up front so a bad template fails before any request.
+  const promptSlots = prompts.map((prompt) =>
+    expandBatchPrompts(prompt, settings.batchSize, { wildcards })
+  );
+  const uploadedImages = await Promise.all((values.image ?? []).map(readReferenceImage));
+  const outDir = path.resolve(values.out ?? 'banana-output');
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    process.stderr.write('\nCancelling...\n');
+    controller.abort();
+  });
+
+  const capture = await startHttpCapture({
+    recordPath: values.record,
+    replayPath: values.replay,
+    secrets: [settings.providerConfig.apiKey]
+  });
+
+  let failedSlots = 0;
+  try {
+    for (const [promptIndex, prompt] of prompts.entries()) {
+      if (controller.signal.aborted) break;
+
+      let slots = createPendingGenerationSlots(promptSlots[promptIndex]);
+      const slotPrompts = new Map(slots.map((slot) => [slot.slotId, slot.prompt]));
+      const writes: Promise<void>[] = [];
+      const context = {
+        outDir,
+        promptNumber: promptIndex + 1,
+        prompt,
+        provider: settings.providerConfig.provider,
+        model: settings.providerConfig.model,
+        aspectRatio: settings.aspectRatio,
+        resolution: settings.resolution
+      };
+
+      process.stderr.write(`[${promptIndex + 1}/${prompts.length}] ${prompt}\n`);
+
+      await runImageGeneration({
+        prompt,
+        uploadedImages,
+        settings,
+        slots: toSlotDescriptors(slots),
+        signal: controller.signal,
+        callbacks: {
+          onSlotResult: (result) => {
+            slots = applyGenerationSlotResult(slots, result);
+            writes.push(
+              writeSlotOutput(context, result, slotPrompts.get(result.slotId)).then(({ imagePath, sidecarPath }) => {
+                const label = `  slot ${result.index + 1}:`;
+                if (result.status === 'success') {
+                  process.stdout.write(`${imagePath}\n`);
+                } else if (result.status === 'failed') {
+                  process.stderr.write(`${label} failed - ${result.error.message.split('\n').at(-1)} (${sidecarPath})\n`);
+                } else {
+                  process.stderr.write(`${label} cancelled - ${result.reason}\n`);
+                }
+              })
+            );
+          },
+          onText: (text) => process.stderr.write(`  text: ${text}\n`)
+        }
+      });
+      await Promise.all(writes);
+
+      const progress = getGenerationSlotProgress(slots);
+      failedSlots += progress.failed + progress.cancelled + progress.pending;
+      process.stderr.write(
+        `  ${progress.succeeded} succeeded, ${progress.failed} failed` +
+        `${progress.cancelled > 0 ? `, ${progress.cancelled} cancelled` : ''}\n`
+      );
+    }
+  } finally {
+    const fixturePath = await capture.finish();
+    if (fixturePath) process.stderr.write(`Recorded HTTP fixture: ${fixturePath}\n`);
+  }
+
+  return failedSlots > 0 || controller.signal.aborted ? 1 : 0;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  try {
+    if (!command || command === 'help' || command === '--help' || command === '-h') {
+      console.info(USAGE);
+      return command ? 0 : 2;
+    }
+    if (command === 'generate') {
+      return await runGenerate(rest);
+    }
+    throw new UsageError(`Unknown command "${command}".`);
+  } catch (error) {
+    if (error instanceof UsageError || (error instanceof TypeError && 'code' in error)) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      return 2;
+    }
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+// Resolve the npm bin symlink and URL-encode the path before comparing.
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  process.exitCode = await main(process.argv.slice(2));
+}
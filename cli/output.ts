@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { GenerationSlotResult } from '../types.ts';
+import { readImageBytes } from './images.ts';
+
+export interface SlotOutputContext {
+  outDir: string;
+  promptNumber: number;
+  prompt: string;
+  provider: string;
+  model?: string;
+  aspectRatio: string;
+  resolution: string;
+}
+
+export interface WrittenSlotOutput {
+  imagePath?: string;
+  sidecarPath: string;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export function getSlotBaseName(promptNumber: number, slotIndex: number): string {
+  return `${String(promptNumber).padStart(3, '0')}-${String(slotIndex + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Writes one slot result as `<prompt>-<slot>.<ext>` plus a `.json` sidecar.
+ * Failed and cancelled slots only get the sidecar. `slotPrompt` is the
+ * resolved prompt when `context.prompt` is a dynamic template.
+ */
+export async function writeSlotOutput(
+  context: SlotOutputContext,
+  result: GenerationSlotResult,
+  slotPrompt = context.prompt
+): Promise<WrittenSlotOutput> {
+  await mkdir(context.outDir, { recursive: true });
+  const baseName = getSlotBaseName(context.promptNumber, result.index);
+  const sidecarPath = path.join(context.outDir, `${baseName}.json`);
+  const source = result.status === 'success' ? result.source : undefined;
+  const sidecar: Record<string, unknown> = {
+    slotId: result.slotId,
+    index: result.index,
+    status: result.status,
+    attempts: result.attempts,
+    prompt: slotPrompt,
+    ...(slotPrompt !== context.prompt ? { template: context.prompt } : {}),
+    // A fallback provider may have produced the image instead of the configured one.
+    provider: source?.provider ?? context.provider,
+    model: source ? source.model : context.model,
+    ...(source?.fallbackIndex !== undefined ? { fallbackIndex: source.fallbackIndex } : {}),
+    aspectRatio: context.aspectRatio,
+    resolution: context.resolution,
+    createdAt: new Date().toISOString()
+  };
+
+  let imagePath: string | undefined;
+  if (result.status === 'success') {
+    const { bytes, mimeType } = await readImageBytes(result.image.data);
+    const finalMimeType = mimeType || result.image.mimeType;
+    imagePath = path.join(context.outDir, `${baseName}.${MIME_EXTENSIONS[finalMimeType] ?? 'png'}`);
+    await writeFile(imagePath, bytes);
+    sidecar.image = path.basename(imagePath);
+    sidecar.mimeType = finalMimeType;
+    sidecar.bytes = bytes.length;
+  } else if (result.status === 'failed') {
+    sidecar.error = result.error;
+  } else {
+    sidecar.reason = result.reason;
+  }
+
+  await writeFile(sidecarPath, `${JSON.stringify(sidecar, null, 2)}\n`);
+  return { imagePath, sidecarPath };
+}
@@ -0,0 +1,21 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseWildcardEntries, type WildcardLists } from '../core/promptTemplate.ts';
+
+/**
+ * Loads every `*.txt` file below `dir` as a wildcard list. Names are the
+ * relative path without extension, so `colors/warm.txt` is `__colors/warm__`.
+ */
+export async function loadWildcardDirectory(dir: string): Promise<WildcardLists> {
+  const wildcards: Record<string, string[]> = {};
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isFile() || path.extname(entry.name).toLowerCase() !== '.txt') continue;
+    const filePath = path.join(entry.parentPath, entry.name);
+    const name = path.relative(dir, filePath).slice(0, -'.txt'.length).split(path.sep).join('/');
+    wildcards[name] = parseWildcardEntries(await readFile(filePath, 'utf8'));
+  }
+
+  return wildcards;
+}
@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle2, Clock, FileSpreadsheet, ImagePlus, Loader2, XCircle } from 'lucide-react';
+import type { UploadedImage } from '../types';
+import {
+  detectBatchImportFormat,
+  getReferencedFileNames,
+  parseBatchImport,
+  resolveBatchReferences,
+  type BatchImportJob,
+  type BatchImportRowProgress
+} from '../core/batchImport';
+import { generateUUID } from '../utils/uuid';
+import { getUserErrorMessage } from '../utils/errorHandler';
+import { validateImageMimeType, validateImageSize } from '../utils/validation';
+import { optimizeImage, shouldOptimizeImage } from '../utils/imageOptimizer';
+
+interface BatchImportPanelProps {
+  onImport: (jobs: BatchImportJob[], sourceName: string) => void;
+  rows: BatchImportRowProgress[]; // Progress of the current session's import, if any
+  theme: 'light' | 'dark';
+}
+
+async function readReferenceFile(file: File): Promise<UploadedImage> {
+  validateImageMimeType(file.type);
+  validateImageSize(file.size);
+
+  if (shouldOptimizeImage(file)) {
+    const optimized = await optimizeImage(file);
+    return { id: generateUUID(), data: optimized.data, mimeType: optimized.mimeType, name: file.name };
+  }
+
+  const data = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`读取图片 "${file.name}" 失败`));
+    reader.readAsDataURL(file);
+  });
+  return { id: generateUUID(), data, mimeType: file.type, name: file.name };
+}
+
+const BatchImportPanel: React.FC<BatchImportPanelProps> = ({ onImport, rows, theme }) => {
+  const isLight = theme === 'light';
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const sourceInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async () => {
+    if (!sourceFile) return;
+    setIsImporting(true);
+    try {
+      const content = await sourceFile.text();
+      const parsedRows = parseBatchImport(content, detectBatchImportFormat(sourceFile.name, content));
+
+      const neededNames = new Set(getReferencedFileNames(parsedRows));
+      const loaded = await Promise.all(
+        referenceFiles.filter((file) => neededNames.has(file.name)).map(readReferenceFile)
+      );
+      const jobs = resolveBatchReferences(
+        parsedRows,
+        new Map(loaded.map((image) => [image.name ?? '', image]))
+      );
+
+      onImport(jobs, sourceFile.name);
+      setSourceFile(null);
+      setReferenceFiles([]);
+    } catch (error) {
+      alert(`导入失败：${getUserErrorMessage(error)}`);
+    } finally {
+      setIsImporting(false);
+      if (sourceInputRef.current) sourceInputRef.current.value = '';
+      if (referenceInputRef.current) referenceInputRef.current.value = '';
+    }
+  };
+
+  const pickerClassName = `w-full flex items-center space-x-2 px-3 py-2 rounded-lg border text-sm text-left transition-colors ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-700 hover:border-gray-400'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-300 hover:border-zinc-700'
+  }`;
+  const mutedClassName = isLight ? 'text-gray-500' : 'text-zinc-500';
+
+  return (
+    <div className="p-4 space-y-3">
+      <div>
+        <h3 className={`text-sm font-semibold ${isLight ? 'text-gray-900' : 'text-zinc-100'}`}>批量导入任务</h3>
+        <p className={`text-xs mt-1 ${mutedClassName}`}>
+          CSV 或 JSONL，每行一个任务：<code>prompt</code>、<code>aspectRatio</code>、<code>resolution</code>、
+          <code>batchSize</code>、<code>references</code>（文件名或 Data URI，多个用 <code>;</code> 分隔）。
+          每行会在新会话中生成一组对话。
+        </p>
+      </div>
+
+      <button type="button" onClick={() => sourceInputRef.current?.click()} className={pickerClassName}>
+        <FileSpreadsheet size={16} />
+        <span className="truncate">{sourceFile ? sourceFile.name : '选择 CSV / JSONL 文件'}</span>
+      </button>
+      <input
+        ref={sourceInputRef}
+        type="file"
+        accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+        onChange={(e) => setSourceFile(e.target.files?.[0] ?? null)}
+        className="hidden"
+      />
+
+      <button type="button" onClick={() => referenceInputRef.current?.click()} className={pickerClassName}>
+        <ImagePlus size={16} />
+        <span className="truncate">
+          {referenceFiles.length > 0 ? `已选择 ${referenceFiles.length} 张参考图` : '选择参考图片（可选）'}
+        </span>
+      </button>
+      <input
+        ref={referenceInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={(e) => setReferenceFiles(Array.from(e.target.files ?? []))}
+        className="hidden"
+      />
+
+      <button
+        type="button"
+        onClick={() => void handleImport()}
+        disabled={!sourceFile || isImporting}
+        className="w-full flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isImporting ? <Loader2 size={16} className="animate-spin" /> : <FileSpreadsheet size={16} />}
+        <span>导入并开始生成</span>
+      </button>
+
+      {rows.length > 0 && (
+        <div className={`border-t pt-3 ${isLight ? 'border-gray-200' : 'border-zinc-800'}`}>
+          <div className={`text-xs mb-2 ${mutedClassName}`}>
+            当前会话进度：{rows.filter((row) => row.progress.pending === 0).length}/{rows.length} 行完成
+          </div>
+          <ul className="max-h-64 overflow-y-auto space-y-1">
+            {rows.map((row) => {
+              const { progress } = row;
+              const isDone = progress.pending === 0;
+              const hasProblems = progress.failed + progress.cancelled > 0;
+              return (
+                <li key={row.modelMessageId} className="flex items-center space-x-2 text-xs">
+                  {!isDone ? (
+                    <Clock size={12} className={mutedClassName} />
+                  ) : hasProblems ? (
+                    <XCircle size={12} className="text-red-500" />
+                  ) : (
+                    <CheckCircle2 size={12} className="text-green-500" />
+                  )}
+                  <span className={`w-10 shrink-0 ${mutedClassName}`}>#{row.rowNumber}</span>
+                  <span className={`flex-1 truncate ${isLight ? 'text-gray-700' : 'text-zinc-300'}`} title={row.prompt}>
+                    {row.prompt}
+                  </span>
+                  <span className={`shrink-0 tabular-nums ${mutedClassName}`}>
+                    {progress.succeeded}/{progress.total}
+                    {hasProblems && <span className="text-red-500"> · {progress.failed + progress.cancelled} 失败</span>}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchImportPanel;
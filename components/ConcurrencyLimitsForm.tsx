@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import type { SchedulerLimits } from '../core/generationScheduler';
+import { VALIDATION_LIMITS } from '../utils/validation';
+
+interface ConcurrencyLimitsFormProps {
+  limits: SchedulerLimits;
+  providerId: string; // Provider whose override is edited
+  onSave: (limits: SchedulerLimits) => void;
+  theme: 'light' | 'dark';
+}
+
+function clampLimit(value: string, fallback: number): number {
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed)) return fallback;
+  return Math.min(Math.max(parsed, 1), VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT);
+}
+
+const ConcurrencyLimitsForm: React.FC<ConcurrencyLimitsFormProps> = ({
+  limits,
+  providerId,
+  onSave,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const providerLimit = limits.providerLimits?.[providerId] ?? limits.providerLimit;
+  const [globalText, setGlobalText] = useState(String(limits.globalLimit));
+  const [providerText, setProviderText] = useState(String(providerLimit));
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setGlobalText(String(limits.globalLimit));
+    setProviderText(String(providerLimit));
+  }, [limits.globalLimit, providerLimit]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    isLight ? 'text-gray-600' : 'text-zinc-400'
+  }`;
+
+  const handleSave = () => {
+    onSave({
+      ...limits,
+      globalLimit: clampLimit(globalText, limits.globalLimit),
+      providerLimits: {
+        ...limits.providerLimits,
+        [providerId]: clampLimit(providerText, providerLimit)
+      }
+    });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div className="flex items-end space-x-2">
+      <div className="flex-1">
+        <label className={labelClassName}>全局并发上限</label>
+        <input
+          type="number"
+          min={1}
+          max={VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT}
+          value={globalText}
+          onChange={(e) => setGlobalText(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex-1">
+        <label className={labelClassName}>{providerId} 并发上限</label>
+        <input
+          type="number"
+          min={1}
+          max={VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT}
+          value={providerText}
+          onChange={(e) => setProviderText(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <button
+        onClick={handleSave}
+        className={`p-2 rounded-lg transition-all ${
+          saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+        } text-white`}
+        title="保存并发上限"
+      >
+        <Check size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default ConcurrencyLimitsForm;
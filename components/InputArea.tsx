@@ -1,6 +1,6 @@
-import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, KeyboardEvent, DragEvent } from 'react';
-import { SendHorizontal, Square, X, Loader2, ImagePlus } from 'lucide-react';
-import { UploadedImage } from '../types';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo, KeyboardEvent, DragEvent } from 'react';
+import { SendHorizontal, Square, X, Loader2, ImagePlus, ListPlus, Columns2, Eye, EyeOff, Brush } from 'lucide-react';
+import { ConversationContext, ImageMask, UploadedImage } from '../types';
 import { generateUUID } from '../utils/uuid';
 import {
   validateImageSize,
@@ -10,22 +10,84 @@ import {
 } from '../utils/validation';
 import { getUserErrorMessage } from '../utils/errorHandler';
 import { optimizeImage, shouldOptimizeImage } from '../utils/imageOptimizer';
+import { formatCost, type CostPreview } from '../core/pricing';
+import {
+  DEFAULT_CONVERSATION_CONTEXT,
+  describeConversationContext,
+  getRecentTurnLimit
+} from '../core/conversationContext';
+import type { GenerationRequestPreview } from '../core/requestPreview';
+import RequestInspector from './RequestInspector';
+import MaskEditor from './MaskEditor';
+
+// Selected history images the user left out of this send, if any.
+type SubmitHandler = (text: string, images?: UploadedImage[], excludedImageIds?: string[]) => void;
 
 interface InputAreaProps {
-  onSend: (text: string, images?: UploadedImage[]) => void;
+  onSend: SubmitHandler;
+  // Adds the prompt to the queue instead of sending it now.
+  onEnqueue?: SubmitHandler;
+  // Sends the prompt to every compare target at once.
+  onCompare?: SubmitHandler;
+  compareCount?: number; // Providers a compare send fans out to
   onStop: () => void;
   disabled: boolean;
   theme: 'light' | 'dark';
   prefillRequest?: { text: string; images?: UploadedImage[] };
+  // Resolves a (possibly templated) prompt into one prompt per slot.
+  expandPrompt?: (text: string) => string[];
+  // Cost estimate and budget state for sending `text` now.
+  previewCost?: (text: string, compare: boolean) => CostPreview;
+  // The current session's conversation context mode.
+  context?: ConversationContext;
+  onContextChange?: (context: ConversationContext) => void;
+  // What sending `text` now would send: images in order, final prompt, size.
+  previewRequest?: (
+    text: string,
+    images: UploadedImage[] | undefined,
+    excludedImageIds: string[]
+  ) => GenerationRequestPreview;
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme, prefillRequest }) => {
+const CONTEXT_OPTIONS: ConversationContext[] = [
+  { mode: 'images' },
+  { mode: 'recent', recentTurns: 1 },
+  { mode: 'recent', recentTurns: 3 },
+  { mode: 'recent', recentTurns: 5 },
+  { mode: 'full' }
+];
+
+const InputArea: React.FC<InputAreaProps> = ({
+  onSend,
+  onEnqueue,
+  onCompare,
+  compareCount = 0,
+  onStop,
+  disabled,
+  theme,
+  prefillRequest,
+  expandPrompt,
+  previewCost,
+  context = DEFAULT_CONVERSATION_CONTEXT,
+  onContextChange,
+  previewRequest
+}) => {
   const isLight = theme === 'light';
+  const contextOptionIndex = Math.max(
+    CONTEXT_OPTIONS.findIndex((option) =>
+      option.mode === context.mode &&
+      (option.mode !== 'recent' || getRecentTurnLimit(option) === getRecentTurnLimit(context))
+    ),
+    0
+  );
   const [text, setText] = useState('');
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [excludedImageIds, setExcludedImageIds] = useState<string[]>([]);
   const [isProcessingImages, setIsProcessingImages] = useState(false);
   const [draggingImageId, setDraggingImageId] = useState<string | null>(null);
+  const [maskingImageId, setMaskingImageId] = useState<string | null>(null);
   const [dragOverImageId, setDragOverImageId] = useState<string | null>(null);
   const [dragOverPosition, setDragOverPosition] = useState<'before' | 'after'>('before');
   const dragCounterRef = useRef(0);
@@ -257,6 +319,13 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
     }
   };
 
+  const maskingImage = uploadedImages.find((img) => img.id === maskingImageId);
+  const closeMaskEditor = useCallback(() => setMaskingImageId(null), []);
+
+  const setImageMask = (id: string, mask: ImageMask | undefined) => {
+    setUploadedImages((prev) => prev.map((img) => (img.id === id ? { ...img, mask } : img)));
+  };
+
   const removeImage = (id: string) => {
     setUploadedImages((prev) => prev.filter((img) => img.id !== id));
   };
@@ -360,14 +429,73 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
     resetImageSortDragState();
   };
 
-  const handleSend = () => {
+  const expansion = useMemo(() => {
+    if (!expandPrompt || !text.trim()) return null;
+    try {
+      const prompts = expandPrompt(text.trim());
+      return { variants: new Set(prompts).size, slots: prompts.length, error: undefined };
+    } catch (error) {
+      return { variants: 0, slots: 0, error: getUserErrorMessage(error) };
+    }
+  }, [expandPrompt, text]);
+
+  const hasInput = !!text.trim() || uploadedImages.length > 0;
+  const costPreview = useMemo(
+    () => (previewCost && hasInput ? previewCost(text.trim(), false) : null),
+    [previewCost, hasInput, text]
+  );
+  const compareCostPreview = useMemo(
+    () => (previewCost && onCompare && hasInput ? previewCost(text.trim(), true) : null),
+    [previewCost, onCompare, hasInput, text]
+  );
+
+  const isSendBlocked = costPreview?.budget.status === 'block';
+
+  // Only built while the inspector is open; it walks the whole history.
+  const requestPreview = useMemo(() => {
+    if (!isInspectorOpen || !previewRequest) return null;
+    try {
+      return { preview: previewRequest(text.trim(), uploadedImages.length > 0 ? uploadedImages : undefined, excludedImageIds) };
+    } catch (error) {
+      return { error: getUserErrorMessage(error) };
+    }
+  }, [isInspectorOpen, previewRequest, text, uploadedImages, excludedImageIds]);
+
+  const toggleExcludedImage = (imageId: string) => {
+    setExcludedImageIds((prev) =>
+      prev.includes(imageId) ? prev.filter((id) => id !== imageId) : [...prev, imageId]
+    );
+  };
+
+  const formatEstimate = (preview: CostPreview) => {
+    const { total, images, unpricedImages } = preview.estimate;
+    if (unpricedImages === images) return '未定价';
+    return `约 ${formatCost(total)}${unpricedImages > 0 ? `（${unpricedImages} 张未定价）` : ''}`;
+  };
+
+  const submit = (target: SubmitHandler, preview?: CostPreview | null) => {
+    if (expansion?.error) {
+      alert(expansion.error);
+      return;
+    }
+    if (preview?.budget.status === 'block') {
+      alert(preview.budget.message);
+      return;
+    }
     if ((text.trim() || uploadedImages.length > 0) && !isProcessingImages) {
-      onSend(text.trim(), uploadedImages.length > 0 ? uploadedImages : undefined);
+      target(
+        text.trim(),
+        uploadedImages.length > 0 ? uploadedImages : undefined,
+        excludedImageIds.length > 0 ? excludedImageIds : undefined
+      );
       setText('');
       setUploadedImages([]);
+      setExcludedImageIds([]);
     }
   };
 
+  const handleSend = () => submit(onSend, costPreview);
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -464,7 +592,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
                     group-hover:scale-105
                   `}>
                     <img 
-                      src={img.data} 
+                      src={img.mask?.annotated ?? img.data} 
                       alt={img.name || `图${chineseNumber}`}
                       className="w-full h-full object-cover"
                     />
@@ -478,6 +606,22 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
                     `}>
                       {imageNumber}
                     </div>
+                    <button
+                      type="button"
+                      onClick={() => setMaskingImageId(img.id)}
+                      disabled={isProcessingImages}
+                      className={`
+                        absolute bottom-1 right-1 w-6 h-6 rounded-md flex items-center justify-center backdrop-blur-sm
+                        transition-opacity duration-200
+                        ${img.mask
+                          ? 'bg-red-500/90 text-white'
+                          : 'bg-black/50 text-white opacity-0 group-hover:opacity-100'
+                        }
+                      `}
+                      title={img.mask ? '编辑遮罩（只修改涂抹区域）' : '涂抹遮罩，只修改选中区域'}
+                    >
+                      <Brush size={13} />
+                    </button>
                   </div>
                   <button
                     onClick={() => removeImage(img.id)}
@@ -500,6 +644,25 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
           </div>
         )}
 
+        {maskingImage && (
+          <MaskEditor
+            image={maskingImage}
+            theme={theme}
+            onSave={(mask) => setImageMask(maskingImage.id, mask)}
+            onClose={closeMaskEditor}
+          />
+        )}
+
+        {requestPreview && (
+          <RequestInspector
+            preview={requestPreview.preview}
+            error={requestPreview.error}
+            context={context}
+            theme={theme}
+            onToggleImage={toggleExcludedImage}
+          />
+        )}
+
         <div className="relative">
           <textarea
             ref={textareaRef}
@@ -515,7 +678,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
                 : '描述你想要生成的图片，或拖放图片到这里...'
             }
             className={`
-              w-full border-0 rounded-2xl py-4 pl-5 pr-28
+              w-full border-0 rounded-2xl py-4 pl-5 ${['pr-28', 'pr-40', 'pr-52'][Number(!!onEnqueue) + Number(!!onCompare)]}
               focus:ring-2 focus:ring-indigo-500/50 focus:outline-none
               resize-none min-h-[64px] max-h-[160px]
               shadow-lg disabled:opacity-50 disabled:cursor-not-allowed
@@ -529,6 +692,33 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
             rows={1}
           />
 
+          {expansion && (expansion.error || expansion.variants > 1) && (
+            <div className={`absolute left-5 -top-6 text-xs ${
+              expansion.error
+                ? 'text-red-500'
+                : isLight ? 'text-indigo-600' : 'text-indigo-400'
+            }`}>
+              {expansion.error ?? `动态提示词：${expansion.variants} 个变体，共 ${expansion.slots} 张`}
+            </div>
+          )}
+
+          {costPreview && (
+            <div
+              className={`absolute right-5 -top-6 text-xs ${
+                costPreview.budget.status === 'block'
+                  ? 'text-red-500'
+                  : costPreview.budget.status === 'warn'
+                  ? 'text-amber-500'
+                  : isLight ? 'text-gray-400' : 'text-zinc-500'
+              }`}
+              title={costPreview.budget.message}
+            >
+              {formatEstimate(costPreview)}
+              {costPreview.budget.status === 'block' && ' · 已达预算上限'}
+              {costPreview.budget.status === 'warn' && ' · 超出预算'}
+            </div>
+          )}
+
           {/* Hidden file input */}
           <input
             ref={fileInputRef}
@@ -578,13 +768,57 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
                 <Square size={18} fill="currentColor" />
               </button>
             )}
+            {onCompare && (
+              <button
+                onClick={() => submit(onCompare, compareCostPreview)}
+                disabled={
+                  (!text.trim() && uploadedImages.length === 0) ||
+                  isProcessingImages ||
+                  compareCostPreview?.budget.status === 'block'
+                }
+                className={`
+                  w-10 h-10 rounded-xl
+                  flex items-center justify-center transition-all duration-200
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  ${isLight
+                    ? 'bg-gray-100 text-gray-600 hover:bg-gray-200 border border-gray-300 hover:border-gray-400 shadow-md'
+                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 shadow-md'
+                  }
+                `}
+                title={[
+                  `对比发送（${compareCount} 个 Provider 并排生成）`,
+                  compareCostPreview && formatEstimate(compareCostPreview),
+                  compareCostPreview?.budget.message
+                ].filter(Boolean).join('\n')}
+              >
+                <Columns2 size={20} />
+              </button>
+            )}
+            {onEnqueue && (
+              <button
+                onClick={() => submit(onEnqueue)}
+                disabled={(!text.trim() && uploadedImages.length === 0) || isProcessingImages}
+                className={`
+                  w-10 h-10 rounded-xl
+                  flex items-center justify-center transition-all duration-200
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  ${isLight
+                    ? 'bg-gray-100 text-gray-600 hover:bg-gray-200 border border-gray-300 hover:border-gray-400 shadow-md'
+                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 shadow-md'
+                  }
+                `}
+                title="加入队列（使用当前设置）"
+              >
+                <ListPlus size={20} />
+              </button>
+            )}
             <button
               onClick={handleSend}
-              disabled={(!text.trim() && uploadedImages.length === 0) || isProcessingImages}
+              disabled={!hasInput || isProcessingImages || isSendBlocked}
               className={`
                 w-10 h-10 rounded-xl
                 flex items-center justify-center transition-all duration-200
-                ${((!text.trim() && uploadedImages.length === 0) || isProcessingImages)
+                ${(!hasInput || isProcessingImages || isSendBlocked)
                   ? (isLight
                       ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
                       : 'bg-zinc-800 text-zinc-600 cursor-not-allowed')
@@ -596,6 +830,8 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
               title={
                 isProcessingImages
                   ? "正在处理图片..."
+                  : isSendBlocked
+                  ? costPreview?.budget.message
                   : uploadedImages.length > 0
                     ? "发送图片和描述"
                     : "发送消息"
@@ -614,7 +850,40 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, disabled, theme,
           <span className="mx-1">•</span>
           <span>使用 <strong className={isLight ? 'text-indigo-600' : 'text-indigo-400'}>Pro Image</strong> 生成 2K/4K</span>
           <span className="mx-1">•</span>
-          <span>仅选中的图片会被记住</span>
+          {onContextChange ? (
+            <label className="inline-flex items-center gap-1" title="选中的图片在所有模式下都会带上">
+              <span>上下文</span>
+              <select
+                value={contextOptionIndex}
+                onChange={(e) => onContextChange(CONTEXT_OPTIONS[Number(e.target.value)])}
+                className={`bg-transparent border-0 p-0 text-xs font-semibold focus:outline-none focus:ring-0 cursor-pointer ${
+                  isLight ? 'text-indigo-600' : 'text-indigo-400'
+                }`}
+              >
+                {CONTEXT_OPTIONS.map((option, index) => (
+                  <option key={index} value={index}>
+                    {describeConversationContext(option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <span>仅选中的图片会被记住</span>
+          )}
+          {previewRequest && (
+            <>
+              <span className="mx-1">•</span>
+              <button
+                type="button"
+                onClick={() => setIsInspectorOpen((open) => !open)}
+                className={`inline-flex items-center gap-1 font-semibold ${isLight ? 'text-indigo-600' : 'text-indigo-400'}`}
+                title="预览本次将发送的图片、提示词与参数"
+              >
+                {isInspectorOpen ? <EyeOff size={12} /> : <Eye size={12} />}
+                <span>发送内容{excludedImageIds.length > 0 ? `（已排除 ${excludedImageIds.length} 张）` : ''}</span>
+              </button>
+            </>
+          )}
         </span>
       </div>
     </div>
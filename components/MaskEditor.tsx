@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, Loader2, Trash2, X } from 'lucide-react';
+import type { ImageMask, UploadedImage } from '../types';
+import { createImageMask, drawMaskStrokes, loadImageElement, MASK_STROKE_COLOR } from '../utils/imageMask';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+interface MaskEditorProps {
+  image: UploadedImage;
+  theme: 'light' | 'dark';
+  // `undefined` when everything was erased
+  onSave: (mask: ImageMask | undefined) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MIN_BRUSH_SIZE = 8;
+const MAX_BRUSH_SIZE = 120;
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, theme, onSave, onClose }) => {
+  const isLight = theme === 'light';
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40); // In screen pixels
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const element = await loadImageElement(image.data);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        imageRef.current = element;
+        canvas.width = element.naturalWidth;
+        canvas.height = element.naturalHeight;
+        if (image.mask) {
+          await drawMaskStrokes(canvas, image.mask);
+        }
+      } catch (error) {
+        alert(getUserErrorMessage(error));
+        onClose();
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [image, onClose]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Pointer position in canvas pixels, plus the screen-to-canvas scale
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale, scale };
+  };
+
+  const paintTo = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      const ctx = event.currentTarget.getContext('2d');
+      if (!ctx) return;
+      const { x, y, scale } = toCanvasPoint(event);
+      const from = lastPointRef.current ?? { x, y };
+      ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+      ctx.strokeStyle = MASK_STROKE_COLOR;
+      ctx.lineWidth = brushSize * scale;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+      lastPointRef.current = { x, y };
+    },
+    [tool, brushSize]
+  );
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    paintTo(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paintTo(event);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !imageRef.current) return;
+    try {
+      onSave(createImageMask(imageRef.current, canvas));
+      onClose();
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    }
+  };
+
+  const toolButtonClassName = (active: boolean) =>
+    `inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs border transition-colors ${
+      active
+        ? isLight
+          ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+          : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+        : isLight
+        ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+        : 'border-zinc-700 text-zinc-400 hover:border-zinc-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <button className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} aria-label="关闭遮罩编辑" />
+      <div
+        className={`relative flex flex-col max-h-[92vh] max-w-[95vw] rounded-2xl shadow-2xl border ${
+          isLight ? 'border-white/60 bg-white text-gray-700' : 'border-zinc-800 bg-zinc-900 text-zinc-300'
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-2 p-3">
+          <span className="text-sm font-semibold mr-2">涂抹需要修改的区域</span>
+          <button type="button" onClick={() => setTool('brush')} className={toolButtonClassName(tool === 'brush')}>
+            <Brush size={14} />
+            画笔
+          </button>
+          <button type="button" onClick={() => setTool('eraser')} className={toolButtonClassName(tool === 'eraser')}>
+            <Eraser size={14} />
+            橡皮
+          </button>
+          <label className="inline-flex items-center gap-1.5 text-xs">
+            <span>大小</span>
+            <input
+              type="range"
+              min={MIN_BRUSH_SIZE}
+              max={MAX_BRUSH_SIZE}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+            />
+          </label>
+          <button type="button" onClick={handleClear} className={toolButtonClassName(false)}>
+            <Trash2 size={14} />
+            清空
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`ml-auto p-1.5 rounded-full ${isLight ? 'hover:bg-gray-100' : 'hover:bg-zinc-800'}`}
+            aria-label="关闭遮罩编辑"
+            title="关闭"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="relative mx-3 overflow-hidden rounded-lg">
+          <img
+            src={image.data}
+            alt={image.name || '遮罩编辑'}
+            className="block max-h-[70vh] max-w-[90vw] object-contain select-none"
+            draggable={false}
+          />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          />
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/30 text-white">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-3 text-xs">
+          <span className={isLight ? 'text-gray-500' : 'text-zinc-500'}>
+            gpt-image-2 只重绘涂抹区域；其他模型会收到一张标出该区域的参考图
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className={toolButtonClassName(false)}>
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isLoading}
+              className="px-3 py-1.5 rounded-lg text-xs bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+            >
+              保存遮罩
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
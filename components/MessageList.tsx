@@ -1,8 +1,14 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
-import { Message, AspectRatio } from '../types';
-import { User, Sparkles, CheckCircle2, Circle, AlertTriangle, Loader2, ChevronDown, ChevronUp, MessageSquare, RotateCcw, RefreshCcw, Trash2, Download, Copy, Ban } from 'lucide-react';
+import { Message, AspectRatio, GenerationSlot } from '../types';
+import { User, Sparkles, CheckCircle2, Circle, AlertTriangle, Loader2, Clock, ChevronDown, ChevronUp, MessageSquare, RotateCcw, RefreshCcw, Trash2, Download, Copy, Ban, X, Pause, Play, Trophy, Expand, CornerLeftUp } from 'lucide-react';
 import ImagePreviewModal from './ImagePreviewModal';
-import { getGenerationSlotProgress, getMessageGenerationSlots } from '../core/generationSlots';
+import {
+  getGenerationSlotProgress,
+  getMessageGenerationSlots,
+  getPausableGenerationSlots,
+  getPausedGenerationSlots
+} from '../core/generationSlots';
+import { getComparisonColumns, getSlotGroupLabel } from '../core/comparison';
 
 interface MessageListProps {
   messages: Message[];
@@ -10,13 +16,22 @@ interface MessageListProps {
   onSelectImage: (messageId: string, imageId: string) => void;
   onRetry?: (messageId: string) => void;
   onRetrySlot?: (messageId: string, slotId: string) => void;
+  onCancelSlot?: (messageId: string, slotId: string) => void;
+  onPauseMessage?: (messageId: string) => void;
+  onResumeMessage?: (messageId: string) => void;
   onRegenerate?: (messageId: string) => void;
   onDeleteMessage?: (messageId: string) => void;
+  onOutpaintImage?: (messageId: string, imageId: string) => void;
   theme: 'light' | 'dark';
-  activeGenerations: Record<string, { slotIds: string[] }>;
+  activeGenerations: Record<string, {
+    slotIds: string[];
+    queuePositions?: Record<string, number>;
+    partialImages?: Record<string, string>;
+    dispatchedSlotIds?: string[];
+  }>;
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSelectImage, onRetry, onRetrySlot, onRegenerate, onDeleteMessage, theme, activeGenerations }) => {
+const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSelectImage, onRetry, onRetrySlot, onCancelSlot, onPauseMessage, onResumeMessage, onRegenerate, onDeleteMessage, onOutpaintImage, theme, activeGenerations }) => {
   const isLight = theme === 'light';
   const bottomRef = useRef<HTMLDivElement>(null);
   
@@ -43,6 +58,10 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
     setPreviewImage(null);
   }, []);
 
+  const scrollToMessage = useCallback((messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, []);
+
   // Download image function (memoized)
   const handleDownloadImage = useCallback(
     (e: React.MouseEvent, imageData: string, mimeType: string) => {
@@ -91,6 +110,13 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
     []
   );
 
+  // Comparison runs: one column per provider/model, side by side from sm up.
+  const getComparisonGridClass = (count: number) => {
+    if (count <= 2) return 'grid-cols-1 sm:grid-cols-2';
+    if (count === 3) return 'grid-cols-1 sm:grid-cols-3';
+    return 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-4';
+  };
+
   // Memoize aspect ratio style calculation
   const getAspectRatioStyle = useMemo(
     () => (ratio?: AspectRatio) => {
@@ -130,7 +156,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
       )}
 
       {messages.map((msg, index) => (
-        <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} group`}>
+        <div key={msg.id} id={`message-${msg.id}`} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} group`}>
           <div className={`max-w-[90%] w-full flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
             
             {/* Delete button - show on hover */}
@@ -180,7 +206,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                           group-hover:scale-105
                         `}>
                           <img
-                            src={img.data}
+                            src={img.mask?.annotated ?? img.data}
                             alt={img.name || `图${chineseNumber}`}
                             className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
                           />
@@ -192,7 +218,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                               : 'bg-indigo-500/95 text-white'
                             }
                           `}>
-                            图{chineseNumber}
+                            图{chineseNumber}{img.mask ? ' · 遮罩' : ''}
                           </div>
                           {/* Download Button - Top Right */}
                           <button
@@ -228,6 +254,23 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                 </div>
               )}
               
+              {/* Outpainting source link */}
+              {msg.role === 'model' && msg.derivedFrom && (
+                <button
+                  type="button"
+                  onClick={() => scrollToMessage(msg.derivedFrom!.messageId)}
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    isLight
+                      ? 'border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+                      : 'border-indigo-800/60 bg-indigo-950/40 text-indigo-300 hover:bg-indigo-900/40'
+                  }`}
+                  title="跳转到原图"
+                >
+                  <CornerLeftUp size={12} />
+                  扩图自上方图片
+                </button>
+              )}
+
               {/* Text Bubble */}
               {msg.text && (
                 <div className={`
@@ -292,122 +335,142 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                 const slots = [...getMessageGenerationSlots(msg)].sort((a, b) => a.index - b.index);
                 if (slots.length === 0) return null;
                 const slotProgress = getGenerationSlotProgress(slots);
+                const pausedCount = getPausedGenerationSlots(slots).length;
+                const isActive = !!activeGenerations[msg.id];
+                // Only slots still waiting in the queue can be paused.
+                const canPause = isActive && getPausableGenerationSlots(
+                  slots,
+                  activeGenerations[msg.id].dispatchedSlotIds ?? []
+                ).length > 0;
                 const gridCount = slots.length;
-                return (
-                <div className="w-full">
-                  <div className={`grid gap-4 ${getGridClass(gridCount)}`}>
-                    {slots.map((slot) => {
-                      const imgIndex = slot.index;
-                      const previewAlt = `生成图片 ${imgIndex + 1}`;
-
-                      if (slot.status === 'pending') {
-                        return (
-                          <div
-                            key={slot.slotId}
-                            style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
-                            className={`relative w-full rounded-2xl overflow-hidden border-2 border-dashed flex flex-col items-center justify-center ${
-                              isLight
-                                ? 'bg-indigo-50 border-indigo-200'
-                                : 'bg-indigo-950/30 border-indigo-800/60'
-                            }`}
-                            aria-label={`图 ${imgIndex + 1} 正在生成`}
-                          >
-                            <Loader2 size={30} className="animate-spin text-indigo-500" />
+                // Dynamic prompts: label each slot with the variant it rendered.
+                const showSlotPrompts = new Set(slots.map((slot) => slot.prompt)).size > 1;
+                const renderSlot = (slot: GenerationSlot) => {
+                  const imgIndex = slot.index;
+                  const previewAlt = `生成图片 ${imgIndex + 1}`;
+
+                  if (slot.status === 'pending') {
+                    const queuePosition = activeGenerations[msg.id]?.queuePositions?.[slot.slotId];
+                    // Latest streamed frame; the final image replaces it when the slot settles
+                    const partialImage = activeGenerations[msg.id]?.partialImages?.[slot.slotId];
+                    return (
+                      <div
+                        key={slot.slotId}
+                        style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
+                        className={`relative w-full rounded-2xl overflow-hidden border-2 border-dashed flex flex-col items-center justify-center ${
+                          isLight
+                            ? 'bg-indigo-50 border-indigo-200'
+                            : 'bg-indigo-950/30 border-indigo-800/60'
+                        }`}
+                        aria-label={queuePosition
+                          ? `图 ${imgIndex + 1} 排队中，第 ${queuePosition} 位`
+                          : `图 ${imgIndex + 1} 正在生成`}
+                      >
+                        {partialImage ? (
+                          <>
+                            <img
+                              src={partialImage}
+                              alt={`${previewAlt}（预览）`}
+                              className="absolute inset-0 w-full h-full object-cover"
+                            />
+                            <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-1 rounded-md bg-black/60 text-white text-[10px] font-medium">
+                              <Loader2 size={12} className="animate-spin" />
+                              图 {imgIndex + 1} 预览中
+                            </span>
+                          </>
+                        ) : (
+                          <>
+                            {queuePosition
+                              ? <Clock size={30} className="text-indigo-400" />
+                              : <Loader2 size={30} className="animate-spin text-indigo-500" />}
                             <span className={`mt-2 text-xs font-medium ${
                               isLight ? 'text-indigo-700' : 'text-indigo-300'
                             }`}>
-                              图 {imgIndex + 1} 生成中
+                              {queuePosition
+                                ? `图 ${imgIndex + 1} 排队中 · 第 ${queuePosition} 位`
+                                : `图 ${imgIndex + 1} 生成中`}
                             </span>
-                          </div>
-                        );
-                      }
-
-                      if (slot.status === 'failed') {
-                        const errorBadge = slot.error.statusCode
-                          ? `HTTP ${slot.error.statusCode}`
-                          : slot.error.kind.toUpperCase();
-                        return (
-                          <div
-                            key={slot.slotId}
-                            style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
-                            className={`relative w-full rounded-2xl border-2 flex flex-col p-4 overflow-hidden ${
-                              isLight
-                                ? 'bg-red-50 border-red-300 text-red-950'
-                                : 'bg-red-950/25 border-red-800/80 text-red-100'
-                            }`}
-                          >
-                            <div className="flex items-center justify-between gap-2">
-                              <div className="flex items-center gap-2 min-w-0">
-                                <AlertTriangle size={18} className="text-red-500 flex-shrink-0" />
-                                <span className="text-sm font-semibold">图 {imgIndex + 1} 生成失败</span>
-                              </div>
-                              <span className={`px-1.5 py-0.5 text-[10px] font-semibold rounded border ${
-                                isLight
-                                  ? 'bg-white border-red-200 text-red-700'
-                                  : 'bg-red-950/70 border-red-800 text-red-300'
-                              }`}>
-                                {errorBadge}
-                              </span>
-                            </div>
-                            <div className={`mt-3 flex-1 min-h-0 overflow-y-auto whitespace-pre-wrap break-words text-xs leading-5 ${
-                              isLight ? 'text-red-800' : 'text-red-200'
-                            }`}>
-                              {slot.error.message}
-                            </div>
-                            <div className="mt-3 flex items-center justify-between gap-2">
-                              <span className={`text-[10px] ${isLight ? 'text-red-600' : 'text-red-400'}`}>
-                                已尝试 {slot.error.attempts} 次
+                            {showSlotPrompts && slot.prompt && (
+                              <span className={`mt-1 px-3 max-w-full truncate text-[10px] ${
+                                isLight ? 'text-indigo-600/80' : 'text-indigo-300/80'
+                              }`} title={slot.prompt}>
+                                {slot.prompt}
                               </span>
-                              <div className="flex items-center gap-1">
-                                <button
-                                  type="button"
-                                  onClick={() => void navigator.clipboard.writeText(slot.error.message)}
-                                  className={`p-1.5 rounded transition-colors ${
-                                    isLight ? 'hover:bg-red-100 text-red-700' : 'hover:bg-red-900/50 text-red-300'
-                                  }`}
-                                  title="复制错误详情"
-                                  aria-label="复制错误详情"
-                                >
-                                  <Copy size={14} />
-                                </button>
-                                {onRetrySlot && !activeGenerations[msg.id] && (
-                                  <button
-                                    type="button"
-                                    onClick={() => onRetrySlot(msg.id, slot.slotId)}
-                                    className={`p-1.5 rounded transition-colors ${
-                                      isLight ? 'hover:bg-red-100 text-red-700' : 'hover:bg-red-900/50 text-red-300'
-                                    }`}
-                                    title="重试此图"
-                                    aria-label={`重试图 ${imgIndex + 1}`}
-                                  >
-                                    <RotateCcw size={14} />
-                                  </button>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        );
-                      }
-
-                      if (slot.status === 'cancelled') {
-                        return (
-                          <div
-                            key={slot.slotId}
-                            style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
-                            className={`w-full rounded-2xl border-2 border-dashed flex flex-col items-center justify-center p-4 ${
-                              isLight
-                                ? 'bg-gray-100 border-gray-300 text-gray-600'
-                                : 'bg-zinc-900 border-zinc-700 text-zinc-400'
+                            )}
+                          </>
+                        )}
+                        {onCancelSlot && isActive && (
+                          <button
+                            type="button"
+                            onClick={() => onCancelSlot(msg.id, slot.slotId)}
+                            className={`absolute top-2 right-2 p-1.5 rounded transition-colors ${
+                              isLight ? 'hover:bg-indigo-100 text-indigo-600' : 'hover:bg-indigo-900/50 text-indigo-300'
                             }`}
+                            title="取消此图"
+                            aria-label={`取消图 ${imgIndex + 1}`}
                           >
-                            <Ban size={22} className="mb-2" />
-                            <span className="text-xs font-semibold">图 {imgIndex + 1} 已取消</span>
-                            <span className="mt-1 text-[10px] text-center opacity-80">{slot.reason}</span>
+                            <X size={14} />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  }
+
+                  if (slot.status === 'failed') {
+                    const errorBadge = slot.error.statusCode
+                      ? `HTTP ${slot.error.statusCode}`
+                      : slot.error.kind.toUpperCase();
+                    return (
+                      <div
+                        key={slot.slotId}
+                        style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
+                        className={`relative w-full rounded-2xl border-2 flex flex-col p-4 overflow-hidden ${
+                          isLight
+                            ? 'bg-red-50 border-red-300 text-red-950'
+                            : 'bg-red-950/25 border-red-800/80 text-red-100'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <AlertTriangle size={18} className="text-red-500 flex-shrink-0" />
+                            <span className="text-sm font-semibold">图 {imgIndex + 1} 生成失败</span>
+                          </div>
+                          <span className={`px-1.5 py-0.5 text-[10px] font-semibold rounded border ${
+                            isLight
+                              ? 'bg-white border-red-200 text-red-700'
+                              : 'bg-red-950/70 border-red-800 text-red-300'
+                          }`}>
+                            {errorBadge}
+                          </span>
+                        </div>
+                        <div className={`mt-3 flex-1 min-h-0 overflow-y-auto whitespace-pre-wrap break-words text-xs leading-5 ${
+                          isLight ? 'text-red-800' : 'text-red-200'
+                        }`}>
+                          {slot.error.message}
+                        </div>
+                        <div className="mt-3 flex items-center justify-between gap-2">
+                          <span className={`text-[10px] ${isLight ? 'text-red-600' : 'text-red-400'}`}>
+                            已尝试 {slot.error.attempts} 次
+                          </span>
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => void navigator.clipboard.writeText(slot.error.message)}
+                              className={`p-1.5 rounded transition-colors ${
+                                isLight ? 'hover:bg-red-100 text-red-700' : 'hover:bg-red-900/50 text-red-300'
+                              }`}
+                              title="复制错误详情"
+                              aria-label="复制错误详情"
+                            >
+                              <Copy size={14} />
+                            </button>
                             {onRetrySlot && !activeGenerations[msg.id] && (
                               <button
                                 type="button"
                                 onClick={() => onRetrySlot(msg.id, slot.slotId)}
-                                className="mt-3 p-1.5 rounded hover:bg-black/5 dark:hover:bg-white/5"
+                                className={`p-1.5 rounded transition-colors ${
+                                  isLight ? 'hover:bg-red-100 text-red-700' : 'hover:bg-red-900/50 text-red-300'
+                                }`}
                                 title="重试此图"
                                 aria-label={`重试图 ${imgIndex + 1}`}
                               >
@@ -415,114 +478,218 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                               </button>
                             )}
                           </div>
-                        );
-                      }
-
-                      const img = slot.image;
-                      const isSelected = msg.selectedImageId === img.id;
-                      const hasSelection = !!msg.selectedImageId;
-                      const isDiscarded = hasSelection && !isSelected;
-                      return (
-                        <div 
-                          key={img.id} 
-                          style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
-                          onClick={() => openPreview(img.data, previewAlt)}
-                          onKeyDown={(event) => {
-                            if (event.key === 'Enter' || event.key === ' ') {
-                              event.preventDefault();
-                              openPreview(img.data, previewAlt);
-                            }
-                          }}
-                          role="button"
-                          tabIndex={0}
-                          aria-label={`${previewAlt} 预览`}
-                          className={`
-                            group relative w-full rounded-2xl overflow-hidden border-2 transition-all duration-300
-                            ${isLight ? 'bg-gray-50' : 'bg-zinc-900/50'}
-                            ${isSelected 
-                              ? 'border-indigo-500 shadow-[0_0_25px_rgba(99,102,241,0.4)] scale-[1.03] z-10 ring-2 ring-indigo-500/30' 
-                              : (isLight 
-                                  ? 'border-gray-200 hover:border-indigo-300 hover:shadow-lg' 
-                                  : 'border-zinc-800 hover:border-indigo-600/50 hover:shadow-xl')}
-                            ${isDiscarded ? 'opacity-35 grayscale-[0.85] scale-[0.97]' : 'opacity-100'}
-                            hover:scale-[1.01] cursor-zoom-in focus:outline-none focus:ring-2 focus:ring-indigo-500/50
-                          `}
-                        >
-                          <img 
-                            src={img.data} 
-                            alt="Generated content" 
-                            className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
-                            loading="lazy"
-                          />
-                          
-                          {/* Selected Badge */}
-                          {isSelected && (
-                            <div className="absolute top-2 left-2 z-20">
-                              <div className={`
-                                px-2 py-1 rounded-md text-xs font-semibold backdrop-blur-md
-                                ${isLight 
-                                  ? 'bg-indigo-600 text-white shadow-lg' 
-                                  : 'bg-indigo-500 text-white shadow-lg'
-                                }
-                              `}>
-                                已选中
-                              </div>
-                            </div>
-                          )}
-                          
-                          {/* Download Button - Top Right */}
-                          <button
-                            onClick={(e) => handleDownloadImage(e, img.data, img.mimeType)}
-                            className={`
-                              absolute top-2 right-2 p-2.5 rounded-xl backdrop-blur-md transition-all z-20
-                              opacity-0 group-hover:opacity-100
-                              ${isLight 
-                                ? 'bg-white/95 text-gray-700 hover:bg-white hover:scale-110 shadow-xl border border-gray-200/50' 
-                                : 'bg-zinc-900/95 text-zinc-300 hover:bg-zinc-800 hover:scale-110 shadow-xl border border-zinc-700/50'
-                              }
-                            `}
-                            title="下载图片"
-                          >
-                            <Download size={16} />
-                          </button>
-                          
-                          {/* Selection Overlay */}
-                          <div
-                            className={`
-                              absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent 
-                              opacity-0 group-hover:opacity-100 transition-all duration-300 pointer-events-none z-10
-                              ${isSelected ? 'opacity-100 from-black/40 via-black/10 to-transparent' : ''}
-                            `}
-                          />
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (slot.status === 'cancelled') {
+                    return (
+                      <div
+                        key={slot.slotId}
+                        style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
+                        className={`w-full rounded-2xl border-2 border-dashed flex flex-col items-center justify-center p-4 ${
+                          isLight
+                            ? 'bg-gray-100 border-gray-300 text-gray-600'
+                            : 'bg-zinc-900 border-zinc-700 text-zinc-400'
+                        }`}
+                      >
+                        <Ban size={22} className="mb-2" />
+                        <span className="text-xs font-semibold">图 {imgIndex + 1} 已取消</span>
+                        <span className="mt-1 text-[10px] text-center opacity-80">{slot.reason}</span>
+                        {onRetrySlot && !activeGenerations[msg.id] && (
                           <button
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              onSelectImage(msg.id, img.id);
-                            }}
-                            className={`
-                              absolute bottom-3 left-1/2 -translate-x-1/2 z-20
-                              flex items-center space-x-2 px-4 py-2 rounded-full backdrop-blur-md 
-                              transition-all duration-200 transform opacity-0 group-hover:opacity-100
-                              ${isSelected 
-                                ? 'opacity-100 bg-indigo-600 text-white shadow-xl scale-105' 
-                                : (isLight 
-                                    ? 'bg-white/95 text-gray-700 hover:scale-110 shadow-xl' 
-                                    : 'bg-zinc-900/95 text-zinc-300 hover:scale-110 shadow-xl')
-                              }
-                            `}
-                            title={isSelected ? '取消选择' : '选择此图'}
                             type="button"
+                            onClick={() => onRetrySlot(msg.id, slot.slotId)}
+                            className="mt-3 p-1.5 rounded hover:bg-black/5 dark:hover:bg-white/5"
+                            title="重试此图"
+                            aria-label={`重试图 ${imgIndex + 1}`}
                           >
-                            {isSelected ? <CheckCircle2 size={18} /> : <Circle size={18} />}
-                            <span className="text-sm font-semibold">
-                              {isSelected ? '已选中' : '选择此图'}
-                            </span>
+                            <RotateCcw size={14} />
                           </button>
+                        )}
+                      </div>
+                    );
+                  }
+
+                  const img = slot.image;
+                  const isSelected = msg.selectedImageId === img.id;
+                  const hasSelection = !!msg.selectedImageId;
+                  const isDiscarded = hasSelection && !isSelected;
+                  return (
+                    <div 
+                      key={img.id} 
+                      style={getAspectRatioStyle(msg.generationSettings?.aspectRatio)}
+                      onClick={() => openPreview(img.data, previewAlt)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter' || event.key === ' ') {
+                          event.preventDefault();
+                          openPreview(img.data, previewAlt);
+                        }
+                      }}
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`${previewAlt} 预览`}
+                      className={`
+                        group relative w-full rounded-2xl overflow-hidden border-2 transition-all duration-300
+                        ${isLight ? 'bg-gray-50' : 'bg-zinc-900/50'}
+                        ${isSelected 
+                          ? 'border-indigo-500 shadow-[0_0_25px_rgba(99,102,241,0.4)] scale-[1.03] z-10 ring-2 ring-indigo-500/30' 
+                          : (isLight 
+                              ? 'border-gray-200 hover:border-indigo-300 hover:shadow-lg' 
+                              : 'border-zinc-800 hover:border-indigo-600/50 hover:shadow-xl')}
+                        ${isDiscarded ? 'opacity-35 grayscale-[0.85] scale-[0.97]' : 'opacity-100'}
+                        hover:scale-[1.01] cursor-zoom-in focus:outline-none focus:ring-2 focus:ring-indigo-500/50
+                      `}
+                    >
+                      <img 
+                        src={img.data} 
+                        alt="Generated content" 
+                        className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                        loading="lazy"
+                      />
+
+                      {slot.source?.fallbackIndex !== undefined && (
+                        <div
+                          className="absolute top-2 left-2 z-10 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/90 text-white pointer-events-none"
+                          title={`由备用 Provider #${slot.source.fallbackIndex} 生成`}
+                        >
+                          备用 · {slot.source.model ?? slot.source.provider}
                         </div>
-                      );
-                    })}
+                      )}
 
-                  </div>
+                      {showSlotPrompts && slot.prompt && (
+                        <div
+                          className="absolute bottom-0 inset-x-0 z-10 px-2 py-1 text-[11px] truncate bg-black/55 text-white pointer-events-none transition-opacity group-hover:opacity-0"
+                          title={slot.prompt}
+                        >
+                          {slot.prompt}
+                        </div>
+                      )}
+                      
+                      {/* Selected Badge */}
+                      {isSelected && (
+                        <div className="absolute top-2 left-2 z-20">
+                          <div className={`
+                            px-2 py-1 rounded-md text-xs font-semibold backdrop-blur-md
+                            ${isLight 
+                              ? 'bg-indigo-600 text-white shadow-lg' 
+                              : 'bg-indigo-500 text-white shadow-lg'
+                            }
+                          `}>
+                            已选中
+                          </div>
+                        </div>
+                      )}
+                      
+                      {/* Download Button - Top Right */}
+                      <button
+                        onClick={(e) => handleDownloadImage(e, img.data, img.mimeType)}
+                        className={`
+                          absolute top-2 right-2 p-2.5 rounded-xl backdrop-blur-md transition-all z-20
+                          opacity-0 group-hover:opacity-100
+                          ${isLight 
+                            ? 'bg-white/95 text-gray-700 hover:bg-white hover:scale-110 shadow-xl border border-gray-200/50' 
+                            : 'bg-zinc-900/95 text-zinc-300 hover:bg-zinc-800 hover:scale-110 shadow-xl border border-zinc-700/50'
+                          }
+                        `}
+                        title="下载图片"
+                      >
+                        <Download size={16} />
+                      </button>
+
+                      {onOutpaintImage && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onOutpaintImage(msg.id, img.id);
+                          }}
+                          className={`
+                            absolute top-2 right-14 p-2.5 rounded-xl backdrop-blur-md transition-all z-20
+                            opacity-0 group-hover:opacity-100
+                            ${isLight 
+                              ? 'bg-white/95 text-gray-700 hover:bg-white hover:scale-110 shadow-xl border border-gray-200/50' 
+                              : 'bg-zinc-900/95 text-zinc-300 hover:bg-zinc-800 hover:scale-110 shadow-xl border border-zinc-700/50'
+                            }
+                          `}
+                          title="扩图"
+                          type="button"
+                        >
+                          <Expand size={16} />
+                        </button>
+                      )}
+                      
+                      {/* Selection Overlay */}
+                      <div
+                        className={`
+                          absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent 
+                          opacity-0 group-hover:opacity-100 transition-all duration-300 pointer-events-none z-10
+                          ${isSelected ? 'opacity-100 from-black/40 via-black/10 to-transparent' : ''}
+                        `}
+                      />
+                      <button
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onSelectImage(msg.id, img.id);
+                        }}
+                        className={`
+                          absolute bottom-3 left-1/2 -translate-x-1/2 z-20
+                          flex items-center space-x-2 px-4 py-2 rounded-full backdrop-blur-md 
+                          transition-all duration-200 transform opacity-0 group-hover:opacity-100
+                          ${isSelected 
+                            ? 'opacity-100 bg-indigo-600 text-white shadow-xl scale-105' 
+                            : (isLight 
+                                ? 'bg-white/95 text-gray-700 hover:scale-110 shadow-xl' 
+                                : 'bg-zinc-900/95 text-zinc-300 hover:scale-110 shadow-xl')
+                          }
+                        `}
+                        title={isSelected ? '取消选择' : '选择此图'}
+                        type="button"
+                      >
+                        {isSelected ? <CheckCircle2 size={18} /> : <Circle size={18} />}
+                        <span className="text-sm font-semibold">
+                          {isSelected ? '已选中' : '选择此图'}
+                        </span>
+                      </button>
+                    </div>
+                  );
+                };
+                const columns = msg.slotGroups?.length ? getComparisonColumns(slots, msg.slotGroups) : undefined;
+                return (
+                <div className="w-full">
+                  {columns ? (
+                    <div className={`grid gap-4 ${getComparisonGridClass(columns.length)}`}>
+                      {columns.map(({ group, slots: columnSlots }) => {
+                        const columnProgress = getGenerationSlotProgress(columnSlots);
+                        const isWinner = columnSlots.some(
+                          (slot) => slot.status === 'success' && slot.image.id === msg.selectedImageId
+                        );
+                        return (
+                          <div key={group.id} className="min-w-0 flex flex-col gap-3">
+                            <div
+                              className={`flex items-center justify-between gap-2 px-3 py-2 rounded-xl border text-sm ${
+                                isWinner
+                                  ? (isLight ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-indigo-700 bg-indigo-950/40 text-indigo-300')
+                                  : (isLight ? 'border-gray-200 bg-gray-50 text-gray-700' : 'border-zinc-800 bg-zinc-900/50 text-zinc-300')
+                              }`}
+                              title={[group.provider, group.model, group.baseUrl].filter(Boolean).join(' · ')}
+                            >
+                              <span className="font-semibold truncate">{getSlotGroupLabel(group)}</span>
+                              <span className="shrink-0 flex items-center gap-1.5 text-xs">
+                                {isWinner && <Trophy size={12} />}
+                                {isWinner ? '胜出 · ' : ''}{columnProgress.succeeded}/{columnProgress.total}
+                              </span>
+                            </div>
+                            {columnSlots.map(renderSlot)}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className={`grid gap-4 ${getGridClass(gridCount)}`}>
+                      {slots.map(renderSlot)}
+                    </div>
+                  )}
 
                   <div className={`mt-4 flex flex-wrap items-center justify-between gap-3 px-1 ${
                         isLight ? 'text-gray-500' : 'text-zinc-400'
@@ -544,6 +711,36 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating, onSel
                           </span>
                         </div>
 
+                        {onPauseMessage && canPause && (
+                          <button
+                            onClick={() => onPauseMessage(msg.id)}
+                            className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-lg transition-all duration-200 text-sm font-medium ${
+                              isLight
+                                ? 'text-amber-600 hover:bg-amber-50 active:scale-95'
+                                : 'text-amber-400 hover:bg-amber-900/30 active:scale-95'
+                            }`}
+                            title="暂停：取消尚未发出的图片，已在生成的会完成，稍后可继续"
+                          >
+                            <Pause size={14} />
+                            <span>暂停</span>
+                          </button>
+                        )}
+
+                        {onResumeMessage && !isActive && pausedCount > 0 && (
+                          <button
+                            onClick={() => onResumeMessage(msg.id)}
+                            className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-lg transition-all duration-200 text-sm font-medium ${
+                              isLight
+                                ? 'text-indigo-600 hover:bg-indigo-50 active:scale-95'
+                                : 'text-indigo-400 hover:bg-indigo-900/30 active:scale-95'
+                            }`}
+                            title="继续生成暂停的图片"
+                          >
+                            <Play size={14} />
+                            <span>继续 {pausedCount} 张</span>
+                          </button>
+                        )}
+
                         {/* Action buttons - show next to model messages */}
                         {(onRetry || onRegenerate) && !activeGenerations[msg.id] && (
                           <div className="flex items-center gap-2">
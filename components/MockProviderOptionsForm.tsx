@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import {
+  MOCK_FAILURE_KINDS,
+  MockFailureKind,
+  MockProviderOptions,
+  resolveMockProviderOptions
+} from '../services/mockService';
+import { VALIDATION_LIMITS } from '../utils/validation';
+
+interface MockProviderOptionsFormProps {
+  options?: Record<string, unknown>;
+  onSave: (options: Record<string, unknown>) => void;
+  theme: 'light' | 'dark';
+}
+
+const FAILURE_KIND_LABELS: Record<MockFailureKind, string> = {
+  '429': '429 限流',
+  '451': '451 不可用',
+  '500': '500 服务错误',
+  timeout: '超时',
+  moderation: '内容审核'
+};
+
+function parseSlotList(value: string): number[] {
+  // Slots are shown 1-based in the UI, stored 0-based like GenerationSlot.index.
+  return value
+    .split(/[,\s，]+/)
+    .map((item) => Number.parseInt(item, 10))
+    .filter((item) => Number.isInteger(item) && item > 0)
+    .map((item) => item - 1);
+}
+
+const MockProviderOptionsForm: React.FC<MockProviderOptionsFormProps> = ({
+  options,
+  onSave,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const [draft, setDraft] = useState<MockProviderOptions>(() => resolveMockProviderOptions(options));
+  const [failingSlotsText, setFailingSlotsText] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const resolved = resolveMockProviderOptions(options);
+    setDraft(resolved);
+    setFailingSlotsText(resolved.failingSlots.map((index) => index + 1).join(', '));
+  }, [options]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    isLight ? 'text-gray-600' : 'text-zinc-400'
+  }`;
+
+  const updateNumber = (key: 'latencyMs' | 'latencyJitterMs' | 'failFirstAttempts', value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    setDraft((prev) => ({ ...prev, [key]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) }));
+  };
+
+  const toggleFailureKind = (kind: MockFailureKind) => {
+    setDraft((prev) => ({
+      ...prev,
+      failureKinds: prev.failureKinds.includes(kind)
+        ? prev.failureKinds.filter((item) => item !== kind)
+        : [...prev.failureKinds, kind]
+    }));
+  };
+
+  const handleSave = () => {
+    const next = resolveMockProviderOptions({
+      ...draft,
+      failFirstAttempts: Math.min(draft.failFirstAttempts, VALIDATION_LIMITS.MAX_RETRY_ATTEMPTS),
+      failingSlots: parseSlotList(failingSlotsText)
+    });
+    onSave(next);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClassName}>延迟 (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.latencyMs}
+            onChange={(e) => updateNumber('latencyMs', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>随机抖动 (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.latencyJitterMs}
+            onChange={(e) => updateNumber('latencyJitterMs', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>失败率 {Math.round(draft.failureRate * 100)}%</label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(draft.failureRate * 100)}
+            onChange={(e) => setDraft((prev) => ({ ...prev, failureRate: Number(e.target.value) / 100 }))}
+            className="w-full accent-indigo-600"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>前 N 次尝试失败</label>
+          <input
+            type="number"
+            min={0}
+            max={VALIDATION_LIMITS.MAX_RETRY_ATTEMPTS}
+            value={draft.failFirstAttempts}
+            onChange={(e) => updateNumber('failFirstAttempts', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>固定失败的槽位（如 1, 3）</label>
+        <input
+          type="text"
+          value={failingSlotsText}
+          onChange={(e) => setFailingSlotsText(e.target.value)}
+          placeholder="留空表示不固定失败"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>失败类型</label>
+        <div className="flex flex-wrap gap-2">
+          {MOCK_FAILURE_KINDS.map((kind) => {
+            const active = draft.failureKinds.includes(kind);
+            return (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => toggleFailureKind(kind)}
+                className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+                  active
+                    ? isLight
+                      ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                      : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                    : isLight
+                    ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+                    : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+                }`}
+              >
+                {FAILURE_KIND_LABELS[kind]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        className={`w-full flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+          saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+        }`}
+      >
+        <Check size={16} />
+        <span>{saved ? '已保存' : '保存模拟参数'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default MockProviderOptionsForm;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlertTriangle, Ban, Play } from 'lucide-react';
+import type { OrphanedGeneration } from '../core/generationJobs';
+
+interface OrphanedGenerationsBannerProps {
+  orphans: OrphanedGeneration[];
+  onResume: () => void;
+  onCancel: () => void;
+  theme: 'light' | 'dark';
+}
+
+const OrphanedGenerationsBanner: React.FC<OrphanedGenerationsBannerProps> = ({
+  orphans,
+  onResume,
+  onCancel,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  if (orphans.length === 0) return null;
+
+  const slotCount = orphans.reduce((total, orphan) => total + orphan.slots.length, 0);
+  const sessionCount = new Set(orphans.map((orphan) => orphan.sessionId)).size;
+
+  return (
+    <div
+      role="alert"
+      className={`mx-4 mt-3 rounded-lg border p-3 flex flex-wrap items-center justify-between gap-3 ${
+        isLight
+          ? 'bg-amber-50 border-amber-200 text-amber-900'
+          : 'bg-amber-900/20 border-amber-800/50 text-amber-200'
+      }`}
+    >
+      <div className="flex items-center space-x-2 text-sm">
+        <AlertTriangle size={16} className={isLight ? 'text-amber-600' : 'text-amber-400'} />
+        <span>
+          上次关闭页面时有 {slotCount} 张图片未完成
+          {sessionCount > 1 ? `（分布在 ${sessionCount} 个会话）` : ''}，是否继续生成？
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onResume}
+          className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-500 transition-colors"
+        >
+          <Play size={14} />
+          <span>继续生成</span>
+        </button>
+        <button
+          onClick={onCancel}
+          className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            isLight ? 'hover:bg-amber-100' : 'hover:bg-amber-900/40'
+          }`}
+        >
+          <Ban size={14} />
+          <span>标记为已取消</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OrphanedGenerationsBanner;
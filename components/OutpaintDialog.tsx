@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Expand, Loader2, X } from 'lucide-react';
+import type { AspectRatio } from '../types';
+import { getOutpaintLayout, OUTPAINT_ASPECT_RATIOS } from '../core/outpaint';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+interface OutpaintDialogProps {
+  src: string;
+  theme: 'light' | 'dark';
+  onSubmit: (aspectRatio: AspectRatio, description: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const OutpaintDialog: React.FC<OutpaintDialogProps> = ({ src, theme, onSubmit, onClose }) => {
+  const isLight = theme === 'light';
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [description, setDescription] = useState('');
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const layout = useMemo(() => {
+    if (!sourceSize) return null;
+    try {
+      return { value: getOutpaintLayout(sourceSize.width, sourceSize.height, aspectRatio) };
+    } catch (error) {
+      return { error: getUserErrorMessage(error) };
+    }
+  }, [sourceSize, aspectRatio]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(aspectRatio, description);
+      onClose();
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canvas = layout?.value;
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <button className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} aria-label="关闭扩图" />
+      <div
+        className={`relative w-full max-w-lg rounded-2xl shadow-2xl border p-4 space-y-4 ${
+          isLight ? 'border-white/60 bg-white text-gray-700' : 'border-zinc-800 bg-zinc-900 text-zinc-300'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className={`text-sm font-semibold ${isLight ? 'text-gray-900' : 'text-zinc-100'}`}>扩图</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`p-1.5 rounded-full ${isLight ? 'hover:bg-gray-100' : 'hover:bg-zinc-800'}`}
+            aria-label="关闭扩图"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Padded canvas preview: the dashed area is what the model fills */}
+        <div className="flex justify-center">
+          <div
+            className={`relative max-h-64 max-w-full border-2 border-dashed rounded-lg overflow-hidden ${
+              isLight ? 'border-indigo-300 bg-indigo-50/60' : 'border-indigo-700 bg-indigo-950/30'
+            }`}
+            style={{
+              aspectRatio: canvas ? `${canvas.width} / ${canvas.height}` : undefined,
+              width: canvas && canvas.width < canvas.height ? 'auto' : '100%',
+              height: canvas && canvas.width < canvas.height ? '16rem' : 'auto'
+            }}
+          >
+            <img
+              src={src}
+              alt="原图"
+              onLoad={(event) =>
+                setSourceSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })
+              }
+              className={canvas ? 'absolute object-fill' : 'block max-h-64 mx-auto'}
+              style={canvas ? {
+                left: percent(canvas.x, canvas.width),
+                top: percent(canvas.y, canvas.height),
+                width: percent(canvas.imageWidth, canvas.width),
+                height: percent(canvas.imageHeight, canvas.height)
+              } : undefined}
+            />
+          </div>
+        </div>
+        {layout?.error && <p className="text-xs text-red-500">{layout.error}</p>}
+        {canvas && (
+          <p className={`text-xs text-center ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>
+            画布 {canvas.width}×{canvas.height}，原图居中
+          </p>
+        )}
+
+        <div className="grid grid-cols-4 gap-2">
+          {OUTPAINT_ASPECT_RATIOS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setAspectRatio(option.value)}
+              className={`px-2 py-1.5 rounded-md text-xs border transition-colors ${
+                aspectRatio === option.value
+                  ? isLight
+                    ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                    : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                  : isLight
+                  ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+                  : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+              }`}
+              title={option.label}
+            >
+              {option.value}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="可选：描述扩展出的区域，例如“左右延伸出海岸线”"
+          rows={2}
+          className={`w-full rounded-lg px-3 py-2 text-sm resize-none border focus:outline-none focus:ring-2 focus:ring-indigo-500/50 ${
+            isLight ? 'bg-gray-50 border-gray-200 text-gray-900' : 'bg-zinc-950 border-zinc-800 text-zinc-100'
+          }`}
+        />
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => void handleSubmit()}
+            disabled={!canvas || isSubmitting}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 size={14} className="animate-spin" /> : <Expand size={14} />}
+            开始扩图
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutpaintDialog;
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Info, AlertCircle, Zap } from 'lucide-react';
+import { Provider } from '../types';
 
 interface PerformanceHintProps {
   theme: 'light' | 'dark';
   batchSize: number;
-  provider: 'gemini' | 'openai';
+  provider: Provider;
 }
 
 const PerformanceHint: React.FC<PerformanceHintProps> = ({ theme, batchSize, provider }) => {
@@ -26,11 +27,16 @@ const PerformanceHint: React.FC<PerformanceHintProps> = ({ theme, batchSize, pro
       type: 'info',
       message: '使用 Gemini API。免费账户有速率限制（每分钟 15 次请求），付费账户速度更快。'
     });
-  } else {
+  } else if (provider === 'openai') {
     tips.push({
       type: 'info',
       message: '使用 OpenAI API。不同的账户级别有不同的速率限制。'
     });
+  } else if (provider === 'sdwebui') {
+    tips.push({
+      type: 'info',
+      message: '使用本地 SD WebUI。服务器按顺序出图，速度取决于显卡、步数和分辨率，并发调高也不会更快。'
+    });
   }
 
   if (tips.length === 0) {
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Image as ImageIcon,
+  ListOrdered,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  Trash2,
+  X
+} from 'lucide-react';
+import {
+  MAX_PROMPT_QUEUE_CONCURRENCY,
+  type PromptQueueItem,
+  type PromptQueueItemStatus
+} from '../core/promptQueue';
+
+interface PromptQueuePanelProps {
+  items: PromptQueueItem[]; // Items of the current session
+  isRunning: boolean;
+  concurrency: number;
+  onStart: () => void;
+  onPause: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onRequeue: (id: string) => void;
+  onClearFinished: () => void;
+  theme: 'light' | 'dark';
+}
+
+const STATUS_LABELS: Record<PromptQueueItemStatus, string> = {
+  queued: '排队中',
+  running: '生成中',
+  done: '已完成',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+const PromptQueuePanel: React.FC<PromptQueuePanelProps> = ({
+  items,
+  isRunning,
+  concurrency,
+  onStart,
+  onPause,
+  onConcurrencyChange,
+  onMove,
+  onRemove,
+  onRequeue,
+  onClearFinished,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const [isExpanded, setIsExpanded] = useState(true);
+  if (items.length === 0) return null;
+
+  const pendingCount = items.filter((item) => item.status === 'queued').length;
+  const hasFinished = items.some((item) => item.status !== 'queued' && item.status !== 'running');
+
+  const iconButtonClassName = `p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    isLight ? 'text-gray-500 hover:bg-gray-200' : 'text-zinc-400 hover:bg-zinc-800'
+  }`;
+
+  const statusClassName = (status: PromptQueueItemStatus) => {
+    switch (status) {
+      case 'running':
+        return isLight ? 'text-indigo-600' : 'text-indigo-400';
+      case 'done':
+        return isLight ? 'text-green-600' : 'text-green-400';
+      case 'failed':
+        return 'text-red-500';
+      case 'cancelled':
+        return isLight ? 'text-amber-600' : 'text-amber-400';
+      default:
+        return isLight ? 'text-gray-500' : 'text-zinc-500';
+    }
+  };
+
+  return (
+    <div
+      className={`max-w-4xl mx-auto mb-3 rounded-xl border text-sm ${
+        isLight ? 'bg-white border-gray-200 text-gray-800' : 'bg-zinc-900/90 border-zinc-800 text-zinc-200'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <button
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          className="flex items-center space-x-1.5 font-medium"
+        >
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <ListOrdered size={14} />
+          <span>队列 ({pendingCount}/{items.length})</span>
+        </button>
+        <div className="flex items-center gap-2">
+          <label className={`flex items-center gap-1 text-xs ${isLight ? 'text-gray-500' : 'text-zinc-400'}`}>
+            同时运行
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className={`rounded border px-1 py-0.5 text-xs ${
+                isLight ? 'bg-gray-50 border-gray-300' : 'bg-zinc-900 border-zinc-700'
+              }`}
+            >
+              {Array.from({ length: MAX_PROMPT_QUEUE_CONCURRENCY }, (_, index) => index + 1).map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasFinished && (
+            <button onClick={onClearFinished} className={iconButtonClassName} title="清除已结束的项">
+              <Trash2 size={14} />
+            </button>
+          )}
+          {isRunning ? (
+            <button
+              onClick={onPause}
+              className="flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs font-medium text-white bg-amber-600 hover:bg-amber-500 transition-colors"
+              title="不再启动新的队列项，运行中的继续完成"
+            >
+              <Pause size={12} />
+              <span>暂停队列</span>
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={pendingCount === 0}
+              className="flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={12} />
+              <span>开始队列</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <ul className={`max-h-48 overflow-y-auto border-t ${isLight ? 'border-gray-100' : 'border-zinc-800'}`}>
+          {items.map((item, index) => {
+            const isQueued = item.status === 'queued';
+            const isFinished = !isQueued && item.status !== 'running';
+            return (
+              <li key={item.id} className="flex items-center gap-2 px-3 py-1.5">
+                <span className="flex-1 min-w-0 truncate" title={item.prompt}>
+                  {item.prompt || '（仅参考图片）'}
+                </span>
+                <span className={`shrink-0 text-xs ${isLight ? 'text-gray-400' : 'text-zinc-500'}`}>
+                  {item.settings.batchSize} 张 · {item.settings.aspectRatio} · {item.settings.resolution}
+                </span>
+                {item.uploadedImages?.length ? (
+                  <span
+                    className={`shrink-0 flex items-center gap-0.5 text-xs ${isLight ? 'text-gray-400' : 'text-zinc-500'}`}
+                    title="参考图片"
+                  >
+                    <ImageIcon size={12} />
+                    {item.uploadedImages.length}
+                  </span>
+                ) : null}
+                <span
+                  className={`shrink-0 flex items-center gap-1 text-xs ${statusClassName(item.status)}`}
+                  title={item.error}
+                >
+                  {item.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                  {STATUS_LABELS[item.status]}
+                  {item.total !== undefined && item.total > 0 && ` ${item.succeeded ?? 0}/${item.total}`}
+                </span>
+                <div className="shrink-0 flex items-center">
+                  {isQueued && (
+                    <>
+                      <button
+                        onClick={() => onMove(item.id, -1)}
+                        disabled={index === 0}
+                        className={iconButtonClassName}
+                        title="上移"
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => onMove(item.id, 1)}
+                        disabled={index === items.length - 1}
+                        className={iconButtonClassName}
+                        title="下移"
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                    </>
+                  )}
+                  {isFinished && (
+                    <button onClick={() => onRequeue(item.id)} className={iconButtonClassName} title="重新加入队列">
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                  {item.status !== 'running' && (
+                    <button onClick={() => onRemove(item.id)} className={iconButtonClassName} title="移除">
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PromptQueuePanel;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Plus, Trash2 } from 'lucide-react';
+import type { Provider, ProviderConfig } from '../types';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+// Editable list of provider configs (fallback chain, compare targets).
+interface ProviderConfigListFormProps {
+  providers: ProviderConfig[];
+  onSave: (providers: ProviderConfig[]) => void; // May throw a ValidationError
+  maxItems: number;
+  saveLabel: string;
+  theme: 'light' | 'dark';
+}
+
+const PROVIDER_OPTIONS: Array<{ value: Provider; label: string }> = [
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai', label: 'OpenAI Compatible' },
+  { value: 'mock', label: 'Mock' },
+  { value: 'sdwebui', label: 'SD WebUI' }
+];
+
+const ProviderConfigListForm: React.FC<ProviderConfigListFormProps> = ({
+  providers,
+  onSave,
+  maxItems,
+  saveLabel,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const [draft, setDraft] = useState<ProviderConfig[]>(providers);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(providers);
+  }, [providers]);
+
+  const inputClassName = `w-full border rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+
+  const updateEntry = (index: number, updates: Partial<ProviderConfig>) => {
+    setDraft((prev) => prev.map((entry, current) => (current === index ? { ...entry, ...updates } : entry)));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(draft);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {draft.map((entry, index) => (
+        <div
+          key={index}
+          className={`rounded-lg border p-2 space-y-1.5 ${isLight ? 'border-gray-200' : 'border-zinc-800'}`}
+        >
+          <div className="flex items-center gap-2">
+            <span className={`text-xs shrink-0 ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>#{index + 1}</span>
+            <select
+              value={entry.provider}
+              onChange={(e) => updateEntry(index, { provider: e.target.value as Provider })}
+              className={inputClassName}
+            >
+              {PROVIDER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setDraft((prev) => prev.filter((_, current) => current !== index))}
+              className={`p-1 rounded transition-colors ${
+                isLight ? 'text-gray-500 hover:bg-gray-200' : 'text-zinc-400 hover:bg-zinc-800'
+              }`}
+              title="移除"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <input
+            type="text"
+            value={entry.model ?? ''}
+            onChange={(e) => updateEntry(index, { model: e.target.value })}
+            placeholder="模型（留空使用默认）"
+            className={inputClassName}
+          />
+          {entry.provider !== 'mock' && (
+            <>
+              <input
+                type="text"
+                value={entry.baseUrl ?? ''}
+                onChange={(e) => updateEntry(index, { baseUrl: e.target.value })}
+                placeholder="Base URL（留空使用官方地址）"
+                className={inputClassName}
+              />
+              {entry.provider !== 'sdwebui' && (
+                <input
+                  type="password"
+                  value={entry.apiKey}
+                  onChange={(e) => updateEntry(index, { apiKey: e.target.value })}
+                  placeholder="API Key"
+                  className={inputClassName}
+                />
+              )}
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setDraft((prev) => [...prev, { provider: 'openai', apiKey: '' }])}
+          disabled={draft.length >= maxItems}
+          className={`flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isLight
+              ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+              : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+          }`}
+        >
+          <Plus size={14} />
+          <span>添加</span>
+        </button>
+        <button
+          onClick={handleSave}
+          className={`flex-1 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+            saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+          }`}
+        >
+          <Check size={16} />
+          <span>{saved ? '已保存' : saveLabel}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderConfigListForm;
@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Check, Server, Cpu, Eye, EyeOff } from 'lucide-react';
-import { ProviderConfig, Provider } from '../types';
+import { Check, Server, Cpu, Eye, EyeOff, FlaskConical, HardDrive } from 'lucide-react';
+import { ProviderConfig, Provider, RetryPolicy } from '../types';
 import PerformanceHint from './PerformanceHint';
+import MockProviderOptionsForm from './MockProviderOptionsForm';
+import SdWebuiOptionsForm from './SdWebuiOptionsForm';
+import ConcurrencyLimitsForm from './ConcurrencyLimitsForm';
+import RetryPolicyForm from './RetryPolicyForm';
+import ProviderConfigListForm from './ProviderConfigListForm';
+import { MAX_FALLBACK_PROVIDERS } from '../core/providerFallback';
+import { MAX_COMPARE_PROVIDERS } from '../core/comparison';
+import type { SchedulerLimits } from '../core/generationScheduler';
+import { resolveOpenAIProviderOptions } from '../services/openaiService';
+import { DEFAULT_SD_WEBUI_BASE_URL } from '../services/sdWebuiService';
 
 interface ProviderConfigPanelProps {
   config: ProviderConfig;
@@ -9,6 +19,14 @@ interface ProviderConfigPanelProps {
   onApiKeyChange: (key: string) => void;
   onBaseUrlChange: (url: string) => void;
   onModelChange: (model: string) => void;
+  onOptionsChange: (options: Record<string, unknown>) => void;
+  onRetryPolicyChange: (policy: Partial<RetryPolicy>) => void;
+  fallbackProviders: ProviderConfig[];
+  onFallbackProvidersChange: (providers: ProviderConfig[]) => void;
+  compareProviders: ProviderConfig[];
+  onCompareProvidersChange: (providers: ProviderConfig[]) => void;
+  schedulerLimits: SchedulerLimits;
+  onSchedulerLimitsChange: (limits: SchedulerLimits) => void;
   theme: 'light' | 'dark';
   batchSize?: number;
 }
@@ -35,10 +53,20 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
   onApiKeyChange,
   onBaseUrlChange,
   onModelChange,
+  onOptionsChange,
+  onRetryPolicyChange,
+  fallbackProviders,
+  onFallbackProvidersChange,
+  compareProviders,
+  onCompareProvidersChange,
+  schedulerLimits,
+  onSchedulerLimitsChange,
   theme,
   batchSize = 1
 }) => {
   const isLight = theme === 'light';
+  // Mock and the local SD WebUI run without a key or a model list
+  const isKeyless = config.provider === 'mock' || config.provider === 'sdwebui';
   const [localApiKey, setLocalApiKey] = useState(config.apiKey);
   const [localBaseUrl, setLocalBaseUrl] = useState(config.baseUrl || '');
   const [localModel, setLocalModel] = useState(config.model || '');
@@ -147,251 +175,375 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
               <span className="font-semibold">OpenAI Compatible</span>
             </div>
           </button>
+          <button
+            onClick={() => onProviderChange('mock')}
+            className={`px-4 py-3 rounded-lg border-2 transition-all duration-200 ${
+              config.provider === 'mock'
+                ? isLight
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                : isLight
+                ? 'border-gray-300 bg-gray-50 text-gray-700 hover:border-gray-400'
+                : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:border-zinc-700'
+            }`}
+            title="离线模拟，不发送网络请求"
+          >
+            <div className="flex items-center justify-center space-x-2">
+              <FlaskConical size={18} />
+              <span className="font-semibold">Mock</span>
+            </div>
+          </button>
+          <button
+            onClick={() => onProviderChange('sdwebui')}
+            className={`px-4 py-3 rounded-lg border-2 transition-all duration-200 ${
+              config.provider === 'sdwebui'
+                ? isLight
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                : isLight
+                ? 'border-gray-300 bg-gray-50 text-gray-700 hover:border-gray-400'
+                : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:border-zinc-700'
+            }`}
+            title="局域网内的 Stable Diffusion WebUI（A1111 / Forge）"
+          >
+            <div className="flex items-center justify-center space-x-2">
+              <HardDrive size={18} />
+              <span className="font-semibold">SD WebUI</span>
+            </div>
+          </button>
         </div>
       </div>
 
-      {/* API Key */}
-      <div>
-        <div className="flex items-center justify-between mb-2">
+      {config.provider === 'mock' && (
+        <div>
           <label
-            className={`text-sm font-medium ${
+            className={`block text-sm font-medium mb-2 ${
               isLight ? 'text-gray-700' : 'text-zinc-300'
             }`}
           >
-            API Key {config.provider === 'openai' && '(OpenAI/Custom)'}
+            模拟参数 Mock
           </label>
-          {saveStatus.apiKey && (
-            <span
-              className={`text-xs ${
-                saveStatus.apiKey === 'saved'
-                  ? 'text-green-600'
-                  : 'text-red-600'
+          <MockProviderOptionsForm
+            options={config.options}
+            onSave={onOptionsChange}
+            theme={theme}
+          />
+        </div>
+      )}
+
+      {config.provider === 'sdwebui' && (
+        <div>
+          <label
+            className={`block text-sm font-medium mb-2 ${
+              isLight ? 'text-gray-700' : 'text-zinc-300'
+            }`}
+          >
+            生成参数 SD WebUI
+          </label>
+          <SdWebuiOptionsForm
+            options={config.options}
+            onSave={onOptionsChange}
+            theme={theme}
+          />
+        </div>
+      )}
+
+      {/* API Key */}
+      {!isKeyless && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label
+              className={`text-sm font-medium ${
+                isLight ? 'text-gray-700' : 'text-zinc-300'
               }`}
             >
-              {saveStatus.apiKey === 'saved' ? '✓ 已保存' : '✗ 保存失败'}
-            </span>
-          )}
+              API Key {config.provider === 'openai' && '(OpenAI/Custom)'}
+            </label>
+            {saveStatus.apiKey && (
+              <span
+                className={`text-xs ${
+                  saveStatus.apiKey === 'saved'
+                    ? 'text-green-600'
+                    : 'text-red-600'
+                }`}
+              >
+                {saveStatus.apiKey === 'saved' ? '✓ 已保存' : '✗ 保存失败'}
+              </span>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <div className="relative flex-1">
+              <input
+                type={showApiKey ? 'text' : 'password'}
+                value={localApiKey}
+                onChange={(e) => setLocalApiKey(e.target.value)}
+                placeholder={
+                  config.provider === 'openai'
+                    ? 'Enter OpenAI API Key...'
+                    : 'Enter Gemini API Key...'
+                }
+                className={`w-full border rounded-lg px-3 py-2 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  isLight
+                    ? 'bg-gray-50 border-gray-300 text-gray-900'
+                    : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                }`}
+              />
+              <button
+                type="button"
+                onClick={() => setShowApiKey(!showApiKey)}
+                className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded transition-colors ${
+                  isLight
+                    ? 'text-gray-500 hover:text-gray-700'
+                    : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+                title={showApiKey ? '隐藏 API Key' : '显示 API Key'}
+              >
+                {showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            </div>
+            <button
+              onClick={handleApiKeySave}
+              className={`p-2 rounded-lg transition-all ${
+                saveStatus.apiKey === 'saved'
+                  ? 'bg-green-600 hover:bg-green-500'
+                  : 'bg-indigo-600 hover:bg-indigo-500'
+              } text-white`}
+              title="保存 API Key"
+            >
+              <Check size={18} />
+            </button>
+          </div>
         </div>
-        <div className="flex space-x-2">
-          <div className="relative flex-1">
+
+      )}
+
+      {/* Checkpoint - SD WebUI */}
+      {config.provider === 'sdwebui' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label
+              className={`text-sm font-medium ${
+                isLight ? 'text-gray-700' : 'text-zinc-300'
+              }`}
+            >
+              模型 Checkpoint
+            </label>
+            {saveStatus.model && (
+              <span className="text-xs text-green-600">✓ 已保存</span>
+            )}
+          </div>
+          <div className="flex space-x-2">
             <input
-              type={showApiKey ? 'text' : 'password'}
-              value={localApiKey}
-              onChange={(e) => setLocalApiKey(e.target.value)}
-              placeholder={
-                config.provider === 'openai'
-                  ? 'Enter OpenAI API Key...'
-                  : 'Enter Gemini API Key...'
-              }
-              className={`w-full border rounded-lg px-3 py-2 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+              type="text"
+              value={localModel}
+              onChange={(e) => setLocalModel(e.target.value)}
+              placeholder="留空使用服务器当前加载的模型"
+              className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                 isLight
                   ? 'bg-gray-50 border-gray-300 text-gray-900'
                   : 'bg-zinc-900 border-zinc-800 text-zinc-200'
               }`}
             />
             <button
-              type="button"
-              onClick={() => setShowApiKey(!showApiKey)}
-              className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded transition-colors ${
-                isLight
-                  ? 'text-gray-500 hover:text-gray-700'
-                  : 'text-zinc-400 hover:text-zinc-200'
-              }`}
-              title={showApiKey ? '隐藏 API Key' : '显示 API Key'}
+              onClick={handleModelSave}
+              className={`p-2 rounded-lg transition-all ${
+                saveStatus.model === 'saved'
+                  ? 'bg-green-600 hover:bg-green-500'
+                  : 'bg-indigo-600 hover:bg-indigo-500'
+              } text-white`}
+              title="保存 Checkpoint"
             >
-              {showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              <Check size={18} />
             </button>
           </div>
-          <button
-            onClick={handleApiKeySave}
-            className={`p-2 rounded-lg transition-all ${
-              saveStatus.apiKey === 'saved'
-                ? 'bg-green-600 hover:bg-green-500'
-                : 'bg-indigo-600 hover:bg-indigo-500'
-            } text-white`}
-            title="保存 API Key"
+          <p
+            className={`text-xs mt-1 ${
+              isLight ? 'text-gray-500' : 'text-zinc-600'
+            }`}
           >
-            <Check size={18} />
-          </button>
+            填写 WebUI 模型下拉框中的名称，按请求通过 override_settings 切换，请求后切回
+          </p>
         </div>
-      </div>
+      )}
 
       {/* Model Selection - Both providers */}
-      <div>
-        <div className="flex items-center justify-between mb-2">
-          <label
-            className={`text-sm font-medium ${
-              isLight ? 'text-gray-700' : 'text-zinc-300'
-            }`}
-          >
-            模型 Model
-          </label>
-          {saveStatus.model && (
-            <span
-              className={`text-xs ${
-                saveStatus.model === 'saved'
-                  ? 'text-green-600'
-                  : 'text-red-600'
+      {!isKeyless && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label
+              className={`text-sm font-medium ${
+                isLight ? 'text-gray-700' : 'text-zinc-300'
               }`}
             >
-              {saveStatus.model === 'saved' ? '✓ 已保存' : '✗ 保存失败'}
-            </span>
-          )}
-        </div>
-
-        {config.provider === 'gemini' ? (
-          // Gemini: Dropdown + Custom option
-          <div className="space-y-2">
-            <div className="flex space-x-2">
-              {!isCustomModel ? (
-                <select
-                  value={localModel}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    if (value === '__custom__') {
-                      setIsCustomModel(true);
-                      setLocalModel('');
-                    } else {
-                      setLocalModel(value);
-                    }
-                  }}
-                  className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
-                    isLight
-                      ? 'bg-gray-50 border-gray-300 text-gray-900'
-                      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
-                  }`}
-                >
-                  {GEMINI_MODELS.map((model) => (
-                    <option key={model.value} value={model.value}>
-                      {model.label}
-                    </option>
-                  ))}
-                  <option value="__custom__">自定义模型...</option>
-                </select>
-              ) : (
-                <input
-                  type="text"
-                  value={localModel}
-                  onChange={(e) => setLocalModel(e.target.value)}
-                  placeholder="输入自定义模型名称"
-                  className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
-                    isLight
-                      ? 'bg-gray-50 border-gray-300 text-gray-900'
-                      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
-                  }`}
-                />
-              )}
-              <button
-                onClick={handleModelSave}
-                className={`p-2 rounded-lg transition-all ${
-                  saveStatus.model === 'saved'
-                    ? 'bg-green-600 hover:bg-green-500'
-                    : 'bg-indigo-600 hover:bg-indigo-500'
-                } text-white`}
-                title="保存 Model"
-              >
-                <Check size={18} />
-              </button>
-            </div>
-            {isCustomModel && (
-              <button
-                onClick={() => {
-                  setIsCustomModel(false);
-                  setLocalModel('gemini-3-pro-image-preview');
-                }}
+              模型 Model
+            </label>
+            {saveStatus.model && (
+              <span
                 className={`text-xs ${
-                  isLight
-                    ? 'text-indigo-600 hover:text-indigo-700'
-                    : 'text-indigo-400 hover:text-indigo-300'
+                  saveStatus.model === 'saved'
+                    ? 'text-green-600'
+                    : 'text-red-600'
                 }`}
               >
-                ← 返回预设模型
-              </button>
+                {saveStatus.model === 'saved' ? '✓ 已保存' : '✗ 保存失败'}
+              </span>
             )}
           </div>
-        ) : (
-          // OpenAI: Dropdown + Custom option (same as Gemini)
-          <div className="space-y-2">
-            <div className="flex space-x-2">
-              {!isCustomModel ? (
-                <select
-                  value={localModel}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    if (value === '__custom__') {
-                      setIsCustomModel(true);
-                      setLocalModel('');
-                    } else {
-                      setLocalModel(value);
-                    }
+
+          {config.provider === 'gemini' ? (
+            // Gemini: Dropdown + Custom option
+            <div className="space-y-2">
+              <div className="flex space-x-2">
+                {!isCustomModel ? (
+                  <select
+                    value={localModel}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (value === '__custom__') {
+                        setIsCustomModel(true);
+                        setLocalModel('');
+                      } else {
+                        setLocalModel(value);
+                      }
+                    }}
+                    className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      isLight
+                        ? 'bg-gray-50 border-gray-300 text-gray-900'
+                        : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                    }`}
+                  >
+                    {GEMINI_MODELS.map((model) => (
+                      <option key={model.value} value={model.value}>
+                        {model.label}
+                      </option>
+                    ))}
+                    <option value="__custom__">自定义模型...</option>
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={localModel}
+                    onChange={(e) => setLocalModel(e.target.value)}
+                    placeholder="输入自定义模型名称"
+                    className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      isLight
+                        ? 'bg-gray-50 border-gray-300 text-gray-900'
+                        : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                    }`}
+                  />
+                )}
+                <button
+                  onClick={handleModelSave}
+                  className={`p-2 rounded-lg transition-all ${
+                    saveStatus.model === 'saved'
+                      ? 'bg-green-600 hover:bg-green-500'
+                      : 'bg-indigo-600 hover:bg-indigo-500'
+                  } text-white`}
+                  title="保存 Model"
+                >
+                  <Check size={18} />
+                </button>
+              </div>
+              {isCustomModel && (
+                <button
+                  onClick={() => {
+                    setIsCustomModel(false);
+                    setLocalModel('gemini-3-pro-image-preview');
                   }}
-                  className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  className={`text-xs ${
                     isLight
-                      ? 'bg-gray-50 border-gray-300 text-gray-900'
-                      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                      ? 'text-indigo-600 hover:text-indigo-700'
+                      : 'text-indigo-400 hover:text-indigo-300'
                   }`}
                 >
-                  {OPENAI_MODELS.map((model) => (
-                    <option key={model.value} value={model.value}>
-                      {model.label}
-                    </option>
-                  ))}
-                  <option value="__custom__">自定义模型...</option>
-                </select>
-              ) : (
-                <input
-                  type="text"
-                  value={localModel}
-                  onChange={(e) => setLocalModel(e.target.value)}
-                  placeholder="输入自定义模型名称 (如 dall-e-3)"
-                  className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  ← 返回预设模型
+                </button>
+              )}
+            </div>
+          ) : (
+            // OpenAI: Dropdown + Custom option (same as Gemini)
+            <div className="space-y-2">
+              <div className="flex space-x-2">
+                {!isCustomModel ? (
+                  <select
+                    value={localModel}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (value === '__custom__') {
+                        setIsCustomModel(true);
+                        setLocalModel('');
+                      } else {
+                        setLocalModel(value);
+                      }
+                    }}
+                    className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      isLight
+                        ? 'bg-gray-50 border-gray-300 text-gray-900'
+                        : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                    }`}
+                  >
+                    {OPENAI_MODELS.map((model) => (
+                      <option key={model.value} value={model.value}>
+                        {model.label}
+                      </option>
+                    ))}
+                    <option value="__custom__">自定义模型...</option>
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={localModel}
+                    onChange={(e) => setLocalModel(e.target.value)}
+                    placeholder="输入自定义模型名称 (如 dall-e-3)"
+                    className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      isLight
+                        ? 'bg-gray-50 border-gray-300 text-gray-900'
+                        : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                    }`}
+                  />
+                )}
+                <button
+                  onClick={handleModelSave}
+                  className={`p-2 rounded-lg transition-all ${
+                    saveStatus.model === 'saved'
+                      ? 'bg-green-600 hover:bg-green-500'
+                      : 'bg-indigo-600 hover:bg-indigo-500'
+                  } text-white`}
+                  title="保存 Model"
+                >
+                  <Check size={18} />
+                </button>
+              </div>
+              {isCustomModel && (
+                <button
+                  onClick={() => {
+                    setIsCustomModel(false);
+                    setLocalModel('gpt-image-2');
+                  }}
+                  className={`text-xs ${
                     isLight
-                      ? 'bg-gray-50 border-gray-300 text-gray-900'
-                      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+                      ? 'text-indigo-600 hover:text-indigo-700'
+                      : 'text-indigo-400 hover:text-indigo-300'
                   }`}
-                />
+                >
+                  ← 返回预设模型
+                </button>
               )}
-              <button
-                onClick={handleModelSave}
-                className={`p-2 rounded-lg transition-all ${
-                  saveStatus.model === 'saved'
-                    ? 'bg-green-600 hover:bg-green-500'
-                    : 'bg-indigo-600 hover:bg-indigo-500'
-                } text-white`}
-                title="保存 Model"
-              >
-                <Check size={18} />
-              </button>
             </div>
-            {isCustomModel && (
-              <button
-                onClick={() => {
-                  setIsCustomModel(false);
-                  setLocalModel('gpt-image-2');
-                }}
-                className={`text-xs ${
-                  isLight
-                    ? 'text-indigo-600 hover:text-indigo-700'
-                    : 'text-indigo-400 hover:text-indigo-300'
-                }`}
-              >
-                ← 返回预设模型
-              </button>
-            )}
-          </div>
-        )}
+          )}
 
-        <p
-          className={`text-xs mt-1 ${
-            isLight ? 'text-gray-500' : 'text-zinc-600'
-          }`}
-        >
-          选择预设模型或输入自定义模型名称
-        </p>
-      </div>
+          <p
+            className={`text-xs mt-1 ${
+              isLight ? 'text-gray-500' : 'text-zinc-600'
+            }`}
+          >
+            选择预设模型或输入自定义模型名称
+          </p>
+        </div>
+      )}
 
       {/* Base URL */}
-      {(config.provider === 'openai' || config.provider === 'gemini') && (
+      {(config.provider === 'openai' || config.provider === 'gemini' || config.provider === 'sdwebui') && (
         <div>
           <div className="flex items-center justify-between mb-2">
             <label
@@ -399,7 +551,7 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
                 isLight ? 'text-gray-700' : 'text-zinc-300'
               }`}
             >
-              {config.provider === 'openai' ? 'Base URL' : 'Gemini Base URL'}
+              {config.provider === 'gemini' ? 'Gemini Base URL' : 'Base URL'}
             </label>
             {saveStatus.baseUrl && (
               <span
@@ -421,6 +573,8 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
               placeholder={
                 config.provider === 'openai'
                   ? 'https://api.openai.com/v1'
+                  : config.provider === 'sdwebui'
+                  ? DEFAULT_SD_WEBUI_BASE_URL
                   : 'https://generativelanguage.googleapis.com/v1beta'
               }
               className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
@@ -448,11 +602,146 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
           >
             {config.provider === 'openai'
               ? '支持 OpenAI 兼容接口 (如Google AI OpenAI endpoint)'
+              : config.provider === 'sdwebui'
+              ? 'WebUI 地址，需以 --api 启动；浏览器直连时还需 --cors-allow-origins'
               : 'Gemini REST Base URL'}
           </p>
         </div>
       )}
 
+      {/* Streaming preview */}
+      {config.provider === 'openai' && (
+        <div>
+          <label
+            className={`block text-sm font-medium mb-2 ${
+              isLight ? 'text-gray-700' : 'text-zinc-300'
+            }`}
+          >
+            流式预览 Streaming
+          </label>
+          <select
+            value={resolveOpenAIProviderOptions(config.options).partialImages}
+            onChange={(e) =>
+              onOptionsChange({ ...config.options, partialImages: Number(e.target.value) })
+            }
+            className={`w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+              isLight
+                ? 'bg-gray-50 border-gray-300 text-gray-900'
+                : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+            }`}
+          >
+            <option value={0}>关闭（等待最终图片）</option>
+            <option value={1}>每张 1 帧预览</option>
+            <option value={2}>每张 2 帧预览</option>
+            <option value={3}>每张 3 帧预览</option>
+          </select>
+          <p
+            className={`text-xs mt-1 ${
+              isLight ? 'text-gray-500' : 'text-zinc-600'
+            }`}
+          >
+            仅 gpt-image 模型支持；生成过程中逐步显示预览，每帧会额外计费少量输出 token
+          </p>
+        </div>
+      )}
+
+      {/* Concurrency */}
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            isLight ? 'text-gray-700' : 'text-zinc-300'
+          }`}
+        >
+          并发 Concurrency
+        </label>
+        <ConcurrencyLimitsForm
+          limits={schedulerLimits}
+          providerId={config.provider}
+          onSave={onSchedulerLimitsChange}
+          theme={theme}
+        />
+        <p
+          className={`text-xs mt-1 ${
+            isLight ? 'text-gray-500' : 'text-zinc-600'
+          }`}
+        >
+          所有会话共享，超出上限的请求排队等待
+        </p>
+      </div>
+
+      {/* Retry Policy */}
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            isLight ? 'text-gray-700' : 'text-zinc-300'
+          }`}
+        >
+          重试策略 Retry
+        </label>
+        <RetryPolicyForm
+          policy={config.retryPolicy}
+          onSave={onRetryPolicyChange}
+          theme={theme}
+        />
+        <p
+          className={`text-xs mt-1 ${
+            isLight ? 'text-gray-500' : 'text-zinc-600'
+          }`}
+        >
+          按 Provider 分别保存；不稳定的代理可调高次数，官方接口可设为 1 次快速失败
+        </p>
+      </div>
+
+      {/* Fallback Providers */}
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            isLight ? 'text-gray-700' : 'text-zinc-300'
+          }`}
+        >
+          备用 Provider Fallback
+        </label>
+        <ProviderConfigListForm
+          providers={fallbackProviders}
+          onSave={onFallbackProvidersChange}
+          maxItems={MAX_FALLBACK_PROVIDERS}
+          saveLabel="保存备用链"
+          theme={theme}
+        />
+        <p
+          className={`text-xs mt-1 ${
+            isLight ? 'text-gray-500' : 'text-zinc-600'
+          }`}
+        >
+          图片因网络、429 或 5xx 错误最终失败时，按顺序改用备用 Provider 重新生成
+        </p>
+      </div>
+
+      {/* Compare Providers */}
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            isLight ? 'text-gray-700' : 'text-zinc-300'
+          }`}
+        >
+          对比 Provider Compare
+        </label>
+        <ProviderConfigListForm
+          providers={compareProviders}
+          onSave={onCompareProvidersChange}
+          maxItems={MAX_COMPARE_PROVIDERS}
+          saveLabel="保存对比列表"
+          theme={theme}
+        />
+        <p
+          className={`text-xs mt-1 ${
+            isLight ? 'text-gray-500' : 'text-zinc-600'
+          }`}
+        >
+          输入框的「对比发送」会把同一提示词同时发给当前 Provider 与这里的每个配置，结果按列并排显示
+        </p>
+      </div>
+
       {/* Info */}
       <div
         className={`p-3 rounded-lg text-xs ${
@@ -463,7 +752,19 @@ const ProviderConfigPanel: React.FC<ProviderConfigPanelProps> = ({
       >
         <p className="font-semibold mb-1">配置说明:</p>
         <ul className="space-y-1 list-disc list-inside">
-          {config.provider === 'gemini' ? (
+          {config.provider === 'mock' ? (
+            <>
+              <li>不调用任何接口，也不需要 API Key</li>
+              <li>生成带有提示词、槽位序号和比例的占位 PNG</li>
+              <li>可模拟延迟与 429 / 451 / 500 / 超时 / 审核失败，用于调试重试与取消</li>
+            </>
+          ) : config.provider === 'sdwebui' ? (
+            <>
+              <li>调用本地或局域网的 /sdapi/v1/txt2img 与 /sdapi/v1/img2img，不需要 API Key</li>
+              <li>有上传或选中的图片时走图生图，以第一张作为 init_images 发送</li>
+              <li>比例与分辨率换算为宽高（64 的倍数），每张图单独请求</li>
+            </>
+          ) : config.provider === 'gemini' ? (
             <>
               <li>使用 Google Gemini API</li>
               <li>支持预设模型或自定义模型</li>
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Undo2, X } from 'lucide-react';
+import type { ConversationContext } from '../types';
+import { describeConversationContext } from '../core/conversationContext';
+import { getImageOrderLabel, type ContextImage } from '../core/contextImages';
+import type { GenerationRequestPreview } from '../core/requestPreview';
+
+interface RequestInspectorProps {
+  preview?: GenerationRequestPreview;
+  error?: string;
+  context: ConversationContext;
+  theme: 'light' | 'dark';
+  // Leaves a selected history image out of this send, or brings it back.
+  onToggleImage: (imageId: string) => void;
+}
+
+const SOURCE_LABELS: Record<ContextImage['source'], string> = {
+  history: '选中',
+  upload: '上传',
+  mask: '遮罩标注'
+};
+
+const RequestInspector: React.FC<RequestInspectorProps> = ({ preview, error, context, theme, onToggleImage }) => {
+  const isLight = theme === 'light';
+  const mutedClassName = isLight ? 'text-gray-500' : 'text-zinc-500';
+  // Excluded images trail the sent ones so the 图一/图二 labels match the request.
+  const images = preview ? [...preview.images, ...preview.excludedImages] : [];
+
+  return (
+    <div className={`mb-3 rounded-xl border p-3 text-xs space-y-2.5 ${
+      isLight ? 'bg-gray-50 border-gray-200 text-gray-700' : 'bg-zinc-900/80 border-zinc-800 text-zinc-300'
+    }`}>
+      {error && <p className="text-red-500">{error}</p>}
+      {preview && (
+        <>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            <span className="font-semibold">{preview.providerLabel}{preview.model ? ` · ${preview.model}` : ''}</span>
+            {preview.route && <span>路由 {preview.route}</span>}
+            <span>{preview.aspectRatio} · {preview.resolution}</span>
+            {preview.size && <span>尺寸 {preview.size}</span>}
+            {preview.quality && <span>质量 {preview.quality}</span>}
+          </div>
+          {preview.error && <p className="text-red-500">{preview.error}</p>}
+
+          <div>
+            <p className={`mb-1.5 ${mutedClassName}`}>图片（按发送顺序，{preview.images.length} 张）</p>
+            {images.length === 0 ? (
+              <p className={mutedClassName}>不附带图片</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {images.map((image, index) => {
+                  const isExcluded = index >= preview.images.length;
+                  const label = isExcluded ? '已排除' : getImageOrderLabel(index);
+                  return (
+                    <div key={image.id} className="relative group w-16">
+                      {image.mask && preview.route === 'edits' && (
+                        <span className="absolute top-0.5 left-0.5 px-1 rounded bg-red-500/90 text-white text-[10px]">
+                          遮罩
+                        </span>
+                      )}
+                      <img
+                        src={image.data}
+                        alt={label}
+                        className={`w-16 h-16 rounded-lg object-cover border ${
+                          isLight ? 'border-gray-200' : 'border-zinc-700'
+                        } ${isExcluded ? 'opacity-30 grayscale' : ''}`}
+                      />
+                      <p className="mt-0.5 truncate text-center">
+                        {label}
+                        <span className={mutedClassName}> · {SOURCE_LABELS[image.source]}</span>
+                      </p>
+                      {image.source === 'history' && (
+                        <button
+                          type="button"
+                          onClick={() => onToggleImage(image.id)}
+                          className={`absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full flex items-center justify-center shadow transition-opacity ${
+                            isExcluded
+                              ? 'bg-indigo-600 text-white'
+                              : 'bg-red-500 text-white opacity-0 group-hover:opacity-100'
+                          }`}
+                          title={isExcluded ? '本次仍然发送' : '本次不发送这张图片'}
+                        >
+                          {isExcluded ? <Undo2 size={12} /> : <X size={12} />}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className={`mb-1 ${mutedClassName}`}>最终提示词</p>
+            <pre className={`whitespace-pre-wrap break-words font-sans max-h-32 overflow-y-auto rounded-lg px-2 py-1.5 border ${
+              isLight ? 'bg-white border-gray-200' : 'bg-zinc-950 border-zinc-800'
+            }`}>
+              {preview.prompt || '（无提示词）'}
+            </pre>
+          </div>
+
+          <p className={mutedClassName}>
+            {preview.sendsHistory
+              ? `文字历史：${preview.turns.length} 轮（${describeConversationContext(context)}）`
+              : '该路由不发送文字历史'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RequestInspector;
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import type { GenerationErrorKind, RetryPolicy } from '../types';
+import { GENERATION_ERROR_KINDS, resolveRetryPolicy } from '../core/retryPolicy';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+interface RetryPolicyFormProps {
+  policy?: Partial<RetryPolicy>;
+  onSave: (policy: Partial<RetryPolicy>) => void;
+  theme: 'light' | 'dark';
+}
+
+const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  network: '网络 / 超时',
+  http: '其他 HTTP 错误',
+  moderation: '内容审核',
+  invalid_request: '无效请求',
+  unknown: '未知错误'
+};
+
+// An empty field keeps the default rule (429 and any 5xx).
+function parseStatusCodes(value: string): number[] | undefined {
+  const codes = value
+    .split(/[,\s，]+/)
+    .map((item) => Number.parseInt(item, 10))
+    .filter((item) => Number.isInteger(item));
+  return codes.length > 0 ? codes : undefined;
+}
+
+const RetryPolicyForm: React.FC<RetryPolicyFormProps> = ({ policy, onSave, theme }) => {
+  const isLight = theme === 'light';
+  const [draft, setDraft] = useState<RetryPolicy>(() => resolveRetryPolicy(policy));
+  const [statusCodesText, setStatusCodesText] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const resolved = resolveRetryPolicy(policy);
+    setDraft(resolved);
+    setStatusCodesText(resolved.retryOnStatusCodes?.join(', ') ?? '');
+  }, [policy]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    isLight ? 'text-gray-600' : 'text-zinc-400'
+  }`;
+
+  const updateNumber = (key: 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs', value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    setDraft((prev) => ({ ...prev, [key]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) }));
+  };
+
+  const toggleKind = (kind: GenerationErrorKind) => {
+    setDraft((prev) => ({
+      ...prev,
+      retryOnKinds: prev.retryOnKinds.includes(kind)
+        ? prev.retryOnKinds.filter((item) => item !== kind)
+        : [...prev.retryOnKinds, kind]
+    }));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(resolveRetryPolicy({ ...draft, retryOnStatusCodes: parseStatusCodes(statusCodesText) }));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClassName}>最多尝试次数（含首次）</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.maxAttempts}
+            onChange={(e) => updateNumber('maxAttempts', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>随机抖动 {Math.round(draft.jitter * 100)}%</label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={10}
+            value={Math.round(draft.jitter * 100)}
+            onChange={(e) => setDraft((prev) => ({ ...prev, jitter: Number(e.target.value) / 100 }))}
+            className="w-full accent-indigo-600"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>初始等待 (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.baseDelayMs}
+            onChange={(e) => updateNumber('baseDelayMs', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>最长等待 (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.maxDelayMs}
+            onChange={(e) => updateNumber('maxDelayMs', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>重试的状态码</label>
+        <input
+          type="text"
+          value={statusCodesText}
+          onChange={(e) => setStatusCodesText(e.target.value)}
+          placeholder="留空：429 与所有 5xx"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>重试的错误类型</label>
+        <div className="flex flex-wrap gap-2">
+          {GENERATION_ERROR_KINDS.map((kind) => {
+            const active = draft.retryOnKinds.includes(kind);
+            return (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => toggleKind(kind)}
+                className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+                  active
+                    ? isLight
+                      ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                      : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                    : isLight
+                    ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+                    : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+                }`}
+              >
+                {ERROR_KIND_LABELS[kind]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        className={`w-full flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+          saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+        }`}
+      >
+        <Check size={16} />
+        <span>{saved ? '已保存' : '保存重试策略'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default RetryPolicyForm;
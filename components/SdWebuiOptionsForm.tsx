@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import {
+  SdWebuiProviderOptions,
+  resolveSdWebuiProviderOptions,
+  sdWebuiProviderOptionsSchema
+} from '../services/sdWebuiService';
+
+interface SdWebuiOptionsFormProps {
+  options?: Record<string, unknown>;
+  onSave: (options: Record<string, unknown>) => void;
+  theme: 'light' | 'dark';
+}
+
+// Samplers every A1111 / Forge install ships; others can be typed in.
+const COMMON_SAMPLERS = ['Euler a', 'Euler', 'DPM++ 2M', 'DPM++ 2M Karras', 'DPM++ SDE Karras', 'UniPC', 'DDIM'];
+
+const SdWebuiOptionsForm: React.FC<SdWebuiOptionsFormProps> = ({ options, onSave, theme }) => {
+  const isLight = theme === 'light';
+  const [draft, setDraft] = useState<SdWebuiProviderOptions>(() => resolveSdWebuiProviderOptions(options));
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(resolveSdWebuiProviderOptions(options));
+  }, [options]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    isLight ? 'text-gray-600' : 'text-zinc-400'
+  }`;
+
+  const updateNumber = (key: 'steps' | 'cfgScale' | 'seed', value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || Number.isNaN(parsed)) return;
+    setDraft((prev) => ({ ...prev, [key]: parsed }));
+  };
+
+  const handleSave = () => {
+    const result = sdWebuiProviderOptionsSchema.safeParse(draft);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      alert(`参数无效（${issue?.path.join('.') || '生成参数'}）：步数 1-150，CFG 1-30，种子 ≥ -1`);
+      return;
+    }
+    onSave(result.data);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClassName}>采样器 Sampler</label>
+        <input
+          type="text"
+          list="sdwebui-samplers"
+          value={draft.sampler}
+          onChange={(e) => setDraft((prev) => ({ ...prev, sampler: e.target.value }))}
+          className={inputClassName}
+        />
+        <datalist id="sdwebui-samplers">
+          {COMMON_SAMPLERS.map((sampler) => (
+            <option key={sampler} value={sampler} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClassName}>步数 Steps</label>
+          <input
+            type="number"
+            min={1}
+            max={150}
+            value={draft.steps}
+            onChange={(e) => updateNumber('steps', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>CFG</label>
+          <input
+            type="number"
+            min={1}
+            max={30}
+            step={0.5}
+            value={draft.cfgScale}
+            onChange={(e) => updateNumber('cfgScale', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>种子 Seed</label>
+          <input
+            type="number"
+            min={-1}
+            value={draft.seed}
+            onChange={(e) => updateNumber('seed', e.target.value)}
+            className={inputClassName}
+            title="-1 为随机；固定种子时第 N 张使用 种子 + N"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>重绘幅度 {draft.denoisingStrength.toFixed(2)}（仅图生图）</label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(draft.denoisingStrength * 100)}
+          onChange={(e) => setDraft((prev) => ({ ...prev, denoisingStrength: Number(e.target.value) / 100 }))}
+          className="w-full accent-indigo-600"
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>反向提示词 Negative prompt</label>
+        <textarea
+          value={draft.negativePrompt}
+          onChange={(e) => setDraft((prev) => ({ ...prev, negativePrompt: e.target.value }))}
+          rows={2}
+          placeholder="例如 lowres, blurry, watermark"
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+
+      <label
+        className={`flex items-start space-x-2 text-xs ${isLight ? 'text-gray-600' : 'text-zinc-400'}`}
+        title="默认每次请求后切回服务器原来的模型；多人共用的 WebUI 上开启会改变其他人使用的模型"
+      >
+        <input
+          type="checkbox"
+          checked={draft.keepCheckpointLoaded}
+          onChange={(e) => setDraft((prev) => ({ ...prev, keepCheckpointLoaded: e.target.checked }))}
+          className="mt-0.5 accent-indigo-600"
+        />
+        <span>请求后保持 Checkpoint 加载（不切回服务器原来的模型，连续出图更快）</span>
+      </label>
+
+      <button
+        onClick={handleSave}
+        className={`w-full flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+          saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+        }`}
+      >
+        <Check size={16} />
+        <span>{saved ? '已保存' : '保存生成参数'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default SdWebuiOptionsForm;
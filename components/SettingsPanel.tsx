@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Layers, Monitor, Square, Key, Sun, Moon, Trash2, Download, Upload, Loader2 } from 'lucide-react';
+import { Layers, Monitor, Square, Key, Sun, Moon, Trash2, Download, Upload, Loader2, Braces, FileSpreadsheet, CircleDollarSign, ChartColumn } from 'lucide-react';
 import {
   AppSettings,
   AspectRatio,
@@ -7,10 +7,19 @@ import {
   Message,
   ProviderConfig,
   Provider,
+  RetryPolicy,
   ASPECT_RATIO_OPTIONS,
   GPT_IMAGE_ASPECT_RATIO_OPTIONS
 } from '../types';
 import ProviderConfigPanel from './ProviderConfigPanel';
+import WildcardManager from './WildcardManager';
+import BatchImportPanel from './BatchImportPanel';
+import SpendingPanel from './SpendingPanel';
+import UsagePanel from './UsagePanel';
+import type { WildcardLists } from '../core/promptTemplate';
+import type { BatchImportJob, BatchImportRowProgress } from '../core/batchImport';
+import type { SchedulerLimits } from '../core/generationScheduler';
+import type { PriceEntry, SpendBudget, SpendTotals } from '../core/pricing';
 import { getMessageGenerationSlots, getSuccessfulImages } from '../core/generationSlots';
 
 interface SettingsPanelProps {
@@ -21,6 +30,14 @@ interface SettingsPanelProps {
   onApiKeyChange: (key: string) => void;
   onBaseUrlChange: (url: string) => void;
   onModelChange: (model: string) => void;
+  onOptionsChange: (options: Record<string, unknown>) => void;
+  onRetryPolicyChange: (policy: Partial<RetryPolicy>) => void;
+  fallbackProviders: ProviderConfig[];
+  onFallbackProvidersChange: (providers: ProviderConfig[]) => void;
+  compareProviders: ProviderConfig[];
+  onCompareProvidersChange: (providers: ProviderConfig[]) => void;
+  schedulerLimits: SchedulerLimits;
+  onSchedulerLimitsChange: (limits: SchedulerLimits) => void;
   theme: 'light' | 'dark';
   onThemeChange: (theme: 'light' | 'dark') => void;
   onClearAllData?: () => void | Promise<void>;
@@ -28,6 +45,19 @@ interface SettingsPanelProps {
   messages?: Message[];
   storageUsage?: { usageBytes: number; budgetBytes: number; usageRatio: number; browserQuotaBytes: number } | null;
   onImportMessages?: (messages: Message[]) => void;
+  wildcards: WildcardLists;
+  onSaveWildcard: (name: string, content: string) => void;
+  onRemoveWildcard: (name: string) => void;
+  onImportBatch: (jobs: BatchImportJob[], sourceName: string) => void;
+  batchImportRows: BatchImportRowProgress[];
+  pricingTable: PriceEntry[];
+  onPricingTableChange: (table: PriceEntry[]) => void;
+  onResetPricingTable: () => void;
+  budget: SpendBudget;
+  onBudgetChange: (budget: SpendBudget) => void;
+  spendTotals: SpendTotals;
+  onResetSpendTotals: () => void;
+  sessionId: string;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -38,16 +68,45 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onApiKeyChange,
   onBaseUrlChange,
   onModelChange,
+  onOptionsChange,
+  onRetryPolicyChange,
+  fallbackProviders,
+  onFallbackProvidersChange,
+  compareProviders,
+  onCompareProvidersChange,
+  schedulerLimits,
+  onSchedulerLimitsChange,
   theme,
   onThemeChange,
   onClearAllData,
   isClearingData = false,
   messages,
   storageUsage,
-  onImportMessages
+  onImportMessages,
+  wildcards,
+  onSaveWildcard,
+  onRemoveWildcard,
+  onImportBatch,
+  batchImportRows,
+  pricingTable,
+  onPricingTableChange,
+  onResetPricingTable,
+  budget,
+  onBudgetChange,
+  spendTotals,
+  onResetSpendTotals,
+  sessionId
 }) => {
   const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [isWildcardsOpen, setIsWildcardsOpen] = useState(false);
+  const [isBatchImportOpen, setIsBatchImportOpen] = useState(false);
+  const [isSpendingOpen, setIsSpendingOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const wildcardsRef = useRef<HTMLDivElement>(null);
+  const batchImportRef = useRef<HTMLDivElement>(null);
+  const spendingRef = useRef<HTMLDivElement>(null);
+  const usageRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Close dropdown when clicking outside
@@ -56,6 +115,18 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setIsConfigOpen(false);
       }
+      if (wildcardsRef.current && !wildcardsRef.current.contains(event.target as Node)) {
+        setIsWildcardsOpen(false);
+      }
+      if (batchImportRef.current && !batchImportRef.current.contains(event.target as Node)) {
+        setIsBatchImportOpen(false);
+      }
+      if (spendingRef.current && !spendingRef.current.contains(event.target as Node)) {
+        setIsSpendingOpen(false);
+      }
+      if (usageRef.current && !usageRef.current.contains(event.target as Node)) {
+        setIsUsageOpen(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -415,12 +486,137 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         </div>
       )}
 
+      {/* Batch Import */}
+      <div className="relative" ref={batchImportRef}>
+        <button
+          onClick={() => setIsBatchImportOpen(!isBatchImportOpen)}
+          className={`p-1.5 rounded transition-colors ${
+            batchImportRows.some((row) => row.progress.pending > 0)
+              ? isLight
+                ? 'text-indigo-600 hover:text-indigo-700'
+                : 'text-indigo-400 hover:text-indigo-300'
+              : isLight
+              ? 'text-gray-500 hover:text-gray-700'
+              : 'text-zinc-400 hover:text-zinc-200'
+          }`}
+          title="从 CSV / JSONL 批量导入任务"
+        >
+          <FileSpreadsheet size={16} />
+        </button>
+
+        {isBatchImportOpen && (
+          <div
+            className={`absolute top-full right-0 mt-3 w-96 border rounded-xl shadow-2xl z-50 animate-in slide-in-from-top-2 duration-200 ${
+              isLight ? 'bg-white border-gray-300' : 'bg-zinc-950 border-zinc-800'
+            }`}
+          >
+            <BatchImportPanel onImport={onImportBatch} rows={batchImportRows} theme={theme} />
+          </div>
+        )}
+      </div>
+
+      {/* Spending */}
+      <div className="relative" ref={spendingRef}>
+        <button
+          onClick={() => setIsSpendingOpen(!isSpendingOpen)}
+          className={`p-1.5 rounded transition-colors ${
+            budget.dailyLimit !== undefined || budget.sessionLimit !== undefined
+              ? isLight
+                ? 'text-indigo-600 hover:text-indigo-700'
+                : 'text-indigo-400 hover:text-indigo-300'
+              : isLight
+              ? 'text-gray-500 hover:text-gray-700'
+              : 'text-zinc-400 hover:text-zinc-200'
+          }`}
+          title="费用与预算"
+        >
+          <CircleDollarSign size={16} />
+        </button>
+
+        {isSpendingOpen && (
+          <div
+            className={`absolute top-full right-0 mt-3 w-96 border rounded-xl shadow-2xl z-50 animate-in slide-in-from-top-2 duration-200 ${
+              isLight ? 'bg-white border-gray-300' : 'bg-zinc-950 border-zinc-800'
+            }`}
+          >
+            <SpendingPanel
+              pricingTable={pricingTable}
+              onSavePricingTable={onPricingTableChange}
+              onResetPricingTable={onResetPricingTable}
+              budget={budget}
+              onSaveBudget={onBudgetChange}
+              spendTotals={spendTotals}
+              onResetSpendTotals={onResetSpendTotals}
+              sessionId={sessionId}
+              theme={theme}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Usage Ledger */}
+      <div className="relative" ref={usageRef}>
+        <button
+          onClick={() => setIsUsageOpen(!isUsageOpen)}
+          className={`p-1.5 rounded transition-colors ${
+            isLight ? 'text-gray-500 hover:text-gray-700' : 'text-zinc-400 hover:text-zinc-200'
+          }`}
+          title="调用记录与 CSV 导出"
+        >
+          <ChartColumn size={16} />
+        </button>
+
+        {isUsageOpen && (
+          <div
+            className={`absolute top-full right-0 mt-3 w-[28rem] max-w-[90vw] border rounded-xl shadow-2xl z-50 animate-in slide-in-from-top-2 duration-200 ${
+              isLight ? 'bg-white border-gray-300' : 'bg-zinc-950 border-zinc-800'
+            }`}
+          >
+            <UsagePanel theme={theme} />
+          </div>
+        )}
+      </div>
+
+      {/* Wildcards */}
+      <div className="relative" ref={wildcardsRef}>
+        <button
+          onClick={() => setIsWildcardsOpen(!isWildcardsOpen)}
+          className={`p-1.5 rounded transition-colors ${
+            Object.keys(wildcards).length > 0
+              ? isLight
+                ? 'text-indigo-600 hover:text-indigo-700'
+                : 'text-indigo-400 hover:text-indigo-300'
+              : isLight
+              ? 'text-gray-500 hover:text-gray-700'
+              : 'text-zinc-400 hover:text-zinc-200'
+          }`}
+          title="动态提示词通配符"
+        >
+          <Braces size={16} />
+        </button>
+
+        {isWildcardsOpen && (
+          <div
+            className={`absolute top-full right-0 mt-3 w-96 border rounded-xl shadow-2xl z-50 animate-in slide-in-from-top-2 duration-200 ${
+              isLight ? 'bg-white border-gray-300' : 'bg-zinc-950 border-zinc-800'
+            }`}
+          >
+            <WildcardManager
+              wildcards={wildcards}
+              onSave={onSaveWildcard}
+              onRemove={onRemoveWildcard}
+              theme={theme}
+            />
+          </div>
+        )}
+      </div>
+
       {/* Provider Config Toggle */}
       <div className="relative" ref={dropdownRef}>
         <button
           onClick={() => setIsConfigOpen(!isConfigOpen)}
           className={`p-1.5 rounded transition-colors ${
-            providerConfig.apiKey
+            providerConfig.apiKey || providerConfig.provider === 'mock' || providerConfig.provider === 'sdwebui'
               ? 'text-green-500 hover:text-green-400'
               : isLight
               ? 'text-gray-500 hover:text-gray-700'
@@ -443,6 +639,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               onApiKeyChange={onApiKeyChange}
               onBaseUrlChange={onBaseUrlChange}
               onModelChange={onModelChange}
+              onOptionsChange={onOptionsChange}
+              onRetryPolicyChange={onRetryPolicyChange}
+              fallbackProviders={fallbackProviders}
+              onFallbackProvidersChange={onFallbackProvidersChange}
+              compareProviders={compareProviders}
+              onCompareProvidersChange={onCompareProvidersChange}
+              schedulerLimits={schedulerLimits}
+              onSchedulerLimitsChange={onSchedulerLimitsChange}
               theme={theme}
               batchSize={settings.batchSize}
             />
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import {
+  formatCost,
+  formatPricingTable,
+  getSpendDayKey,
+  parsePricingTable,
+  type BudgetAction,
+  type PriceEntry,
+  type SpendBudget,
+  type SpendTotals
+} from '../core/pricing';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+interface SpendingPanelProps {
+  pricingTable: PriceEntry[];
+  onSavePricingTable: (table: PriceEntry[]) => void;
+  onResetPricingTable: () => void;
+  budget: SpendBudget;
+  onSaveBudget: (budget: SpendBudget) => void;
+  spendTotals: SpendTotals;
+  onResetSpendTotals: () => void;
+  sessionId: string;
+  theme: 'light' | 'dark';
+}
+
+// Blank means no cap.
+function parseLimit(value: string): number | undefined {
+  const parsed = Number.parseFloat(value);
+  return value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+const SpendingPanel: React.FC<SpendingPanelProps> = ({
+  pricingTable,
+  onSavePricingTable,
+  onResetPricingTable,
+  budget,
+  onSaveBudget,
+  spendTotals,
+  onResetSpendTotals,
+  sessionId,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const [tableText, setTableText] = useState('');
+  const [dailyText, setDailyText] = useState('');
+  const [sessionText, setSessionText] = useState('');
+  const [onExceed, setOnExceed] = useState<BudgetAction>(budget.onExceed);
+  const [saved, setSaved] = useState<'budget' | 'pricing' | null>(null);
+
+  useEffect(() => {
+    setTableText(formatPricingTable(pricingTable));
+  }, [pricingTable]);
+
+  useEffect(() => {
+    setDailyText(budget.dailyLimit?.toString() ?? '');
+    setSessionText(budget.sessionLimit?.toString() ?? '');
+    setOnExceed(budget.onExceed);
+  }, [budget]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    isLight ? 'text-gray-600' : 'text-zinc-400'
+  }`;
+  const buttonClassName = (active: boolean) =>
+    `flex-1 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+      active ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+    }`;
+
+  const flashSaved = (target: 'budget' | 'pricing') => {
+    setSaved(target);
+    setTimeout(() => setSaved(null), 2000);
+  };
+
+  const handleSaveBudget = () => {
+    onSaveBudget({
+      dailyLimit: parseLimit(dailyText),
+      sessionLimit: parseLimit(sessionText),
+      onExceed
+    });
+    flashSaved('budget');
+  };
+
+  const handleSavePricing = () => {
+    try {
+      onSavePricingTable(parsePricingTable(tableText));
+      flashSaved('pricing');
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    }
+  };
+
+  const todaySpend = spendTotals.days[getSpendDayKey()] ?? 0;
+  const sessionSpend = spendTotals.sessions[sessionId] ?? 0;
+
+  return (
+    <div className="p-4 space-y-3">
+      <div>
+        <h3 className={`text-sm font-semibold ${isLight ? 'text-gray-900' : 'text-zinc-100'}`}>费用与预算</h3>
+        <p className={`text-xs mt-1 ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>
+          按成功生成的图片计费（美元），失败的尝试不计入。
+        </p>
+      </div>
+
+      <div className={`flex items-center justify-between text-sm ${isLight ? 'text-gray-700' : 'text-zinc-300'}`}>
+        <span>今日 {formatCost(todaySpend)} · 本会话 {formatCost(sessionSpend)}</span>
+        <button
+          onClick={() => {
+            if (window.confirm('确定清零所有已记录的花费吗？')) onResetSpendTotals();
+          }}
+          className={`p-1 rounded transition-colors ${
+            isLight ? 'text-gray-500 hover:text-gray-700' : 'text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="清零花费记录"
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className={labelClassName}>每日上限</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={dailyText}
+            onChange={(e) => setDailyText(e.target.value)}
+            placeholder="不限"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>每会话上限</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={sessionText}
+            onChange={(e) => setSessionText(e.target.value)}
+            placeholder="不限"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>超出时</label>
+          <select
+            value={onExceed}
+            onChange={(e) => setOnExceed(e.target.value as BudgetAction)}
+            className={inputClassName}
+          >
+            <option value="warn">提醒</option>
+            <option value="block">阻止发送</option>
+          </select>
+        </div>
+      </div>
+      <button onClick={handleSaveBudget} className={`w-full ${buttonClassName(saved === 'budget')}`}>
+        <Check size={16} />
+        <span>{saved === 'budget' ? '已保存' : '保存预算'}</span>
+      </button>
+
+      <div>
+        <label className={labelClassName}>价格表（每行：provider 模型 尺寸或分辨率 单价，* 表示任意）</label>
+        <textarea
+          value={tableText}
+          onChange={(e) => setTableText(e.target.value)}
+          rows={8}
+          spellCheck={false}
+          className={`${inputClassName} font-mono text-xs resize-y`}
+        />
+      </div>
+      <div className="flex space-x-2">
+        <button onClick={handleSavePricing} className={buttonClassName(saved === 'pricing')}>
+          <Check size={16} />
+          <span>{saved === 'pricing' ? '已保存' : '保存价格表'}</span>
+        </button>
+        <button
+          onClick={onResetPricingTable}
+          className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+            isLight
+              ? 'border-gray-300 text-gray-600 hover:bg-gray-100'
+              : 'border-zinc-800 text-zinc-400 hover:bg-zinc-900'
+          }`}
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpendingPanel;
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+import type { UsageRecord } from '../types';
+import { summarizeUsage, usageToCsv, type UsageGrouping } from '../core/usage';
+import { clearUsageRecords, getUsageRecords } from '../utils/indexedDb';
+import { getUserErrorMessage } from '../utils/errorHandler';
+
+interface UsagePanelProps {
+  theme: 'light' | 'dark';
+}
+
+const GROUPING_LABELS: Record<UsageGrouping, string> = {
+  day: '按日期',
+  model: '按模型',
+  outcome: '按结果'
+};
+
+const GROUPING_COLUMNS: Record<UsageGrouping, string> = {
+  day: '日期',
+  model: '模型',
+  outcome: '结果'
+};
+
+const formatLatency = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ theme }) => {
+  const isLight = theme === 'light';
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [grouping, setGrouping] = useState<UsageGrouping>('day');
+
+  const load = useCallback(async () => {
+    try {
+      setRecords(await getUsageRecords());
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+      setRecords([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rows = useMemo(() => (records ? summarizeUsage(records, grouping) : []), [records, grouping]);
+
+  const handleExport = () => {
+    if (!records?.length) {
+      alert('没有可导出的调用记录');
+      return;
+    }
+    // BOM so spreadsheet apps read the file as UTF-8.
+    const blob = new Blob(['\uFEFF', usageToCsv(records)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `banana-usage-${new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定清空全部调用记录吗？此操作不可撤销。')) return;
+    try {
+      await clearUsageRecords();
+      setRecords([]);
+    } catch (error) {
+      alert(getUserErrorMessage(error));
+    }
+  };
+
+  const cellClassName = 'px-2 py-1.5 text-right tabular-nums';
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className={`text-sm font-semibold ${isLight ? 'text-gray-900' : 'text-zinc-100'}`}>调用记录</h3>
+          <p className={`text-xs mt-1 ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>
+            每次 Provider 调用一条（含重试次数与耗时），共 {records?.length ?? 0} 条
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={handleExport}
+            className={`p-1.5 rounded transition-colors ${
+              isLight
+                ? 'text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50'
+                : 'text-indigo-400 hover:text-indigo-300 hover:bg-indigo-900/20'
+            }`}
+            title="导出 CSV"
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => void handleClear()}
+            className={`p-1.5 rounded transition-colors ${
+              isLight
+                ? 'text-red-600 hover:text-red-700 hover:bg-red-50'
+                : 'text-red-400 hover:text-red-300 hover:bg-red-900/20'
+            }`}
+            title="清空调用记录"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(GROUPING_LABELS) as UsageGrouping[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setGrouping(key)}
+            className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+              grouping === key
+                ? isLight
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                : isLight
+                ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+                : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+            }`}
+          >
+            {GROUPING_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {records === null ? (
+        <div className={`flex justify-center py-6 ${isLight ? 'text-gray-400' : 'text-zinc-500'}`}>
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className={`text-xs py-4 text-center ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>暂无调用记录</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto">
+          <table className={`w-full text-xs ${isLight ? 'text-gray-700' : 'text-zinc-300'}`}>
+            <thead className={isLight ? 'text-gray-500' : 'text-zinc-500'}>
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium">{GROUPING_COLUMNS[grouping]}</th>
+                <th className="px-2 py-1.5 text-right font-medium">调用</th>
+                <th className="px-2 py-1.5 text-right font-medium">成功</th>
+                <th className="px-2 py-1.5 text-right font-medium">失败</th>
+                <th className="px-2 py-1.5 text-right font-medium">尝试</th>
+                <th className="px-2 py-1.5 text-right font-medium">平均耗时</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className={`border-t ${isLight ? 'border-gray-100' : 'border-zinc-900'}`}>
+                  <td className="px-2 py-1.5 text-left break-all">{row.key}</td>
+                  <td className={cellClassName}>{row.calls}</td>
+                  <td className={cellClassName}>{row.succeeded}</td>
+                  <td className={`${cellClassName} ${row.failed > 0 ? 'text-red-500' : ''}`}>{row.failed}</td>
+                  <td className={cellClassName}>{row.attempts}</td>
+                  <td className={cellClassName}>{formatLatency(row.averageLatencyMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
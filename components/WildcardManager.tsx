@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Plus, Trash2 } from 'lucide-react';
+import type { WildcardLists } from '../core/promptTemplate';
+import { isValidWildcardName } from '../hooks/useWildcards';
+
+interface WildcardManagerProps {
+  wildcards: WildcardLists;
+  onSave: (name: string, content: string) => void;
+  onRemove: (name: string) => void;
+  theme: 'light' | 'dark';
+}
+
+const WildcardManager: React.FC<WildcardManagerProps> = ({
+  wildcards,
+  onSave,
+  onRemove,
+  theme
+}) => {
+  const isLight = theme === 'light';
+  const names = Object.keys(wildcards).sort();
+  const [selected, setSelected] = useState<string | null>(names[0] ?? null);
+  const [newName, setNewName] = useState('');
+  const [draft, setDraft] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(selected ? (wildcards[selected] ?? []).join('\n') : '');
+  }, [selected, wildcards]);
+
+  const inputClassName = `w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    isLight
+      ? 'bg-gray-50 border-gray-300 text-gray-900'
+      : 'bg-zinc-900 border-zinc-800 text-zinc-200'
+  }`;
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!isValidWildcardName(name)) {
+      alert('通配符名称只能包含字母、数字、-、/、. 和单个下划线');
+      return;
+    }
+    onSave(name, wildcards[name]?.join('\n') ?? '');
+    setSelected(name);
+    setNewName('');
+  };
+
+  const handleSave = () => {
+    if (!selected) return;
+    onSave(selected, draft);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <div>
+        <h3 className={`text-sm font-semibold ${isLight ? 'text-gray-900' : 'text-zinc-100'}`}>通配符</h3>
+        <p className={`text-xs mt-1 ${isLight ? 'text-gray-500' : 'text-zinc-500'}`}>
+          在提示词中写 <code>__名称__</code> 引用，每行一个候选；也支持 <code>{'{红|蓝}'}</code> 与 <code>[a,b]×[c,d]</code>。
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {names.map((name) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => setSelected(name)}
+            className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+              name === selected
+                ? isLight
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-indigo-500 bg-indigo-900/30 text-indigo-300'
+                : isLight
+                ? 'border-gray-300 text-gray-600 hover:border-gray-400'
+                : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'
+            }`}
+          >
+            __{name}__ <span className="opacity-60">{wildcards[name].length}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="新通配符名称，如 color"
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          className="px-3 rounded-lg text-white bg-indigo-600 hover:bg-indigo-500"
+          title="新建通配符"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {selected && (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            placeholder={'red\nblue\ngreen'}
+            className={`${inputClassName} font-mono resize-y`}
+          />
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              className={`flex-1 flex items-center justify-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-all ${
+                saved ? 'bg-green-600 hover:bg-green-500' : 'bg-indigo-600 hover:bg-indigo-500'
+              }`}
+            >
+              <Check size={16} />
+              <span>{saved ? '已保存' : `保存 __${selected}__`}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                onRemove(selected);
+                setSelected(null);
+              }}
+              className={`px-3 rounded-lg transition-colors ${
+                isLight
+                  ? 'text-red-600 hover:bg-red-50'
+                  : 'text-red-400 hover:bg-red-900/20'
+              }`}
+              title="删除通配符"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WildcardManager;
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createAdaptiveConcurrencyController } from './adaptiveConcurrency.ts';
+
+test('rate limits halve the limit once per cooldown and successes ramp it back', () => {
+  let now = 0;
+  const controller = createAdaptiveConcurrencyController({ cooldownMs: 1000, now: () => now });
+
+  assert.equal(controller.getLimit('openai', 8), 8);
+  controller.recordRateLimit('openai', 8);
+  controller.recordRateLimit('openai', 8);
+  assert.equal(controller.getLimit('openai', 8), 4);
+
+  now = 1000;
+  controller.recordRateLimit('openai', 8);
+  assert.equal(controller.getLimit('openai', 8), 2);
+  assert.deepEqual(controller.getAdjustedLimits(), { openai: 2 });
+
+  // About one extra permit per `limit` successes.
+  controller.recordSuccess('openai', 8);
+  controller.recordSuccess('openai', 8);
+  assert.equal(controller.getLimit('openai', 8), 2);
+  controller.recordSuccess('openai', 8);
+  assert.equal(controller.getLimit('openai', 8), 3);
+  for (let i = 0; i < 30; i++) controller.recordSuccess('openai', 8);
+  assert.equal(controller.getLimit('openai', 8), 8);
+  assert.deepEqual(controller.getAdjustedLimits(), {});
+});
+
+test('server-requested waits pause the bucket and never go below one permit', () => {
+  let now = 0;
+  const controller = createAdaptiveConcurrencyController({ cooldownMs: 0, now: () => now });
+
+  controller.recordRateLimit('gemini', 2, 5000);
+  controller.recordRateLimit('gemini', 2, 1000);
+  controller.recordRateLimit('gemini', 2);
+  assert.equal(controller.getLimit('gemini', 2), 1);
+  assert.equal(controller.getPausedUntil('gemini'), 5000);
+  assert.equal(controller.getPausedUntil('other'), undefined);
+
+  now = 5000;
+  assert.equal(controller.getPausedUntil('gemini'), undefined);
+  // A lowered ceiling caps the adaptive limit as well.
+  controller.recordSuccess('gemini', 1);
+  assert.equal(controller.getLimit('gemini', 1), 1);
+});
@@ -0,0 +1,82 @@
+/**
+ * AIMD concurrency control per rate-limit bucket (a provider endpoint).
+ *
+ * A 429/503 halves the bucket's limit (multiplicative decrease) and every
+ * success adds `1 / limit` (additive increase: about one extra permit per
+ * round of successful requests), until the configured ceiling is reached
+ * again. Server-requested waits pause the bucket entirely.
+ */
+
+export interface AdaptiveConcurrencyOptions {
+  decreaseFactor: number; // Multiplier applied to the limit on a rate-limit response
+  cooldownMs: number; // Further rate limits within this window do not decrease again
+  now: () => number;
+}
+
+export const DEFAULT_ADAPTIVE_CONCURRENCY_OPTIONS: AdaptiveConcurrencyOptions = {
+  decreaseFactor: 0.5,
+  cooldownMs: 2000,
+  now: () => Date.now()
+};
+
+export interface AdaptiveConcurrencyController {
+  /** Effective limit for `key`, never above `ceiling` nor below 1. */
+  getLimit: (key: string, ceiling: number) => number;
+  /** Epoch ms until which `key` must not start requests, if paused. */
+  getPausedUntil: (key: string) => number | undefined;
+  recordSuccess: (key: string, ceiling: number) => void;
+  recordRateLimit: (key: string, ceiling: number, retryAfterMs?: number) => void;
+  /** Buckets currently running below their ceiling. */
+  getAdjustedLimits: () => Record<string, number>;
+}
+
+interface BucketState {
+  limit: number; // Fractional; floored when read
+  decreasedAt: number;
+  pausedUntil?: number;
+}
+
+export function createAdaptiveConcurrencyController(
+  overrides: Partial<AdaptiveConcurrencyOptions> = {}
+): AdaptiveConcurrencyController {
+  const options = { ...DEFAULT_ADAPTIVE_CONCURRENCY_OPTIONS, ...overrides };
+  const buckets = new Map<string, BucketState>();
+
+  const isPaused = (state: BucketState) =>
+    state.pausedUntil !== undefined && state.pausedUntil > options.now();
+
+  return {
+    getLimit: (key, ceiling) => {
+      const state = buckets.get(key);
+      return state ? Math.max(1, Math.min(ceiling, Math.floor(state.limit))) : ceiling;
+    },
+    getPausedUntil: (key) => {
+      const state = buckets.get(key);
+      return state && isPaused(state) ? state.pausedUntil : undefined;
+    },
+    recordSuccess: (key, ceiling) => {
+      const state = buckets.get(key);
+      if (!state) return;
+      state.limit = Math.min(ceiling, state.limit + 1 / Math.max(1, state.limit));
+      if (state.limit >= ceiling && !isPaused(state)) {
+        buckets.delete(key);
+      }
+    },
+    recordRateLimit: (key, ceiling, retryAfterMs) => {
+      const now = options.now();
+      const state = buckets.get(key) ?? { limit: ceiling, decreasedAt: -Infinity };
+      // Requests already in flight when the limit dropped tend to fail together;
+      // count such a burst as one signal.
+      if (now - state.decreasedAt >= options.cooldownMs) {
+        state.limit = Math.max(1, Math.floor(Math.min(state.limit, ceiling) * options.decreaseFactor));
+        state.decreasedAt = now;
+      }
+      if (retryAfterMs !== undefined && retryAfterMs > 0) {
+        state.pausedUntil = Math.max(state.pausedUntil ?? 0, now + retryAfterMs);
+      }
+      buckets.set(key, state);
+    },
+    getAdjustedLimits: () =>
+      Object.fromEntries([...buckets].map(([key, state]) => [key, Math.max(1, Math.floor(state.limit))]))
+  };
+}
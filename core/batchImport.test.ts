@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Session, UploadedImage } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import {
+  detectBatchImportFormat,
+  getBatchImportProgress,
+  parseBatchImport,
+  resolveBatchReferences
+} from './batchImport.ts';
+import { createPendingGenerationSlots } from './generationSlots.ts';
+
+const PNG_DATA_URI = 'data:image/png;base64,iVBORw0KGgo=';
+
+test('CSV rows map header aliases, quoted cells and empty columns', () => {
+  const csv = [
+    'Prompt,Aspect Ratio,resolution,batch_size,images',
+    '"a cat, on a ""red"" sofa",16:9,2k,4,cat.png;refs/dog.png',
+    'plain prompt,,,,',
+    ',,,,',
+    '"multi',
+    'line",1:1,,,'
+  ].join('\r\n');
+
+  assert.equal(detectBatchImportFormat('jobs.csv', csv), 'csv');
+  assert.deepEqual(parseBatchImport(csv, 'csv'), [
+    {
+      rowNumber: 2,
+      prompt: 'a cat, on a "red" sofa',
+      aspectRatio: '16:9',
+      resolution: '2K',
+      batchSize: 4,
+      references: ['cat.png', 'refs/dog.png']
+    },
+    { rowNumber: 3, prompt: 'plain prompt', references: [] },
+    { rowNumber: 5, prompt: 'multi\nline', aspectRatio: '1:1', references: [] }
+  ]);
+});
+
+test('JSONL rows accept arrays of references and data URIs', () => {
+  const jsonl = [
+    JSON.stringify({ prompt: 'poster', batchSize: 2, references: [PNG_DATA_URI, 'logo.png'] }),
+    '',
+    JSON.stringify('just a prompt')
+  ].join('\n');
+
+  assert.equal(detectBatchImportFormat('jobs.txt', jsonl), 'jsonl');
+  assert.deepEqual(parseBatchImport(jsonl, 'jsonl'), [
+    { rowNumber: 1, prompt: 'poster', batchSize: 2, references: [PNG_DATA_URI, 'logo.png'] },
+    { rowNumber: 3, prompt: 'just a prompt', references: [] }
+  ]);
+});
+
+test('every invalid row is reported with its row number', () => {
+  const csv = 'prompt,aspectRatio,batchSize\nok,1:1,2\n,7:5,50\nfine,,abc\n';
+
+  assert.throws(
+    () => parseBatchImport(csv, 'csv'),
+    (error) =>
+      error instanceof ValidationError &&
+      /第 3 行：缺少 prompt，不支持的 aspectRatio，batchSize 不能超过 20/.test(error.message) &&
+      /第 4 行：batchSize 必须是数字/.test(error.message)
+  );
+  assert.throws(() => parseBatchImport('title\nhello\n', 'csv'), ValidationError);
+  assert.throws(() => parseBatchImport('{"prompt": 1', 'jsonl'), /第 1 行不是有效的 JSON/);
+});
+
+test('references resolve by file name and report missing files', () => {
+  const rows = parseBatchImport(
+    `prompt,references\nedit,"C:\\refs\\cat.png;${PNG_DATA_URI}"\nsolo,\n`,
+    'csv'
+  );
+  const cat: UploadedImage = { id: 'cat', data: PNG_DATA_URI, mimeType: 'image/png', name: 'cat.png' };
+
+  const [edit, solo] = resolveBatchReferences(rows, new Map([['cat.png', cat]]));
+  assert.deepEqual(
+    edit.uploadedImages.map((image) => [image.name, image.mimeType]),
+    [['cat.png', 'image/png'], [undefined, 'image/png']]
+  );
+  assert.notEqual(edit.uploadedImages[0].id, 'cat');
+  assert.deepEqual(solo.uploadedImages, []);
+
+  assert.throws(() => resolveBatchReferences(rows, new Map()), /缺少参考图片：cat\.png/);
+});
+
+test('progress is tracked per imported row', () => {
+  const [done, pending] = [createPendingGenerationSlots(1), createPendingGenerationSlots(2)];
+  const image = { id: 'image-1', data: PNG_DATA_URI, mimeType: 'image/png', status: 'success' as const };
+  const session: Session = {
+    id: 'session',
+    title: 'jobs.csv',
+    createdAt: 0,
+    updatedAt: 0,
+    messages: [
+      { id: 'u1', role: 'user', text: 'first', timestamp: 0 },
+      { id: 'm1', role: 'model', generationSlots: [{ ...done[0], status: 'success', attempts: 1, image }], timestamp: 1 },
+      { id: 'u2', role: 'user', text: 'second', timestamp: 2 },
+      { id: 'm2', role: 'model', generationSlots: pending, timestamp: 3 }
+    ],
+    batchImport: {
+      sourceName: 'jobs.csv',
+      importedAt: 0,
+      rows: [
+        { rowNumber: 2, userMessageId: 'u1', modelMessageId: 'm1' },
+        { rowNumber: 3, userMessageId: 'u2', modelMessageId: 'm2' },
+        { rowNumber: 4, userMessageId: 'deleted', modelMessageId: 'deleted' }
+      ]
+    }
+  };
+
+  assert.deepEqual(
+    getBatchImportProgress(session).map((row) => [row.rowNumber, row.prompt, row.progress.succeeded, row.progress.pending]),
+    [
+      [2, 'first', 1, 0],
+      [3, 'second', 0, 2]
+    ]
+  );
+});
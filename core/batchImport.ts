@@ -0,0 +1,316 @@
+import { z } from 'zod';
+import {
+  ASPECT_RATIO_OPTIONS,
+  type AspectRatio,
+  type Resolution,
+  type Session,
+  type UploadedImage
+} from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import { VALIDATION_LIMITS, validateImageCount, validateImageMimeType } from '../utils/validation.ts';
+import { getGenerationSlotProgress, getMessageGenerationSlots, type GenerationSlotProgress } from './generationSlots.ts';
+
+/**
+ * Spreadsheet batch import. Each CSV/JSONL row becomes one user/model message
+ * pair; columns left empty fall back to the current settings.
+ */
+
+export type BatchImportFormat = 'csv' | 'jsonl';
+
+export interface BatchJobRow {
+  rowNumber: number; // CSV record / JSONL line number, for error messages and progress
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  resolution?: Resolution;
+  batchSize?: number;
+  references: string[]; // File names / paths, or data URIs
+}
+
+export interface BatchImportJob extends BatchJobRow {
+  uploadedImages: UploadedImage[];
+}
+
+export interface BatchImportRowProgress {
+  rowNumber: number;
+  prompt: string;
+  modelMessageId: string;
+  progress: GenerationSlotProgress;
+}
+
+const aspectRatioValues = ASPECT_RATIO_OPTIONS.map((option) => option.value) as [
+  AspectRatio,
+  ...AspectRatio[]
+];
+
+// Spreadsheet headers vary; compare them without case, spaces, `_` or `-`.
+const COLUMN_ALIASES: Record<string, keyof Omit<BatchJobRow, 'rowNumber'>> = {
+  prompt: 'prompt',
+  text: 'prompt',
+  aspectratio: 'aspectRatio',
+  ar: 'aspectRatio',
+  ratio: 'aspectRatio',
+  resolution: 'resolution',
+  batchsize: 'batchSize',
+  n: 'batchSize',
+  count: 'batchSize',
+  references: 'references',
+  reference: 'references',
+  images: 'references',
+  image: 'references',
+  refs: 'references'
+};
+
+const DATA_URI_PATTERN = /^data:(image\/[\w.+-]+);base64,/;
+
+const emptyToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const referencesSchema = z.preprocess(
+  (value) => {
+    if (value === undefined || value === null) return [];
+    // CSV cells list several references separated by `;` or newlines. Data URIs
+    // contain `;base64,`, so only split before the next reference starts.
+    if (typeof value === 'string') return value.split(/;(?!base64,)|\r?\n/);
+    return value;
+  },
+  z.array(z.string().trim()).transform((items) => items.filter(Boolean))
+);
+
+const batchJobRowSchema = z.object({
+  prompt: z
+    .string({ error: '缺少 prompt' })
+    .trim()
+    .min(1, '缺少 prompt')
+    .max(VALIDATION_LIMITS.MAX_PROMPT_LENGTH, `提示词长度不能超过 ${VALIDATION_LIMITS.MAX_PROMPT_LENGTH} 字符`),
+  aspectRatio: z.preprocess(
+    emptyToUndefined,
+    z.enum(aspectRatioValues, { error: '不支持的 aspectRatio' }).optional()
+  ),
+  resolution: z.preprocess(
+    (value) => (typeof value === 'string' ? emptyToUndefined(value.toUpperCase()) : value),
+    z.enum(['1K', '2K', '4K'], { error: 'resolution 只能是 1K / 2K / 4K' }).optional()
+  ),
+  batchSize: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : emptyToUndefined(value)),
+    z
+      .number({ error: 'batchSize 必须是数字' })
+      .int('batchSize 必须是整数')
+      .min(VALIDATION_LIMITS.MIN_BATCH_SIZE, `batchSize 至少为 ${VALIDATION_LIMITS.MIN_BATCH_SIZE}`)
+      .max(VALIDATION_LIMITS.MAX_BATCH_SIZE, `batchSize 不能超过 ${VALIDATION_LIMITS.MAX_BATCH_SIZE}`)
+      .optional()
+  ),
+  references: referencesSchema
+});
+
+function normalizeColumn(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function toRowRecord(source: Record<string, unknown>): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source)) {
+    const column = COLUMN_ALIASES[normalizeColumn(key)];
+    if (column && record[column] === undefined) record[column] = value;
+  }
+  return record;
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, newlines and `""`. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('CSV 中存在未闭合的引号', '批量导入');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function readCsvRows(content: string): Array<{ rowNumber: number; value: Record<string, unknown> }> {
+  const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+  if (!header || !header.some((column) => COLUMN_ALIASES[normalizeColumn(column)] === 'prompt')) {
+    throw new ValidationError('CSV 第一行需要包含 prompt 列', '批量导入');
+  }
+
+  return records
+    .map((cells, index) => ({
+      // Header is record 1.
+      rowNumber: index + 2,
+      value: Object.fromEntries(header.map((column, columnIndex) => [column, cells[columnIndex] ?? '']))
+    }))
+    .filter(({ value }) => Object.values(value).some((cell) => String(cell).trim() !== ''));
+}
+
+function readJsonlRows(content: string): Array<{ rowNumber: number; value: Record<string, unknown> }> {
+  const rows: Array<{ rowNumber: number; value: Record<string, unknown> }> = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new ValidationError(`第 ${index + 1} 行不是有效的 JSON`, '批量导入');
+    }
+    if (typeof value === 'string') value = { prompt: value };
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError(`第 ${index + 1} 行应为 JSON 对象`, '批量导入');
+    }
+    rows.push({ rowNumber: index + 1, value: value as Record<string, unknown> });
+  });
+  return rows;
+}
+
+export function detectBatchImportFormat(fileName: string, content: string): BatchImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'csv') return 'csv';
+  return content.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+}
+
+/**
+ * Parses and validates every row. All row errors are collected so a
+ * spreadsheet can be fixed in one pass.
+ */
+export function parseBatchImport(content: string, format: BatchImportFormat): BatchJobRow[] {
+  const rawRows = format === 'jsonl' ? readJsonlRows(content) : readCsvRows(content);
+  if (rawRows.length === 0) {
+    throw new ValidationError('导入文件中没有任何任务行', '批量导入');
+  }
+  if (rawRows.length > VALIDATION_LIMITS.MAX_BATCH_IMPORT_ROWS) {
+    throw new ValidationError(
+      `一次最多导入 ${VALIDATION_LIMITS.MAX_BATCH_IMPORT_ROWS} 行，当前为 ${rawRows.length} 行`,
+      '批量导入'
+    );
+  }
+
+  const rows: BatchJobRow[] = [];
+  const problems: string[] = [];
+  for (const { rowNumber, value } of rawRows) {
+    const parsed = batchJobRowSchema.safeParse(toRowRecord(value));
+    if (parsed.success) {
+      const { aspectRatio, resolution, batchSize } = parsed.data;
+      rows.push({
+        rowNumber,
+        prompt: parsed.data.prompt,
+        ...(aspectRatio ? { aspectRatio } : {}),
+        ...(resolution ? { resolution } : {}),
+        ...(batchSize !== undefined ? { batchSize } : {}),
+        references: parsed.data.references ?? []
+      });
+    } else {
+      problems.push(`第 ${rowNumber} 行：${parsed.error.issues.map((issue) => issue.message).join('，')}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, 5).join('\n');
+    const more = problems.length > 5 ? `\n…另有 ${problems.length - 5} 行有误` : '';
+    throw new ValidationError(`${shown}${more}`, '批量导入');
+  }
+  return rows;
+}
+
+export function isDataUriReference(reference: string): boolean {
+  return reference.startsWith('data:');
+}
+
+/** The file name a path reference is matched against, for either separator. */
+export function getReferenceFileName(reference: string): string {
+  return reference.split(/[\\/]/).pop() ?? reference;
+}
+
+/** File names referenced by path, to ask the caller for the matching files. */
+export function getReferencedFileNames(rows: BatchJobRow[]): string[] {
+  const names = rows.flatMap((row) =>
+    row.references.filter((reference) => !isDataUriReference(reference)).map(getReferenceFileName)
+  );
+  return [...new Set(names)];
+}
+
+/**
+ * Attaches reference images to each row. Data URIs are used as-is; paths are
+ * matched by file name against `filesByName`, which the caller has loaded.
+ */
+export function resolveBatchReferences(
+  rows: BatchJobRow[],
+  filesByName: ReadonlyMap<string, UploadedImage>
+): BatchImportJob[] {
+  const missing = getReferencedFileNames(rows).filter((name) => !filesByName.has(name));
+  if (missing.length > 0) {
+    throw new ValidationError(`缺少参考图片：${missing.join('、')}`, '批量导入');
+  }
+
+  return rows.map((row) => {
+    try {
+      validateImageCount(row.references.length);
+      const uploadedImages = row.references.map<UploadedImage>((reference) => {
+        if (!isDataUriReference(reference)) {
+          return { ...filesByName.get(getReferenceFileName(reference))!, id: generateUUID() };
+        }
+        const mimeType = DATA_URI_PATTERN.exec(reference)?.[1];
+        if (!mimeType) {
+          throw new ValidationError('参考图片需要是 base64 Data URI 或文件名');
+        }
+        validateImageMimeType(mimeType);
+        return { id: generateUUID(), data: reference, mimeType };
+      });
+      return { ...row, uploadedImages };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`第 ${row.rowNumber} 行：${error.message}`, '批量导入');
+      }
+      throw error;
+    }
+  });
+}
+
+/** Per-row slot progress of a session created by a batch import. */
+export function getBatchImportProgress(session: Session): BatchImportRowProgress[] {
+  if (!session.batchImport) return [];
+  const messagesById = new Map(session.messages.map((message) => [message.id, message]));
+
+  return session.batchImport.rows.flatMap((row) => {
+    const modelMessage = messagesById.get(row.modelMessageId);
+    if (!modelMessage) return [];
+    return [{
+      rowNumber: row.rowNumber,
+      prompt: messagesById.get(row.userMessageId)?.text ?? '',
+      modelMessageId: row.modelMessageId,
+      progress: getGenerationSlotProgress(getMessageGenerationSlots(modelMessage))
+    }];
+  });
+}
@@ -0,0 +1,178 @@
+import { ASPECT_RATIO_OPTIONS, GPT_IMAGE_ASPECT_RATIO_OPTIONS } from '../types.ts';
+import { generateImageBatchStream, previewGeminiRequest } from '../services/geminiService.ts';
+import {
+  generateImageBatchStreamOpenAI,
+  openaiProviderOptionsSchema,
+  previewOpenAIRequest
+} from '../services/openaiService.ts';
+import { generateImageBatchStreamMock, mockProviderOptionsSchema } from '../services/mockService.ts';
+import {
+  DEFAULT_SD_WEBUI_BASE_URL,
+  generateImageBatchStreamSdWebui,
+  previewSdWebuiRequest,
+  sdWebuiProviderOptionsSchema
+} from '../services/sdWebuiService.ts';
+import { toUploadContextImages } from './contextImages.ts';
+import {
+  baseProviderConfigSchema,
+  getImageProvider,
+  registerImageProvider,
+  type ImageProvider
+} from './providerRegistry.ts';
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: 'gemini-3-pro-image-preview',
+  configSchema: baseProviderConfigSchema,
+  capabilities: {
+    requiresApiKey: true,
+    supportsReferenceImages: true,
+    supportsTextOutput: true,
+    aspectRatios: ASPECT_RATIO_OPTIONS.map((option) => option.value),
+    resolutions: ['1K', '2K', '4K']
+  },
+  generate: (request) =>
+    generateImageBatchStream(
+      request.providerConfig.apiKey,
+      request.prompt,
+      request.history,
+      request.settings,
+      request.uploadedImages,
+      request.slots,
+      {
+        onSlotResult: request.callbacks.onSlotResult,
+        onText: request.callbacks.onText,
+        onAttemptFailed: request.callbacks.onAttemptFailed
+      },
+      request.signal
+    ),
+  previewRequest: (request) =>
+    previewGeminiRequest(request.prompt, request.history, request.uploadedImages)
+};
+
+export const openaiImageProvider: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-image-2',
+  configSchema: baseProviderConfigSchema.extend({
+    options: openaiProviderOptionsSchema.partial().optional()
+  }),
+  capabilities: {
+    requiresApiKey: true,
+    supportsReferenceImages: true,
+    supportsTextOutput: true,
+    aspectRatios: GPT_IMAGE_ASPECT_RATIO_OPTIONS.map((option) => option.value),
+    resolutions: ['1K', '2K', '4K']
+  },
+  generate: (request) =>
+    generateImageBatchStreamOpenAI(
+      request.providerConfig.apiKey,
+      request.providerConfig.baseUrl || 'https://api.openai.com/v1',
+      request.providerConfig.model || 'gpt-image-2',
+      request.prompt,
+      request.history,
+      request.settings,
+      request.uploadedImages,
+      request.slots,
+      {
+        onSlotResult: request.callbacks.onSlotResult,
+        onText: request.callbacks.onText,
+        onAttemptFailed: request.callbacks.onAttemptFailed,
+        onSlotPartialImage: request.callbacks.onSlotPartialImage
+      },
+      request.signal
+    ),
+  previewRequest: (request) =>
+    previewOpenAIRequest(
+      request.providerConfig.baseUrl || 'https://api.openai.com/v1',
+      request.providerConfig.model || 'gpt-image-2',
+      request.prompt,
+      request.history,
+      request.settings,
+      request.uploadedImages
+    )
+};
+
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock',
+  defaultModel: 'mock-placeholder',
+  configSchema: baseProviderConfigSchema.extend({
+    options: mockProviderOptionsSchema.partial().optional()
+  }),
+  capabilities: {
+    requiresApiKey: false,
+    supportsReferenceImages: true,
+    supportsTextOutput: false,
+    aspectRatios: ASPECT_RATIO_OPTIONS.map((option) => option.value),
+    resolutions: ['1K', '2K', '4K']
+  },
+  generate: (request) =>
+    generateImageBatchStreamMock(
+      request.prompt,
+      request.settings,
+      request.uploadedImages,
+      request.slots,
+      {
+        onSlotResult: request.callbacks.onSlotResult,
+        onText: request.callbacks.onText,
+        onAttemptFailed: request.callbacks.onAttemptFailed
+      },
+      request.signal
+    ),
+  // Placeholders only reflect uploads; history is not read
+  previewRequest: (request) => ({
+    route: 'mock',
+    prompt: request.prompt,
+    images: toUploadContextImages(request.uploadedImages),
+    sendsHistory: false
+  })
+};
+
+export const sdWebuiImageProvider: ImageProvider = {
+  id: 'sdwebui',
+  label: 'SD WebUI',
+  defaultBaseUrl: DEFAULT_SD_WEBUI_BASE_URL,
+  configSchema: baseProviderConfigSchema.extend({
+    options: sdWebuiProviderOptionsSchema.partial().optional()
+  }),
+  capabilities: {
+    requiresApiKey: false,
+    supportsReferenceImages: true,
+    supportsTextOutput: false,
+    aspectRatios: ASPECT_RATIO_OPTIONS.map((option) => option.value),
+    resolutions: ['1K', '2K', '4K']
+  },
+  generate: (request) =>
+    generateImageBatchStreamSdWebui(
+      request.providerConfig.baseUrl || DEFAULT_SD_WEBUI_BASE_URL,
+      request.providerConfig.model,
+      request.prompt,
+      request.history,
+      request.settings,
+      request.uploadedImages,
+      request.slots,
+      {
+        onSlotResult: request.callbacks.onSlotResult,
+        onText: request.callbacks.onText,
+        onAttemptFailed: request.callbacks.onAttemptFailed
+      },
+      request.signal
+    ),
+  previewRequest: (request) =>
+    previewSdWebuiRequest(request.prompt, request.history, request.settings, request.uploadedImages)
+};
+
+/**
+ * Registers the adapters shipped with the app. Ids that a caller already
+ * registered are left untouched so in-house adapters can take precedence.
+ */
+export function registerBuiltinImageProviders(): void {
+  for (const provider of [geminiImageProvider, openaiImageProvider, mockImageProvider, sdWebuiImageProvider]) {
+    if (!getImageProvider(provider.id)) {
+      registerImageProvider(provider);
+    }
+  }
+}
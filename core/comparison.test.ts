@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { ProviderConfig } from '../types.ts';
+import {
+  createComparisonSlots,
+  getComparisonColumns,
+  getSlotProviderConfigs,
+  toSlotGroup
+} from './comparison.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { applyGenerationSlotResult, toSlotDescriptors } from './generationSlots.ts';
+import { mockConfig } from './testHelpers.ts';
+
+const GPT: ProviderConfig = { provider: 'openai', apiKey: 'sk-openai', model: 'gpt-image-2' };
+const PROXY: ProviderConfig = {
+  provider: 'openai',
+  apiKey: 'sk-proxy',
+  baseUrl: 'https://proxy.example/v1',
+  model: 'nanobanana'
+};
+
+test('each group gets its own slots and resolves back to the saved config', () => {
+  const groups = [GPT, PROXY].map(toSlotGroup);
+  const slots = createComparisonSlots(groups, ['a', 'b']);
+
+  assert.deepEqual(slots.map((slot) => [slot.index, slot.groupId, slot.prompt]), [
+    [0, groups[0].id, 'a'],
+    [1, groups[0].id, 'b'],
+    [2, groups[1].id, 'a'],
+    [3, groups[1].id, 'b']
+  ]);
+  assert.equal('apiKey' in groups[1], false);
+  assert.deepEqual(getComparisonColumns(slots, groups).map((column) => column.slots.length), [2, 2]);
+
+  const configs = getSlotProviderConfigs(toSlotDescriptors(slots), groups, [GPT, PROXY]);
+  assert.equal(configs[slots[0].slotId], GPT);
+  assert.equal(configs[slots[3].slotId], PROXY);
+
+  // A renamed model keeps the saved endpoint and key.
+  const moved = getSlotProviderConfigs(toSlotDescriptors(slots), groups, [GPT, { ...PROXY, model: 'other' }]);
+  assert.deepEqual(moved[slots[3].slotId], PROXY);
+  assert.throws(() => getSlotProviderConfigs(toSlotDescriptors(slots), groups, [mockConfig('m')]), /gpt-image-2/);
+});
+
+test('per-slot provider configs run each column on its own provider without fallbacks', async () => {
+  const primary = mockConfig('primary');
+  const other = mockConfig('other', { failingSlots: [1], failureKinds: ['500'] });
+  const groups = [primary, other].map(toSlotGroup);
+  let slots = createComparisonSlots(groups, ['a lighthouse']);
+  const slotProviderConfigs = getSlotProviderConfigs(toSlotDescriptors(slots), groups, [
+    primary,
+    { ...other, retryPolicy: { maxAttempts: 1 } }
+  ]);
+
+  await runImageGeneration({
+    prompt: 'a lighthouse',
+    settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K', fallbackProviders: [mockConfig('fallback')] },
+    providerConfig: primary,
+    slots: toSlotDescriptors(slots),
+    slotProviderConfigs,
+    signal: new AbortController().signal,
+    callbacks: {
+      onSlotResult: (result) => {
+        slots = applyGenerationSlotResult(slots, result);
+      },
+      onText: () => {}
+    }
+  });
+
+  const [first, second] = getComparisonColumns(slots, groups).map((column) => column.slots[0]);
+  assert.ok(first.status === 'success');
+  assert.deepEqual(first.source, { provider: 'mock', model: 'primary' });
+  assert.equal(first.groupId, groups[0].id);
+  assert.ok(second.status === 'failed');
+  assert.equal(second.attempts, 1);
+});
@@ -0,0 +1,104 @@
+import type {
+  GenerationSlot,
+  GenerationSlotDescriptor,
+  GenerationSlotGroup,
+  ProviderConfig
+} from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import { parseProviderConfigList } from './config.ts';
+import { createPendingGenerationSlots } from './generationSlots.ts';
+
+/**
+ * Comparison runs fan one prompt and its references out to several provider
+ * configs inside a single model message. Every config gets a slot group (a
+ * column in the UI) and its slots are generated with that config only,
+ * without the fallback chain, so each column shows what that model produced.
+ */
+
+export const MAX_COMPARE_PROVIDERS = 4; // Saved targets besides the primary config
+
+export interface ComparisonColumn {
+  group: GenerationSlotGroup;
+  slots: GenerationSlot[];
+}
+
+export function parseCompareProviders(value: unknown): ProviderConfig[] {
+  return parseProviderConfigList(value, MAX_COMPARE_PROVIDERS, '对比 Provider');
+}
+
+export function toSlotGroup(config: ProviderConfig): GenerationSlotGroup {
+  return {
+    id: generateUUID(),
+    provider: config.provider,
+    ...(config.model ? { model: config.model } : {}),
+    ...(config.baseUrl ? { baseUrl: config.baseUrl } : {})
+  };
+}
+
+export function getSlotGroupLabel(group: GenerationSlotGroup): string {
+  return group.model || group.provider;
+}
+
+/**
+ * One round of pending slots per group, indexes continuing from
+ * `startIndex` group after group. Every group renders the same prompts.
+ */
+export function createComparisonSlots(
+  groups: GenerationSlotGroup[],
+  slotPrompts: readonly string[],
+  startIndex = 0
+): GenerationSlot[] {
+  return groups.flatMap((group, position) =>
+    createPendingGenerationSlots(slotPrompts, startIndex + position * slotPrompts.length).map((slot) => ({
+      ...slot,
+      groupId: group.id
+    }))
+  );
+}
+
+const sameEndpoint = (config: ProviderConfig, group: GenerationSlotGroup) =>
+  (config.baseUrl || undefined) === group.baseUrl;
+
+/**
+ * Finds the saved config a group was created from: an exact match first,
+ * then the same provider and endpoint, then the same provider, with the
+ * group's model and endpoint applied.
+ */
+export function resolveSlotGroupConfig(
+  group: GenerationSlotGroup,
+  candidates: ProviderConfig[]
+): ProviderConfig | undefined {
+  const sameProvider = candidates.filter((config) => config.provider === group.provider);
+  const exact = sameProvider.find((config) => sameEndpoint(config, group) && (config.model || undefined) === group.model);
+  if (exact) return exact;
+  const base = sameProvider.find((config) => sameEndpoint(config, group)) ?? sameProvider[0];
+  return base && { ...base, model: group.model, baseUrl: group.baseUrl };
+}
+
+/** Provider config per slotId for rerunning grouped slots of a comparison message. */
+export function getSlotProviderConfigs(
+  slots: GenerationSlotDescriptor[],
+  groups: GenerationSlotGroup[],
+  candidates: ProviderConfig[]
+): Record<string, ProviderConfig> {
+  const configs: Record<string, ProviderConfig> = {};
+  for (const slot of slots) {
+    const group = groups.find((candidate) => candidate.id === slot.groupId);
+    if (!group) continue;
+    const config = resolveSlotGroupConfig(group, candidates);
+    if (!config) {
+      throw new ValidationError(`找不到 ${getSlotGroupLabel(group)} 的 Provider 配置`, '对比');
+    }
+    configs[slot.slotId] = config;
+  }
+  return configs;
+}
+
+/** Splits a comparison message's slots into its columns, in group order. */
+export function getComparisonColumns(slots: GenerationSlot[], groups: GenerationSlotGroup[]): ComparisonColumn[] {
+  return groups.map((group) => ({
+    group,
+    slots: slots.filter((slot) => slot.groupId === group.id)
+  }));
+}
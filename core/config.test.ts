@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { readProviderConfigFromEnv } from './config.ts';
+
+test('BANANA_* variables configure headless callers', () => {
+  const config = readProviderConfigFromEnv({
+    BANANA_PROVIDER: 'gemini',
+    BANANA_API_KEY: ' banana-key ',
+    BANANA_BASE_URL: 'http://127.0.0.1:8080',
+    BANANA_MODEL: 'gemini-3-pro-image-preview',
+    BANANA_MAX_ATTEMPTS: '7',
+    GEMINI_API_KEY: 'gemini-key'
+  });
+
+  assert.deepEqual(config, {
+    provider: 'gemini',
+    apiKey: 'banana-key',
+    baseUrl: 'http://127.0.0.1:8080',
+    model: 'gemini-3-pro-image-preview',
+    retryPolicy: { maxAttempts: 7 }
+  });
+});
+
+test('provider specific key variables are used as fallback', () => {
+  const env = { OPENAI_API_KEY: 'openai-key', GEMINI_API_KEY: 'gemini-key' };
+
+  assert.deepEqual(readProviderConfigFromEnv(env), { apiKey: 'openai-key' });
+  assert.deepEqual(readProviderConfigFromEnv(env, 'gemini'), {
+    provider: 'gemini',
+    apiKey: 'gemini-key'
+  });
+  assert.deepEqual(readProviderConfigFromEnv({}, 'in-house'), { provider: 'in-house' });
+});
@@ -1,4 +1,8 @@
-import { AppSettings, ProviderConfig } from '../types';
+import { z } from 'zod';
+import type { AppSettings, ProviderConfig } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { getImageProvider } from './providerRegistry.ts';
+import { retryPolicySchema } from './retryPolicy.ts';
 
 // Centralized defaults for agent/skill usage. Fill in your keys here if desired.
 export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
@@ -36,3 +40,73 @@ export function resolveSettings(
     providerConfig: resolveProviderConfig(providerOverride, settings?.providerConfig)
   };
 }
+
+const providerConfigEntrySchema = z.object({
+  provider: z.string().trim().min(1, '请选择 Provider'),
+  apiKey: z.string().trim().default(''),
+  baseUrl: z.string().trim().optional(),
+  model: z.string().trim().optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+  retryPolicy: retryPolicySchema.partial().optional()
+});
+
+/**
+ * Validates a user-edited list of provider configs (fallback chain, compare
+ * targets). Blank baseUrl / model are dropped so the adapter defaults apply.
+ */
+export function parseProviderConfigList(value: unknown, max: number, field: string): ProviderConfig[] {
+  const result = z.array(providerConfigEntrySchema).max(max, `最多 ${max} 个`).safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(result.error.issues[0]?.message ?? '配置无效', field);
+  }
+  return result.data.map(({ baseUrl, model, ...config }) => ({
+    ...config,
+    ...(baseUrl ? { baseUrl } : {}),
+    ...(model ? { model } : {})
+  }));
+}
+
+type EnvSource = Record<string, string | undefined>;
+
+const PROVIDER_KEY_ENV: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY'
+};
+
+/**
+ * Reads provider settings for headless callers (CLI/server). `BANANA_*`
+ * variables win; `OPENAI_API_KEY` / `GEMINI_API_KEY` are used as fallbacks.
+ * `BANANA_MAX_ATTEMPTS` overrides the retry policy's attempt budget.
+ */
+export function readProviderConfigFromEnv(
+  env: EnvSource,
+  providerOverride?: string
+): Partial<ProviderConfig> {
+  const provider = providerOverride || env.BANANA_PROVIDER?.trim() || undefined;
+  const keyEnv = PROVIDER_KEY_ENV[provider ?? DEFAULT_PROVIDER_CONFIG.provider];
+  const apiKey = env.BANANA_API_KEY?.trim() || (keyEnv ? env[keyEnv]?.trim() : undefined);
+  const config: Partial<ProviderConfig> = {};
+
+  if (provider) config.provider = provider;
+  if (apiKey) config.apiKey = apiKey;
+  if (env.BANANA_BASE_URL?.trim()) config.baseUrl = env.BANANA_BASE_URL.trim();
+  if (env.BANANA_MODEL?.trim()) config.model = env.BANANA_MODEL.trim();
+  if (env.BANANA_MAX_ATTEMPTS?.trim()) config.retryPolicy = { maxAttempts: Number(env.BANANA_MAX_ATTEMPTS) };
+
+  return config;
+}
+
+/**
+ * Fills baseUrl/model from the adapter's own defaults so that choosing a
+ * provider does not inherit the OpenAI values in `DEFAULT_PROVIDER_CONFIG`.
+ */
+export function applyProviderDefaults(config: Partial<ProviderConfig>): Partial<ProviderConfig> {
+  const provider = config.provider ? getImageProvider(config.provider) : undefined;
+  if (!provider) return config;
+
+  return {
+    baseUrl: provider.defaultBaseUrl ?? '',
+    model: provider.defaultModel,
+    ...config
+  };
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import type { UploadedImage } from '../types.ts';
+import { PLACEHOLDER_PNG_BASE64, createReplayFetch, installFetch, parseHttpFixture } from '../utils/httpRecorder.ts';
+import { addMaskAnnotations, toUploadContextImages } from './contextImages.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { previewGenerationRequest } from './requestPreview.ts';
+import { silenceServiceLogs } from './testHelpers.ts';
+
+silenceServiceLogs();
+
+const PLACEHOLDER_URI = `data:image/png;base64,${PLACEHOLDER_PNG_BASE64}`;
+const uploads: UploadedImage[] = [
+  { id: 'plain', data: `data:image/jpeg;base64,${PLACEHOLDER_PNG_BASE64}`, mimeType: 'image/jpeg' },
+  {
+    id: 'masked',
+    data: PLACEHOLDER_URI,
+    mimeType: 'image/png',
+    mask: { data: PLACEHOLDER_URI, annotated: 'data:image/jpeg;base64,AA==' }
+  }
+];
+
+test('masked uploads get a tinted reference and a note naming both images', () => {
+  const { prompt, images } = addMaskAnnotations('把天空换成晚霞', toUploadContextImages(uploads));
+
+  assert.deepEqual(images.map(({ id, source, maskOf }) => [id, source, maskOf]), [
+    ['plain', 'upload', undefined],
+    ['masked', 'upload', undefined],
+    ['masked-mask', 'mask', 'masked']
+  ]);
+  assert.equal(prompt, '把天空换成晚霞\n\n图三用红色标出了图二中需要修改的区域：只修改该区域，图二的其余部分保持不变。');
+
+  const gemini = previewGenerationRequest({
+    prompt: '把天空换成晚霞',
+    uploadedImages: uploads,
+    providerConfig: { provider: 'gemini', apiKey: 'key' }
+  });
+  assert.equal(gemini.images.length, 3);
+  assert.match(gemini.prompt, /图三用红色标出了图二/);
+});
+
+test('the edits route sends the masked image first with its mask', async () => {
+  const raw = await readFile(new URL('./fixtures/openai-images.json', import.meta.url), 'utf8');
+  const replay = createReplayFetch(parseHttpFixture(JSON.parse(raw)));
+  const restore = installFetch(replay.fetch);
+  try {
+    await runImageGeneration({
+      prompt: 'make the sky orange',
+      uploadedImages: uploads,
+      settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K' },
+      providerConfig: {
+        provider: 'openai',
+        apiKey: 'sk-test-fixture-0123456789',
+        baseUrl: 'https://api.example.com/v1',
+        model: 'gpt-image-2'
+      },
+      slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+      signal: new AbortController().signal,
+      callbacks: { onSlotResult: () => {}, onText: () => {} }
+    });
+  } finally {
+    restore();
+  }
+
+  const editRequest = replay.requests.at(-1);
+  assert.equal(editRequest?.url, 'https://api.example.com/v1/images/edits');
+  assert.deepEqual(
+    editRequest?.formData?.filter((entry) => entry.file).map((entry) => [entry.name, entry.file?.name]),
+    [['image[]', 'image0.png'], ['image[]', 'image1.jpg'], ['mask', 'mask.png']]
+  );
+});
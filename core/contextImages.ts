@@ -0,0 +1,144 @@
+import type { ImageMask, Message, UploadedImage } from '../types.ts';
+import { ImageProcessingError } from '../types/errors.ts';
+import { logError } from '../utils/errorHandler.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+import { getSuccessfulImages } from './generationSlots.ts';
+
+/**
+ * Images that go with a request: the image selected in each earlier model
+ * message, plus the images uploaded with the prompt. Adapters decide the
+ * order; the context inspector shows the same list before sending.
+ */
+
+export interface ContextImage {
+  id: string;
+  data: string; // Base64 data URI
+  mimeType: string;
+  source: 'history' | 'upload' | 'mask';
+  messageId?: string; // Model message a history image was selected in
+  mask?: ImageMask; // Uploads with a painted inpainting region
+  maskOf?: string; // For 'mask' images, the id of the image they annotate
+}
+
+const CHINESE_NUMERALS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+// Inline base64 within the size limit only; anything else is logged and skipped.
+function toContextImage(
+  id: string,
+  data: string,
+  source: ContextImage['source'],
+  messageId?: string
+): ContextImage | null {
+  const match = data.match(/^data:([^;]+);base64,(.+)$/);
+  if (!match) {
+    logError('Image Processing', new ImageProcessingError(`Invalid image data format for image ${id}`));
+    return null;
+  }
+
+  // base64 is ~33% larger than the binary it encodes
+  const sizeMB = (match[2].length * 3) / 4 / (1024 * 1024);
+  if (sizeMB > VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB) {
+    logError('Image Processing', new ImageProcessingError(
+      `Image ${id} is too large (${sizeMB.toFixed(2)}MB)`
+    ));
+    return null;
+  }
+
+  return { id, data, mimeType: match[1] || 'image/png', source, ...(messageId ? { messageId } : {}) };
+}
+
+/** Images selected in earlier model messages, oldest first. */
+export function collectHistoryImages(messages: Message[]): ContextImage[] {
+  return messages.flatMap((message) => {
+    if (message.role !== 'model' || !message.selectedImageId) return [];
+    const selected = getSuccessfulImages(message).find((image) => image.id === message.selectedImageId);
+    const image = selected && toContextImage(selected.id, selected.data, 'history', message.id);
+    return image ? [image] : [];
+  });
+}
+
+export function toUploadContextImages(uploadedImages: UploadedImage[] = []): ContextImage[] {
+  return uploadedImages.flatMap((upload) => {
+    const image = toContextImage(upload.id, upload.data, 'upload');
+    return image ? [upload.mask ? { ...image, mask: upload.mask } : image] : [];
+  });
+}
+
+// Raw base64 payload of a context image, as inline-data APIs expect it.
+export function getBase64Data(image: ContextImage): string {
+  return image.data.slice(image.data.indexOf(',') + 1);
+}
+
+/** History with the given selected images dropped for one request. */
+export function withoutExcludedImages(messages: Message[], excludedImageIds: readonly string[] = []): Message[] {
+  if (excludedImageIds.length === 0) return messages;
+  const excluded = new Set(excludedImageIds);
+  return messages.map((message) =>
+    message.selectedImageId && excluded.has(message.selectedImageId)
+      ? { ...message, selectedImageId: undefined }
+      : message
+  );
+}
+
+// 0-based position -> '图一', '图二', ... as prompts refer to images.
+export function getImageOrderLabel(index: number): string {
+  return `图${CHINESE_NUMERALS[index] ?? String(index + 1)}`;
+}
+
+const IMAGE_REFERENCE_PATTERN = new RegExp(
+  '(?:' +
+    '\\u56fe[\\u4e00\\u4e8c\\u4e09\\u56db\\u4e94\\u516d\\u4e03\\u516b\\u4e5d\\u5341\\d]+' +
+    '|image\\s*[1-9]\\d*' +
+    '|\\u7b2c[\\u4e00\\u4e8c\\u4e09\\u56db\\u4e94\\u516d\\u4e03\\u516b\\u4e5d\\u5341\\d]+\\u5f20' +
+    '|\\u7b2c[1-9]\\d*\\u5f20' +
+  ')',
+  'i'
+);
+
+/**
+ * With several images and a prompt that refers to them by number (图一,
+ * 第2张, image 1), prepends the order the images are attached in.
+ */
+export function addImageOrderPreamble(prompt: string, imageCount: number): string {
+  if (imageCount <= 1 || !IMAGE_REFERENCE_PATTERN.test(prompt)) return prompt;
+  const labels = Array.from({ length: imageCount }, (_, index) =>
+    `${getImageOrderLabel(index)}第${index + 1}张上传的图片`
+  ).join('、');
+  return `图片顺序如下${labels}?
+
+${prompt}`;
+}
+
+/**
+ * For routes without a mask parameter: appends each masked image's tinted
+ * copy as an extra reference and tells the model to change only the tinted
+ * region. Labels follow the final order, so add the order preamble after.
+ */
+export function addMaskAnnotations(
+  prompt: string,
+  images: ContextImage[]
+): { prompt: string; images: ContextImage[] } {
+  const annotations = images.flatMap((image) => {
+    const annotated = image.mask && toContextImage(`${image.id}-mask`, image.mask.annotated, 'mask');
+    return annotated ? [{ ...annotated, maskOf: image.id }] : [];
+  });
+  if (annotations.length === 0) return { prompt, images };
+
+  const withAnnotations = [...images, ...annotations];
+  const notes = annotations.map((annotation) => {
+    const label = getImageOrderLabel(withAnnotations.indexOf(annotation));
+    const target = getImageOrderLabel(images.findIndex((image) => image.id === annotation.maskOf));
+    return `${label}用红色标出了${target}中需要修改的区域：只修改该区域，${target}的其余部分保持不变。`;
+  });
+  return { prompt: [prompt, ...notes].filter(Boolean).join('\n\n'), images: withAnnotations };
+}
+
+/**
+ * Images API edits take one mask, applied to the first image: the first
+ * masked upload is moved to the front and its mask returned.
+ */
+export function takeEditMask(images: ContextImage[]): { images: ContextImage[]; mask?: ImageMask } {
+  const masked = images.find((image) => image.mask);
+  if (!masked) return { images };
+  return { images: [masked, ...images.filter((image) => image !== masked)], mask: masked.mask };
+}
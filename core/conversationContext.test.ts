@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import type { GeneratedImage, Message } from '../types.ts';
+import { createReplayFetch, installFetch, parseHttpFixture } from '../utils/httpRecorder.ts';
+import { selectContextTurns } from './conversationContext.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { silenceServiceLogs } from './testHelpers.ts';
+
+silenceServiceLogs();
+
+const image: GeneratedImage = { id: 'image-1', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' };
+
+function turn(id: string, prompt: string | undefined, reply: Partial<Message> = {}): Message[] {
+  return [
+    { id: `${id}-user`, role: 'user', text: prompt, timestamp: 0 },
+    {
+      id: `${id}-model`,
+      role: 'model',
+      generationSlots: [{ slotId: `${id}-slot`, index: 0, status: 'success', attempts: 1, image }],
+      timestamp: 0,
+      ...reply
+    }
+  ];
+}
+
+const messages: Message[] = [
+  ...turn('castle', 'a castle on a hill', { text: 'Here is your castle.' }),
+  ...turn('upload', undefined),
+  ...turn('failed', 'add a dragon', { isError: true }),
+  ...turn('night', 'now make it night'),
+  ...turn('pending', 'add fireworks', { generationSlots: createPendingGenerationSlots(1) })
+];
+
+test('context modes keep the completed turns they cover, oldest first', () => {
+  assert.deepEqual(selectContextTurns(messages, { mode: 'images' }), []);
+  assert.deepEqual(selectContextTurns(messages), []);
+
+  assert.deepEqual(
+    selectContextTurns(messages, { mode: 'full' }).map(({ prompt, response }) => [prompt, response]),
+    [
+      ['a castle on a hill', 'Here is your castle.'],
+      ['now make it night', '[Generated 1 image]']
+    ]
+  );
+  assert.deepEqual(
+    selectContextTurns(messages, { mode: 'recent', recentTurns: 1 }).map((entry) => entry.userMessageId),
+    ['night-user']
+  );
+});
+
+test('chat route sends the kept turns ahead of the current prompt', async () => {
+  const raw = await readFile(new URL('./fixtures/openai-chat-content-shapes.json', import.meta.url), 'utf8');
+  const replay = createReplayFetch(parseHttpFixture(JSON.parse(raw)));
+  const restore = installFetch(replay.fetch);
+  try {
+    await runImageGeneration({
+      prompt: 'a lighthouse at dusk',
+      history: messages,
+      settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K', context: { mode: 'recent', recentTurns: 2 } },
+      providerConfig: {
+        provider: 'openai',
+        apiKey: 'sk-test-fixture-0123456789',
+        baseUrl: 'https://proxy.example.com/v1',
+        model: 'gemini-3-pro-image-preview'
+      },
+      slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+      signal: new AbortController().signal,
+      callbacks: { onSlotResult: () => {}, onText: () => {} }
+    });
+  } finally {
+    restore();
+  }
+
+  const body = replay.requests[0].body as { messages: Array<{ role: string; content: unknown }> };
+  assert.deepEqual(body.messages.slice(0, -1), [
+    { role: 'user', content: 'a castle on a hill' },
+    { role: 'assistant', content: 'Here is your castle.' },
+    { role: 'user', content: 'now make it night' },
+    { role: 'assistant', content: '[Generated 1 image]' }
+  ]);
+  assert.equal(body.messages.at(-1)?.role, 'user');
+});
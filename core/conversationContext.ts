@@ -0,0 +1,62 @@
+import type { ConversationContext, Message } from '../types.ts';
+import { getMessageGenerationSlots, getSuccessfulImages } from './generationSlots.ts';
+
+/**
+ * Conversation context: which earlier turns of a session are sent as text
+ * history. Adapters map the turns to their own message format; selected
+ * images are carried separately in every mode.
+ */
+
+export const DEFAULT_CONVERSATION_CONTEXT: ConversationContext = { mode: 'images' };
+export const DEFAULT_RECENT_TURNS = 3;
+export const MAX_RECENT_TURNS = 20;
+
+// One completed prompt and what the model answered, oldest first.
+export interface ContextTurn {
+  userMessageId: string;
+  modelMessageId: string;
+  prompt: string;
+  response: string;
+}
+
+// Stands in for replies that only returned images, so turns keep alternating.
+function describeImageReply(count: number): string {
+  return `[Generated ${count} image${count === 1 ? '' : 's'}]`;
+}
+
+export function getRecentTurnLimit(context: ConversationContext): number {
+  return Math.min(Math.max(context.recentTurns ?? DEFAULT_RECENT_TURNS, 1), MAX_RECENT_TURNS);
+}
+
+/**
+ * Turns the context mode keeps. Turns without prompt text, errored or empty
+ * replies, and replies still generating (including the request being sent)
+ * are skipped.
+ */
+export function selectContextTurns(
+  messages: Message[],
+  context: ConversationContext = DEFAULT_CONVERSATION_CONTEXT
+): ContextTurn[] {
+  if (context.mode === 'images') return [];
+
+  const turns: ContextTurn[] = [];
+  messages.forEach((message, index) => {
+    const reply = messages[index + 1];
+    const prompt = message.text?.trim();
+    if (message.role !== 'user' || !prompt || reply?.role !== 'model' || reply.isError) return;
+    if (getMessageGenerationSlots(reply).some((slot) => slot.status === 'pending')) return;
+
+    const imageCount = getSuccessfulImages(reply).length;
+    const response = reply.text?.trim() || (imageCount > 0 ? describeImageReply(imageCount) : '');
+    if (!response) return;
+    turns.push({ userMessageId: message.id, modelMessageId: reply.id, prompt, response });
+  });
+
+  return context.mode === 'full' ? turns : turns.slice(-getRecentTurnLimit(context));
+}
+
+export function describeConversationContext(context: ConversationContext = DEFAULT_CONVERSATION_CONTEXT): string {
+  if (context.mode === 'full') return '完整对话';
+  if (context.mode === 'recent') return `最近 ${getRecentTurnLimit(context)} 轮`;
+  return '仅选中的图片';
+}
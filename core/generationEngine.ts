@@ -1,19 +1,48 @@
-import {
+import type {
   AppSettings,
   Message,
   UploadedImage,
   ProviderConfig,
+  GenerationErrorInfo,
   GenerationSlotDescriptor,
-  GenerationSlotResult
-} from '../types';
-import { generateImageBatchStream } from '../services/geminiService';
-import { generateImageBatchStreamOpenAI } from '../services/openaiService';
-import { APIKeyError } from '../types/errors';
-import { resolveSettings } from './config';
+  GenerationSlotResult,
+  GenerationSource,
+  GenerationUsage,
+  PartialImage
+} from '../types.ts';
+import { APIKeyError } from '../types/errors.ts';
+import { isRateLimitError } from '../utils/errorHandler.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import { applyProviderDefaults, resolveProviderConfig, resolveSettings } from './config.ts';
+import { parseProviderConfig, requireImageProvider, type ImageProvider } from './providerRegistry.ts';
+import { registerBuiltinImageProviders } from './builtinProviders.ts';
+import { generationScheduler, type RateLimitTarget } from './generationScheduler.ts';
+import { shouldFallback } from './providerFallback.ts';
+import { withoutExcludedImages } from './contextImages.ts';
+
+registerBuiltinImageProviders();
 
 export interface GenerationCallbacks {
   onSlotResult: (result: GenerationSlotResult) => void;
   onText: (text: string) => void;
+  // Every failed attempt, including retried ones; adapters report these so
+  // rate limits can lower the provider's concurrency
+  onAttemptFailed?: (slotId: string, error: GenerationErrorInfo) => void;
+  // 1-based position in the shared request queue; `undefined` once dispatched
+  onSlotQueuePosition?: (slotId: string, position: number | undefined) => void;
+  // The slot's first provider call has started; it may be billed from here on
+  onSlotDispatched?: (slotId: string) => void;
+  // Every provider call that settled, including ones a fallback replaced
+  onUsage?: (usage: GenerationUsage) => void;
+  // Preview frames from adapters that stream them; only sent when enabled
+  onSlotPartialImage?: (slotId: string, image: PartialImage) => void;
+}
+
+// Fair-queuing keys for the shared scheduler; requests without one are
+// treated as their own session.
+export interface GenerationQueueKey {
+  sessionId: string;
+  messageId: string;
 }
 
 export interface GenerationRequest {
@@ -24,50 +53,156 @@ export interface GenerationRequest {
   providerConfig?: Partial<ProviderConfig>;
   slots: GenerationSlotDescriptor[];
   signal: AbortSignal;
+  // Per-slot cancellation by slotId; a slot stops when either its own
+  // signal or `signal` aborts
+  slotSignals?: Record<string, AbortSignal>;
+  // Per-slot provider by slotId (comparison runs); these slots skip the
+  // fallback chain
+  slotProviderConfigs?: Record<string, Partial<ProviderConfig>>;
   callbacks: GenerationCallbacks;
+  queue?: GenerationQueueKey;
+}
+
+interface ProviderRoute {
+  provider: ImageProvider;
+  providerConfig: ProviderConfig;
+  target: RateLimitTarget;
+  source: GenerationSource;
+}
+
+function prepareRoute(config: ProviderConfig, fallbackIndex?: number): ProviderRoute {
+  const provider = requireImageProvider(config.provider);
+  const providerConfig = parseProviderConfig(provider, config);
+  if (provider.capabilities.requiresApiKey && !providerConfig.apiKey) {
+    throw new APIKeyError('API Key is missing', provider.label);
+  }
+  return {
+    provider,
+    providerConfig,
+    target: { providerId: provider.id, endpoint: providerConfig.baseUrl || provider.defaultBaseUrl },
+    source: {
+      provider: provider.id,
+      model: providerConfig.model || provider.defaultModel,
+      ...(fallbackIndex !== undefined ? { fallbackIndex } : {})
+    }
+  };
 }
 
 export async function runImageGeneration(request: GenerationRequest): Promise<void> {
   const settings = resolveSettings(request.settings, request.providerConfig);
-  const providerConfig = settings.providerConfig;
+  const defaultRoutes = [
+    prepareRoute(settings.providerConfig),
+    ...(settings.fallbackProviders ?? []).map((config, index) =>
+      prepareRoute(resolveProviderConfig(applyProviderDefaults(config)), index + 1)
+    )
+  ];
+  // Validated up front so a bad config fails before any request.
+  const slotRoutes = new Map(
+    Object.entries(request.slotProviderConfigs ?? {}).map(([slotId, config]) => [
+      slotId,
+      [prepareRoute(resolveProviderConfig(applyProviderDefaults(config)))]
+    ])
+  );
 
-  if (!providerConfig.apiKey) {
-    const providerName = providerConfig.provider === 'openai' ? 'OpenAI' : 'Gemini';
-    throw new APIKeyError('API Key is missing', providerName);
-  }
+  const history = withoutExcludedImages(request.history ?? [], settings.excludedImageIds);
 
-  const history = request.history ?? [];
+  const requestKey = generateUUID();
+  const queue = request.queue ?? { sessionId: requestKey, messageId: requestKey };
 
-  if (providerConfig.provider === 'openai') {
-    await generateImageBatchStreamOpenAI(
-      providerConfig.apiKey,
-      providerConfig.baseUrl || 'https://api.openai.com/v1',
-      providerConfig.model || 'gpt-image-2',
-      request.prompt,
-      history,
-      settings,
-      request.uploadedImages,
-      request.slots,
-      {
-        onSlotResult: request.callbacks.onSlotResult,
-        onText: request.callbacks.onText
-      },
-      request.signal
-    );
-    return;
-  }
+  // Every slot is one adapter call holding one scheduler permit, so the
+  // global and per-provider limits bound the real number of requests. A slot
+  // that fails with a retryable error moves on to the next route with a new
+  // permit. The first thrown error is rethrown once every slot has settled.
+  const errors: unknown[] = [];
+  await Promise.all(
+    request.slots.map(async (slot) => {
+      const slotSignal = request.slotSignals?.[slot.slotId];
+      const signal = slotSignal ? AbortSignal.any([request.signal, slotSignal]) : request.signal;
+      const routes = slotRoutes.get(slot.slotId) ?? defaultRoutes;
+      let previousAttempts = 0;
+      // A failure held back for the next route; still the slot's result if
+      // an abort stops that route before it reports.
+      let pendingFailure: GenerationSlotResult | undefined;
+
+      for (const [step, route] of routes.entries()) {
+        const isLastRoute = step === routes.length - 1;
+        let fallbackAttempts: number | undefined;
+        let dispatchedAt = Date.now();
+        const callbacks: GenerationCallbacks = {
+          onSlotResult: ({ call, ...result }) => {
+            if (result.status !== 'cancelled') {
+              request.callbacks.onUsage?.({
+                slotId: result.slotId,
+                provider: route.source.provider,
+                model: route.source.model,
+                fallbackIndex: route.source.fallbackIndex,
+                route: call?.route,
+                size: call?.size,
+                attempts: result.attempts,
+                latencyMs: Date.now() - dispatchedAt,
+                outcome: result.status,
+                errorKind: result.status === 'failed' ? result.error.kind : undefined,
+                statusCode: result.status === 'failed' ? result.error.statusCode : undefined,
+                requestId: call?.requestId
+              });
+            }
+            if (result.status === 'failed' && !isLastRoute && shouldFallback(result.error)) {
+              fallbackAttempts = result.attempts;
+              pendingFailure = { ...result, attempts: previousAttempts + result.attempts };
+              return;
+            }
+            pendingFailure = undefined;
+            const attempts = previousAttempts + result.attempts;
+            if (result.status === 'success') {
+              generationScheduler.recordSuccess(route.target);
+              request.callbacks.onSlotResult({ ...result, attempts, source: route.source });
+              return;
+            }
+            request.callbacks.onSlotResult({ ...result, attempts });
+          },
+          onText: request.callbacks.onText,
+          onSlotPartialImage: request.callbacks.onSlotPartialImage,
+          onAttemptFailed: (slotId, error) => {
+            if (isRateLimitError(error)) generationScheduler.recordRateLimit(route.target, error.retryAfterMs);
+            request.callbacks.onAttemptFailed?.(slotId, error);
+          }
+        };
 
-  await generateImageBatchStream(
-    providerConfig.apiKey,
-    request.prompt,
-    history,
-    settings,
-    request.uploadedImages,
-    request.slots,
-    {
-      onSlotResult: request.callbacks.onSlotResult,
-      onText: request.callbacks.onText
-    },
-    request.signal
+        try {
+          await generationScheduler.run(
+            {
+              ...route.target,
+              ...queue,
+              signal,
+              onQueuePosition: (position) =>
+                request.callbacks.onSlotQueuePosition?.(slot.slotId, position)
+            },
+            () => {
+              dispatchedAt = Date.now();
+              request.callbacks.onSlotDispatched?.(slot.slotId);
+              return route.provider.generate({
+                prompt: slot.prompt ?? request.prompt,
+                history,
+                uploadedImages: request.uploadedImages,
+                settings: { ...settings, batchSize: 1, providerConfig: route.providerConfig },
+                providerConfig: route.providerConfig,
+                slots: [slot],
+                signal,
+                callbacks
+              });
+            }
+          );
+        } catch (error) {
+          errors.push(error);
+          return;
+        }
+        if (fallbackAttempts === undefined || signal.aborted) {
+          if (pendingFailure) request.callbacks.onSlotResult(pendingFailure);
+          return;
+        }
+        previousAttempts += fallbackAttempts;
+      }
+    })
   );
+  if (errors.length > 0) throw errors[0];
 }
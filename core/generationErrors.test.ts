@@ -36,3 +36,21 @@ test('429 and server errors remain retryable', () => {
   assert.equal(rateLimited.retryable, true);
   assert.equal(unavailable.retryable, true);
 });
+
+test('Retry-After and exhausted x-ratelimit buckets become retryAfterMs', () => {
+  const retryAfter = serializeGenerationError({
+    status: 429,
+    headers: new Headers({ 'retry-after': '3' }),
+    error: { message: 'Rate limit exceeded.' }
+  }, 1);
+  const resetDuration = serializeGenerationError({
+    status: 429,
+    headers: { 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '1m2.5s' },
+    error: { message: 'Rate limit exceeded.' }
+  }, 1);
+  const plain = serializeGenerationError({ status: 503, error: { message: 'Service unavailable.' } }, 1);
+
+  assert.equal(retryAfter.retryAfterMs, 3000);
+  assert.equal(resetDuration.retryAfterMs, 62_500);
+  assert.equal(plain.retryAfterMs, undefined);
+});
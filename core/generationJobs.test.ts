@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { AppSettings, GenerationJob, Session } from '../types.ts';
+import { findOrphanedGenerations, getOrphanResumeSettings } from './generationJobs.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+
+const IMAGE = { id: 'image-1', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' as const };
+
+function createJob(overrides: Partial<GenerationJob>): GenerationJob {
+  return {
+    id: 'job',
+    sessionId: 'session',
+    messageId: 'm1',
+    prompt: 'a red kite',
+    settings: { aspectRatio: '16:9', resolution: '2K' },
+    provider: 'openai',
+    model: 'gpt-image-2',
+    slots: [],
+    createdAt: 0,
+    ...overrides
+  };
+}
+
+test('pending slots left by a closed tab are matched with their latest job', () => {
+  const [done, pendingA, pendingB] = createPendingGenerationSlots(3);
+  const [legacyPending] = createPendingGenerationSlots(1);
+  const session: Session = {
+    id: 'session',
+    title: 'kites',
+    createdAt: 0,
+    updatedAt: 0,
+    messages: [
+      { id: 'u1', role: 'user', text: 'a red kite', timestamp: 0 },
+      {
+        id: 'm1',
+        role: 'model',
+        timestamp: 1,
+        generationSlots: [{ ...done, status: 'success', attempts: 1, image: IMAGE }, pendingA, pendingB]
+      },
+      { id: 'm2', role: 'model', timestamp: 2, generationSlots: [legacyPending] },
+      { id: 'm3', role: 'model', timestamp: 3, generationSlots: [{ ...done, status: 'success', attempts: 1, image: IMAGE }] }
+    ]
+  };
+  const jobs = [
+    createJob({ id: 'older', slots: toSlotDescriptors([done, pendingA, pendingB]), createdAt: 1 }),
+    createJob({ id: 'newer', slots: toSlotDescriptors([pendingB]), createdAt: 2 }),
+    createJob({ id: 'settled', messageId: 'm3', slots: toSlotDescriptors([done]) }),
+    createJob({ id: 'deleted-session', sessionId: 'gone' })
+  ];
+
+  const { orphans, staleJobIds } = findOrphanedGenerations([session], jobs);
+
+  assert.deepEqual(
+    orphans.map((orphan) => [orphan.messageId, orphan.slots.map((slot) => slot.slotId), orphan.job?.id, orphan.jobIds]),
+    [
+      ['m1', [pendingA.slotId, pendingB.slotId], 'newer', ['newer', 'older']],
+      ['m2', [legacyPending.slotId], undefined, []]
+    ]
+  );
+  assert.deepEqual(staleJobIds, ['settled', 'deleted-session']);
+});
+
+test('resuming reuses the recorded parameters with the current provider keys', () => {
+  const settings: AppSettings = {
+    batchSize: 4,
+    aspectRatio: '1:1',
+    resolution: '1K',
+    providerConfig: { provider: 'openai', apiKey: 'sk-current', model: 'gpt-image-1' }
+  };
+  const slots = toSlotDescriptors(createPendingGenerationSlots(2));
+
+  const resumed = getOrphanResumeSettings({ sessionId: 'session', messageId: 'm1', slots, job: createJob({ slots }), jobIds: ['job'] }, settings);
+  assert.deepEqual(resumed, {
+    batchSize: 2,
+    aspectRatio: '16:9',
+    resolution: '2K',
+    providerConfig: { provider: 'openai', apiKey: 'sk-current', model: 'gpt-image-2' }
+  });
+
+  const otherProvider = getOrphanResumeSettings(
+    { sessionId: 'session', messageId: 'm1', slots, job: createJob({ provider: 'gemini', slots }), jobIds: ['job'] },
+    settings
+  );
+  assert.equal(otherProvider.providerConfig.model, 'gpt-image-1');
+  assert.equal(getOrphanResumeSettings({ sessionId: 'session', messageId: 'm1', slots, jobIds: [] }, settings).aspectRatio, '1:1');
+});
@@ -0,0 +1,77 @@
+import type { AppSettings, GenerationJob, GenerationSlotDescriptor, Session } from '../types.ts';
+import { getMessageGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+
+/**
+ * Startup recovery: nothing is generating when the app loads, so every slot
+ * still `pending` in storage was left behind by a closed or crashed tab.
+ */
+
+export const ORPHANED_SLOT_REASON = '页面关闭时生成中断，已取消。';
+
+export interface OrphanedGeneration {
+  sessionId: string;
+  messageId: string;
+  slots: GenerationSlotDescriptor[]; // Still pending in the message
+  job?: GenerationJob; // Latest recorded request for the message; absent for older data
+  jobIds: string[]; // Every job recorded for these slots, to delete once handled
+}
+
+export interface OrphanScan {
+  orphans: OrphanedGeneration[];
+  staleJobIds: string[]; // Jobs whose slots all settled or whose message is gone
+}
+
+export function findOrphanedGenerations(sessions: Session[], jobs: GenerationJob[]): OrphanScan {
+  const jobsByMessage = new Map<string, GenerationJob[]>();
+  for (const job of jobs) {
+    const key = `${job.sessionId}\u0000${job.messageId}`;
+    jobsByMessage.set(key, [...(jobsByMessage.get(key) ?? []), job]);
+  }
+
+  const orphans: OrphanedGeneration[] = [];
+  const liveJobIds = new Set<string>();
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (message.role !== 'model') continue;
+      const pending = getMessageGenerationSlots(message).filter((slot) => slot.status === 'pending');
+      if (pending.length === 0) continue;
+
+      const pendingIds = new Set(pending.map((slot) => slot.slotId));
+      const messageJobs = (jobsByMessage.get(`${session.id}\u0000${message.id}`) ?? [])
+        .filter((job) => job.slots.some((slot) => pendingIds.has(slot.slotId)))
+        .sort((left, right) => right.createdAt - left.createdAt);
+      messageJobs.forEach((job) => liveJobIds.add(job.id));
+
+      orphans.push({
+        sessionId: session.id,
+        messageId: message.id,
+        slots: toSlotDescriptors(pending),
+        ...(messageJobs[0] ? { job: messageJobs[0] } : {}),
+        jobIds: messageJobs.map((job) => job.id)
+      });
+    }
+  }
+
+  return {
+    orphans,
+    staleJobIds: jobs.filter((job) => !liveJobIds.has(job.id)).map((job) => job.id)
+  };
+}
+
+/**
+ * Settings for resuming an orphan: the recorded aspect ratio and resolution,
+ * and the recorded model when the same provider is still selected. Keys and
+ * endpoints always come from the current provider config.
+ */
+export function getOrphanResumeSettings(orphan: OrphanedGeneration, settings: AppSettings): AppSettings {
+  const { job } = orphan;
+  const sameProvider = job?.provider === settings.providerConfig.provider;
+  return {
+    ...settings,
+    ...job?.settings,
+    batchSize: orphan.slots.length,
+    providerConfig: sameProvider && job?.model
+      ? { ...settings.providerConfig, model: job.model }
+      : settings.providerConfig
+  };
+}
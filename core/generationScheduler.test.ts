@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ValidationError } from '../types/errors.ts';
+import {
+  createGenerationScheduler,
+  readSchedulerLimitsFromEnv,
+  type ScheduledTaskOptions
+} from './generationScheduler.ts';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function taskOptions(overrides: Partial<ScheduledTaskOptions> = {}): ScheduledTaskOptions {
+  return {
+    providerId: 'mock',
+    sessionId: 'session',
+    messageId: 'message',
+    signal: new AbortController().signal,
+    ...overrides
+  };
+}
+
+test('global and per-provider limits cap running tasks', async () => {
+  const scheduler = createGenerationScheduler({ globalLimit: 3, providerLimit: 2, providerLimits: { slow: 1 } });
+  const gate = deferred();
+  const runs = ['slow', 'slow', 'mock', 'mock', 'mock'].map((providerId) =>
+    scheduler.run(taskOptions({ providerId }), () => gate.promise)
+  );
+
+  await flush();
+  assert.deepEqual(scheduler.getStats(), {
+    running: 3,
+    queued: 2,
+    runningByProvider: { slow: 1, mock: 2 },
+    adjustedLimits: {}
+  });
+
+  gate.resolve();
+  await Promise.all(runs);
+  assert.deepEqual(scheduler.getStats(), { running: 0, queued: 0, runningByProvider: {}, adjustedLimits: {} });
+});
+
+test('waiting tasks are served round-robin across sessions, then messages', async () => {
+  const scheduler = createGenerationScheduler({ globalLimit: 1, providerLimit: 1 });
+  const started: string[] = [];
+  const blocker = deferred();
+  const enqueue = (label: string, sessionId: string, messageId: string) =>
+    scheduler.run(taskOptions({ sessionId, messageId }), async () => {
+      started.push(label);
+      if (label === 'a1-1') await blocker.promise;
+    });
+
+  const runs = [
+    enqueue('a1-1', 'a', 'a1'),
+    enqueue('a1-2', 'a', 'a1'),
+    enqueue('a1-3', 'a', 'a1'),
+    enqueue('a2-1', 'a', 'a2'),
+    enqueue('b1-1', 'b', 'b1'),
+    enqueue('b1-2', 'b', 'b1')
+  ];
+  blocker.resolve();
+  await Promise.all(runs);
+
+  assert.deepEqual(started, ['a1-1', 'b1-1', 'a2-1', 'b1-2', 'a1-2', 'a1-3']);
+});
+
+test('queue positions are reported, updated and cleared', async () => {
+  const scheduler = createGenerationScheduler({ globalLimit: 1, providerLimit: 1 });
+  const gate = deferred();
+  const positions: Record<string, Array<number | undefined>> = { first: [], second: [], third: [] };
+  const controller = new AbortController();
+
+  const first = scheduler.run(
+    taskOptions({ onQueuePosition: (position) => positions.first.push(position) }),
+    () => gate.promise
+  );
+  const second = scheduler.run(
+    taskOptions({ signal: controller.signal, onQueuePosition: (position) => positions.second.push(position) }),
+    async () => 'second'
+  );
+  const third = scheduler.run(
+    taskOptions({ onQueuePosition: (position) => positions.third.push(position) }),
+    async () => 'third'
+  );
+
+  controller.abort();
+  assert.equal(await second, undefined);
+  gate.resolve();
+  await first;
+  assert.equal(await third, 'third');
+
+  assert.deepEqual(positions, { first: [], second: [1, undefined], third: [2, 1, undefined] });
+});
+
+test('limits are validated and read from the environment', () => {
+  const scheduler = createGenerationScheduler();
+  assert.throws(() => scheduler.configure({ globalLimit: 0 }), ValidationError);
+  assert.throws(() => scheduler.configure({ providerLimits: { mock: 1.5 } }), ValidationError);
+
+  scheduler.configure(readSchedulerLimitsFromEnv({ BANANA_MAX_CONCURRENCY: '4', BANANA_PROVIDER_CONCURRENCY: ' ' }));
+  assert.deepEqual(scheduler.getLimits(), { globalLimit: 4, providerLimit: 10, providerLimits: {} });
+  assert.throws(
+    () => scheduler.configure(readSchedulerLimitsFromEnv({ BANANA_PROVIDER_CONCURRENCY: 'many' })),
+    ValidationError
+  );
+});
+
+test('rate limits shrink the endpoint bucket and Retry-After delays dispatch', async () => {
+  const scheduler = createGenerationScheduler({ globalLimit: 10, providerLimit: 4 }, { cooldownMs: 0 });
+  const target = { providerId: 'openai', endpoint: 'https://api.example.com/v1' };
+  const gate = deferred();
+
+  scheduler.recordRateLimit(target);
+  const runs = Array.from({ length: 4 }, () => scheduler.run(taskOptions(target), () => gate.promise));
+  const otherEndpoint = scheduler.run(taskOptions({ providerId: 'openai' }), async () => 'other');
+  await flush();
+  assert.equal(await otherEndpoint, 'other');
+  assert.deepEqual(scheduler.getStats().runningByProvider, { openai: 2 });
+  assert.deepEqual(scheduler.getStats().adjustedLimits, { 'openai https://api.example.com/v1': 2 });
+
+  gate.resolve();
+  await Promise.all(runs);
+
+  scheduler.recordRateLimit(target, 40);
+  const startedAt = Date.now();
+  await scheduler.run(taskOptions(target), async () => {});
+  assert.ok(Date.now() - startedAt >= 35);
+});
@@ -0,0 +1,303 @@
+import { ValidationError } from '../types/errors.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+import {
+  createAdaptiveConcurrencyController,
+  type AdaptiveConcurrencyOptions
+} from './adaptiveConcurrency.ts';
+
+/**
+ * Process-wide request scheduler shared by every generation, so parallel
+ * batches across messages and sessions cannot exceed the configured limits.
+ *
+ * Waiting requests are served round-robin: first across sessions, then across
+ * the messages of a session, FIFO within a message. The same order yields the
+ * 1-based queue position reported to callers.
+ *
+ * Within those limits, each provider endpoint also has an adaptive limit that
+ * shrinks on rate-limit responses and grows back on success (see
+ * `adaptiveConcurrency.ts`).
+ */
+
+export interface SchedulerLimits {
+  globalLimit: number; // Concurrent requests across all providers
+  providerLimit: number; // Default per-provider limit
+  providerLimits?: Record<string, number>; // Overrides by provider id
+}
+
+export const DEFAULT_SCHEDULER_LIMITS: SchedulerLimits = {
+  globalLimit: 10,
+  providerLimit: 10
+};
+
+// Rate-limit bucket: a provider, optionally narrowed to one endpoint.
+export interface RateLimitTarget {
+  providerId: string;
+  endpoint?: string; // e.g. the base URL; buckets of different endpoints adapt separately
+}
+
+export interface ScheduledTaskOptions extends RateLimitTarget {
+  sessionId: string;
+  messageId: string;
+  signal: AbortSignal;
+  onQueuePosition?: (position: number | undefined) => void; // `undefined` once dispatched
+}
+
+export interface SchedulerStats {
+  running: number;
+  queued: number;
+  runningByProvider: Record<string, number>;
+  adjustedLimits: Record<string, number>; // Buckets throttled below their configured limit
+}
+
+export interface GenerationScheduler {
+  /** Runs `task` once a permit is free; resolves `undefined` if aborted while queued. */
+  run: <T>(options: ScheduledTaskOptions, task: () => Promise<T>) => Promise<T | undefined>;
+  /** Feedback for the adaptive limit of the task's endpoint. */
+  recordSuccess: (target: RateLimitTarget) => void;
+  recordRateLimit: (target: RateLimitTarget, retryAfterMs?: number) => void;
+  configure: (limits: Partial<SchedulerLimits>) => void;
+  getLimits: () => SchedulerLimits;
+  getStats: () => SchedulerStats;
+}
+
+interface QueuedTask {
+  options: ScheduledTaskOptions;
+  position?: number;
+  start: () => void;
+}
+
+function validateLimit(value: number, field: string): number {
+  if (!Number.isInteger(value) || value < 1 || value > VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT) {
+    throw new ValidationError(`需要 1 到 ${VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT} 之间的整数`, field);
+  }
+  return value;
+}
+
+function normalizeLimits(limits: SchedulerLimits): SchedulerLimits {
+  const providerLimits = Object.fromEntries(
+    Object.entries(limits.providerLimits ?? {}).map(([id, limit]) => [id, validateLimit(limit, `${id} 并发上限`)])
+  );
+  return {
+    globalLimit: validateLimit(limits.globalLimit, '全局并发上限'),
+    providerLimit: validateLimit(limits.providerLimit, 'Provider 并发上限'),
+    providerLimits
+  };
+}
+
+// Round-robin merge: the first item of every list, then the second, ...
+function interleave<T>(lists: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let round = 0; round < longest; round++) {
+    for (const list of lists) {
+      if (round < list.length) result.push(list[round]);
+    }
+  }
+  return result;
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function decrement(counts: Map<string, number>, key: string): void {
+  const count = (counts.get(key) ?? 1) - 1;
+  if (count > 0) counts.set(key, count);
+  else counts.delete(key);
+}
+
+const bucketKey = (target: RateLimitTarget) =>
+  target.endpoint ? `${target.providerId} ${target.endpoint}` : target.providerId;
+
+export function createGenerationScheduler(
+  initialLimits: SchedulerLimits = DEFAULT_SCHEDULER_LIMITS,
+  adaptiveOptions: Partial<AdaptiveConcurrencyOptions> = {}
+): GenerationScheduler {
+  let limits = normalizeLimits(initialLimits);
+  let tick = 0;
+  let running = 0;
+  const runningByProvider = new Map<string, number>();
+  const runningByBucket = new Map<string, number>();
+  const adaptive = createAdaptiveConcurrencyController(adaptiveOptions);
+  const now = adaptiveOptions.now ?? (() => Date.now());
+  let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+  const waiting: QueuedTask[] = [];
+  // Last dispatch tick per session / message key, and how many of their
+  // tasks are still waiting or running (entries are dropped at zero).
+  const servedAt = new Map<string, number>();
+  const activeCount = new Map<string, number>();
+
+  const sessionKey = (options: ScheduledTaskOptions) => `s:${options.sessionId}`;
+  const messageKey = (options: ScheduledTaskOptions) => `m:${options.sessionId}\u0000${options.messageId}`;
+
+  const retain = (options: ScheduledTaskOptions) => {
+    for (const key of [sessionKey(options), messageKey(options)]) {
+      activeCount.set(key, (activeCount.get(key) ?? 0) + 1);
+    }
+  };
+
+  const release = (options: ScheduledTaskOptions) => {
+    for (const key of [sessionKey(options), messageKey(options)]) {
+      const count = (activeCount.get(key) ?? 1) - 1;
+      if (count > 0) {
+        activeCount.set(key, count);
+      } else {
+        activeCount.delete(key);
+        servedAt.delete(key);
+      }
+    }
+  };
+
+  const providerLimitFor = (providerId: string) =>
+    limits.providerLimits?.[providerId] ?? limits.providerLimit;
+
+  // Groups keep the arrival order of their first waiting task; ties on
+  // `servedAt` (never served) therefore fall back to arrival.
+  const orderGroups = <V>(groups: Map<string, V>): Array<[string, V]> =>
+    [...groups].sort(([left], [right]) => (servedAt.get(left) ?? -1) - (servedAt.get(right) ?? -1));
+
+  const projectedOrder = (): QueuedTask[] => {
+    const sessions = new Map<string, Map<string, QueuedTask[]>>();
+    for (const task of waiting) {
+      const sKey = sessionKey(task.options);
+      const mKey = messageKey(task.options);
+      const messages = sessions.get(sKey) ?? new Map<string, QueuedTask[]>();
+      const tasks = messages.get(mKey) ?? [];
+      tasks.push(task);
+      messages.set(mKey, tasks);
+      sessions.set(sKey, messages);
+    }
+
+    const sessionQueues = orderGroups(sessions).map(([, messages]) =>
+      interleave(orderGroups(messages).map(([, tasks]) => tasks))
+    );
+    return interleave(sessionQueues);
+  };
+
+  const reportPositions = () => {
+    projectedOrder().forEach((task, index) => {
+      if (task.position !== index + 1) {
+        task.position = index + 1;
+        task.options.onQueuePosition?.(task.position);
+      }
+    });
+  };
+
+  const dispatch = () => {
+    let wakeAt: number | undefined;
+    for (const task of projectedOrder()) {
+      if (running >= limits.globalLimit) break;
+      const { providerId } = task.options;
+      const bucket = bucketKey(task.options);
+      const providerLimit = providerLimitFor(providerId);
+      if ((runningByProvider.get(providerId) ?? 0) >= providerLimit) continue;
+      if ((runningByBucket.get(bucket) ?? 0) >= adaptive.getLimit(bucket, providerLimit)) continue;
+      const pausedUntil = adaptive.getPausedUntil(bucket);
+      if (pausedUntil !== undefined) {
+        wakeAt = Math.min(wakeAt ?? pausedUntil, pausedUntil);
+        continue;
+      }
+
+      waiting.splice(waiting.indexOf(task), 1);
+      running++;
+      increment(runningByProvider, providerId);
+      increment(runningByBucket, bucket);
+      tick++;
+      servedAt.set(sessionKey(task.options), tick);
+      servedAt.set(messageKey(task.options), tick);
+      task.start();
+    }
+
+    // Paused buckets have no completion to trigger the next dispatch.
+    clearTimeout(wakeTimer);
+    wakeTimer = wakeAt === undefined ? undefined : setTimeout(dispatch, Math.max(0, wakeAt - now()));
+    reportPositions();
+  };
+
+  const run = <T>(options: ScheduledTaskOptions, task: () => Promise<T>): Promise<T | undefined> => {
+    if (options.signal.aborted) return Promise.resolve(undefined);
+
+    return new Promise<T | undefined>((resolve, reject) => {
+      const queued: QueuedTask = {
+        options,
+        start: () => {
+          options.signal.removeEventListener('abort', onAbort);
+          if (queued.position !== undefined) options.onQueuePosition?.(undefined);
+
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              decrement(runningByProvider, options.providerId);
+              decrement(runningByBucket, bucketKey(options));
+              release(options);
+              dispatch();
+            });
+        }
+      };
+
+      const onAbort = () => {
+        const index = waiting.indexOf(queued);
+        if (index === -1) return;
+        waiting.splice(index, 1);
+        release(options);
+        if (queued.position !== undefined) options.onQueuePosition?.(undefined);
+        resolve(undefined);
+        dispatch();
+      };
+
+      options.signal.addEventListener('abort', onAbort, { once: true });
+      retain(options);
+      waiting.push(queued);
+      dispatch();
+    });
+  };
+
+  return {
+    run,
+    recordSuccess: (target) => {
+      adaptive.recordSuccess(bucketKey(target), providerLimitFor(target.providerId));
+      dispatch();
+    },
+    recordRateLimit: (target, retryAfterMs) => {
+      adaptive.recordRateLimit(bucketKey(target), providerLimitFor(target.providerId), retryAfterMs);
+      dispatch();
+    },
+    configure: (next) => {
+      limits = normalizeLimits({ ...limits, ...next });
+      dispatch();
+    },
+    getLimits: () => ({ ...limits, providerLimits: { ...limits.providerLimits } }),
+    getStats: () => ({
+      running,
+      queued: waiting.length,
+      runningByProvider: Object.fromEntries(runningByProvider),
+      adjustedLimits: adaptive.getAdjustedLimits()
+    })
+  };
+}
+
+/** The scheduler used by `runImageGeneration`. */
+export const generationScheduler = createGenerationScheduler();
+
+export function configureGenerationScheduler(limits: Partial<SchedulerLimits>): void {
+  generationScheduler.configure(limits);
+}
+
+type EnvSource = Record<string, string | undefined>;
+
+/**
+ * `BANANA_MAX_CONCURRENCY` sets the global limit and
+ * `BANANA_PROVIDER_CONCURRENCY` the per-provider default.
+ */
+export function readSchedulerLimitsFromEnv(env: EnvSource): Partial<SchedulerLimits> {
+  const limits: Partial<SchedulerLimits> = {};
+  if (env.BANANA_MAX_CONCURRENCY?.trim()) {
+    limits.globalLimit = Number(env.BANANA_MAX_CONCURRENCY);
+  }
+  if (env.BANANA_PROVIDER_CONCURRENCY?.trim()) {
+    limits.providerLimit = Number(env.BANANA_PROVIDER_CONCURRENCY);
+  }
+  return limits;
+}
@@ -6,7 +6,10 @@ import {
   createPendingGenerationSlots,
   failPendingGenerationSlots,
   getGenerationSlotProgress,
+  getPausableGenerationSlots,
+  getPausedGenerationSlots,
   markGenerationSlotPending,
+  PAUSED_SLOT_REASON,
   toSlotDescriptors
 } from './generationSlots.ts';
 
@@ -102,3 +105,42 @@ test('three successes and one 451 failure settle all four slots independently',
     assert.match(settled[2].error.message, /Adobe's safety policy/);
   }
 });
+
+test('paused slots are told apart from stopped ones and resume in place', () => {
+  const slots = createPendingGenerationSlots(3);
+  const descriptors = toSlotDescriptors(slots);
+  const stopped = cancelPendingGenerationSlots(slots, [descriptors[0]]);
+  const paused = cancelPendingGenerationSlots(stopped, descriptors.slice(1), PAUSED_SLOT_REASON);
+
+  const toResume = getPausedGenerationSlots(paused);
+  assert.deepEqual(toResume.map((slot) => slot.slotId), [descriptors[1].slotId, descriptors[2].slotId]);
+
+  const resumed = toResume.reduce((next, slot) => markGenerationSlotPending(next, slot.slotId), paused);
+  assert.deepEqual(resumed.map((slot) => slot.status), ['cancelled', 'pending', 'pending']);
+  assert.deepEqual(getPausedGenerationSlots(resumed), []);
+});
+
+test('a pause holds back only the pending slots that were not dispatched', () => {
+  const slots = createPendingGenerationSlots(4);
+  const [done, running, queued, alsoQueued] = toSlotDescriptors(slots);
+  const current = applyGenerationSlotResult(slots, {
+    ...done,
+    status: 'success',
+    attempts: 1,
+    image: { id: 'image', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' }
+  });
+
+  const pausable = getPausableGenerationSlots(current, [done.slotId, running.slotId]);
+  assert.deepEqual(pausable.map((slot) => slot.slotId), [queued.slotId, alsoQueued.slotId]);
+
+  const paused = cancelPendingGenerationSlots(current, toSlotDescriptors(pausable), PAUSED_SLOT_REASON);
+  assert.deepEqual(paused.map((slot) => slot.status), ['success', 'pending', 'cancelled', 'cancelled']);
+});
+
+test('nothing is pausable once every pending slot has been dispatched', () => {
+  const slots = createPendingGenerationSlots(2);
+  const slotIds = slots.map((slot) => slot.slotId);
+
+  assert.deepEqual(getPausableGenerationSlots(slots, slotIds), []);
+  assert.equal(getGenerationSlotProgress(slots).pending, 2);
+});
@@ -8,6 +8,12 @@ import type {
 } from '../types.ts';
 import { generateUUID } from '../utils/uuid.ts';
 
+// Cancellation reasons the UI tells apart: a stopped generation, a single
+// cancelled tile, and a paused message that can be resumed.
+export const STOPPED_SLOT_REASON = '生成任务已取消。';
+export const CANCELLED_SLOT_REASON = '已取消此图。';
+export const PAUSED_SLOT_REASON = '已暂停，继续后将重新生成。';
+
 export interface GenerationSlotProgress {
   total: number;
   completed: number;
@@ -17,18 +23,35 @@ export interface GenerationSlotProgress {
   cancelled: number;
 }
 
+/**
+ * Creates pending slots either by count or, for dynamic prompts, one slot per
+ * resolved prompt (see `expandBatchPrompts`).
+ */
 export function createPendingGenerationSlots(
-  count: number,
+  countOrPrompts: number | readonly string[],
   startIndex = 0
 ): GenerationSlot[] {
+  const prompts = typeof countOrPrompts === 'number' ? undefined : countOrPrompts;
+  const count = prompts ? prompts.length : (countOrPrompts as number);
   return Array.from({ length: count }, (_, offset) => ({
     slotId: generateUUID(),
     index: startIndex + offset,
+    ...(prompts ? { prompt: prompts[offset] } : {}),
     status: 'pending' as const,
     attempts: 0
   }));
 }
 
+// Identity fields that survive every status transition.
+function slotIdentity(slot: GenerationSlotDescriptor): GenerationSlotDescriptor {
+  return {
+    slotId: slot.slotId,
+    index: slot.index,
+    ...(slot.prompt !== undefined ? { prompt: slot.prompt } : {}),
+    ...(slot.groupId !== undefined ? { groupId: slot.groupId } : {})
+  };
+}
+
 export function getMessageGenerationSlots(message: Message): GenerationSlot[] {
   if (message.generationSlots) return message.generationSlots;
 
@@ -89,7 +112,7 @@ export function getGenerationSlotProgress(slots: GenerationSlot[]): GenerationSl
 }
 
 export function toSlotDescriptors(slots: GenerationSlot[]): GenerationSlotDescriptor[] {
-  return slots.map(({ slotId, index }) => ({ slotId, index }));
+  return slots.map(slotIdentity);
 }
 
 export function applyGenerationSlotResult(
@@ -101,18 +124,17 @@ export function applyGenerationSlotResult(
 
     if (result.status === 'success') {
       return {
-        slotId: slot.slotId,
-        index: slot.index,
+        ...slotIdentity(slot),
         status: 'success',
         attempts: result.attempts,
-        image: result.image
+        image: result.image,
+        ...(result.source ? { source: result.source } : {})
       };
     }
 
     if (result.status === 'cancelled') {
       return {
-        slotId: slot.slotId,
-        index: slot.index,
+        ...slotIdentity(slot),
         status: 'cancelled',
         attempts: result.attempts,
         reason: result.reason
@@ -120,8 +142,7 @@ export function applyGenerationSlotResult(
     }
 
     return {
-      slotId: slot.slotId,
-      index: slot.index,
+      ...slotIdentity(slot),
       status: 'failed',
       attempts: result.attempts,
       error: result.error
@@ -135,11 +156,27 @@ export function markGenerationSlotPending(
 ): GenerationSlot[] {
   return slots.map((slot) =>
     slot.slotId === slotId
-      ? { slotId: slot.slotId, index: slot.index, status: 'pending', attempts: 0 }
+      ? { ...slotIdentity(slot), status: 'pending', attempts: 0 }
       : slot
   );
 }
 
+/** Slots cancelled by a pause; resuming reruns them with the same slotIds. */
+export function getPausedGenerationSlots(slots: GenerationSlot[]): GenerationSlot[] {
+  return slots.filter((slot) => slot.status === 'cancelled' && slot.reason === PAUSED_SLOT_REASON);
+}
+
+/**
+ * Pending slots a pause can still hold back because their first request has
+ * not been sent. Dispatched slots run to a result, retries included.
+ */
+export function getPausableGenerationSlots(
+  slots: GenerationSlot[],
+  dispatchedSlotIds: readonly string[]
+): GenerationSlot[] {
+  return slots.filter((slot) => slot.status === 'pending' && !dispatchedSlotIds.includes(slot.slotId));
+}
+
 export function failPendingGenerationSlots(
   slots: GenerationSlot[],
   descriptors: GenerationSlotDescriptor[],
@@ -149,8 +186,7 @@ export function failPendingGenerationSlots(
   return slots.map((slot) =>
     targetIds.has(slot.slotId) && slot.status === 'pending'
       ? {
-          slotId: slot.slotId,
-          index: slot.index,
+          ...slotIdentity(slot),
           status: 'failed',
           attempts: error.attempts,
           error
@@ -162,14 +198,13 @@ export function failPendingGenerationSlots(
 export function cancelPendingGenerationSlots(
   slots: GenerationSlot[],
   descriptors: GenerationSlotDescriptor[],
-  reason = '生成任务已取消。'
+  reason = STOPPED_SLOT_REASON
 ): GenerationSlot[] {
   const targetIds = new Set(descriptors.map((descriptor) => descriptor.slotId));
   return slots.map((slot) =>
     targetIds.has(slot.slotId) && slot.status === 'pending'
       ? {
-          slotId: slot.slotId,
-          index: slot.index,
+          ...slotIdentity(slot),
           status: 'cancelled',
           attempts: slot.attempts,
           reason
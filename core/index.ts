@@ -1,3 +1,198 @@
-export { DEFAULT_PROVIDER_CONFIG, DEFAULT_SETTINGS, resolveProviderConfig, resolveSettings } from './config';
-export { runImageGeneration } from './generationEngine';
-export type { GenerationCallbacks, GenerationRequest } from './generationEngine';
+export {
+  applyProviderDefaults,
+  DEFAULT_PROVIDER_CONFIG,
+  DEFAULT_SETTINGS,
+  readProviderConfigFromEnv,
+  resolveProviderConfig,
+  parseProviderConfigList,
+  resolveSettings
+} from './config.ts';
+export { runImageGeneration } from './generationEngine.ts';
+export type { GenerationCallbacks, GenerationQueueKey, GenerationRequest } from './generationEngine.ts';
+export {
+  configureGenerationScheduler,
+  createGenerationScheduler,
+  DEFAULT_SCHEDULER_LIMITS,
+  generationScheduler,
+  readSchedulerLimitsFromEnv
+} from './generationScheduler.ts';
+export type {
+  GenerationScheduler,
+  RateLimitTarget,
+  ScheduledTaskOptions,
+  SchedulerLimits,
+  SchedulerStats
+} from './generationScheduler.ts';
+export {
+  DEFAULT_RETRY_POLICY,
+  GENERATION_ERROR_KINDS,
+  getRetryDelayMs,
+  resolveRetryPolicy,
+  retryPolicySchema,
+  shouldRetry
+} from './retryPolicy.ts';
+export {
+  DEFAULT_SLOT_CONCURRENCY,
+  DEFAULT_SLOT_TIMEOUT_MS,
+  executeSlots
+} from './slotExecutor.ts';
+export type {
+  SlotAttempt,
+  SlotAttemptRunner,
+  SlotExecutorCallbacks,
+  SlotExecutorOptions
+} from './slotExecutor.ts';
+export {
+  createAdaptiveConcurrencyController,
+  DEFAULT_ADAPTIVE_CONCURRENCY_OPTIONS
+} from './adaptiveConcurrency.ts';
+export type {
+  AdaptiveConcurrencyController,
+  AdaptiveConcurrencyOptions
+} from './adaptiveConcurrency.ts';
+export {
+  baseProviderConfigSchema,
+  getImageProvider,
+  listImageProviders,
+  parseProviderConfig,
+  registerImageProvider,
+  requireImageProvider,
+  unregisterImageProvider
+} from './providerRegistry.ts';
+export type {
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderPreviewInput,
+  ImageProviderRequest,
+  ImageProviderRequestPreview
+} from './providerRegistry.ts';
+export {
+  geminiImageProvider,
+  mockImageProvider,
+  openaiImageProvider,
+  registerBuiltinImageProviders,
+  sdWebuiImageProvider
+} from './builtinProviders.ts';
+export {
+  applyGenerationSlotResult,
+  cancelPendingGenerationSlots,
+  createPendingGenerationSlots,
+  CANCELLED_SLOT_REASON,
+  failPendingGenerationSlots,
+  getGenerationSlotProgress,
+  getPausableGenerationSlots,
+  getPausedGenerationSlots,
+  PAUSED_SLOT_REASON,
+  STOPPED_SLOT_REASON,
+  toSlotDescriptors
+} from './generationSlots.ts';
+export type { GenerationSlotProgress } from './generationSlots.ts';
+export {
+  findOrphanedGenerations,
+  getOrphanResumeSettings,
+  ORPHANED_SLOT_REASON
+} from './generationJobs.ts';
+export type { OrphanedGeneration, OrphanScan } from './generationJobs.ts';
+export {
+  MAX_FALLBACK_PROVIDERS,
+  parseFallbackProviders,
+  readFallbackProvidersFromEnv,
+  shouldFallback
+} from './providerFallback.ts';
+export {
+  createComparisonSlots,
+  getComparisonColumns,
+  getSlotGroupLabel,
+  getSlotProviderConfigs,
+  MAX_COMPARE_PROVIDERS,
+  parseCompareProviders,
+  resolveSlotGroupConfig,
+  toSlotGroup
+} from './comparison.ts';
+export type { ComparisonColumn } from './comparison.ts';
+export {
+  addSpend,
+  assertWithinBudget,
+  checkBudget,
+  DEFAULT_PRICING,
+  DEFAULT_SPEND_BUDGET,
+  estimateCost,
+  findImagePrice,
+  formatCost,
+  formatPricingTable,
+  getSpendDayKey,
+  parsePricingTable,
+  toPriceTarget
+} from './pricing.ts';
+export type {
+  BudgetAction,
+  BudgetCheck,
+  CostEstimate,
+  CostPreview,
+  PriceEntry,
+  PriceTarget,
+  SpendBudget,
+  SpendTotals
+} from './pricing.ts';
+export { summarizeUsage, usageToCsv } from './usage.ts';
+export type { UsageGrouping, UsageSummaryRow } from './usage.ts';
+export {
+  DEFAULT_CONVERSATION_CONTEXT,
+  DEFAULT_RECENT_TURNS,
+  describeConversationContext,
+  getRecentTurnLimit,
+  MAX_RECENT_TURNS,
+  selectContextTurns
+} from './conversationContext.ts';
+export type { ContextTurn } from './conversationContext.ts';
+export {
+  addImageOrderPreamble,
+  addMaskAnnotations,
+  collectHistoryImages,
+  getImageOrderLabel,
+  takeEditMask,
+  toUploadContextImages,
+  withoutExcludedImages
+} from './contextImages.ts';
+export type { ContextImage } from './contextImages.ts';
+export { previewGenerationRequest } from './requestPreview.ts';
+export type { GenerationRequestPreview, RequestPreviewInput } from './requestPreview.ts';
+export {
+  MAX_OUTPAINT_EDGE,
+  OUTPAINT_ASPECT_RATIOS,
+  OUTPAINT_INSTRUCTION,
+  buildOutpaintPrompt,
+  getOutpaintLayout
+} from './outpaint.ts';
+export type { OutpaintLayout } from './outpaint.ts';
+export {
+  createPromptQueueItem,
+  getNextPromptQueueItems,
+  MAX_PROMPT_QUEUE_CONCURRENCY,
+  movePromptQueueItem,
+  requeuePromptQueueItem,
+  summarizePromptQueueRun,
+  updatePromptQueueItem
+} from './promptQueue.ts';
+export type {
+  PromptQueueItem,
+  PromptQueueItemStatus,
+  PromptQueueOutcome,
+  PromptQueueSettings
+} from './promptQueue.ts';
+export {
+  expandBatchPrompts,
+  expandPromptTemplate,
+  hasPromptTemplate,
+  parseWildcardEntries
+} from './promptTemplate.ts';
+export type { PromptExpansionOptions, WildcardLists } from './promptTemplate.ts';
+export {
+  detectBatchImportFormat,
+  getBatchImportProgress,
+  getReferencedFileNames,
+  parseBatchImport,
+  parseCsv,
+  resolveBatchReferences
+} from './batchImport.ts';
+export type { BatchImportFormat, BatchImportJob, BatchImportRowProgress, BatchJobRow } from './batchImport.ts';
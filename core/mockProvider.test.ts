@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationSlotResult, RetryPolicy } from '../types.ts';
+import { runImageGeneration, type GenerationRequest } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { generationScheduler } from './generationScheduler.ts';
+
+async function runMock(
+  options: Record<string, unknown>,
+  overrides: Partial<GenerationRequest> = {},
+  retryPolicy: Partial<RetryPolicy> = {}
+): Promise<GenerationSlotResult[]> {
+  const results: GenerationSlotResult[] = [];
+  await runImageGeneration({
+    prompt: 'a lighthouse at dusk',
+    settings: { batchSize: 3, aspectRatio: '16:9', resolution: '1K' },
+    providerConfig: {
+      provider: 'mock',
+      apiKey: '',
+      options: { latencyMs: 0, latencyJitterMs: 0, ...options },
+      retryPolicy: { baseDelayMs: 0, ...retryPolicy }
+    },
+    slots: toSlotDescriptors(createPendingGenerationSlots(3)),
+    signal: new AbortController().signal,
+    callbacks: {
+      onSlotResult: (result) => results.push(result),
+      onText: () => {}
+    },
+    ...overrides
+  });
+  return results.sort((left, right) => left.index - right.index);
+}
+
+function readPngSize(dataUri: string): { width: number; height: number } {
+  const bytes = Buffer.from(dataUri.split(',')[1], 'base64');
+  assert.equal(bytes.subarray(1, 4).toString('ascii'), 'PNG');
+  return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+}
+
+test('mock provider renders deterministic placeholders without an API key', async () => {
+  const first = await runMock({});
+  const second = await runMock({});
+
+  assert.deepEqual(first.map((result) => result.status), ['success', 'success', 'success']);
+  for (const [index, result] of first.entries()) {
+    assert.ok(result.status === 'success');
+    const other = second[index];
+    assert.ok(other.status === 'success');
+    assert.equal(result.image.data, other.image.data);
+    assert.deepEqual(readPngSize(result.image.data), { width: 256, height: 144 });
+  }
+  assert.ok(first[0].status === 'success' && first[1].status === 'success');
+  assert.notEqual(first[0].image.data, first[1].image.data);
+});
+
+test('injected failures are classified like real provider errors', async () => {
+  const results = await runMock({ failingSlots: [1], failureKinds: ['451'] });
+
+  assert.equal(results[0].status, 'success');
+  assert.equal(results[2].status, 'success');
+  const failed = results[1];
+  assert.ok(failed.status === 'failed');
+  assert.equal(failed.error.statusCode, 451);
+  assert.equal(failed.error.retryable, false);
+  assert.equal(failed.attempts, 1);
+
+  const moderated = await runMock({ failingSlots: [0], failureKinds: ['moderation'] });
+  assert.ok(moderated[0].status === 'failed');
+  assert.equal(moderated[0].error.kind, 'moderation');
+});
+
+test('retryable failures are retried until the slot succeeds', async () => {
+  const results = await runMock({ failFirstAttempts: 2, failureKinds: ['429'] });
+
+  for (const result of results) {
+    assert.equal(result.status, 'success');
+    assert.equal(result.attempts, 3);
+  }
+
+  const exhausted = await runMock({ failingSlots: [2], failureKinds: ['timeout'] });
+  assert.ok(exhausted[2].status === 'failed');
+  assert.equal(exhausted[2].error.kind, 'network');
+  assert.equal(exhausted[2].attempts, 4);
+});
+
+test('the provider retry policy sets attempts and retried status codes', async () => {
+  const patient = await runMock({ failFirstAttempts: 5, failureKinds: ['500'] }, {}, { maxAttempts: 6 });
+  assert.deepEqual(patient.map((result) => [result.status, result.attempts]), [
+    ['success', 6],
+    ['success', 6],
+    ['success', 6]
+  ]);
+
+  const failFast = await runMock({ failingSlots: [0], failureKinds: ['429'] }, {}, { maxAttempts: 1 });
+  assert.ok(failFast[0].status === 'failed');
+  assert.equal(failFast[0].attempts, 1);
+
+  const notListed = await runMock({ failingSlots: [0], failureKinds: ['500'] }, {}, { retryOnStatusCodes: [429] });
+  assert.equal(notListed[0].attempts, 1);
+
+  await assert.rejects(runMock({}, {}, { maxAttempts: 0 }), /最少尝试 1 次/);
+});
+
+test('aborting stops pending mock slots', async () => {
+  const controller = new AbortController();
+  const pending = runMock({ latencyMs: 5_000 }, { signal: controller.signal });
+  setTimeout(() => controller.abort(), 10);
+
+  const startedAt = Date.now();
+  assert.deepEqual(await pending, []);
+  assert.ok(Date.now() - startedAt < 1_000);
+});
+
+test('a slot signal cancels only that slot', async () => {
+  const slots = toSlotDescriptors(createPendingGenerationSlots(3));
+  const cancelled = new AbortController();
+  const pending = runMock({ latencyMs: 200 }, {
+    slots,
+    slotSignals: { [slots[1].slotId]: cancelled.signal }
+  });
+  setTimeout(() => cancelled.abort(), 10);
+
+  const results = await pending;
+  assert.deepEqual(results.map((result) => [result.index, result.status]), [
+    [0, 'success'],
+    [2, 'success']
+  ]);
+});
+
+test('queued slots can be cancelled while the dispatched one finishes', async () => {
+  const previousLimits = generationScheduler.getLimits();
+  generationScheduler.configure({ providerLimits: { mock: 1 } });
+  const slots = toSlotDescriptors(createPendingGenerationSlots(3));
+  const controllers = slots.map(() => new AbortController());
+  const dispatched: string[] = [];
+  const results: GenerationSlotResult[] = [];
+
+  try {
+    await runMock({ latencyMs: 50 }, {
+      slots,
+      slotSignals: Object.fromEntries(slots.map((slot, index) => [slot.slotId, controllers[index].signal])),
+      callbacks: {
+        onSlotResult: (result) => results.push(result),
+        onText: () => {},
+        // Pause on the first dispatch: only the slots still in the queue are aborted.
+        onSlotDispatched: (slotId) => {
+          dispatched.push(slotId);
+          slots.forEach((slot, index) => {
+            if (!dispatched.includes(slot.slotId)) controllers[index].abort();
+          });
+        }
+      }
+    });
+
+    assert.deepEqual(dispatched, [slots[0].slotId]);
+    assert.deepEqual(results.map((result) => [result.index, result.status]), [[0, 'success']]);
+  } finally {
+    generationScheduler.configure(previousLimits);
+  }
+});
@@ -0,0 +1,67 @@
+import type { AspectRatio, Resolution } from '../types.ts';
+
+/**
+ * OpenAI image output sizes. Shared by the OpenAI service, which sends them,
+ * and `core/pricing.ts`, which prices by them.
+ */
+
+export function mapAspectRatioToOpenAISize(
+  aspectRatio: AspectRatio | undefined,
+  model: string,
+  resolution?: Resolution
+): string {
+  const normalizedModel = model.toLowerCase();
+  const useDalleSizes = normalizedModel.includes('dall-e-3');
+  const isGptImage2 = normalizedModel.includes('gpt-image-2');
+
+  if (isGptImage2) {
+    if (!aspectRatio || aspectRatio === 'Auto') return 'auto';
+
+    const [width, height] = aspectRatio.split(':').map(Number);
+    if (!width || !height) return 'auto';
+
+    const longToShortRatio = Math.max(width, height) / Math.min(width, height);
+    if (longToShortRatio > 3) return 'auto';
+
+    const isSquare = width === height;
+    const longEdge = resolution === '4K'
+      ? 3840
+      : resolution === '2K'
+        ? 2048
+        : isSquare
+          ? 1024
+          : 1536;
+
+    let outputWidth = width >= height
+      ? longEdge
+      : Math.round((longEdge * width) / height / 16) * 16;
+    let outputHeight = height >= width
+      ? longEdge
+      : Math.round((longEdge * height) / width / 16) * 16;
+
+    const maxPixels = 8_294_400;
+    const totalPixels = outputWidth * outputHeight;
+    if (totalPixels > maxPixels) {
+      const scale = Math.sqrt(maxPixels / totalPixels);
+      outputWidth = Math.floor((outputWidth * scale) / 16) * 16;
+      outputHeight = Math.floor((outputHeight * scale) / 16) * 16;
+    }
+
+    return `${outputWidth}x${outputHeight}`;
+  }
+
+  if (!aspectRatio || aspectRatio === 'Auto') {
+    return '1024x1024';
+  }
+
+  const [width, height] = aspectRatio.split(':').map(Number);
+  if (!width || !height || width === height) {
+    return '1024x1024';
+  }
+
+  if (width < height) {
+    return useDalleSizes ? '1024x1792' : '1024x1536';
+  }
+
+  return useDalleSizes ? '1792x1024' : '1536x1024';
+}
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ValidationError } from '../types/errors.ts';
+import { MAX_OUTPAINT_EDGE, OUTPAINT_INSTRUCTION, buildOutpaintPrompt, getOutpaintLayout } from './outpaint.ts';
+
+test('outpaint layout grows the short side and centers the source', () => {
+  assert.deepEqual(getOutpaintLayout(1024, 1024, '16:9'), {
+    width: 1820,
+    height: 1024,
+    x: 398,
+    y: 0,
+    imageWidth: 1024,
+    imageHeight: 1024
+  });
+  assert.deepEqual(getOutpaintLayout(1536, 1024, '1:1'), {
+    width: 1536,
+    height: 1536,
+    x: 0,
+    y: 256,
+    imageWidth: 1536,
+    imageHeight: 1024
+  });
+});
+
+test('outpaint layout caps the canvas edge and rejects the same ratio', () => {
+  const layout = getOutpaintLayout(4096, 4096, '21:9');
+  assert.equal(layout.width, MAX_OUTPAINT_EDGE);
+  assert.equal(layout.imageHeight, layout.height);
+  assert.equal(layout.x, Math.floor((layout.width - layout.imageWidth) / 2));
+
+  assert.throws(() => getOutpaintLayout(1024, 1024, '1:1'), ValidationError);
+  assert.throws(() => getOutpaintLayout(0, 1024, '16:9'), ValidationError);
+});
+
+test('outpaint prompt appends the optional description', () => {
+  assert.equal(buildOutpaintPrompt('  '), OUTPAINT_INSTRUCTION);
+  assert.equal(buildOutpaintPrompt('左右延伸出海岸线'), `${OUTPAINT_INSTRUCTION}\n\n扩展内容：左右延伸出海岸线`);
+});
@@ -0,0 +1,73 @@
+import { ASPECT_RATIO_OPTIONS, type AspectRatio } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+
+/**
+ * Outpainting: a generated image is centered on a larger transparent canvas
+ * of the target aspect ratio, and the edit route fills the border. These are
+ * the pure layout and prompt helpers; `utils/imageMask.ts` draws the canvas.
+ */
+
+export const OUTPAINT_ASPECT_RATIOS = ASPECT_RATIO_OPTIONS.filter((option) => option.value !== 'Auto');
+
+// Longest edge of the padded canvas; larger sources are scaled down to fit.
+export const MAX_OUTPAINT_EDGE = 4096;
+
+export const OUTPAINT_INSTRUCTION =
+  '向外扩展画面：补全四周透明的区域，使其与中间的原图在内容、透视、光线和风格上自然衔接，原图部分保持不变。';
+
+// Canvas size and where the (possibly scaled) source image sits on it.
+export interface OutpaintLayout {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export function getOutpaintLayout(
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: AspectRatio
+): OutpaintLayout {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  if (!ratioWidth || !ratioHeight) {
+    throw new ValidationError('请选择扩图的目标比例', '扩图');
+  }
+  if (!(sourceWidth > 0) || !(sourceHeight > 0)) {
+    throw new ValidationError('无法读取原图尺寸', '扩图');
+  }
+
+  // Grow whichever side falls short of the target ratio.
+  const target = ratioWidth / ratioHeight;
+  let width = sourceWidth;
+  let height = sourceHeight;
+  if (sourceWidth / sourceHeight < target) {
+    width = Math.round(sourceHeight * target);
+  } else {
+    height = Math.round(sourceWidth / target);
+  }
+  if (width === sourceWidth && height === sourceHeight) {
+    throw new ValidationError(`原图已经是 ${aspectRatio}，请选择其他比例`, '扩图');
+  }
+
+  const scale = Math.min(1, MAX_OUTPAINT_EDGE / Math.max(width, height));
+  const imageWidth = Math.round(sourceWidth * scale);
+  const imageHeight = Math.round(sourceHeight * scale);
+  const canvasWidth = Math.round(width * scale);
+  const canvasHeight = Math.round(height * scale);
+  return {
+    width: canvasWidth,
+    height: canvasHeight,
+    x: Math.floor((canvasWidth - imageWidth) / 2),
+    y: Math.floor((canvasHeight - imageHeight) / 2),
+    imageWidth,
+    imageHeight
+  };
+}
+
+// The fixed instruction, followed by what the user wants in the new area.
+export function buildOutpaintPrompt(description?: string): string {
+  const detail = description?.trim();
+  return detail ? `${OUTPAINT_INSTRUCTION}\n\n扩展内容：${detail}` : OUTPAINT_INSTRUCTION;
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  addSpend,
+  checkBudget,
+  DEFAULT_PRICING,
+  estimateCost,
+  findImagePrice,
+  formatPricingTable,
+  getSpendDayKey,
+  parsePricingTable,
+  type PriceTarget
+} from './pricing.ts';
+
+const GPT_IMAGE_2: PriceTarget = { provider: 'openai', model: 'gpt-image-2', aspectRatio: '16:9', resolution: '4K' };
+
+test('gpt-image-2 defaults are priced by the requested output size', () => {
+  const square = findImagePrice(DEFAULT_PRICING, { ...GPT_IMAGE_2, aspectRatio: '1:1', resolution: '1K' });
+  const wide4k = findImagePrice(DEFAULT_PRICING, GPT_IMAGE_2);
+  const auto = findImagePrice(DEFAULT_PRICING, { ...GPT_IMAGE_2, aspectRatio: 'Auto' });
+
+  assert.ok(square !== undefined && wide4k !== undefined);
+  assert.ok(wide4k > square * 5);
+  assert.equal(auto, 0.17);
+});
+
+test('the most specific entry wins and later entries override earlier ones', () => {
+  const table = parsePricingTable([
+    'gemini * * 0.05',
+    'gemini gemini-3-pro-image * 0.1',
+    'gemini gemini-3-pro-image 4K 0.2',
+    'gemini gemini-3-pro-image 4K 0.3 # proxy markup'
+  ].join('\n'));
+  const target: PriceTarget = { provider: 'gemini', model: 'gemini-3-pro-image-preview', aspectRatio: '1:1', resolution: '4K' };
+
+  assert.equal(findImagePrice(table, target), 0.3);
+  assert.equal(findImagePrice(table, { ...target, resolution: '2K' }), 0.1);
+  assert.equal(findImagePrice(table, { ...target, model: 'other' }), 0.05);
+  assert.equal(findImagePrice(table, { ...target, provider: 'openai' }), undefined);
+  assert.deepEqual(parsePricingTable(formatPricingTable(table)), table);
+  assert.throws(() => parsePricingTable('gemini * 8K 0.1'), /第 1 行/);
+});
+
+test('estimates count unpriced images and budgets compare spend plus estimate to the caps', () => {
+  const table = parsePricingTable('openai gpt-image-2 * 0.25');
+  const estimate = estimateCost(table, [GPT_IMAGE_2, { ...GPT_IMAGE_2, provider: 'custom' }], 4);
+  assert.deepEqual(estimate, { total: 1, images: 8, unpricedImages: 4 });
+
+  const now = new Date(2026, 0, 2, 12).getTime();
+  let totals = addSpend({ days: { '2025-11-01': 3 }, sessions: {} }, 'a', 1.5, now);
+  totals = addSpend(totals, 'b', 1, now);
+  assert.deepEqual(totals, { days: { [getSpendDayKey(now)]: 2.5 }, sessions: { a: 1.5, b: 1 } });
+
+  assert.equal(checkBudget({ dailyLimit: 5, onExceed: 'block' }, totals, 'a', 2, now).status, 'ok');
+  const blocked = checkBudget({ dailyLimit: 5, onExceed: 'block' }, totals, 'a', 3, now);
+  assert.equal(blocked.status, 'block');
+  assert.match(blocked.message ?? '', /今日已花费 \$2\.5/);
+  assert.equal(checkBudget({ sessionLimit: 2, onExceed: 'warn' }, totals, 'a', 1, now).status, 'warn');
+  assert.equal(checkBudget({ sessionLimit: 2, onExceed: 'warn' }, totals, 'b', 1, now).status, 'ok');
+});
@@ -0,0 +1,221 @@
+import type { AspectRatio, Provider, Resolution } from '../types.ts';
+import { GPT_IMAGE_ASPECT_RATIO_OPTIONS } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { mapAspectRatioToOpenAISize } from './openaiSizes.ts';
+
+/**
+ * Cost estimates and spending budgets. Prices are per successful image in
+ * USD; the table is user-editable and the most specific matching entry wins.
+ * `hooks/useSpending.ts` keeps the table, budget and totals in localStorage.
+ */
+
+export interface PriceEntry {
+  provider: Provider;
+  model?: string; // Matched case-insensitively as a substring; unset matches any model
+  size?: string; // OpenAI output size such as '1536x1024'
+  resolution?: Resolution;
+  pricePerImage: number;
+}
+
+export interface PriceTarget {
+  provider: Provider;
+  model?: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+}
+
+export interface CostEstimate {
+  total: number; // Sum over the priced images
+  images: number;
+  unpricedImages: number; // No matching entry; not included in `total`
+}
+
+export type BudgetAction = 'warn' | 'block';
+
+export interface SpendBudget {
+  dailyLimit?: number;
+  sessionLimit?: number;
+  onExceed: BudgetAction;
+}
+
+// Accumulated spend by local day ('YYYY-MM-DD') and by session id.
+export interface SpendTotals {
+  days: Record<string, number>;
+  sessions: Record<string, number>;
+}
+
+export interface BudgetCheck {
+  status: 'ok' | BudgetAction;
+  message?: string;
+}
+
+// What the input area shows before sending.
+export interface CostPreview {
+  estimate: CostEstimate;
+  budget: BudgetCheck;
+}
+
+export const DEFAULT_SPEND_BUDGET: SpendBudget = { onExceed: 'warn' };
+export const EMPTY_SPEND_TOTALS: SpendTotals = { days: {}, sessions: {} };
+const SPEND_HISTORY_DAYS = 31;
+
+// gpt-image-2 is billed by output size; the defaults scale with pixel count.
+const GPT_IMAGE_2_PRICE_PER_MEGAPIXEL = 0.16;
+const RESOLUTIONS: Resolution[] = ['1K', '2K', '4K'];
+
+function gptImage2SizePrices(): PriceEntry[] {
+  const prices = new Map<string, number>();
+  for (const { value } of GPT_IMAGE_ASPECT_RATIO_OPTIONS) {
+    for (const resolution of RESOLUTIONS) {
+      const size = mapAspectRatioToOpenAISize(value, 'gpt-image-2', resolution);
+      const [width, height] = size.split('x').map(Number);
+      if (!width || !height) continue;
+      prices.set(size, Math.round((width * height / 1_000_000) * GPT_IMAGE_2_PRICE_PER_MEGAPIXEL * 1000) / 1000);
+    }
+  }
+  return [...prices].map(([size, pricePerImage]) => ({ provider: 'openai', model: 'gpt-image-2', size, pricePerImage }));
+}
+
+// Rough list prices; edit the table to match your account or proxy.
+export const DEFAULT_PRICING: PriceEntry[] = [
+  { provider: 'gemini', model: 'gemini-2.5-flash-image', pricePerImage: 0.039 },
+  { provider: 'gemini', model: 'gemini-3-pro-image', pricePerImage: 0.134 },
+  { provider: 'gemini', model: 'gemini-3-pro-image', resolution: '4K', pricePerImage: 0.24 },
+  { provider: 'openai', model: 'gpt-image-1', pricePerImage: 0.167 },
+  { provider: 'openai', model: 'gpt-image-1', resolution: '1K', pricePerImage: 0.042 },
+  { provider: 'openai', model: 'dall-e-3', pricePerImage: 0.04 },
+  { provider: 'openai', model: 'dall-e-3', resolution: '2K', pricePerImage: 0.08 },
+  { provider: 'openai', model: 'dall-e-3', resolution: '4K', pricePerImage: 0.08 },
+  { provider: 'openai', model: 'gpt-image-2', pricePerImage: 0.17 }, // size 'auto'
+  ...gptImage2SizePrices(),
+  { provider: 'mock', pricePerImage: 0 },
+  { provider: 'sdwebui', pricePerImage: 0 } // Self-hosted
+];
+
+// OpenAI routes are billed by the size they request; other providers by resolution.
+export function getPriceSize(target: PriceTarget): string | undefined {
+  if (target.provider !== 'openai' || !target.model) return undefined;
+  return mapAspectRatioToOpenAISize(target.aspectRatio, target.model, target.resolution);
+}
+
+/** Price of one image, or `undefined` when no entry matches. */
+export function findImagePrice(table: PriceEntry[], target: PriceTarget): number | undefined {
+  const model = target.model?.toLowerCase();
+  const size = getPriceSize(target);
+  let best: { entry: PriceEntry; score: number } | undefined;
+
+  for (const entry of table) {
+    if (entry.provider !== target.provider) continue;
+    if (entry.model && !model?.includes(entry.model.toLowerCase())) continue;
+    if (entry.size && entry.size !== size) continue;
+    if (entry.resolution && entry.resolution !== target.resolution) continue;
+    // Later entries win ties so user additions override the defaults.
+    const score = (entry.model ? 4 : 0) + (entry.size ? 2 : 0) + (entry.resolution ? 1 : 0);
+    if (!best || score >= best.score) best = { entry, score };
+  }
+  return best?.entry.pricePerImage;
+}
+
+/** Estimate for `imagesPerTarget` images on each target. */
+export function estimateCost(table: PriceEntry[], targets: PriceTarget[], imagesPerTarget: number): CostEstimate {
+  const estimate: CostEstimate = { total: 0, images: 0, unpricedImages: 0 };
+  for (const target of targets) {
+    const price = findImagePrice(table, target);
+    estimate.images += imagesPerTarget;
+    if (price === undefined) estimate.unpricedImages += imagesPerTarget;
+    else estimate.total += price * imagesPerTarget;
+  }
+  return estimate;
+}
+
+export function formatCost(amount: number): string {
+  return `$${amount < 10 ? amount.toFixed(3).replace(/0$/, '') : amount.toFixed(2)}`;
+}
+
+export function getSpendDayKey(now: number = Date.now()): string {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Adds `amount` to today and the session, dropping days past the history window. */
+export function addSpend(totals: SpendTotals, sessionId: string, amount: number, now: number = Date.now()): SpendTotals {
+  if (amount <= 0) return totals;
+  const day = getSpendDayKey(now);
+  const oldestDay = getSpendDayKey(now - SPEND_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const days = Object.fromEntries(Object.entries(totals.days).filter(([key]) => key > oldestDay));
+  days[day] = (days[day] ?? 0) + amount;
+  return {
+    days,
+    sessions: { ...totals.sessions, [sessionId]: (totals.sessions[sessionId] ?? 0) + amount }
+  };
+}
+
+/** Whether spending `estimate` more would cross a cap, and what to do about it. */
+export function checkBudget(
+  budget: SpendBudget,
+  totals: SpendTotals,
+  sessionId: string,
+  estimate: number,
+  now: number = Date.now()
+): BudgetCheck {
+  const caps = [
+    { label: '今日', spent: totals.days[getSpendDayKey(now)] ?? 0, limit: budget.dailyLimit },
+    { label: '本会话', spent: totals.sessions[sessionId] ?? 0, limit: budget.sessionLimit }
+  ];
+  const exceeded = caps.find(({ spent, limit }) => limit !== undefined && spent + estimate > limit);
+  if (!exceeded) return { status: 'ok' };
+  return {
+    status: budget.onExceed,
+    message: `${exceeded.label}已花费 ${formatCost(exceeded.spent)}，本次约 ${formatCost(estimate)}，将超出预算 ${formatCost(exceeded.limit!)}`
+  };
+}
+
+// Table text: one `provider model size|resolution price` entry per line,
+// `*` for any; `#` starts a comment.
+export function formatPricingTable(table: PriceEntry[]): string {
+  return table
+    .map((entry) =>
+      [entry.provider, entry.model ?? '*', entry.size ?? entry.resolution ?? '*', entry.pricePerImage].join(' ')
+    )
+    .join('\n');
+}
+
+export function parsePricingTable(text: string): PriceEntry[] {
+  const entries: PriceEntry[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*/, '').trim();
+    if (!line) return;
+    const parts = line.split(/\s+/);
+    const price = Number(parts[3]);
+    if (parts.length !== 4 || !Number.isFinite(price) || price < 0) {
+      throw new ValidationError(`第 ${index + 1} 行应为「provider 模型 尺寸或分辨率 单价」`, '价格表');
+    }
+    const [provider, model, variant] = parts;
+    if (variant !== '*' && !/^\d+x\d+$/.test(variant) && !RESOLUTIONS.includes(variant as Resolution)) {
+      throw new ValidationError(`第 ${index + 1} 行的尺寸应为 1024x1536、1K / 2K / 4K 或 *`, '价格表');
+    }
+    entries.push({
+      provider,
+      ...(model !== '*' ? { model } : {}),
+      ...(/^\d+x\d+$/.test(variant) ? { size: variant } : {}),
+      ...(RESOLUTIONS.includes(variant as Resolution) ? { resolution: variant as Resolution } : {}),
+      pricePerImage: price
+    });
+  });
+  return entries;
+}
+
+export function toPriceTarget(
+  config: { provider: Provider; model?: string },
+  settings: { aspectRatio: AspectRatio; resolution: Resolution }
+): PriceTarget {
+  return { provider: config.provider, model: config.model, aspectRatio: settings.aspectRatio, resolution: settings.resolution };
+}
+
+/** Throws when the budget blocks the batch `check` was made for. */
+export function assertWithinBudget(check: BudgetCheck): void {
+  if (check.status === 'block') {
+    throw new ValidationError(check.message ?? '已超出预算', '预算');
+  }
+}
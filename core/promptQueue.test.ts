@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationSlotResult } from '../types.ts';
+import {
+  createPromptQueueItem,
+  getNextPromptQueueItems,
+  movePromptQueueItem,
+  requeuePromptQueueItem,
+  summarizePromptQueueRun,
+  updatePromptQueueItem,
+  type PromptQueueItem
+} from './promptQueue.ts';
+
+const SETTINGS = { batchSize: 1, aspectRatio: '1:1', resolution: '1K' } as const;
+
+function createItems(count: number): PromptQueueItem[] {
+  return Array.from({ length: count }, (_, index) =>
+    createPromptQueueItem({ sessionId: 'session', prompt: `prompt ${index}`, settings: SETTINGS })
+  );
+}
+
+test('queued items start in order up to the concurrency limit and can be reordered', () => {
+  const other = createPromptQueueItem({ sessionId: 'other', prompt: 'elsewhere', settings: SETTINGS });
+  let items = createItems(4);
+  const [first, second, third, fourth] = items;
+  items = [first, other, second, third, fourth];
+
+  items = movePromptQueueItem(items, fourth.id, -10);
+  assert.deepEqual(items.map((item) => item.id), [fourth.id, other.id, first.id, second.id, third.id]);
+  items = items.filter((item) => item.id !== other.id);
+
+  const started = getNextPromptQueueItems(items, 2);
+  assert.deepEqual(started.map((item) => item.id), [fourth.id, first.id]);
+  for (const item of started) items = updatePromptQueueItem(items, item.id, { status: 'running' });
+
+  assert.deepEqual(getNextPromptQueueItems(items, 2), []);
+  items = updatePromptQueueItem(items, fourth.id, { status: 'done', succeeded: 1, total: 1 });
+  assert.deepEqual(getNextPromptQueueItems(items, 2).map((item) => item.id), [second.id]);
+});
+
+test('failed items are re-queued at the end with their results cleared', () => {
+  let items = createItems(3);
+  const [failed] = items;
+  items = updatePromptQueueItem(items, failed.id, { status: 'failed', succeeded: 0, total: 1, error: 'boom' });
+
+  items = requeuePromptQueueItem(items, failed.id);
+  const requeued = items[items.length - 1];
+  assert.equal(requeued.id, failed.id);
+  assert.equal(requeued.status, 'queued');
+  assert.equal(requeued.error, undefined);
+  assert.equal(requeued.total, undefined);
+  // Queued and running items are left alone.
+  assert.equal(requeuePromptQueueItem(items, items[0].id), items);
+});
+
+test('a run is done when any image succeeded, else cancelled or failed', () => {
+  const success: GenerationSlotResult = {
+    slotId: 'a',
+    index: 0,
+    status: 'success',
+    attempts: 1,
+    image: { id: 'a', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' }
+  };
+  const failed: GenerationSlotResult = {
+    slotId: 'b',
+    index: 1,
+    status: 'failed',
+    attempts: 1,
+    error: { kind: 'http', message: 'bad request', statusCode: 400, attempts: 1, retryable: false }
+  };
+  const cancelled: GenerationSlotResult = { slotId: 'c', index: 2, status: 'cancelled', attempts: 0, reason: 'stop' };
+
+  assert.deepEqual(summarizePromptQueueRun([success, failed]), { status: 'done', succeeded: 1, total: 2 });
+  assert.equal(summarizePromptQueueRun([failed, cancelled]).status, 'cancelled');
+  assert.deepEqual(summarizePromptQueueRun([failed]), {
+    status: 'failed',
+    succeeded: 0,
+    total: 1,
+    error: 'bad request'
+  });
+  assert.throws(() => createPromptQueueItem({ sessionId: 'session', prompt: ' ', settings: SETTINGS }));
+});
@@ -0,0 +1,106 @@
+import type { AppSettings, GenerationSlotResult, UploadedImage } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { generateUUID } from '../utils/uuid.ts';
+
+/**
+ * Prompt queue: prompts stacked up front, each with its own settings and
+ * reference images, started in order up to a concurrency limit in the session
+ * they were queued from. These are pure state helpers;
+ * `hooks/usePromptQueue.ts` runs the items.
+ */
+
+export const MAX_PROMPT_QUEUE_CONCURRENCY = 5;
+
+export type PromptQueueItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type PromptQueueSettings = Pick<AppSettings, 'batchSize' | 'aspectRatio' | 'resolution' | 'excludedImageIds'>;
+
+export interface PromptQueueItem {
+  id: string;
+  sessionId: string;
+  prompt: string;
+  uploadedImages?: UploadedImage[];
+  settings: PromptQueueSettings;
+  status: PromptQueueItemStatus;
+  succeeded?: number; // Set once the run settles
+  total?: number;
+  error?: string;
+}
+
+export interface PromptQueueOutcome {
+  status: Extract<PromptQueueItemStatus, 'done' | 'failed' | 'cancelled'>;
+  succeeded: number;
+  total: number;
+  error?: string;
+}
+
+export function createPromptQueueItem(
+  input: Pick<PromptQueueItem, 'sessionId' | 'prompt' | 'uploadedImages' | 'settings'>
+): PromptQueueItem {
+  if (!input.prompt.trim() && !input.uploadedImages?.length) {
+    throw new ValidationError('队列项需要提示词或参考图片', '队列');
+  }
+  return { id: generateUUID(), ...input, status: 'queued' };
+}
+
+/**
+ * Moves an item `offset` places up (negative) or down among the items of its
+ * session, clamped to that list. Other sessions' items keep their places.
+ */
+export function movePromptQueueItem(items: PromptQueueItem[], id: string, offset: number): PromptQueueItem[] {
+  const item = items.find((candidate) => candidate.id === id);
+  if (!item) return items;
+  const positions = items.flatMap((candidate, index) => (candidate.sessionId === item.sessionId ? [index] : []));
+  const peers = positions.map((index) => items[index]);
+  const from = peers.indexOf(item);
+  const to = Math.max(0, Math.min(peers.length - 1, from + offset));
+  if (to === from) return items;
+  peers.splice(from, 1);
+  peers.splice(to, 0, item);
+  const next = [...items];
+  positions.forEach((index, peer) => {
+    next[index] = peers[peer];
+  });
+  return next;
+}
+
+/** Queued items to start now, in order, without exceeding `concurrency`. */
+export function getNextPromptQueueItems(items: PromptQueueItem[], concurrency: number): PromptQueueItem[] {
+  const running = items.filter((item) => item.status === 'running').length;
+  return items.filter((item) => item.status === 'queued').slice(0, Math.max(0, concurrency - running));
+}
+
+export function updatePromptQueueItem(
+  items: PromptQueueItem[],
+  id: string,
+  update: Partial<Omit<PromptQueueItem, 'id'>>
+): PromptQueueItem[] {
+  return items.map((item) => (item.id === id ? { ...item, ...update } : item));
+}
+
+/** Puts a finished item back at the end of the queue. */
+export function requeuePromptQueueItem(items: PromptQueueItem[], id: string): PromptQueueItem[] {
+  const item = items.find((candidate) => candidate.id === id);
+  if (!item || item.status === 'queued' || item.status === 'running') return items;
+  const { succeeded: _succeeded, total: _total, error: _error, ...rest } = item;
+  return [...items.filter((candidate) => candidate.id !== id), { ...rest, status: 'queued' }];
+}
+
+/**
+ * An item is done when at least one image succeeded; failed tiles can still
+ * be retried individually in the message. Otherwise it failed, or was
+ * cancelled when any of its slots was.
+ */
+export function summarizePromptQueueRun(results: GenerationSlotResult[]): PromptQueueOutcome {
+  const succeeded = results.filter((result) => result.status === 'success').length;
+  const total = results.length;
+  if (succeeded > 0) return { status: 'done', succeeded, total };
+  if (results.some((result) => result.status === 'cancelled')) return { status: 'cancelled', succeeded, total };
+  const failure = results.find((result) => result.status === 'failed');
+  return {
+    status: 'failed',
+    succeeded,
+    total,
+    ...(failure?.status === 'failed' ? { error: failure.error.message } : {})
+  };
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationSlotResult } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import {
+  applyGenerationSlotResult,
+  createPendingGenerationSlots,
+  toSlotDescriptors
+} from './generationSlots.ts';
+import { expandBatchPrompts, expandPromptTemplate, hasPromptTemplate } from './promptTemplate.ts';
+
+test('variants, wildcards and matrices expand in template order', () => {
+  const wildcards = { animal: ['cat', 'a {small|big} dog'] };
+
+  assert.deepEqual(expandPromptTemplate('a {red|blue} car'), ['a red car', 'a blue car']);
+  assert.deepEqual(expandPromptTemplate('__animal__ on a sofa', { wildcards }), [
+    'cat on a sofa',
+    'a small dog on a sofa',
+    'a big dog on a sofa'
+  ]);
+  assert.deepEqual(expandPromptTemplate('portrait, [oil,ink]×[dawn,noon]'), [
+    'portrait, oil dawn',
+    'portrait, oil noon',
+    'portrait, ink dawn',
+    'portrait, ink noon'
+  ]);
+});
+
+test('plain text, lone brackets and escapes stay literal', () => {
+  assert.equal(hasPromptTemplate('a [masterpiece] with {braces}'), false);
+  assert.deepEqual(expandPromptTemplate('a [masterpiece] with {braces}'), ['a [masterpiece] with {braces}']);
+  assert.deepEqual(expandPromptTemplate('\\{a\\|b\\} and \\_\\_x\\_\\_'), ['{a|b} and __x__']);
+});
+
+test('missing wildcards and oversized expansions are validation errors', () => {
+  assert.throws(() => expandPromptTemplate('__nope__'), ValidationError);
+  assert.throws(
+    () => expandPromptTemplate('__loop__', { wildcards: { loop: ['again __loop__'] } }),
+    ValidationError
+  );
+  assert.throws(() => expandPromptTemplate('{a|b|c}', { maxPrompts: 2 }), ValidationError);
+  assert.throws(() => expandBatchPrompts('{a|b}', 3, { maxPrompts: 5 }), ValidationError);
+});
+
+test('each variant gets its own consecutive slots through generation', async () => {
+  const prompts = expandBatchPrompts('a {red|blue} car', 2);
+  assert.deepEqual(prompts, ['a red car', 'a red car', 'a blue car', 'a blue car']);
+
+  let slots = createPendingGenerationSlots(prompts);
+  const results: GenerationSlotResult[] = [];
+  await runImageGeneration({
+    prompt: 'a {red|blue} car',
+    settings: { batchSize: 2, aspectRatio: '1:1', resolution: '1K' },
+    providerConfig: {
+      provider: 'mock',
+      apiKey: '',
+      options: { latencyMs: 0, latencyJitterMs: 0 }
+    },
+    slots: toSlotDescriptors(slots),
+    signal: new AbortController().signal,
+    callbacks: {
+      onSlotResult: (result) => {
+        results.push(result);
+        slots = applyGenerationSlotResult(slots, result);
+      },
+      onText: () => {}
+    }
+  });
+
+  assert.equal(results.length, 4);
+  assert.deepEqual(
+    slots.map((slot) => [slot.index, slot.status, slot.prompt]),
+    [
+      [0, 'success', 'a red car'],
+      [1, 'success', 'a red car'],
+      [2, 'success', 'a blue car'],
+      [3, 'success', 'a blue car']
+    ]
+  );
+});
@@ -0,0 +1,256 @@
+import { ValidationError } from '../types/errors.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+
+/**
+ * Dynamic prompt templates. A template expands into every combination of:
+ * - `{red|blue|green}`  variants (nestable; a `{...}` without `|` stays literal)
+ * - `__name__`          one entry per line of the wildcard list `name`
+ * - `[a,b]×[c,d]`       matrix axes, combined with a space (`x` also works)
+ * Prefix `{ } [ ] | _ \` with a backslash to keep it literal.
+ */
+
+export type WildcardLists = Record<string, readonly string[]>;
+
+export interface PromptExpansionOptions {
+  wildcards?: WildcardLists;
+  maxPrompts?: number;
+}
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'choice'; options: TemplateNode[][] }
+  | { kind: 'wildcard'; name: string }
+  | { kind: 'matrix'; axes: string[][] };
+
+const ESCAPABLE = new Set(['{', '}', '[', ']', '|', '_', '\\']);
+const WILDCARD_PATTERN = /^__([A-Za-z0-9][\w\-/.]*?)__/;
+const MATRIX_JOINER = /^\s*[×xX]\s*\[/;
+// Wildcard entries may reference other wildcards; stop runaway self-references.
+const MAX_WILDCARD_DEPTH = 8;
+
+function findClosing(source: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitTopLevel(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\' && i + 1 < source.length) {
+      current += char + source[i + 1];
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, (match, char: string) => (ESCAPABLE.has(char) ? char : match));
+}
+
+function readMatrix(source: string, start: number): { axes: string[][]; end: number } | null {
+  const axes: string[][] = [];
+  let cursor = start;
+  while (source[cursor] === '[') {
+    const end = findClosing(source, cursor, '[', ']');
+    if (end === -1) break;
+    axes.push(
+      splitTopLevel(source.slice(cursor + 1, end), ',')
+        .map((item) => unescape(item.trim()))
+        .filter(Boolean)
+    );
+    cursor = end + 1;
+
+    const joiner = MATRIX_JOINER.exec(source.slice(cursor));
+    if (!joiner) break;
+    cursor += joiner[0].length - 1;
+  }
+
+  // A lone `[...]` is ordinary prompt text (e.g. emphasis syntax).
+  if (axes.length < 2 || axes.some((axis) => axis.length === 0)) return null;
+  return { axes, end: cursor };
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const nodes: TemplateNode[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text) nodes.push({ kind: 'text', value: text });
+    text = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\' && ESCAPABLE.has(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = findClosing(source, i, '{', '}');
+      const options = end === -1 ? [] : splitTopLevel(source.slice(i + 1, end), '|');
+      if (options.length > 1) {
+        flushText();
+        nodes.push({ kind: 'choice', options: options.map(parseTemplate) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '_') {
+      const match = WILDCARD_PATTERN.exec(source.slice(i));
+      if (match) {
+        flushText();
+        nodes.push({ kind: 'wildcard', name: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const matrix = readMatrix(source, i);
+      if (matrix) {
+        flushText();
+        nodes.push({ kind: 'matrix', axes: matrix.axes });
+        i = matrix.end;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flushText();
+  return nodes;
+}
+
+function combine(prefixes: string[], suffixes: string[], limit: number, separator = ''): string[] {
+  if (prefixes.length * suffixes.length > limit) {
+    throw new ValidationError(
+      `提示词模板展开后超过 ${limit} 条，请减少变体数量`,
+      'prompt'
+    );
+  }
+  return prefixes.flatMap((prefix) =>
+    suffixes.map((suffix) => (prefix && separator ? `${prefix}${separator}${suffix}` : prefix + suffix))
+  );
+}
+
+function expandNodes(
+  nodes: TemplateNode[],
+  wildcards: WildcardLists,
+  limit: number,
+  depth: number
+): string[] {
+  let results = [''];
+  for (const node of nodes) {
+    results = combine(results, expandNode(node, wildcards, limit, depth), limit);
+  }
+  return results;
+}
+
+function expandNode(
+  node: TemplateNode,
+  wildcards: WildcardLists,
+  limit: number,
+  depth: number
+): string[] {
+  switch (node.kind) {
+    case 'text':
+      return [node.value];
+    case 'choice':
+      return node.options.flatMap((option) => expandNodes(option, wildcards, limit, depth));
+    case 'wildcard': {
+      const entries = wildcards[node.name];
+      if (!entries || entries.length === 0) {
+        throw new ValidationError(`未找到通配符 __${node.name}__ 或其内容为空`, 'prompt');
+      }
+      if (depth >= MAX_WILDCARD_DEPTH) {
+        throw new ValidationError(`通配符 __${node.name}__ 嵌套过深`, 'prompt');
+      }
+      return entries.flatMap((entry) =>
+        expandNodes(parseTemplate(entry), wildcards, limit, depth + 1)
+      );
+    }
+    case 'matrix':
+      return node.axes.reduce<string[]>(
+        (rows, axis) => combine(rows, axis, limit, ' '),
+        ['']
+      );
+  }
+}
+
+function normalizePrompt(prompt: string): string {
+  return prompt.replace(/[ \t]{2,}/g, ' ').replace(/ +([,.;:!?，。])/g, '$1').trim();
+}
+
+export function hasPromptTemplate(template: string): boolean {
+  return parseTemplate(template).some((node) => node.kind !== 'text');
+}
+
+/** Expands a template into its distinct prompts, in template order. */
+export function expandPromptTemplate(
+  template: string,
+  options: PromptExpansionOptions = {}
+): string[] {
+  const limit = options.maxPrompts ?? VALIDATION_LIMITS.MAX_DYNAMIC_PROMPT_SLOTS;
+  const nodes = parseTemplate(template);
+  const prompts = expandNodes(nodes, options.wildcards ?? {}, limit, 0);
+  // Plain prompts pass through untouched apart from escapes.
+  return nodes.every((node) => node.kind === 'text') ? prompts : prompts.map(normalizePrompt);
+}
+
+/**
+ * Per-slot prompts for one batch: every expanded prompt gets `imagesPerPrompt`
+ * consecutive slots. A plain prompt yields `imagesPerPrompt` copies of itself.
+ */
+export function expandBatchPrompts(
+  template: string,
+  imagesPerPrompt: number,
+  options: PromptExpansionOptions = {}
+): string[] {
+  const limit = options.maxPrompts ?? VALIDATION_LIMITS.MAX_DYNAMIC_PROMPT_SLOTS;
+  const prompts = expandPromptTemplate(template, options);
+  if (prompts.length * imagesPerPrompt > limit) {
+    throw new ValidationError(
+      `提示词模板展开为 ${prompts.length} 条，每条 ${imagesPerPrompt} 张，超过单批 ${limit} 张上限`,
+      'prompt'
+    );
+  }
+  return prompts.flatMap((prompt) => Array.from({ length: imagesPerPrompt }, () => prompt));
+}
+
+/** Parses a wildcard file: one entry per line, blank lines and `#` comments ignored. */
+export function parseWildcardEntries(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationSlotResult, ProviderConfig } from '../types.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { readFallbackProvidersFromEnv } from './providerFallback.ts';
+import { mockConfig } from './testHelpers.ts';
+
+async function run(primaryFailure: string, fallbackProviders: ProviderConfig[]): Promise<GenerationSlotResult[]> {
+  const results: GenerationSlotResult[] = [];
+  await runImageGeneration({
+    prompt: 'a lighthouse at dusk',
+    settings: { batchSize: 2, aspectRatio: '1:1', resolution: '1K', fallbackProviders },
+    providerConfig: mockConfig('primary', { failingSlots: [1], failureKinds: [primaryFailure] }),
+    slots: toSlotDescriptors(createPendingGenerationSlots(2)),
+    signal: new AbortController().signal,
+    callbacks: {
+      onSlotResult: (result) => results.push(result),
+      onText: () => {}
+    }
+  });
+  return results.sort((left, right) => left.index - right.index);
+}
+
+test('retryable failures move on through the fallback chain and record the producing provider', async () => {
+  const [first, second] = await run('500', [
+    mockConfig('proxy-a', { failingSlots: [1], failureKinds: ['timeout'] }),
+    mockConfig('proxy-b')
+  ]);
+
+  assert.ok(first.status === 'success');
+  assert.deepEqual(first.source, { provider: 'mock', model: 'primary' });
+  assert.ok(second.status === 'success');
+  assert.deepEqual(second.source, { provider: 'mock', model: 'proxy-b', fallbackIndex: 2 });
+  // Two attempts on each of the failing providers, then one that succeeded.
+  assert.equal(second.attempts, 5);
+});
+
+test('non-retryable failures and an exhausted chain end the slot as failed', async () => {
+  const moderated = await run('moderation', [mockConfig('proxy')]);
+  assert.ok(moderated[1].status === 'failed');
+  assert.equal(moderated[1].error.kind, 'moderation');
+
+  const exhausted = await run('500', [mockConfig('proxy', { failingSlots: [1], failureKinds: ['500'] })]);
+  assert.ok(exhausted[1].status === 'failed');
+  assert.equal(exhausted[1].attempts, 4);
+  assert.equal(exhausted[1].error.statusCode, 500);
+});
+
+test('a failure held back for a fallback is still reported when the run is aborted', async () => {
+  const controller = new AbortController();
+  const results: GenerationSlotResult[] = [];
+  await runImageGeneration({
+    prompt: 'a lighthouse at dusk',
+    settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K', fallbackProviders: [mockConfig('proxy')] },
+    providerConfig: mockConfig('primary', { failingSlots: [0], failureKinds: ['500'] }),
+    slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+    signal: controller.signal,
+    callbacks: {
+      onSlotResult: (result) => results.push(result),
+      onText: () => {},
+      // Stop right after the primary gives up, before the fallback starts.
+      onUsage: () => controller.abort()
+    }
+  });
+
+  assert.equal(results.length, 1);
+  assert.ok(results[0].status === 'failed');
+  assert.equal(results[0].error.statusCode, 500);
+  assert.equal(results[0].attempts, 2);
+});
+
+test('fallback providers are read from BANANA_FALLBACK_PROVIDERS', () => {
+  assert.deepEqual(readFallbackProvidersFromEnv({}), []);
+  assert.deepEqual(
+    readFallbackProvidersFromEnv({
+      BANANA_FALLBACK_PROVIDERS: '[{"provider":"openai","apiKey":"sk-proxy","baseUrl":"https://proxy.example/v1","model":" "}]'
+    }),
+    [{ provider: 'openai', apiKey: 'sk-proxy', baseUrl: 'https://proxy.example/v1' }]
+  );
+  assert.throws(() => readFallbackProvidersFromEnv({ BANANA_FALLBACK_PROVIDERS: '{"provider":' }), /JSON/);
+  assert.throws(() => readFallbackProvidersFromEnv({ BANANA_FALLBACK_PROVIDERS: '[{"provider":""}]' }));
+});
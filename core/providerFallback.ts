@@ -0,0 +1,39 @@
+import type { GenerationErrorInfo, ProviderConfig } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { parseProviderConfigList } from './config.ts';
+
+/**
+ * Fallback chain: secondary provider configs tried in order when a slot
+ * ends `failed` on the previous provider with a retryable error (network,
+ * 429, 5xx) after that provider's own retry policy ran out. The engine walks
+ * the chain per slot; see `runImageGeneration`.
+ */
+
+export const MAX_FALLBACK_PROVIDERS = 5;
+
+export function parseFallbackProviders(value: unknown): ProviderConfig[] {
+  return parseProviderConfigList(value, MAX_FALLBACK_PROVIDERS, '备用 Provider');
+}
+
+/** Whether a slot that failed with `error` should move on to the next provider. */
+export function shouldFallback(error: GenerationErrorInfo): boolean {
+  return error.retryable;
+}
+
+type EnvSource = Record<string, string | undefined>;
+
+/**
+ * `BANANA_FALLBACK_PROVIDERS` holds a JSON array of provider configs, e.g.
+ * `[{"provider":"openai","baseUrl":"https://proxy.example/v1","apiKey":"..."}]`.
+ */
+export function readFallbackProvidersFromEnv(env: EnvSource): ProviderConfig[] {
+  const raw = env.BANANA_FALLBACK_PROVIDERS?.trim();
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ValidationError('BANANA_FALLBACK_PROVIDERS 必须是 JSON 数组', '备用 Provider');
+  }
+  return parseFallbackProviders(parsed);
+}
@@ -0,0 +1,260 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import type { GenerationSlotResult, PartialImage, UploadedImage } from '../types.ts';
+import {
+  PLACEHOLDER_PNG_BASE64,
+  REDACTED,
+  createFetchRecorder,
+  createReplayFetch,
+  installFetch,
+  parseHttpFixture,
+  type ReplayFetch
+} from '../utils/httpRecorder.ts';
+import { runImageGeneration, type GenerationRequest } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { silenceServiceLogs } from './testHelpers.ts';
+
+const API_KEY = 'sk-test-fixture-0123456789';
+const PLACEHOLDER_URI = `data:image/png;base64,${PLACEHOLDER_PNG_BASE64}`;
+
+silenceServiceLogs(['log', 'error']);
+
+async function loadReplay(name: string): Promise<ReplayFetch> {
+  const raw = await readFile(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8');
+  return createReplayFetch(parseHttpFixture(JSON.parse(raw)));
+}
+
+async function generateWith(
+  replay: ReplayFetch,
+  overrides: Partial<GenerationRequest> = {}
+): Promise<{ result: GenerationSlotResult; texts: string[]; partials: PartialImage[] }> {
+  const results: GenerationSlotResult[] = [];
+  const texts: string[] = [];
+  const partials: PartialImage[] = [];
+  const restore = installFetch(replay.fetch);
+  try {
+    await runImageGeneration({
+      prompt: 'a lighthouse at dusk',
+      settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K' },
+      slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+      signal: new AbortController().signal,
+      callbacks: {
+        onSlotResult: (result) => results.push(result),
+        onText: (text) => texts.push(text),
+        onSlotPartialImage: (_slotId, image) => partials.push(image)
+      },
+      ...overrides
+    });
+  } finally {
+    restore();
+  }
+  assert.equal(results.length, 1);
+  return { result: results[0], texts, partials };
+}
+
+test('chat completions route parses every recorded content shape', async () => {
+  const replay = await loadReplay('openai-chat-content-shapes');
+  const providerConfig = {
+    provider: 'openai',
+    apiKey: API_KEY,
+    baseUrl: 'https://proxy.example.com/v1',
+    model: 'gemini-3-pro-image-preview'
+  };
+  const run = () => generateWith(replay, { providerConfig });
+
+  const markdown = await run();
+  assert.ok(markdown.result.status === 'success');
+  assert.equal(markdown.result.image.data, PLACEHOLDER_URI);
+
+  const parts = await run();
+  assert.ok(parts.result.status === 'success');
+  assert.equal(parts.result.image.mimeType, 'image/jpeg');
+  assert.deepEqual(parts.texts, ['A lighthouse at dusk.']);
+
+  const stringPart = await run();
+  assert.ok(stringPart.result.status === 'success');
+  assert.equal(stringPart.result.image.mimeType, 'image/webp');
+
+  const url = await run();
+  assert.ok(url.result.status === 'success');
+  assert.equal(url.result.image.data, 'https://cdn.example.com/generated/lighthouse.png');
+  assert.equal(url.result.image.mimeType, 'image/png');
+
+  const textOnly = await run();
+  assert.ok(textOnly.result.status === 'failed');
+  assert.match(textOnly.result.error.message, /No image data/);
+  assert.match(textOnly.texts[0], /lighthouse glowing/);
+
+  assert.equal(replay.requests[0].url, 'https://proxy.example.com/v1/chat/completions');
+  assert.equal(replay.requests[0].headers.authorization, REDACTED);
+});
+
+test('chat completions content_filter is reported as moderation', async () => {
+  const { result } = await generateWith(await loadReplay('openai-chat-content-filter'), {
+    providerConfig: {
+      provider: 'openai',
+      apiKey: API_KEY,
+      baseUrl: 'https://proxy.example.com/v1',
+      model: 'gemini-3-pro-image-preview'
+    }
+  });
+
+  assert.ok(result.status === 'failed');
+  assert.equal(result.error.kind, 'moderation');
+  assert.equal(result.error.retryable, false);
+});
+
+test('images API replays generations, API errors and the edits FormData path', async () => {
+  const replay = await loadReplay('openai-images');
+  const providerConfig = {
+    provider: 'openai',
+    apiKey: API_KEY,
+    baseUrl: 'https://api.example.com/v1',
+    model: 'gpt-image-2'
+  };
+
+  const generated = await generateWith(replay, { providerConfig });
+  assert.ok(generated.result.status === 'success');
+  assert.equal(generated.result.image.data, PLACEHOLDER_URI);
+
+  const blocked = await generateWith(replay, { providerConfig });
+  assert.ok(blocked.result.status === 'failed');
+  assert.equal(blocked.result.error.kind, 'moderation');
+  assert.equal(blocked.result.error.statusCode, 400);
+  assert.equal(blocked.result.error.requestId, 'req_moderated');
+  assert.equal(blocked.result.attempts, 1);
+
+  const reference: UploadedImage = { id: 'ref-1', data: PLACEHOLDER_URI, mimeType: 'image/png' };
+  const edited = await generateWith(replay, {
+    prompt: 'make it night',
+    providerConfig,
+    uploadedImages: [reference]
+  });
+  assert.ok(edited.result.status === 'success');
+
+  const editRequest = replay.requests.at(-1);
+  assert.equal(editRequest?.url, 'https://api.example.com/v1/images/edits');
+  assert.deepEqual(
+    editRequest?.formData?.filter((entry) => entry.value !== undefined).map((entry) => entry.name),
+    ['model', 'prompt', 'n', 'size', 'response_format']
+  );
+  assert.deepEqual(editRequest?.formData?.at(-1), {
+    name: 'image',
+    file: { name: 'image0.png', type: 'image/png', size: 85 }
+  });
+});
+
+test('images API streams partial frames before the final image when enabled', async () => {
+  const replay = await loadReplay('openai-images-stream');
+  const providerConfig = {
+    provider: 'openai',
+    apiKey: API_KEY,
+    baseUrl: 'https://api.example.com/v1',
+    model: 'gpt-image-2',
+    options: { partialImages: 2 }
+  };
+
+  const generated = await generateWith(replay, { providerConfig });
+  assert.ok(generated.result.status === 'success');
+  assert.equal(generated.result.image.mimeType, 'image/webp');
+  assert.deepEqual(
+    generated.partials.map(({ index, data }) => ({ index, data })),
+    [{ index: 0, data: PLACEHOLDER_URI }, { index: 1, data: PLACEHOLDER_URI }]
+  );
+  assert.deepEqual(replay.requests[0].body, {
+    model: 'gpt-image-2',
+    prompt: 'a lighthouse at dusk',
+    n: 1,
+    size: '1024x1024',
+    stream: true,
+    partial_images: 2
+  });
+
+  const reference: UploadedImage = { id: 'ref-1', data: PLACEHOLDER_URI, mimeType: 'image/png' };
+  const edited = await generateWith(replay, { prompt: 'make it night', providerConfig, uploadedImages: [reference] });
+  assert.ok(edited.result.status === 'success');
+  assert.equal(edited.result.image.data, PLACEHOLDER_URI);
+  assert.equal(edited.partials.length, 2);
+  assert.deepEqual(
+    replay.requests[1].formData?.filter((entry) => entry.value !== undefined).map((entry) => entry.name),
+    ['model', 'prompt', 'n', 'size', 'stream', 'partial_images']
+  );
+});
+
+test('gemini proxy route parses snake_case inline data, safety blocks and Retry-After', async () => {
+  const replay = await loadReplay('gemini-proxy');
+  const providerConfig = {
+    provider: 'gemini',
+    apiKey: API_KEY,
+    baseUrl: 'https://gemini-proxy.example.com',
+    model: 'gemini-3-pro-image-preview'
+  };
+
+  const generated = await generateWith(replay, { providerConfig, settings: { batchSize: 1, aspectRatio: 'Auto', resolution: '1K' } });
+  assert.ok(generated.result.status === 'success');
+  assert.equal(generated.result.image.data, PLACEHOLDER_URI);
+  assert.deepEqual(generated.texts, ['Here is a lighthouse at dusk.']);
+
+  const blocked = await generateWith(replay, { providerConfig });
+  assert.ok(blocked.result.status === 'failed');
+  assert.equal(blocked.result.error.kind, 'moderation');
+
+  const limited = await generateWith(replay, {
+    providerConfig: { ...providerConfig, retryPolicy: { maxAttempts: 1 } }
+  });
+  assert.ok(limited.result.status === 'failed');
+  assert.equal(limited.result.error.statusCode, 429);
+  assert.equal(limited.result.error.retryAfterMs, 2000);
+  assert.equal(limited.result.error.retryable, true);
+
+  assert.equal(
+    replay.requests[0].url,
+    `https://gemini-proxy.example.com/v1beta/models/gemini-3-pro-image-preview:generateContent?key=${REDACTED}`
+  );
+});
+
+test('recorder redacts credentials and truncates image payloads', async () => {
+  const image = `data:image/png;base64,${'A'.repeat(4096)}`;
+  const upstream: typeof fetch = async () =>
+    new Response(JSON.stringify({ data: [{ b64_json: 'B'.repeat(4096) }], echo: `key ${API_KEY}` }), {
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-request-id': 'req_1', 'set-cookie': 'session=1' }
+    });
+  const recorder = createFetchRecorder({ fetch: upstream, secrets: [API_KEY] });
+
+  const form = new FormData();
+  form.append('prompt', 'edit');
+  form.append('image', new Blob([new Uint8Array(10)], { type: 'image/png' }), 'image0.png');
+  await recorder.fetch(`https://example.com/v1beta/models/m:generateContent?key=${API_KEY}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: [{ content: [{ image_url: { url: image } }] }] })
+  });
+  await recorder.fetch('https://example.com/v1/images/edits', { method: 'POST', body: form });
+
+  const fixture = await recorder.toFixture('redaction');
+  const serialized = JSON.stringify(fixture);
+  assert.ok(!serialized.includes(API_KEY));
+  assert.ok(!serialized.includes('AAAAAAAA'));
+  assert.ok(!serialized.includes('BBBBBBBB'));
+  assert.ok(!serialized.includes('session=1'));
+
+  const [jsonCall, formCall] = fixture.interactions;
+  assert.equal(jsonCall.request.url, `https://example.com/v1beta/models/m:generateContent?key=${REDACTED}`);
+  assert.equal(jsonCall.request.headers.authorization, REDACTED);
+  assert.deepEqual(jsonCall.response.body, {
+    data: [{ b64_json: PLACEHOLDER_PNG_BASE64 }],
+    echo: `key ${REDACTED}`
+  });
+  assert.deepEqual(formCall.request.formData, [
+    { name: 'prompt', value: 'edit' },
+    { name: 'image', file: { name: 'image0.png', type: 'image/png', size: 10 } }
+  ]);
+
+  // A recorded fixture round-trips through the replayer.
+  const replay = createReplayFetch(parseHttpFixture(JSON.parse(serialized)));
+  const response = await replay.fetch('http://localhost/v1/images/edits', { method: 'POST' });
+  assert.equal(response.headers.get('x-request-id'), 'req_1');
+  await assert.rejects(replay.fetch('http://localhost/v1/unknown', { method: 'POST' }), /no recorded response/);
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { z } from 'zod';
+import {
+  baseProviderConfigSchema,
+  getImageProvider,
+  listImageProviders,
+  parseProviderConfig,
+  registerImageProvider,
+  requireImageProvider,
+  unregisterImageProvider,
+  type ImageProvider
+} from './providerRegistry.ts';
+import { ValidationError } from '../types/errors.ts';
+
+function createProvider(overrides: Partial<ImageProvider> = {}): ImageProvider {
+  return {
+    id: 'in-house',
+    label: 'In-house',
+    configSchema: baseProviderConfigSchema,
+    capabilities: {
+      requiresApiKey: false,
+      supportsReferenceImages: false,
+      supportsTextOutput: false,
+      aspectRatios: 'all',
+      resolutions: ['1K']
+    },
+    generate: async () => {},
+    ...overrides
+  };
+}
+
+test('adapters are registered and resolved by id', () => {
+  const provider = createProvider();
+  registerImageProvider(provider);
+
+  try {
+    assert.equal(getImageProvider('in-house'), provider);
+    assert.equal(requireImageProvider('in-house'), provider);
+    assert.ok(listImageProviders().includes(provider));
+  } finally {
+    unregisterImageProvider('in-house');
+  }
+
+  assert.equal(getImageProvider('in-house'), undefined);
+  assert.throws(() => requireImageProvider('in-house'), ValidationError);
+});
+
+test('duplicate ids are rejected unless replacement is explicit', () => {
+  const original = createProvider();
+  const replacement = createProvider({ label: 'In-house v2' });
+  registerImageProvider(original);
+
+  try {
+    assert.throws(() => registerImageProvider(replacement), /已注册/);
+    registerImageProvider(replacement, { replace: true });
+    assert.equal(requireImageProvider('in-house').label, 'In-house v2');
+  } finally {
+    unregisterImageProvider('in-house');
+  }
+});
+
+test('provider config is validated by the adapter schema', () => {
+  const provider = createProvider({
+    configSchema: baseProviderConfigSchema.extend({
+      baseUrl: z.string().url('Base URL 格式无效')
+    })
+  });
+
+  assert.throws(
+    () => parseProviderConfig(provider, { provider: 'in-house', apiKey: '', baseUrl: 'not a url' }),
+    (error: unknown) => error instanceof ValidationError && /Base URL 格式无效/.test(error.message)
+  );
+
+  const parsed = parseProviderConfig(provider, {
+    provider: 'in-house',
+    apiKey: '',
+    baseUrl: 'http://127.0.0.1:8080'
+  });
+  assert.equal(parsed.baseUrl, 'http://127.0.0.1:8080');
+});
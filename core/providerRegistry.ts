@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type {
+  AppSettings,
+  AspectRatio,
+  GenerationRoute,
+  GenerationSlotDescriptor,
+  Message,
+  ProviderConfig,
+  Resolution,
+  UploadedImage
+} from '../types.ts';
+import type { ContextImage } from './contextImages.ts';
+import type { GenerationCallbacks } from './generationEngine.ts';
+import { ValidationError } from '../types/errors.ts';
+import { retryPolicySchema } from './retryPolicy.ts';
+
+export interface ImageProviderCapabilities {
+  requiresApiKey: boolean;
+  supportsReferenceImages: boolean;
+  supportsTextOutput: boolean;
+  aspectRatios: 'all' | readonly AspectRatio[];
+  resolutions: readonly Resolution[];
+}
+
+/**
+ * Fully resolved input handed to an adapter. `providerConfig` has already
+ * passed the adapter's own `configSchema`.
+ */
+export interface ImageProviderRequest {
+  prompt: string;
+  history: Message[];
+  uploadedImages?: UploadedImage[];
+  settings: AppSettings;
+  providerConfig: ProviderConfig;
+  slots: GenerationSlotDescriptor[];
+  signal: AbortSignal;
+  callbacks: GenerationCallbacks;
+}
+
+export type ImageProviderPreviewInput = Pick<
+  ImageProviderRequest,
+  'prompt' | 'history' | 'uploadedImages' | 'settings' | 'providerConfig'
+>;
+
+// What an adapter would send for a request, shown before it is sent.
+export interface ImageProviderRequestPreview {
+  route?: GenerationRoute;
+  prompt: string; // After any adapter rewriting, e.g. the image order preamble
+  images: ContextImage[]; // In the order they are attached
+  size?: string;
+  quality?: string;
+  sendsHistory: boolean; // Whether earlier turns go along as text history
+  error?: string; // The request would be rejected as is
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  defaultBaseUrl?: string;
+  defaultModel?: string;
+  configSchema: z.ZodType<ProviderConfig>;
+  capabilities: ImageProviderCapabilities;
+  generate: (request: ImageProviderRequest) => Promise<void>;
+  // Adapters without one get a generic preview: history images, then uploads
+  previewRequest?: (request: ImageProviderPreviewInput) => ImageProviderRequestPreview;
+}
+
+export const baseProviderConfigSchema = z.looseObject({
+  provider: z.string().min(1, 'Provider 不能为空'),
+  apiKey: z.string(),
+  baseUrl: z.string().optional(),
+  model: z.string().optional(),
+  retryPolicy: retryPolicySchema.partial().optional()
+});
+
+const providers = new Map<string, ImageProvider>();
+
+export function registerImageProvider(
+  provider: ImageProvider,
+  options: { replace?: boolean } = {}
+): void {
+  if (!provider.id.trim()) {
+    throw new ValidationError('Provider id 不能为空', 'Provider');
+  }
+  if (providers.has(provider.id) && !options.replace) {
+    throw new ValidationError(`Provider "${provider.id}" 已注册`, 'Provider');
+  }
+  providers.set(provider.id, provider);
+}
+
+export function unregisterImageProvider(id: string): boolean {
+  return providers.delete(id);
+}
+
+export function getImageProvider(id: string): ImageProvider | undefined {
+  return providers.get(id);
+}
+
+export function requireImageProvider(id: string): ImageProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    const known = [...providers.keys()].join(', ') || '无';
+    throw new ValidationError(`未注册的 Provider "${id}"（已注册: ${known}）`, 'Provider');
+  }
+  return provider;
+}
+
+export function listImageProviders(): ImageProvider[] {
+  return [...providers.values()];
+}
+
+export function parseProviderConfig(
+  provider: ImageProvider,
+  config: ProviderConfig
+): ProviderConfig {
+  const result = provider.configSchema.safeParse(config);
+  if (!result.success) {
+    throw new ValidationError(result.error.issues[0]?.message ?? '配置无效', provider.label);
+  }
+  return result.data;
+}
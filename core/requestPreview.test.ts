@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import type { Message, UploadedImage } from '../types.ts';
+import { createReplayFetch, installFetch, parseHttpFixture } from '../utils/httpRecorder.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { previewGenerationRequest } from './requestPreview.ts';
+import { silenceServiceLogs } from './testHelpers.ts';
+
+silenceServiceLogs();
+
+function turn(id: string, prompt: string, data: string): Message[] {
+  return [
+    { id: `${id}-user`, role: 'user', text: prompt, timestamp: 0 },
+    {
+      id: `${id}-model`,
+      role: 'model',
+      generationSlots: [{
+        slotId: `${id}-slot`,
+        index: 0,
+        status: 'success',
+        attempts: 1,
+        image: { id: `${id}-image`, data, mimeType: 'image/png', status: 'success' }
+      }],
+      selectedImageId: `${id}-image`,
+      timestamp: 0
+    }
+  ];
+}
+
+const history: Message[] = [
+  ...turn('castle', 'a castle on a hill', 'data:image/png;base64,AA=='),
+  ...turn('night', 'now make it night', 'data:image/png;base64,AQ==')
+];
+const uploads: UploadedImage[] = [{ id: 'upload-1', data: 'data:image/jpeg;base64,Ag==', mimeType: 'image/jpeg' }];
+
+test('gemini preview lists selected then uploaded images and adds the order preamble', () => {
+  const preview = previewGenerationRequest({
+    prompt: '把图一的城堡放进图三',
+    history,
+    uploadedImages: uploads,
+    settings: { aspectRatio: '16:9', resolution: '2K', context: { mode: 'full' } },
+    providerConfig: { provider: 'gemini', apiKey: 'key' }
+  });
+
+  assert.equal(preview.route, 'gemini');
+  assert.deepEqual(preview.images.map(({ id, source }) => [id, source]), [
+    ['castle-image', 'history'],
+    ['night-image', 'history'],
+    ['upload-1', 'upload']
+  ]);
+  assert.match(preview.prompt, /^图片顺序如下图一第1张上传的图片、图二第2张上传的图片、图三第3张上传的图片\?\n\n把图一/);
+  assert.equal(preview.turns.length, 2);
+
+  const excluded = previewGenerationRequest({
+    prompt: '把图一的城堡放进图二',
+    history,
+    uploadedImages: uploads,
+    settings: { excludedImageIds: ['castle-image'] },
+    providerConfig: { provider: 'gemini', apiKey: 'key' }
+  });
+  assert.deepEqual(excluded.images.map((image) => image.id), ['night-image', 'upload-1']);
+  assert.deepEqual(excluded.excludedImages.map((image) => image.id), ['castle-image']);
+  assert.deepEqual(excluded.turns, []);
+});
+
+test('openai preview follows the route the request would take', () => {
+  const preview = (model: string, uploadedImages?: UploadedImage[]) =>
+    previewGenerationRequest({
+      prompt: 'a lighthouse at dusk',
+      history,
+      uploadedImages,
+      settings: { aspectRatio: '3:2', resolution: '1K' },
+      providerConfig: { provider: 'openai', apiKey: 'sk-test', baseUrl: 'https://api.openai.com/v1', model }
+    });
+
+  const edits = preview('gpt-image-2', uploads);
+  assert.equal(edits.route, 'edits');
+  assert.deepEqual(edits.images.map((image) => image.id), ['upload-1', 'castle-image', 'night-image']);
+  assert.equal(edits.size, '1536x1024');
+  assert.equal(edits.sendsHistory, false);
+
+  const dalle = preview('dall-e-3');
+  assert.equal(dalle.route, 'images');
+  assert.deepEqual(dalle.images, []);
+  assert.equal(dalle.quality, 'standard');
+  assert.ok(dalle.error);
+
+  const chat = preview('gemini-3-pro-image-preview', uploads);
+  assert.equal(chat.route, 'chat');
+  assert.deepEqual(chat.images.map((image) => image.id), ['castle-image', 'night-image', 'upload-1']);
+  assert.equal(chat.prompt, 'a lighthouse at dusk');
+});
+
+test('excluded history images are left out of the sent request', async () => {
+  const raw = await readFile(new URL('./fixtures/openai-chat-content-shapes.json', import.meta.url), 'utf8');
+  const replay = createReplayFetch(parseHttpFixture(JSON.parse(raw)));
+  const restore = installFetch(replay.fetch);
+  try {
+    await runImageGeneration({
+      prompt: 'a lighthouse at dusk',
+      history,
+      settings: { batchSize: 1, aspectRatio: '1:1', resolution: '1K', excludedImageIds: ['night-image'] },
+      providerConfig: {
+        provider: 'openai',
+        apiKey: 'sk-test-fixture-0123456789',
+        baseUrl: 'https://proxy.example.com/v1',
+        model: 'gemini-3-pro-image-preview'
+      },
+      slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+      signal: new AbortController().signal,
+      callbacks: { onSlotResult: () => {}, onText: () => {} }
+    });
+  } finally {
+    restore();
+  }
+
+  const body = replay.requests[0].body as {
+    messages: Array<{ content: Array<{ type: string; image_url?: { url: string } }> }>;
+  };
+  assert.deepEqual(
+    body.messages.at(-1)?.content.filter((part) => part.type === 'image_url').map((part) => part.image_url?.url),
+    ['data:image/png;base64,AA==']
+  );
+});
@@ -0,0 +1,67 @@
+import type { AppSettings, AspectRatio, Message, ProviderConfig, Resolution, UploadedImage } from '../types.ts';
+import { resolveSettings } from './config.ts';
+import { collectHistoryImages, toUploadContextImages, withoutExcludedImages, type ContextImage } from './contextImages.ts';
+import { selectContextTurns, type ContextTurn } from './conversationContext.ts';
+import { registerBuiltinImageProviders } from './builtinProviders.ts';
+import { requireImageProvider, type ImageProviderRequestPreview } from './providerRegistry.ts';
+
+registerBuiltinImageProviders();
+
+export interface RequestPreviewInput {
+  prompt: string;
+  history?: Message[];
+  uploadedImages?: UploadedImage[];
+  settings?: Partial<AppSettings>;
+  providerConfig?: Partial<ProviderConfig>;
+}
+
+// The primary provider's request as it would be sent now; fallbacks are not shown.
+export interface GenerationRequestPreview extends ImageProviderRequestPreview {
+  provider: string;
+  providerLabel: string;
+  model?: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  batchSize: number;
+  turns: ContextTurn[]; // Earlier turns sent as text history
+  excludedImages: ContextImage[]; // Selected history images left out by the user
+}
+
+/**
+ * Builds what `runImageGeneration` would send for the same input, using the
+ * adapter's `previewRequest` when it has one.
+ */
+export function previewGenerationRequest(input: RequestPreviewInput): GenerationRequestPreview {
+  const settings = resolveSettings(input.settings, input.providerConfig);
+  const provider = requireImageProvider(settings.providerConfig.provider);
+  const parsed = provider.configSchema.safeParse(settings.providerConfig);
+  const providerConfig = parsed.success ? parsed.data : settings.providerConfig;
+
+  const excludedIds = new Set(settings.excludedImageIds ?? []);
+  const fullHistory = input.history ?? [];
+  const history = withoutExcludedImages(fullHistory, settings.excludedImageIds);
+  const request = {
+    prompt: input.prompt,
+    history,
+    uploadedImages: input.uploadedImages,
+    settings: { ...settings, batchSize: 1, providerConfig },
+    providerConfig
+  };
+  const preview = provider.previewRequest?.(request) ?? {
+    prompt: input.prompt,
+    images: [...collectHistoryImages(history), ...toUploadContextImages(input.uploadedImages)],
+    sendsHistory: false
+  };
+
+  return {
+    ...preview,
+    provider: provider.id,
+    providerLabel: provider.label,
+    model: providerConfig.model || provider.defaultModel,
+    aspectRatio: settings.aspectRatio,
+    resolution: settings.resolution,
+    batchSize: settings.batchSize,
+    turns: preview.sendsHistory ? selectContextTurns(history, settings.context) : [],
+    excludedImages: collectHistoryImages(fullHistory).filter((image) => excludedIds.has(image.id))
+  };
+}
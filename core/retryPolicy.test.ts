@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationErrorInfo } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { DEFAULT_RETRY_POLICY, getRetryDelayMs, resolveRetryPolicy, shouldRetry } from './retryPolicy.ts';
+
+const error = (overrides: Partial<GenerationErrorInfo>): GenerationErrorInfo => ({
+  kind: 'http',
+  message: 'failed',
+  attempts: 1,
+  retryable: true,
+  ...overrides
+});
+
+test('retries follow the listed kinds, status codes and attempt budget', () => {
+  const policy = resolveRetryPolicy({ maxAttempts: 3 });
+
+  assert.equal(shouldRetry(policy, error({ statusCode: 429 }), 1), true);
+  assert.equal(shouldRetry(policy, error({ statusCode: 429 }), 3), false);
+  assert.equal(shouldRetry(policy, error({ kind: 'network' }), 2), true);
+  assert.equal(shouldRetry(policy, error({ statusCode: 451 }), 1), false);
+  assert.equal(shouldRetry(policy, error({ kind: 'moderation', statusCode: 400 }), 1), false);
+  assert.equal(shouldRetry(resolveRetryPolicy({ retryOnKinds: ['unknown'] }), error({ kind: 'unknown' }), 1), true);
+});
+
+test('every 5xx is retried by default; an explicit status list replaces that rule', () => {
+  const policy = resolveRetryPolicy();
+
+  for (const statusCode of [500, 503, 520, 522, 524]) {
+    assert.equal(shouldRetry(policy, error({ statusCode }), 1), true);
+  }
+  assert.equal(shouldRetry(policy, error({ statusCode: 404 }), 1), false);
+
+  const listed = resolveRetryPolicy({ retryOnStatusCodes: [429, 503] });
+  assert.equal(shouldRetry(listed, error({ statusCode: 503 }), 1), true);
+  assert.equal(shouldRetry(listed, error({ statusCode: 524 }), 1), false);
+});
+
+test('backoff doubles up to maxDelayMs, with jitter and server waits', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 500, maxDelayMs: 3000, jitter: 0.5 });
+
+  assert.equal(getRetryDelayMs(policy, error({}), 1, () => 0), 500);
+  assert.equal(getRetryDelayMs(policy, error({}), 3, () => 0), 2000);
+  assert.equal(getRetryDelayMs(policy, error({}), 5, () => 0), 3000);
+  assert.equal(getRetryDelayMs(policy, error({}), 5, () => 1), 1500);
+  assert.equal(getRetryDelayMs(policy, error({ retryAfterMs: 1200 }), 1, () => 1), 1200);
+  assert.equal(getRetryDelayMs(policy, error({ retryAfterMs: 90_000 }), 1), 3000);
+});
+
+test('partial policies merge over the defaults and are validated', () => {
+  assert.deepEqual(resolveRetryPolicy(), DEFAULT_RETRY_POLICY);
+  assert.equal(resolveRetryPolicy({ maxAttempts: 7 }).baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs);
+  assert.throws(() => resolveRetryPolicy({ maxAttempts: 11 }), ValidationError);
+  assert.throws(() => resolveRetryPolicy({ jitter: 2 }), ValidationError);
+  assert.throws(() => resolveRetryPolicy({ retryOnStatusCodes: [42] }), ValidationError);
+});
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { GenerationErrorInfo, GenerationErrorKind, RetryPolicy } from '../types.ts';
+import { ValidationError } from '../types/errors.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+
+/**
+ * Per-provider retry policy shared by every adapter route: how many attempts
+ * a slot gets, how long to wait between them and which failures qualify.
+ */
+
+export const GENERATION_ERROR_KINDS: readonly GenerationErrorKind[] = [
+  'network',
+  'http',
+  'moderation',
+  'invalid_request',
+  'unknown'
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  jitter: 0,
+  retryOnKinds: ['network']
+};
+
+export const retryPolicySchema = z.object({
+  maxAttempts: z
+    .number()
+    .int('重试次数必须是整数')
+    .min(1, '最少尝试 1 次')
+    .max(VALIDATION_LIMITS.MAX_RETRY_ATTEMPTS, `最多尝试 ${VALIDATION_LIMITS.MAX_RETRY_ATTEMPTS} 次`),
+  baseDelayMs: z.number().int().min(0).max(VALIDATION_LIMITS.MAX_RETRY_DELAY_MS),
+  maxDelayMs: z.number().int().min(0).max(VALIDATION_LIMITS.MAX_RETRY_DELAY_MS),
+  jitter: z.number().min(0, 'jitter 需在 0 到 1 之间').max(1, 'jitter 需在 0 到 1 之间'),
+  retryOnKinds: z.array(z.enum(GENERATION_ERROR_KINDS as [GenerationErrorKind, ...GenerationErrorKind[]])),
+  retryOnStatusCodes: z.array(z.number().int().min(100).max(599)).optional()
+});
+
+/** Merges a stored or partial policy over the defaults and validates it. */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const result = retryPolicySchema.safeParse({ ...DEFAULT_RETRY_POLICY, ...policy });
+  if (!result.success) {
+    throw new ValidationError(result.error.issues[0]?.message ?? '重试策略无效', '重试策略');
+  }
+  return result.data;
+}
+
+// Without an explicit list, rate limits and every 5xx (including CDN 520-524) are retried.
+function isRetryableStatusCode(policy: RetryPolicy, statusCode: number): boolean {
+  return policy.retryOnStatusCodes
+    ? policy.retryOnStatusCodes.includes(statusCode)
+    : statusCode === 429 || statusCode >= 500;
+}
+
+/** Whether a slot that has made `attempts` attempts should try again. */
+export function shouldRetry(policy: RetryPolicy, error: GenerationErrorInfo, attempts: number): boolean {
+  if (attempts >= policy.maxAttempts) return false;
+  return (
+    policy.retryOnKinds.includes(error.kind) ||
+    (error.statusCode !== undefined && isRetryableStatusCode(policy, error.statusCode))
+  );
+}
+
+/**
+ * Wait before the next attempt: the server's `retryAfterMs` when it sent one,
+ * otherwise exponential backoff with jitter. Both are capped by `maxDelayMs`.
+ */
+export function getRetryDelayMs(
+  policy: RetryPolicy,
+  error: GenerationErrorInfo,
+  attempts: number,
+  random: () => number = Math.random
+): number {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(2, attempts - 1), policy.maxDelayMs);
+  return Math.round(backoff * (1 - policy.jitter * random()));
+}
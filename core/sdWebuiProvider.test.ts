@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import type { GenerationUsage, Message } from '../types.ts';
+import { PLACEHOLDER_PNG_BASE64, createReplayFetch, installFetch, parseHttpFixture } from '../utils/httpRecorder.ts';
+import { mapAspectRatioToSdSize } from '../services/sdWebuiService.ts';
+import { applyProviderDefaults } from './config.ts';
+import { runImageGeneration, type GenerationRequest } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { previewGenerationRequest } from './requestPreview.ts';
+import { silenceServiceLogs } from './testHelpers.ts';
+
+silenceServiceLogs();
+
+const PLACEHOLDER_URI = `data:image/png;base64,${PLACEHOLDER_PNG_BASE64}`;
+
+async function runSdWebui(overrides: Partial<GenerationRequest> = {}, slotCount = 1) {
+  const raw = await readFile(new URL('./fixtures/sdwebui.json', import.meta.url), 'utf8');
+  const replay = createReplayFetch(parseHttpFixture(JSON.parse(raw)));
+  const usage: GenerationUsage[] = [];
+  const restore = installFetch(replay.fetch);
+  try {
+    await runImageGeneration({
+      prompt: 'a lighthouse at dusk',
+      settings: { batchSize: slotCount, aspectRatio: '16:9', resolution: '1K' },
+      // As headless callers do, so the OpenAI defaults are not inherited
+      providerConfig: applyProviderDefaults({ provider: 'sdwebui', apiKey: '' }),
+      slots: toSlotDescriptors(createPendingGenerationSlots(slotCount)),
+      signal: new AbortController().signal,
+      callbacks: { onSlotResult: () => {}, onText: () => {}, onUsage: (entry) => usage.push(entry) },
+      ...overrides
+    });
+  } finally {
+    restore();
+  }
+  return { requests: replay.requests, usage };
+}
+
+test('sd webui sizes keep the pixel budget in multiples of 64', () => {
+  assert.deepEqual(mapAspectRatioToSdSize('16:9', '1K'), { width: 1344, height: 768 });
+  assert.deepEqual(mapAspectRatioToSdSize('2:3', '1K'), { width: 832, height: 1280 });
+  assert.deepEqual(mapAspectRatioToSdSize('Auto', '2K'), { width: 1536, height: 1536 });
+});
+
+test('txt2img sends one request per slot with the configured sampler and offset seeds', async () => {
+  const { requests, usage } = await runSdWebui(
+    {
+      providerConfig: {
+        provider: 'sdwebui',
+        apiKey: '',
+        baseUrl: 'http://gpu-box.lan:7860/',
+        model: 'sd_xl_base_1.0.safetensors',
+        options: { sampler: 'DPM++ 2M Karras', steps: 30, cfgScale: 5.5, seed: 42, negativePrompt: 'blurry' }
+      }
+    },
+    2
+  );
+
+  assert.deepEqual(requests.map((request) => request.url), [
+    'http://gpu-box.lan:7860/sdapi/v1/txt2img',
+    'http://gpu-box.lan:7860/sdapi/v1/txt2img'
+  ]);
+  const bodies = requests.map((request) => request.body as Record<string, unknown>);
+  assert.deepEqual(bodies.map((body) => body.seed).sort(), [42, 43]);
+  assert.deepEqual(bodies[0], {
+    prompt: 'a lighthouse at dusk',
+    negative_prompt: 'blurry',
+    sampler_name: 'DPM++ 2M Karras',
+    steps: 30,
+    cfg_scale: 5.5,
+    seed: bodies[0].seed,
+    width: 1344,
+    height: 768,
+    batch_size: 1,
+    n_iter: 1,
+    override_settings: { sd_model_checkpoint: 'sd_xl_base_1.0.safetensors' }
+  });
+  assert.deepEqual(usage.map((entry) => [entry.route, entry.size, entry.outcome]), [
+    ['txt2img', '1344x768', 'success'],
+    ['txt2img', '1344x768', 'success']
+  ]);
+});
+
+test('the checkpoint is only left loaded when the provider opts in', async () => {
+  const { requests } = await runSdWebui({
+    providerConfig: {
+      provider: 'sdwebui',
+      apiKey: '',
+      model: 'sd_xl_base_1.0.safetensors',
+      options: { keepCheckpointLoaded: true }
+    }
+  });
+
+  const body = requests[0]?.body as Record<string, unknown>;
+  assert.deepEqual(body.override_settings, { sd_model_checkpoint: 'sd_xl_base_1.0.safetensors' });
+  assert.equal(body.override_settings_restore_afterwards, false);
+});
+
+test('img2img starts from the first upload, else the selected image', async () => {
+  const history: Message[] = [
+    {
+      id: 'model-1',
+      role: 'model',
+      timestamp: 0,
+      selectedImageId: 'selected',
+      images: [{ id: 'selected', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' }]
+    }
+  ];
+  const uploadedImages = [{ id: 'upload', data: PLACEHOLDER_URI, mimeType: 'image/png' }];
+  const { requests, usage } = await runSdWebui({ history, uploadedImages });
+
+  assert.equal(requests[0]?.url, 'http://127.0.0.1:7860/sdapi/v1/img2img');
+  const body = requests[0]?.body as Record<string, unknown>;
+  assert.deepEqual(body.init_images, [PLACEHOLDER_URI]);
+  assert.equal(body.denoising_strength, 0.75);
+  assert.equal(body.seed, -1);
+  assert.equal('override_settings' in body, false);
+  assert.equal(usage[0]?.outcome, 'success');
+
+  const preview = previewGenerationRequest({
+    prompt: 'a lighthouse at dusk',
+    history,
+    uploadedImages,
+    providerConfig: applyProviderDefaults({ provider: 'sdwebui', apiKey: '' })
+  });
+  assert.equal(preview.route, 'img2img');
+  assert.deepEqual(preview.images.map((image) => image.id), ['upload']);
+  assert.deepEqual(
+    previewGenerationRequest({ prompt: 'x', history, providerConfig: { provider: 'sdwebui', apiKey: '' } })
+      .images.map((image) => image.id),
+    ['selected']
+  );
+});
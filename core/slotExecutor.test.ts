@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GeneratedImage, GenerationErrorInfo, GenerationSlotResult } from '../types.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { resolveRetryPolicy } from './retryPolicy.ts';
+import { executeSlots, type SlotExecutorOptions } from './slotExecutor.ts';
+
+const IMAGE: GeneratedImage = { id: 'image', data: 'data:image/png;base64,AA==', mimeType: 'image/png', status: 'success' };
+
+function createOptions(signal: AbortSignal, overrides: Partial<SlotExecutorOptions> = {}) {
+  const results: GenerationSlotResult[] = [];
+  const failures: GenerationErrorInfo[] = [];
+  const options: SlotExecutorOptions = {
+    slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+    signal,
+    retryPolicy: resolveRetryPolicy({ baseDelayMs: 0 }),
+    callbacks: {
+      onSlotResult: (result) => results.push(result),
+      onAttemptFailed: (_slotId, error) => failures.push(error)
+    },
+    label: 'Test',
+    ...overrides
+  };
+  return { options, results, failures };
+}
+
+// Resolves with IMAGE after `ms`, or rejects when `signal` aborts.
+function request(ms: number, signal: AbortSignal): Promise<GeneratedImage> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(IMAGE), ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('aborted by client'));
+    });
+  });
+}
+
+test('timed out attempts abort the request and are retried as network errors', async () => {
+  const { options, results, failures } = createOptions(new AbortController().signal, { timeoutMs: 20 });
+  const signals: AbortSignal[] = [];
+
+  await executeSlots(options, ({ attempt, signal }) => {
+    signals.push(signal);
+    return request(attempt === 1 ? 1000 : 0, signal);
+  });
+
+  assert.equal(signals[0].aborted, true);
+  assert.equal(failures.length, 1);
+  assert.equal(failures[0].kind, 'network');
+  assert.match(failures[0].message, /timed out after 0\.02s/);
+  assert.deepEqual(results.map((result) => [result.status, result.attempts]), [['success', 2]]);
+});
+
+test('cancelling aborts in-flight attempts and reports no result', async () => {
+  const controller = new AbortController();
+  const { options, results, failures } = createOptions(controller.signal, {
+    slots: toSlotDescriptors(createPendingGenerationSlots(3)),
+    concurrency: 2
+  });
+  const signals: AbortSignal[] = [];
+
+  const run = executeSlots(options, ({ signal }) => {
+    signals.push(signal);
+    // Ignores the signal on purpose: the executor must still stop waiting.
+    return new Promise<GeneratedImage>(() => {});
+  });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  controller.abort();
+  await run;
+
+  assert.equal(signals.length, 2);
+  assert.ok(signals.every((signal) => signal.aborted));
+  assert.deepEqual(results, []);
+  assert.deepEqual(failures, []);
+});
+
+test('the retry policy decides between another attempt and a failed result', async () => {
+  const { options, results, failures } = createOptions(new AbortController().signal, {
+    retryPolicy: resolveRetryPolicy({ baseDelayMs: 0, maxAttempts: 3 })
+  });
+
+  await executeSlots(options, async ({ attempt }) => {
+    throw Object.assign(new Error(attempt < 2 ? 'busy' : 'bad request'), { status: attempt < 2 ? 503 : 400 });
+  });
+
+  assert.deepEqual(failures.map((error) => error.statusCode), [503, 400]);
+  assert.equal(results.length, 1);
+  assert.ok(results[0].status === 'failed');
+  assert.equal(results[0].attempts, 2);
+  assert.equal(results[0].error.statusCode, 400);
+});
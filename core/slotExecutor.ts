@@ -0,0 +1,160 @@
+import type {
+  GeneratedImage,
+  GenerationErrorInfo,
+  GenerationSlotDescriptor,
+  GenerationSlotResult,
+  RetryPolicy,
+  SlotCallInfo
+} from '../types.ts';
+import { NetworkError } from '../types/errors.ts';
+import { logError, serializeGenerationError } from '../utils/errorHandler.ts';
+import { getRetryDelayMs, shouldRetry } from './retryPolicy.ts';
+
+/**
+ * Shared slot loop for every adapter route. The adapter supplies a single
+ * attempt; the executor bounds concurrency, gives each attempt its own
+ * AbortSignal (fired by Stop or by the timeout), applies the retry policy
+ * and reports `onAttemptFailed` / `onSlotResult`. With `call` set, results
+ * carry the route, size and the request id the last attempt reported.
+ *
+ * Attempts must pass `signal` to their HTTP client so that cancelling ends
+ * the request instead of leaving it running (and billing) in the background.
+ */
+
+export const DEFAULT_SLOT_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+export const DEFAULT_SLOT_CONCURRENCY = 10;
+
+export interface SlotAttempt {
+  slot: GenerationSlotDescriptor;
+  attempt: number; // 1-based
+  signal: AbortSignal; // Aborted on cancel or timeout
+  setRequestId: (requestId: string | null | undefined) => void; // Provider request id of a successful response
+}
+
+export interface SlotExecutorCallbacks {
+  onSlotResult: (result: GenerationSlotResult) => void;
+  onAttemptFailed?: (slotId: string, error: GenerationErrorInfo) => void;
+}
+
+export interface SlotExecutorOptions {
+  slots: GenerationSlotDescriptor[];
+  signal: AbortSignal;
+  retryPolicy: RetryPolicy;
+  callbacks: SlotExecutorCallbacks;
+  label: string; // Log context, e.g. 'OpenAI Images API'
+  call?: Omit<SlotCallInfo, 'requestId'>;
+  timeoutMs?: number;
+  concurrency?: number;
+}
+
+export type SlotAttemptRunner = (attempt: SlotAttempt) => Promise<GeneratedImage>;
+
+// Resolves after `ms`, or as soon as `signal` aborts.
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted || ms <= 0) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Settles with the attempt, or rejects once `signal` aborts even if the
+// attempt ignores the signal.
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function executeSlot(
+  slot: GenerationSlotDescriptor,
+  options: SlotExecutorOptions,
+  runAttempt: SlotAttemptRunner
+): Promise<void> {
+  const { signal, retryPolicy, callbacks } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SLOT_TIMEOUT_MS;
+  const withCall = (requestId?: string) =>
+    options.call ? { call: { ...options.call, ...(requestId ? { requestId } : {}) } } : {};
+
+  for (let attempt = 1; !signal.aborted; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new NetworkError(`Request timed out after ${timeoutMs / 1000}s`)),
+      timeoutMs
+    );
+
+    let failure: unknown;
+    let requestId: string | undefined;
+    const setRequestId = (id: string | null | undefined) => {
+      requestId = id ?? undefined;
+    };
+    try {
+      const image = await raceAbort(
+        Promise.resolve().then(() => runAttempt({ slot, attempt, signal: controller.signal, setRequestId })),
+        controller.signal
+      );
+      if (signal.aborted) return;
+      callbacks.onSlotResult({ ...slot, status: 'success', attempts: attempt, image, ...withCall(requestId) });
+      return;
+    } catch (error) {
+      // Prefer the timeout error over whatever the client threw on abort.
+      failure = controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    if (signal.aborted) return;
+    logError(`${options.label} - Image ${slot.index + 1} Attempt ${attempt}`, failure);
+    const serialized = serializeGenerationError(failure, attempt);
+    callbacks.onAttemptFailed?.(slot.slotId, serialized);
+    if (!shouldRetry(retryPolicy, serialized, attempt)) {
+      callbacks.onSlotResult({
+        ...slot,
+        status: 'failed',
+        attempts: attempt,
+        error: serialized,
+        ...withCall(serialized.requestId)
+      });
+      return;
+    }
+    await wait(getRetryDelayMs(retryPolicy, serialized, attempt), signal);
+  }
+}
+
+/**
+ * Runs every slot to a result. Cancelled slots get no result; the caller
+ * marks them. Resolves once every slot has settled.
+ */
+export async function executeSlots(
+  options: SlotExecutorOptions,
+  runAttempt: SlotAttemptRunner
+): Promise<void> {
+  const queue = [...options.slots];
+  const worker = async (): Promise<void> => {
+    for (let slot = queue.shift(); slot && !options.signal.aborted; slot = queue.shift()) {
+      await executeSlot(slot, options, runAttempt);
+    }
+  };
+
+  const numWorkers = Math.min(options.concurrency ?? DEFAULT_SLOT_CONCURRENCY, queue.length);
+  await Promise.all(Array.from({ length: numWorkers }, worker));
+}
@@ -0,0 +1,24 @@
+import { afterEach, beforeEach, mock } from 'node:test';
+import type { ProviderConfig } from '../types.ts';
+
+/** Mock provider config for engine tests: no latency, fast retries, two attempts. */
+export function mockConfig(model: string, options: Record<string, unknown> = {}): ProviderConfig {
+  return {
+    provider: 'mock',
+    apiKey: '',
+    model,
+    options: { latencyMs: 0, latencyJitterMs: 0, ...options },
+    retryPolicy: { baseDelayMs: 0, maxAttempts: 2 }
+  };
+}
+
+/**
+ * Services log every request and response; mutes them for each test in the
+ * calling file and restores the console afterwards.
+ */
+export function silenceServiceLogs(methods: Array<'log' | 'error'> = ['log']): void {
+  beforeEach(() => {
+    for (const method of methods) mock.method(console, method, () => {});
+  });
+  afterEach(() => mock.restoreAll());
+}
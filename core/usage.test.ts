@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationUsage, UsageRecord } from '../types.ts';
+import { parseCsv } from './batchImport.ts';
+import { runImageGeneration } from './generationEngine.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from './generationSlots.ts';
+import { summarizeUsage, usageToCsv } from './usage.ts';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: 'id',
+    timestamp: new Date(2026, 2, 1, 9).getTime(),
+    sessionId: 'session',
+    messageId: 'message',
+    slotId: 'slot',
+    provider: 'openai',
+    model: 'gpt-image-2',
+    route: 'images',
+    attempts: 1,
+    latencyMs: 1000,
+    outcome: 'success',
+    ...overrides
+  };
+}
+
+test('every provider call is reported, including the one a fallback replaced', async () => {
+  const usage: GenerationUsage[] = [];
+  const mock = (model: string, options: Record<string, unknown> = {}) => ({
+    provider: 'mock',
+    apiKey: '',
+    model,
+    options: { latencyMs: 0, latencyJitterMs: 0, ...options },
+    retryPolicy: { baseDelayMs: 0, maxAttempts: 2 }
+  });
+  await runImageGeneration({
+    prompt: 'a lighthouse at dusk',
+    settings: { aspectRatio: '1:1', resolution: '1K', fallbackProviders: [mock('proxy')] },
+    providerConfig: mock('primary', { failingSlots: [0], failureKinds: ['500'] }),
+    slots: toSlotDescriptors(createPendingGenerationSlots(1)),
+    signal: new AbortController().signal,
+    callbacks: { onSlotResult: () => {}, onText: () => {}, onUsage: (entry) => usage.push(entry) }
+  });
+
+  assert.deepEqual(
+    usage.map(({ model, route, attempts, outcome, statusCode, fallbackIndex }) =>
+      ({ model, route, attempts, outcome, statusCode, fallbackIndex })),
+    [
+      { model: 'primary', route: 'mock', attempts: 2, outcome: 'failed', statusCode: 500, fallbackIndex: undefined },
+      { model: 'proxy', route: 'mock', attempts: 1, outcome: 'success', statusCode: undefined, fallbackIndex: 1 }
+    ]
+  );
+  assert.match(usage[0].requestId ?? '', /^mock-/);
+  assert.ok(usage.every((entry) => entry.latencyMs >= 0));
+});
+
+test('usage is summarized by day, model and outcome', () => {
+  const records = [
+    record({ latencyMs: 1000 }),
+    record({ latencyMs: 3000, attempts: 3, outcome: 'failed', errorKind: 'network' }),
+    record({ timestamp: new Date(2026, 2, 2, 9).getTime(), provider: 'gemini', model: undefined, route: 'gemini' })
+  ];
+
+  assert.deepEqual(summarizeUsage(records, 'day'), [
+    { key: '2026-03-02', calls: 1, succeeded: 1, failed: 0, attempts: 1, averageLatencyMs: 1000 },
+    { key: '2026-03-01', calls: 2, succeeded: 1, failed: 1, attempts: 4, averageLatencyMs: 2000 }
+  ]);
+  assert.deepEqual(summarizeUsage(records, 'model').map((row) => [row.key, row.calls]), [
+    ['openai / gpt-image-2', 2],
+    ['gemini / 默认模型', 1]
+  ]);
+  assert.deepEqual(summarizeUsage(records, 'outcome').map((row) => row.key), ['success', 'failed: network']);
+});
+
+test('CSV export has one row per call and quotes fields that need it', () => {
+  const csv = usageToCsv([record({ requestId: 'req "1", retry', statusCode: 502, outcome: 'failed' })]);
+  const [header, row] = parseCsv(csv.trimEnd());
+
+  assert.equal(header[0], 'timestamp');
+  assert.equal(row.length, header.length);
+  assert.equal(row[header.indexOf('request_id')], 'req "1", retry');
+  assert.equal(row[header.indexOf('status_code')], '502');
+  assert.equal(row[header.indexOf('size')], '');
+});
@@ -0,0 +1,87 @@
+import type { UsageRecord } from '../types.ts';
+import { getSpendDayKey } from './pricing.ts';
+
+/**
+ * Usage ledger views: provider calls from the IndexedDB `usage` store
+ * grouped for the usage panel, and exported as CSV.
+ */
+
+export type UsageGrouping = 'day' | 'model' | 'outcome';
+
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  succeeded: number;
+  failed: number;
+  attempts: number;
+  averageLatencyMs: number;
+}
+
+const groupKey = (record: UsageRecord, grouping: UsageGrouping): string => {
+  if (grouping === 'day') return getSpendDayKey(record.timestamp);
+  if (grouping === 'model') return `${record.provider} / ${record.model ?? '默认模型'}`;
+  return record.outcome === 'success' ? 'success' : `failed: ${record.errorKind ?? 'unknown'}`;
+};
+
+/** Days newest first; models and outcomes by call count. */
+export function summarizeUsage(records: UsageRecord[], grouping: UsageGrouping): UsageSummaryRow[] {
+  const groups = new Map<string, UsageSummaryRow & { totalLatencyMs: number }>();
+  for (const record of records) {
+    const key = groupKey(record, grouping);
+    const row = groups.get(key) ?? {
+      key,
+      calls: 0,
+      succeeded: 0,
+      failed: 0,
+      attempts: 0,
+      averageLatencyMs: 0,
+      totalLatencyMs: 0
+    };
+    row.calls++;
+    if (record.outcome === 'success') row.succeeded++;
+    else row.failed++;
+    row.attempts += record.attempts;
+    row.totalLatencyMs += record.latencyMs;
+    groups.set(key, row);
+  }
+
+  const rows = [...groups.values()].map(({ totalLatencyMs, ...row }) => ({
+    ...row,
+    averageLatencyMs: Math.round(totalLatencyMs / row.calls)
+  }));
+  return grouping === 'day'
+    ? rows.sort((left, right) => right.key.localeCompare(left.key))
+    : rows.sort((left, right) => right.calls - left.calls || left.key.localeCompare(right.key));
+}
+
+const CSV_COLUMNS: Array<[header: string, value: (record: UsageRecord) => unknown]> = [
+  ['timestamp', (record) => new Date(record.timestamp).toISOString()],
+  ['provider', (record) => record.provider],
+  ['model', (record) => record.model],
+  ['route', (record) => record.route],
+  ['size', (record) => record.size],
+  ['attempts', (record) => record.attempts],
+  ['latency_ms', (record) => record.latencyMs],
+  ['outcome', (record) => record.outcome],
+  ['error_kind', (record) => record.errorKind],
+  ['status_code', (record) => record.statusCode],
+  ['request_id', (record) => record.requestId],
+  ['fallback_index', (record) => record.fallbackIndex],
+  ['session_id', (record) => record.sessionId],
+  ['message_id', (record) => record.messageId],
+  ['slot_id', (record) => record.slotId]
+];
+
+function escapeCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV, one row per provider call. */
+export function usageToCsv(records: UsageRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...records.map((record) => CSV_COLUMNS.map(([, value]) => escapeCsvField(value(record))).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -2,26 +2,42 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import type {
   Message,
   AppSettings,
+  ConversationContext,
   UploadedImage,
   GenerationSlotDescriptor,
-  GenerationSlotResult
+  GenerationSlotResult,
+  ProviderConfig
 } from '../types';
 import { logError, serializeGenerationError } from '../utils/errorHandler';
+import { deleteGenerationJobs, putGenerationJob, putUsageRecords } from '../utils/indexedDb';
+import { generateUUID } from '../utils/uuid';
 import { runImageGeneration } from '../core/generationEngine';
+import {
+  CANCELLED_SLOT_REASON,
+  PAUSED_SLOT_REASON,
+  STOPPED_SLOT_REASON
+} from '../core/generationSlots';
 
 interface UseImageGenerationOptions {
   onSlotResult: (
     sessionId: string,
     messageId: string,
-    result: GenerationSlotResult
+    result: GenerationSlotResult,
+    settings: AppSettings // The settings the slot was requested with
   ) => void;
   onTextGenerated: (sessionId: string, messageId: string, text: string) => void;
   getLatestMessages: (sessionId: string) => Message[];
+  getConversationContext: (sessionId: string) => ConversationContext | undefined;
 }
 
 export interface MessageGenerationState {
   slotIds: string[];
   abortController: AbortController;
+  queuePositions: Record<string, number>; // slotId -> position while waiting for the scheduler
+  partialImages: Record<string, string>; // slotId -> latest streamed preview frame (data URI)
+  dispatchedSlotIds: string[]; // Slots whose first request was sent; a pause lets them finish
+  cancelSlot: (slotId: string, reason: string) => void; // Aborts one slot and settles it as cancelled
+  cancelUndispatchedSlots: (reason: string) => void; // Leaves slots whose request already started running
 }
 
 export interface GenerationState {
@@ -44,11 +60,12 @@ interface ExecuteGenerationOptions {
   modelMessageId: string;
   slots: GenerationSlotDescriptor[];
   uploadedImages?: UploadedImage[];
+  slotProviderConfigs?: Record<string, ProviderConfig>; // Comparison runs
   errorContext: string;
 }
 
 export function useImageGeneration(options: UseImageGenerationOptions) {
-  const { onSlotResult, onTextGenerated, getLatestMessages } = options;
+  const { onSlotResult, onTextGenerated, getLatestMessages, getConversationContext } = options;
   const [generationStates, setGenerationStates] = useState<Record<string, GenerationState>>({});
   const generationStatesRef = useRef(generationStates);
 
@@ -58,10 +75,11 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
 
   const setSessionState = useCallback(
     (sessionId: string, updater: (previous: GenerationState) => GenerationState) => {
-      setGenerationStates((previous) => ({
-        ...previous,
-        [sessionId]: updater(previous[sessionId] ?? EMPTY_GENERATION_STATE)
-      }));
+      setGenerationStates((previous) => {
+        const current = previous[sessionId] ?? EMPTY_GENERATION_STATE;
+        const next = updater(current);
+        return next === current ? previous : { ...previous, [sessionId]: next };
+      });
     },
     []
   );
@@ -75,10 +93,50 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
       modelMessageId,
       slots,
       uploadedImages,
+      slotProviderConfigs,
       errorContext
-    }: ExecuteGenerationOptions) => {
+    }: ExecuteGenerationOptions): Promise<GenerationSlotResult[]> => {
       const controller = new AbortController();
       const settledSlotIds = new Set<string>();
+      const results: GenerationSlotResult[] = [];
+      // Every slot settles exactly once; later reports for it are dropped.
+      const settle = (result: GenerationSlotResult) => {
+        if (settledSlotIds.has(result.slotId)) return;
+        settledSlotIds.add(result.slotId);
+        results.push(result);
+        onSlotResult(sessionId, modelMessageId, result, settings);
+        setPartialImage(result.slotId, undefined);
+      };
+      const slotControllers = new Map(slots.map((slot) => [slot.slotId, new AbortController()]));
+
+      // Recorded until the generation settles so a closed tab can resume it.
+      const jobId = generateUUID();
+      const jobSaved = putGenerationJob({
+        id: jobId,
+        sessionId,
+        messageId: modelMessageId,
+        prompt,
+        settings: { aspectRatio: settings.aspectRatio, resolution: settings.resolution },
+        provider: settings.providerConfig.provider,
+        model: settings.providerConfig.model,
+        slots,
+        createdAt: Date.now()
+      }).catch((error) => logError('Generation Job', error));
+
+      const cancelSlot = (slotId: string, reason: string) => {
+        const slot = slots.find((candidate) => candidate.slotId === slotId);
+        if (!slot || settledSlotIds.has(slotId)) return;
+        settle({ ...slot, status: 'cancelled', attempts: 0, reason });
+        slotControllers.get(slotId)?.abort();
+      };
+
+      // Dispatched requests are already billed, so a pause lets them finish.
+      const dispatchedSlotIds = new Set<string>();
+      const cancelUndispatchedSlots = (reason: string) => {
+        for (const slot of slots) {
+          if (!dispatchedSlotIds.has(slot.slotId)) cancelSlot(slot.slotId, reason);
+        }
+      };
 
       setSessionState(sessionId, (previous) => ({
         isGenerating: true,
@@ -87,11 +145,70 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
           ...previous.activeGenerations,
           [modelMessageId]: {
             slotIds: slots.map((slot) => slot.slotId),
-            abortController: controller
+            abortController: controller,
+            queuePositions: {},
+            partialImages: {},
+            dispatchedSlotIds: [],
+            cancelSlot,
+            cancelUndispatchedSlots
           }
         }
       }));
 
+      const setQueuePosition = (slotId: string, position: number | undefined) => {
+        setSessionState(sessionId, (previous) => {
+          const generation = previous.activeGenerations[modelMessageId];
+          if (!generation || generation.queuePositions[slotId] === position) return previous;
+          const { [slotId]: _previousPosition, ...queuePositions } = generation.queuePositions;
+          return {
+            ...previous,
+            activeGenerations: {
+              ...previous.activeGenerations,
+              [modelMessageId]: {
+                ...generation,
+                queuePositions: position === undefined
+                  ? queuePositions
+                  : { ...queuePositions, [slotId]: position }
+              }
+            }
+          };
+        });
+      };
+
+      const markDispatched = (slotId: string) => {
+        dispatchedSlotIds.add(slotId);
+        setSessionState(sessionId, (previous) => {
+          const generation = previous.activeGenerations[modelMessageId];
+          if (!generation || generation.dispatchedSlotIds.includes(slotId)) return previous;
+          return {
+            ...previous,
+            activeGenerations: {
+              ...previous.activeGenerations,
+              [modelMessageId]: { ...generation, dispatchedSlotIds: [...generation.dispatchedSlotIds, slotId] }
+            }
+          };
+        });
+      };
+
+      // Preview frames are transient: never persisted, dropped once the slot settles.
+      const setPartialImage = (slotId: string, data: string | undefined) => {
+        setSessionState(sessionId, (previous) => {
+          const generation = previous.activeGenerations[modelMessageId];
+          if (!generation || generation.partialImages[slotId] === data) return previous;
+          const { [slotId]: _previousFrame, ...partialImages } = generation.partialImages;
+          return {
+            ...previous,
+            activeGenerations: {
+              ...previous.activeGenerations,
+              [modelMessageId]: {
+                ...generation,
+                partialImages: data === undefined ? partialImages : { ...partialImages, [slotId]: data }
+              }
+            }
+          };
+        });
+      };
+
       await new Promise<void>((resolve) => setTimeout(resolve, 0));
 
       try {
@@ -99,24 +216,34 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
           prompt,
           history,
           uploadedImages,
-          settings,
+          settings: { ...settings, context: getConversationContext(sessionId) },
           slots,
           signal: controller.signal,
+          slotProviderConfigs,
+          slotSignals: Object.fromEntries(
+            [...slotControllers].map(([slotId, slotController]) => [slotId, slotController.signal])
+          ),
+          queue: { sessionId, messageId: modelMessageId },
           callbacks: {
-            onSlotResult: (result) => {
-              settledSlotIds.add(result.slotId);
-              onSlotResult(sessionId, modelMessageId, result);
+            onSlotResult: settle,
+            onText: (text) => onTextGenerated(sessionId, modelMessageId, text),
+            onSlotQueuePosition: setQueuePosition,
+            onSlotDispatched: markDispatched,
+            onSlotPartialImage: (slotId, image) => {
+              if (!settledSlotIds.has(slotId)) setPartialImage(slotId, image.data);
             },
-            onText: (text) => onTextGenerated(sessionId, modelMessageId, text)
+            onUsage: (usage) => {
+              void putUsageRecords([
+                { ...usage, id: generateUUID(), timestamp: Date.now(), sessionId, messageId: modelMessageId }
+              ]).catch((error) => logError('Usage Ledger', error));
+            }
           }
         });
       } catch (error) {
         logError(errorContext, error);
         const serialized = serializeGenerationError(error, 1);
         for (const slot of slots) {
-          if (settledSlotIds.has(slot.slotId)) continue;
-          settledSlotIds.add(slot.slotId);
-          onSlotResult(sessionId, modelMessageId, {
+          settle({
             ...slot,
             status: 'failed',
             attempts: serialized.attempts,
@@ -125,13 +252,12 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
         }
       } finally {
         for (const slot of slots) {
-          if (settledSlotIds.has(slot.slotId)) continue;
-          onSlotResult(sessionId, modelMessageId, controller.signal.aborted
+          settle(controller.signal.aborted
             ? {
                 ...slot,
                 status: 'cancelled',
                 attempts: 0,
-                reason: '生成任务已取消。'
+                reason: STOPPED_SLOT_REASON
               }
             : {
                 ...slot,
@@ -146,6 +272,10 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
               });
         }
 
+        void jobSaved
+          .then(() => deleteGenerationJobs([jobId]))
+          .catch((error) => logError('Generation Job', error));
+
         setSessionState(sessionId, (previous) => {
           const { [modelMessageId]: _removed, ...remaining } = previous.activeGenerations;
           const remainingIds = Object.keys(remaining);
@@ -156,8 +286,9 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
           };
         });
       }
+      return results;
     },
-    [onSlotResult, onTextGenerated, setSessionState]
+    [onSlotResult, onTextGenerated, getConversationContext, setSessionState]
   );
 
   const generateImages = useCallback(
@@ -167,10 +298,11 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
       settings: AppSettings,
       modelMessageId: string,
       slots: GenerationSlotDescriptor[],
-      uploadedImages?: UploadedImage[]
+      uploadedImages?: UploadedImage[],
+      slotProviderConfigs?: Record<string, ProviderConfig>
     ) => {
       await new Promise<void>((resolve) => setTimeout(resolve, 0));
-      await executeGeneration({
+      return executeGeneration({
         sessionId,
         prompt,
         history: getLatestMessages(sessionId),
@@ -178,6 +310,7 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
         modelMessageId,
         slots,
         uploadedImages,
+        slotProviderConfigs,
         errorContext: 'Image Generation'
       });
     },
@@ -192,7 +325,8 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
       settings: AppSettings,
       modelMessageId: string,
       slots: GenerationSlotDescriptor[],
-      uploadedImages?: UploadedImage[]
+      uploadedImages?: UploadedImage[],
+      slotProviderConfigs?: Record<string, ProviderConfig>
     ) => executeGeneration({
       sessionId,
       prompt,
@@ -201,6 +335,7 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
       modelMessageId,
       slots,
       uploadedImages,
+      slotProviderConfigs,
       errorContext: 'Image Retry'
     }),
     [executeGeneration]
@@ -214,10 +349,25 @@ export function useImageGeneration(options: UseImageGenerationOptions) {
     }
   }, []);
 
+  const cancelSlot = useCallback((sessionId: string, messageId: string, slotId: string) => {
+    generationStatesRef.current[sessionId]?.activeGenerations[messageId]
+      ?.cancelSlot(slotId, CANCELLED_SLOT_REASON);
+  }, []);
+
+  // Cancels the message's slots that are still queued with the paused reason;
+  // running ones report their results. `getPausedGenerationSlots` finds the
+  // paused slots again for resuming.
+  const pauseGeneration = useCallback((sessionId: string, messageId: string) => {
+    generationStatesRef.current[sessionId]?.activeGenerations[messageId]
+      ?.cancelUndispatchedSlots(PAUSED_SLOT_REASON);
+  }, []);
+
   return {
     generationStates,
     generateImages,
     retrySlots,
-    stopGeneration
+    stopGeneration,
+    cancelSlot,
+    pauseGeneration
   };
 }
@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Session } from '../types';
+import { deleteGenerationJobs, getAllGenerationJobs } from '../utils/indexedDb';
+import { logError } from '../utils/errorHandler';
+import { findOrphanedGenerations, type OrphanedGeneration } from '../core/generationJobs';
+
+/**
+ * Scans once after the sessions are hydrated for slots a previous tab left
+ * pending. Handled orphans are dropped together with their recorded jobs.
+ */
+export function useOrphanedGenerations(sessions: Session[], isHydrated: boolean) {
+  const [orphans, setOrphans] = useState<OrphanedGeneration[]>([]);
+  const hasScannedRef = useRef(false);
+
+  useEffect(() => {
+    if (!isHydrated || hasScannedRef.current) return;
+    hasScannedRef.current = true;
+
+    const scan = async () => {
+      try {
+        const { orphans: found, staleJobIds } = findOrphanedGenerations(
+          sessions,
+          await getAllGenerationJobs()
+        );
+        setOrphans(found);
+        await deleteGenerationJobs(staleJobIds);
+      } catch (error) {
+        logError('Orphaned Generations', error);
+      }
+    };
+
+    void scan();
+  }, [isHydrated, sessions]);
+
+  const dismissOrphans = useCallback((handled: OrphanedGeneration[]) => {
+    const handledIds = new Set(handled.map((orphan) => orphan.messageId));
+    setOrphans((previous) => previous.filter((orphan) => !handledIds.has(orphan.messageId)));
+    deleteGenerationJobs(handled.flatMap((orphan) => orphan.jobIds)).catch((error) =>
+      logError('Orphaned Generations', error)
+    );
+  }, []);
+
+  return { orphans, dismissOrphans };
+}
@@ -0,0 +1,117 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { UploadedImage } from '../types';
+import { getUserErrorMessage } from '../utils/errorHandler';
+import {
+  createPromptQueueItem,
+  getNextPromptQueueItems,
+  movePromptQueueItem,
+  requeuePromptQueueItem,
+  updatePromptQueueItem,
+  type PromptQueueItem,
+  type PromptQueueOutcome,
+  type PromptQueueSettings
+} from '../core/promptQueue';
+
+interface UsePromptQueueOptions {
+  // Sends the item as a new message in its session and resolves once it settles.
+  runItem: (item: PromptQueueItem) => Promise<PromptQueueOutcome>;
+}
+
+/**
+ * In-memory prompt queue. Each session's queue is started and paused on its
+ * own and runs up to `concurrency` items at a time; it pauses itself once
+ * nothing is left to run.
+ */
+export function usePromptQueue({ runItem }: UsePromptQueueOptions) {
+  const [items, setItems] = useState<PromptQueueItem[]>([]);
+  const [runningSessions, setRunningSessions] = useState<Record<string, boolean>>({});
+  const [concurrency, setConcurrency] = useState(1);
+  const runItemRef = useRef(runItem);
+  const startedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    runItemRef.current = runItem;
+  }, [runItem]);
+
+  const startItem = useCallback((item: PromptQueueItem) => {
+    startedRef.current.add(item.id);
+    setItems((prev) => updatePromptQueueItem(prev, item.id, { status: 'running' }));
+
+    runItemRef
+      .current(item)
+      .catch((error): PromptQueueOutcome => ({
+        status: 'failed',
+        succeeded: 0,
+        total: 0,
+        error: getUserErrorMessage(error)
+      }))
+      .then((outcome) => {
+        startedRef.current.delete(item.id);
+        setItems((prev) => updatePromptQueueItem(prev, item.id, outcome));
+      });
+  }, []);
+
+  useEffect(() => {
+    for (const sessionId of Object.keys(runningSessions)) {
+      const sessionItems = items.filter((item) => item.sessionId === sessionId);
+      if (!sessionItems.some((item) => item.status === 'queued' || item.status === 'running')) {
+        setRunningSessions(({ [sessionId]: _finished, ...rest }) => rest);
+        continue;
+      }
+      getNextPromptQueueItems(sessionItems, concurrency)
+        .filter((item) => !startedRef.current.has(item.id))
+        .forEach(startItem);
+    }
+  }, [items, runningSessions, concurrency, startItem]);
+
+  const enqueue = useCallback(
+    (sessionId: string, prompt: string, settings: PromptQueueSettings, uploadedImages?: UploadedImage[]) => {
+      const item = createPromptQueueItem({ sessionId, prompt, settings, uploadedImages });
+      setItems((prev) => [...prev, item]);
+    },
+    []
+  );
+
+  const startQueue = useCallback((sessionId: string) => {
+    setRunningSessions((prev) => ({ ...prev, [sessionId]: true }));
+  }, []);
+
+  // Running items keep going; nothing new is started.
+  const pauseQueue = useCallback((sessionId: string) => {
+    setRunningSessions(({ [sessionId]: _paused, ...rest }) => rest);
+  }, []);
+
+  const moveItem = useCallback((id: string, offset: number) => {
+    setItems((prev) => movePromptQueueItem(prev, id, offset));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id || item.status === 'running'));
+  }, []);
+
+  const requeueItem = useCallback((id: string) => {
+    setItems((prev) => requeuePromptQueueItem(prev, id));
+  }, []);
+
+  const clearFinished = useCallback((sessionId: string) => {
+    setItems((prev) =>
+      prev.filter(
+        (item) => item.sessionId !== sessionId || item.status === 'queued' || item.status === 'running'
+      )
+    );
+  }, []);
+
+  return {
+    items,
+    runningSessions,
+    concurrency,
+    setConcurrency,
+    enqueue,
+    startQueue,
+    pauseQueue,
+    moveItem,
+    removeItem,
+    requeueItem,
+    clearFinished
+  };
+}
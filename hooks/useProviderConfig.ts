@@ -1,7 +1,14 @@
 import { useState, useCallback } from 'react';
-import { ProviderConfig, Provider } from '../types';
+import { z } from 'zod';
+import { ProviderConfig, Provider, RetryPolicy } from '../types';
 import { validateApiKey } from '../utils/validation';
 import { ValidationError } from '../types/errors';
+import { mockProviderOptionsSchema } from '../services/mockService';
+import { openaiProviderOptionsSchema } from '../services/openaiService';
+import { DEFAULT_SD_WEBUI_BASE_URL, sdWebuiProviderOptionsSchema } from '../services/sdWebuiService';
+import { retryPolicySchema } from '../core/retryPolicy';
+import { parseFallbackProviders } from '../core/providerFallback';
+import { parseCompareProviders } from '../core/comparison';
 
 const STORAGE_KEYS = {
   PROVIDER: 'app_provider',
@@ -9,13 +16,22 @@ const STORAGE_KEYS = {
   GEMINI_BASE_URL: 'user_gemini_base_url',
   OPENAI_API_KEY: 'user_openai_api_key',
   OPENAI_BASE_URL: 'user_openai_base_url',
-  OPENAI_MODEL: 'user_openai_model'
+  OPENAI_MODEL: 'user_openai_model',
+  OPENAI_OPTIONS: 'user_openai_options',
+  MOCK_OPTIONS: 'user_mock_options',
+  SDWEBUI_BASE_URL: 'user_sdwebui_base_url',
+  SDWEBUI_MODEL: 'user_sdwebui_model', // Checkpoint name; empty keeps the server's current one
+  SDWEBUI_OPTIONS: 'user_sdwebui_options',
+  RETRY_POLICIES: 'user_retry_policies', // JSON: provider id -> Partial<RetryPolicy>
+  FALLBACK_PROVIDERS: 'user_fallback_providers', // JSON: ProviderConfig[]
+  COMPARE_PROVIDERS: 'user_compare_providers' // JSON: ProviderConfig[]
 } as const;
 
 const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
 const DEFAULT_OPENAI_MODEL = 'gpt-image-1';
 const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-image-preview';
 const DEFAULT_GEMINI_BASE_URL = '';
+const DEFAULT_MOCK_MODEL = 'mock-placeholder';
 
 function getStoredGeminiBaseUrl(): string | undefined {
   const value = localStorage.getItem(STORAGE_KEYS.GEMINI_BASE_URL);
@@ -24,13 +40,88 @@ function getStoredGeminiBaseUrl(): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+// Providers with a saved options form, and where each keeps its options.
+const STORED_OPTIONS: Partial<Record<Provider, { key: string; schema: z.ZodObject }>> = {
+  mock: { key: STORAGE_KEYS.MOCK_OPTIONS, schema: mockProviderOptionsSchema },
+  openai: { key: STORAGE_KEYS.OPENAI_OPTIONS, schema: openaiProviderOptionsSchema },
+  sdwebui: { key: STORAGE_KEYS.SDWEBUI_OPTIONS, schema: sdWebuiProviderOptionsSchema }
+};
+
+function getStoredOptions(provider: Provider): Record<string, unknown> {
+  const stored = STORED_OPTIONS[provider];
+  if (!stored) return {};
+  try {
+    const parsed = stored.schema.partial().safeParse(JSON.parse(localStorage.getItem(stored.key) || '{}'));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+function getStoredRetryPolicies(): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS.RETRY_POLICIES) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getStoredRetryPolicy(provider: Provider): Partial<RetryPolicy> | undefined {
+  const parsed = retryPolicySchema.partial().safeParse(getStoredRetryPolicies()[provider]);
+  return parsed.success && Object.keys(parsed.data).length > 0 ? parsed.data : undefined;
+}
+
+function getStoredProviderList(
+  key: string,
+  parse: (value: unknown) => ProviderConfig[]
+): ProviderConfig[] {
+  try {
+    return parse(JSON.parse(localStorage.getItem(key) || '[]'));
+  } catch {
+    return [];
+  }
+}
+
+function createMockConfig(): ProviderConfig {
+  return {
+    provider: 'mock',
+    apiKey: '',
+    model: DEFAULT_MOCK_MODEL,
+    options: getStoredOptions('mock'),
+    retryPolicy: getStoredRetryPolicy('mock')
+  };
+}
+
+function createSdWebuiConfig(): ProviderConfig {
+  return {
+    provider: 'sdwebui',
+    apiKey: '',
+    baseUrl: localStorage.getItem(STORAGE_KEYS.SDWEBUI_BASE_URL) || DEFAULT_SD_WEBUI_BASE_URL,
+    model: localStorage.getItem(STORAGE_KEYS.SDWEBUI_MODEL) || undefined,
+    options: getStoredOptions('sdwebui'),
+    retryPolicy: getStoredRetryPolicy('sdwebui')
+  };
+}
+
 /**
  * Custom hook for managing provider configuration with localStorage persistence
  */
 export function useProviderConfig() {
   const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => {
     const storedProvider = localStorage.getItem(STORAGE_KEYS.PROVIDER) as Provider;
-    const provider: Provider = storedProvider === 'openai' ? 'openai' : 'gemini';
+    const provider: Provider =
+      storedProvider === 'openai' || storedProvider === 'mock' || storedProvider === 'sdwebui'
+        ? storedProvider
+        : 'gemini';
+
+    if (provider === 'mock') {
+      return createMockConfig();
+    }
+
+    if (provider === 'sdwebui') {
+      return createSdWebuiConfig();
+    }
 
     if (provider === 'openai') {
       return {
@@ -40,7 +131,9 @@ export function useProviderConfig() {
           localStorage.getItem(STORAGE_KEYS.OPENAI_BASE_URL) ||
           DEFAULT_OPENAI_BASE_URL,
         model:
-          localStorage.getItem(STORAGE_KEYS.OPENAI_MODEL) || DEFAULT_OPENAI_MODEL
+          localStorage.getItem(STORAGE_KEYS.OPENAI_MODEL) || DEFAULT_OPENAI_MODEL,
+        options: getStoredOptions('openai'),
+        retryPolicy: getStoredRetryPolicy('openai')
       };
     }
 
@@ -49,13 +142,24 @@ export function useProviderConfig() {
       apiKey: localStorage.getItem(STORAGE_KEYS.GEMINI_API_KEY) || '',
       model:
         localStorage.getItem('user_gemini_model') || DEFAULT_GEMINI_MODEL,
-      baseUrl: getStoredGeminiBaseUrl()
+      baseUrl: getStoredGeminiBaseUrl(),
+      retryPolicy: getStoredRetryPolicy('gemini')
     };
   });
 
   const updateProvider = useCallback((provider: Provider) => {
     setProviderConfig((prev) => {
-      const newConfig: ProviderConfig = { ...prev, provider };
+      const newConfig: ProviderConfig = { ...prev, provider, options: undefined };
+
+      if (provider === 'mock') {
+        localStorage.setItem(STORAGE_KEYS.PROVIDER, provider);
+        return createMockConfig();
+      }
+
+      if (provider === 'sdwebui') {
+        localStorage.setItem(STORAGE_KEYS.PROVIDER, provider);
+        return createSdWebuiConfig();
+      }
 
       if (provider === 'openai') {
         newConfig.apiKey =
@@ -65,6 +169,7 @@ export function useProviderConfig() {
           DEFAULT_OPENAI_BASE_URL;
         newConfig.model =
           localStorage.getItem(STORAGE_KEYS.OPENAI_MODEL) || DEFAULT_OPENAI_MODEL;
+        newConfig.options = getStoredOptions('openai');
       } else {
         newConfig.apiKey =
           localStorage.getItem(STORAGE_KEYS.GEMINI_API_KEY) || '';
@@ -72,6 +177,7 @@ export function useProviderConfig() {
           localStorage.getItem('user_gemini_model') || DEFAULT_GEMINI_MODEL;
         newConfig.baseUrl = getStoredGeminiBaseUrl();
       }
+      newConfig.retryPolicy = getStoredRetryPolicy(provider);
 
       localStorage.setItem(STORAGE_KEYS.PROVIDER, provider);
       return newConfig;
@@ -127,6 +233,12 @@ export function useProviderConfig() {
         return newConfig;
       }
 
+      if (prev.provider === 'sdwebui') {
+        const baseUrl = url.trim() || DEFAULT_SD_WEBUI_BASE_URL;
+        localStorage.setItem(STORAGE_KEYS.SDWEBUI_BASE_URL, baseUrl);
+        return { ...prev, baseUrl };
+      }
+
       const trimmed = url.trim();
       if (trimmed.length === 0) {
         localStorage.removeItem(STORAGE_KEYS.GEMINI_BASE_URL);
@@ -144,6 +256,10 @@ export function useProviderConfig() {
       const newConfig = { ...prev, model };
       if (prev.provider === 'openai') {
         localStorage.setItem(STORAGE_KEYS.OPENAI_MODEL, model);
+      } else if (prev.provider === 'sdwebui') {
+        const checkpoint = model.trim();
+        localStorage.setItem(STORAGE_KEYS.SDWEBUI_MODEL, checkpoint);
+        return { ...prev, model: checkpoint || undefined };
       } else {
         // For Gemini, save model as well
         localStorage.setItem('user_gemini_model', model);
@@ -152,11 +268,58 @@ export function useProviderConfig() {
     });
   }, []);
 
+  const updateOptions = useCallback((options: Record<string, unknown>) => {
+    setProviderConfig((prev) => {
+      const stored = STORED_OPTIONS[prev.provider];
+      if (stored) {
+        localStorage.setItem(stored.key, JSON.stringify(options));
+      }
+      return { ...prev, options };
+    });
+  }, []);
+
+  const updateRetryPolicy = useCallback((retryPolicy: Partial<RetryPolicy>) => {
+    setProviderConfig((prev) => {
+      localStorage.setItem(
+        STORAGE_KEYS.RETRY_POLICIES,
+        JSON.stringify({ ...getStoredRetryPolicies(), [prev.provider]: retryPolicy })
+      );
+      return { ...prev, retryPolicy };
+    });
+  }, []);
+
+  const [fallbackProviders, setFallbackProviders] = useState<ProviderConfig[]>(() =>
+    getStoredProviderList(STORAGE_KEYS.FALLBACK_PROVIDERS, parseFallbackProviders)
+  );
+  const [compareProviders, setCompareProviders] = useState<ProviderConfig[]>(() =>
+    getStoredProviderList(STORAGE_KEYS.COMPARE_PROVIDERS, parseCompareProviders)
+  );
+
+  // Throws a ValidationError for an invalid chain
+  const updateFallbackProviders = useCallback((providers: ProviderConfig[]) => {
+    const parsed = parseFallbackProviders(providers);
+    localStorage.setItem(STORAGE_KEYS.FALLBACK_PROVIDERS, JSON.stringify(parsed));
+    setFallbackProviders(parsed);
+  }, []);
+
+  // Throws a ValidationError for an invalid list
+  const updateCompareProviders = useCallback((providers: ProviderConfig[]) => {
+    const parsed = parseCompareProviders(providers);
+    localStorage.setItem(STORAGE_KEYS.COMPARE_PROVIDERS, JSON.stringify(parsed));
+    setCompareProviders(parsed);
+  }, []);
+
   return {
     providerConfig,
+    fallbackProviders,
+    compareProviders,
     updateProvider,
     updateApiKey,
     updateBaseUrl,
-    updateModel
+    updateModel,
+    updateOptions,
+    updateRetryPolicy,
+    updateFallbackProviders,
+    updateCompareProviders
   };
 }
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { z } from 'zod';
+import {
+  configureGenerationScheduler,
+  DEFAULT_SCHEDULER_LIMITS,
+  type SchedulerLimits
+} from '../core/generationScheduler';
+import { VALIDATION_LIMITS } from '../utils/validation';
+
+const SCHEDULER_LIMITS_STORAGE_KEY = 'scheduler_limits';
+
+const limitSchema = z.number().int().min(1).max(VALIDATION_LIMITS.MAX_CONCURRENCY_LIMIT);
+const storedLimitsSchema = z.object({
+  globalLimit: limitSchema,
+  providerLimit: limitSchema,
+  providerLimits: z.record(z.string(), limitSchema).optional()
+});
+
+function readStoredLimits(): SchedulerLimits {
+  try {
+    const parsed = storedLimitsSchema.safeParse(
+      JSON.parse(localStorage.getItem(SCHEDULER_LIMITS_STORAGE_KEY) || 'null')
+    );
+    return parsed.success ? parsed.data : DEFAULT_SCHEDULER_LIMITS;
+  } catch {
+    return DEFAULT_SCHEDULER_LIMITS;
+  }
+}
+
+/**
+ * Custom hook for the shared scheduler's concurrency limits with localStorage persistence
+ */
+export function useSchedulerLimits() {
+  const [schedulerLimits, setSchedulerLimits] = useState<SchedulerLimits>(readStoredLimits);
+
+  useEffect(() => {
+    configureGenerationScheduler(schedulerLimits);
+    localStorage.setItem(SCHEDULER_LIMITS_STORAGE_KEY, JSON.stringify(schedulerLimits));
+  }, [schedulerLimits]);
+
+  const updateSchedulerLimits = useCallback((limits: SchedulerLimits) => {
+    const parsed = storedLimitsSchema.safeParse(limits);
+    if (parsed.success) setSchedulerLimits(parsed.data);
+  }, []);
+
+  return {
+    schedulerLimits,
+    updateSchedulerLimits
+  };
+}
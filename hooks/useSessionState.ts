@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type React from 'react';
-import { Session, Message } from '../types';
+import { Session, Message, ConversationContext } from '../types';
 import { generateUUID } from '../utils/uuid';
 import {
   getAllSessions,
@@ -56,13 +56,16 @@ function clearLegacyStorage(): void {
   }
 }
 
-function createNewSession(): Session {
+type NewSessionInit = Partial<Pick<Session, 'title' | 'messages' | 'batchImport'>>;
+
+function createNewSession(init: NewSessionInit = {}): Session {
   return {
     id: generateUUID(),
     title: '新对话',
     messages: [],
     createdAt: Date.now(),
-    updatedAt: Date.now()
+    updatedAt: Date.now(),
+    ...init
   };
 }
 
@@ -109,6 +112,7 @@ export function useSessionState() {
   const sessionsRef = useRef<Session[]>(sessions);
   const prevSessionsRef = useRef<Session[]>([]);
   const hasHydratedRef = useRef(false);
+  const [isHydrated, setIsHydrated] = useState(false);
   const [storageRevision, setStorageRevision] = useState(0);
 
   useEffect(() => {
@@ -272,6 +276,7 @@ export function useSessionState() {
           prevSessionsRef.current = dbSessions;
           setState({ sessions: dbSessions, currentSessionId: nextId });
           hasHydratedRef.current = true;
+          setIsHydrated(true);
           return;
         }
 
@@ -286,6 +291,7 @@ export function useSessionState() {
           prevSessionsRef.current = legacySessions;
           setState({ sessions: legacySessions, currentSessionId: nextId });
           hasHydratedRef.current = true;
+          setIsHydrated(true);
           clearLegacyStorage();
 
           await Promise.all([
@@ -296,6 +302,8 @@ export function useSessionState() {
         }
 
         hasHydratedRef.current = true;
+
+        setIsHydrated(true);
         prevSessionsRef.current = sessionsRef.current;
         await Promise.all([
           ...sessionsRef.current.map((session) => putSession(session)),
@@ -306,6 +314,7 @@ export function useSessionState() {
           console.error('Failed to hydrate sessions from IndexedDB:', error);
         }
         hasHydratedRef.current = true;
+        setIsHydrated(true);
       }
     };
 
@@ -325,8 +334,12 @@ export function useSessionState() {
     return session ? session.messages : [];
   }, []);
 
-  const createSession = useCallback(() => {
-    const newSession = createNewSession();
+  const getLatestSessionContext = useCallback((sessionId: string): ConversationContext | undefined => {
+    return sessionsRef.current.find(s => s.id === sessionId)?.context;
+  }, []);
+
+  const createSession = useCallback((init?: NewSessionInit) => {
+    const newSession = createNewSession(init);
     setSessions(prev => [...prev, newSession]);
     setCurrentSessionId(newSession.id);
     return newSession.id;
@@ -369,6 +382,16 @@ export function useSessionState() {
     );
   }, [setSessions]);
 
+  const updateSessionContext = useCallback((sessionId: string, context: ConversationContext) => {
+    setSessions(prev =>
+      prev.map(session =>
+        session.id === sessionId
+          ? { ...session, context, updatedAt: Date.now() }
+          : session
+      )
+    );
+  }, [setSessions]);
+
   const updateSessionMessages = useCallback((sessionId: string, messages: Message[]) => {
     setSessions(prev =>
       prev.map(session =>
@@ -423,14 +446,17 @@ export function useSessionState() {
 
   return {
     sessions,
+    isHydrated,
     storageRevision,
     currentSessionId,
     getCurrentSession,
     getLatestSessionMessages,
+    getLatestSessionContext,
     createSession,
     switchSession,
     deleteSession,
     updateSessionTitle,
+    updateSessionContext,
     updateSessionMessages,
     updateSessionMessagesById,
     clearAllSessions
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { z } from 'zod';
+import {
+  addSpend,
+  DEFAULT_PRICING,
+  DEFAULT_SPEND_BUDGET,
+  EMPTY_SPEND_TOTALS,
+  type PriceEntry,
+  type SpendBudget,
+  type SpendTotals
+} from '../core/pricing';
+
+const STORAGE_KEYS = {
+  PRICING: 'pricing_table', // JSON: PriceEntry[]; unset uses DEFAULT_PRICING
+  BUDGET: 'spend_budget',
+  TOTALS: 'spend_totals'
+} as const;
+
+const amountSchema = z.number().min(0);
+const pricingSchema = z.array(z.object({
+  provider: z.string().min(1),
+  model: z.string().optional(),
+  size: z.string().optional(),
+  resolution: z.enum(['1K', '2K', '4K']).optional(),
+  pricePerImage: amountSchema
+}));
+const budgetSchema = z.object({
+  dailyLimit: amountSchema.optional(),
+  sessionLimit: amountSchema.optional(),
+  onExceed: z.enum(['warn', 'block'])
+});
+const totalsSchema = z.object({
+  days: z.record(z.string(), amountSchema),
+  sessions: z.record(z.string(), amountSchema)
+});
+
+function readStored<T>(key: string, schema: z.ZodType<T>, fallback: T): T {
+  try {
+    const parsed = schema.safeParse(JSON.parse(localStorage.getItem(key) || 'null'));
+    return parsed.success ? parsed.data : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for the pricing table, spending budget and accumulated spend
+ * with localStorage persistence
+ */
+export function useSpending() {
+  const [pricingTable, setPricingTable] = useState<PriceEntry[]>(
+    () => readStored(STORAGE_KEYS.PRICING, pricingSchema, DEFAULT_PRICING)
+  );
+  const [budget, setBudget] = useState<SpendBudget>(
+    () => readStored(STORAGE_KEYS.BUDGET, budgetSchema, DEFAULT_SPEND_BUDGET)
+  );
+  const [spendTotals, setSpendTotals] = useState<SpendTotals>(
+    () => readStored(STORAGE_KEYS.TOTALS, totalsSchema, EMPTY_SPEND_TOTALS)
+  );
+
+  useEffect(() => {
+    if (pricingTable === DEFAULT_PRICING) localStorage.removeItem(STORAGE_KEYS.PRICING);
+    else localStorage.setItem(STORAGE_KEYS.PRICING, JSON.stringify(pricingTable));
+  }, [pricingTable]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.BUDGET, JSON.stringify(budget));
+  }, [budget]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TOTALS, JSON.stringify(spendTotals));
+  }, [spendTotals]);
+
+  const updateBudget = useCallback((next: SpendBudget) => {
+    const parsed = budgetSchema.safeParse(next);
+    if (parsed.success) setBudget(parsed.data);
+  }, []);
+
+  const resetPricingTable = useCallback(() => setPricingTable(DEFAULT_PRICING), []);
+
+  const recordSpend = useCallback((sessionId: string, amount: number) => {
+    setSpendTotals((previous) => addSpend(previous, sessionId, amount));
+  }, []);
+
+  const resetSpendTotals = useCallback(() => setSpendTotals(EMPTY_SPEND_TOTALS), []);
+
+  return {
+    pricingTable,
+    updatePricingTable: setPricingTable,
+    resetPricingTable,
+    budget,
+    updateBudget,
+    spendTotals,
+    recordSpend,
+    resetSpendTotals
+  };
+}
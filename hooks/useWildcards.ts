@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { z } from 'zod';
+import type { WildcardLists } from '../core/promptTemplate';
+import { parseWildcardEntries } from '../core/promptTemplate';
+
+const WILDCARDS_STORAGE_KEY = 'user_wildcards';
+const WILDCARD_NAME_PATTERN = /^[A-Za-z0-9][\w\-/.]*$/;
+
+const storedWildcardsSchema = z.record(z.string(), z.array(z.string()));
+
+function readStoredWildcards(): Record<string, string[]> {
+  try {
+    const parsed = storedWildcardsSchema.safeParse(
+      JSON.parse(localStorage.getItem(WILDCARDS_STORAGE_KEY) || '{}')
+    );
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function isValidWildcardName(name: string): boolean {
+  return WILDCARD_NAME_PATTERN.test(name) && !name.includes('__');
+}
+
+/**
+ * Custom hook for managing `__name__` wildcard lists with localStorage persistence
+ */
+export function useWildcards() {
+  const [wildcards, setWildcards] = useState<Record<string, string[]>>(readStoredWildcards);
+
+  useEffect(() => {
+    localStorage.setItem(WILDCARDS_STORAGE_KEY, JSON.stringify(wildcards));
+  }, [wildcards]);
+
+  const saveWildcard = useCallback((name: string, content: string) => {
+    if (!isValidWildcardName(name)) return;
+    setWildcards((prev) => ({ ...prev, [name]: parseWildcardEntries(content) }));
+  }, []);
+
+  const removeWildcard = useCallback((name: string) => {
+    setWildcards((prev) => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return {
+    wildcards: wildcards as WildcardLists,
+    saveWildcard,
+    removeWildcard
+  };
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from './index.ts';
+
+const client = new Client({ name: 'banana-batch-test', version: '0.0.0' });
+const server = createMcpServer();
+const previousProvider = process.env.BANANA_PROVIDER;
+
+before(async () => {
+  process.env.BANANA_PROVIDER = 'mock';
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+after(async () => {
+  await client.close();
+  await server.close();
+  if (previousProvider === undefined) {
+    delete process.env.BANANA_PROVIDER;
+  } else {
+    process.env.BANANA_PROVIDER = previousProvider;
+  }
+});
+
+test('list_models reports the registered providers and the env default', async () => {
+  const result = (await client.callTool({ name: 'list_models', arguments: {} })) as CallToolResult;
+  assert.notEqual(result.isError, true);
+  const [block] = result.content;
+  assert.ok(block.type === 'text');
+  const listing = JSON.parse(block.text) as {
+    defaultProvider: string;
+    providers: Array<{ id: string; configured: boolean }>;
+  };
+
+  assert.equal(listing.defaultProvider, 'mock');
+  const mock = listing.providers.find((provider) => provider.id === 'mock');
+  assert.equal(mock?.configured, true);
+  assert.ok(listing.providers.some((provider) => provider.id === 'openai'));
+});
+
+test('generate_image returns one image block per mock slot', async () => {
+  const result = (await client.callTool({
+    name: 'generate_image',
+    arguments: { prompt: 'a lighthouse at dusk', n: 2, aspect_ratio: '1:1' }
+  })) as CallToolResult;
+
+  assert.notEqual(result.isError, true);
+  const [summary, ...images] = result.content;
+  assert.ok(summary.type === 'text');
+  assert.match(summary.text, /^2\/2 images generated with mock/);
+  assert.equal(images.length, 2);
+  for (const image of images) {
+    assert.ok(image.type === 'image');
+    assert.equal(image.mimeType, 'image/png');
+    assert.equal(Buffer.from(image.data, 'base64').subarray(1, 4).toString('ascii'), 'PNG');
+  }
+});
+
+test('edit_image without reference images is reported as a tool error', async () => {
+  const result = (await client.callTool({
+    name: 'edit_image',
+    arguments: { prompt: 'make it snow' }
+  })) as CallToolResult;
+
+  assert.equal(result.isError, true);
+  assert.deepEqual(result.content, [
+    { type: 'text', text: 'edit_image needs at least one of images / image_paths.' }
+  ]);
+});
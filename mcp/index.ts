@@ -0,0 +1,241 @@
+#!/usr/bin/env -S node --experimental-transform-types --no-warnings
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  ASPECT_RATIO_OPTIONS,
+  type AspectRatio,
+  type GenerationSlot,
+  type Resolution,
+  type UploadedImage
+} from '../types.ts';
+import {
+  applyGenerationSlotResult,
+  applyProviderDefaults,
+  configureGenerationScheduler,
+  createPendingGenerationSlots,
+  expandBatchPrompts,
+  listImageProviders,
+  readProviderConfigFromEnv,
+  readSchedulerLimitsFromEnv,
+  requireImageProvider,
+  resolveSettings,
+  runImageGeneration,
+  toSlotDescriptors
+} from '../core/index.ts';
+import { serializeGenerationError } from '../utils/errorHandler.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import { readImageBytes, readReferenceImage } from '../cli/images.ts';
+
+// Every image is inlined in the tool result, so keep batches agent-sized.
+const MAX_IMAGES_PER_CALL = 8;
+
+const aspectRatioValues = ASPECT_RATIO_OPTIONS.map((option) => option.value) as [
+  AspectRatio,
+  ...AspectRatio[]
+];
+
+const generationShape = {
+  prompt: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'What to generate (or how to edit the reference images). Supports {a|b} variants and [a,b]x[c,d] matrices.'
+    ),
+  n: z.number().int().min(1).max(MAX_IMAGES_PER_CALL).default(1).describe('Number of images per prompt variant'),
+  aspect_ratio: z.enum(aspectRatioValues).default('Auto'),
+  resolution: z.enum(['1K', '2K', '4K']).default('1K'),
+  provider: z.string().optional().describe('Provider id from list_models; defaults to BANANA_PROVIDER'),
+  model: z.string().optional().describe('Model name; defaults to the provider default')
+};
+
+const inlineImageSchema = z.object({
+  data: z.string().describe('Base64 image data or a data URI'),
+  mimeType: z.string().default('image/png')
+});
+
+interface GenerationArgs {
+  prompt: string;
+  n: number;
+  aspect_ratio: AspectRatio;
+  resolution: Resolution;
+  provider?: string;
+  model?: string;
+}
+
+function toUploadedImage(image: z.infer<typeof inlineImageSchema>): UploadedImage {
+  const data = image.data.startsWith('data:')
+    ? image.data
+    : `data:${image.mimeType};base64,${image.data}`;
+  return { id: generateUUID(), data, mimeType: data.slice(5, data.indexOf(';')) };
+}
+
+async function toImageContent(slot: Extract<GenerationSlot, { status: 'success' }>) {
+  const { bytes, mimeType } = await readImageBytes(slot.image.data);
+  return {
+    type: 'image' as const,
+    data: bytes.toString('base64'),
+    mimeType: mimeType || slot.image.mimeType
+  };
+}
+
+/**
+ * Runs one batch and maps slots onto MCP content: an overview line, one image
+ * block per success, and the `GenerationErrorInfo` of each failed slot.
+ */
+async function runGenerationTool(
+  args: GenerationArgs,
+  uploadedImages: UploadedImage[],
+  signal: AbortSignal
+): Promise<CallToolResult> {
+  const envConfig = readProviderConfigFromEnv(process.env, args.provider);
+  if (envConfig.provider) requireImageProvider(envConfig.provider);
+  const settings = resolveSettings(
+    { batchSize: args.n, aspectRatio: args.aspect_ratio, resolution: args.resolution },
+    applyProviderDefaults({ ...envConfig, ...(args.model ? { model: args.model } : {}) })
+  );
+
+  let slots: GenerationSlot[] = [];
+  const text: string[] = [];
+
+  try {
+    slots = createPendingGenerationSlots(
+      expandBatchPrompts(args.prompt, args.n, { maxPrompts: MAX_IMAGES_PER_CALL })
+    );
+    await runImageGeneration({
+      prompt: args.prompt,
+      uploadedImages,
+      settings,
+      slots: toSlotDescriptors(slots),
+      signal,
+      callbacks: {
+        onSlotResult: (result) => {
+          slots = applyGenerationSlotResult(slots, result);
+        },
+        onText: (chunk) => text.push(chunk)
+      }
+    });
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{ type: 'text', text: JSON.stringify({ error: serializeGenerationError(error, 0) }) }]
+    };
+  }
+
+  const content: CallToolResult['content'] = [];
+  const succeeded = slots.filter(
+    (slot): slot is Extract<GenerationSlot, { status: 'success' }> => slot.status === 'success'
+  );
+  content.push({
+    type: 'text',
+    text:
+      `${succeeded.length}/${slots.length} images generated with ` +
+      `${settings.providerConfig.provider}${settings.providerConfig.model ? ` (${settings.providerConfig.model})` : ''}.` +
+      (text.length > 0 ? `\n\n${text.join('\n')}` : '')
+  });
+
+  for (const slot of slots) {
+    if (slot.status === 'success') {
+      if (slot.prompt !== undefined && slot.prompt !== args.prompt) {
+        content.push({ type: 'text', text: JSON.stringify({ slot: slot.index, prompt: slot.prompt }) });
+      }
+      content.push(await toImageContent(slot));
+    } else if (slot.status === 'failed') {
+      content.push({ type: 'text', text: JSON.stringify({ slot: slot.index, error: slot.error }) });
+    } else if (slot.status === 'cancelled') {
+      content.push({ type: 'text', text: JSON.stringify({ slot: slot.index, cancelled: slot.reason }) });
+    }
+  }
+
+  return { isError: succeeded.length === 0, content };
+}
+
+export function createMcpServer(): McpServer {
+  const server = new McpServer({ name: 'banana-batch', version: '0.0.0' });
+
+  server.registerTool(
+    'generate_image',
+    {
+      title: 'Generate images',
+      description: 'Generate one or more images from a text prompt with Banana Batch.',
+      inputSchema: generationShape
+    },
+    (args, extra) => runGenerationTool(args, [], extra.signal)
+  );
+
+  server.registerTool(
+    'edit_image',
+    {
+      title: 'Edit images',
+      description:
+        'Generate new images from a prompt plus reference images, e.g. to edit, restyle or combine them.',
+      inputSchema: {
+        ...generationShape,
+        images: z.array(inlineImageSchema).optional().describe('Inline reference images'),
+        image_paths: z.array(z.string()).optional().describe('Local reference image files')
+      }
+    },
+    async ({ images = [], image_paths = [], ...args }, extra) => {
+      const uploadedImages = [
+        ...images.map(toUploadedImage),
+        ...(await Promise.all(image_paths.map(readReferenceImage)))
+      ];
+      if (uploadedImages.length === 0) {
+        return {
+          isError: true,
+          content: [{ type: 'text', text: 'edit_image needs at least one of images / image_paths.' }]
+        };
+      }
+      return runGenerationTool(args, uploadedImages, extra.signal);
+    }
+  );
+
+  server.registerTool(
+    'list_models',
+    {
+      title: 'List models',
+      description: 'List the registered image providers, their default models and whether a key is configured.',
+      annotations: { readOnlyHint: true }
+    },
+    () => {
+      const defaults = readProviderConfigFromEnv(process.env);
+      const providers = listImageProviders().map((provider) => ({
+        id: provider.id,
+        label: provider.label,
+        defaultModel: provider.defaultModel,
+        aspectRatios: provider.capabilities.aspectRatios,
+        resolutions: provider.capabilities.resolutions,
+        supportsReferenceImages: provider.capabilities.supportsReferenceImages,
+        configured:
+          !provider.capabilities.requiresApiKey ||
+          Boolean(readProviderConfigFromEnv(process.env, provider.id).apiKey)
+      }));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { defaultProvider: resolveSettings(undefined, defaults).providerConfig.provider, providers },
+              null,
+              2
+            )
+          }
+        ]
+      };
+    }
+  );
+
+  return server;
+}
+
+// Resolve the npm bin symlink and URL-encode the path before comparing.
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  // stdout carries the MCP protocol; route the services' debug logging to stderr.
+  console.log = console.error;
+  configureGenerationScheduler(readSchedulerLimitsFromEnv(process.env));
+  await createMcpServer().connect(new StdioServerTransport());
+}
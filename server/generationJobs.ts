@@ -0,0 +1,160 @@
+import type {
+  AppSettings,
+  GenerationSlot,
+  GenerationSlotResult
+} from '../types.ts';
+import {
+  applyGenerationSlotResult,
+  cancelPendingGenerationSlots,
+  failPendingGenerationSlots,
+  getGenerationSlotProgress,
+  runImageGeneration,
+  toSlotDescriptors,
+  type GenerationRequest,
+  type GenerationSlotProgress
+} from '../core/index.ts';
+import { serializeGenerationError } from '../utils/errorHandler.ts';
+import { generateUUID } from '../utils/uuid.ts';
+
+export type GenerationJobStatus = 'running' | 'completed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  prompt: string;
+  settings: Omit<AppSettings, 'providerConfig'> & { provider: string; model?: string };
+  slots: GenerationSlot[];
+  text: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type GenerationJobEvent =
+  | { type: 'slot'; result: GenerationSlotResult }
+  | { type: 'text'; text: string }
+  | { type: 'done'; job: GenerationJobSnapshot };
+
+export type GenerationJobSnapshot = GenerationJob & { progress: GenerationSlotProgress };
+
+type JobListener = (event: GenerationJobEvent) => void;
+
+interface JobEntry {
+  job: GenerationJob;
+  controller: AbortController;
+  listeners: Set<JobListener>;
+}
+
+export type GenerationJobInput = Omit<GenerationRequest, 'signal' | 'callbacks' | 'slots'> & {
+  settings: AppSettings;
+  slots: GenerationSlot[];
+};
+
+// Finished jobs are kept around so clients can still poll their final state.
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export function toJobSnapshot(job: GenerationJob): GenerationJobSnapshot {
+  return { ...job, progress: getGenerationSlotProgress(job.slots) };
+}
+
+/**
+ * In-memory registry of server-side generation jobs. Each job owns an
+ * AbortController and fans slot results out to SSE subscribers.
+ */
+export function createGenerationJobStore() {
+  const entries = new Map<string, JobEntry>();
+
+  const emit = (entry: JobEntry, event: GenerationJobEvent) => {
+    for (const listener of entry.listeners) {
+      listener(event);
+    }
+  };
+
+  const finish = (entry: JobEntry) => {
+    const { job } = entry;
+    job.status = entry.controller.signal.aborted ? 'cancelled' : 'completed';
+    job.slots = cancelPendingGenerationSlots(job.slots, toSlotDescriptors(job.slots));
+    job.updatedAt = Date.now();
+    emit(entry, { type: 'done', job: toJobSnapshot(job) });
+    entry.listeners.clear();
+    setTimeout(() => entries.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+  };
+
+  const create = (input: GenerationJobInput): GenerationJob => {
+    const { providerConfig, ...settings } = input.settings;
+    const now = Date.now();
+    const job: GenerationJob = {
+      id: generateUUID(),
+      status: 'running',
+      prompt: input.prompt,
+      settings: { ...settings, provider: providerConfig.provider, model: providerConfig.model },
+      slots: input.slots,
+      text: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    const entry: JobEntry = { job, controller: new AbortController(), listeners: new Set() };
+    entries.set(job.id, entry);
+
+    runImageGeneration({
+      prompt: input.prompt,
+      history: input.history,
+      uploadedImages: input.uploadedImages,
+      settings: input.settings,
+      slots: toSlotDescriptors(input.slots),
+      signal: entry.controller.signal,
+      callbacks: {
+        onSlotResult: (result) => {
+          job.slots = applyGenerationSlotResult(job.slots, result);
+          job.updatedAt = Date.now();
+          emit(entry, { type: 'slot', result });
+        },
+        onText: (text) => {
+          job.text.push(text);
+          job.updatedAt = Date.now();
+          emit(entry, { type: 'text', text });
+        }
+      }
+    })
+      .catch((error) => {
+        job.slots = failPendingGenerationSlots(
+          job.slots,
+          toSlotDescriptors(job.slots),
+          serializeGenerationError(error, 0)
+        );
+      })
+      .finally(() => finish(entry));
+
+    return job;
+  };
+
+  const get = (id: string): GenerationJob | undefined => entries.get(id)?.job;
+
+  const cancel = (id: string): GenerationJob | undefined => {
+    const entry = entries.get(id);
+    if (entry?.job.status === 'running') {
+      entry.controller.abort();
+    }
+    return entry?.job;
+  };
+
+  /**
+   * Returns an unsubscribe function, or `undefined` when the job is unknown
+   * or already finished (callers should send the snapshot instead).
+   */
+  const subscribe = (id: string, listener: JobListener): (() => void) | undefined => {
+    const entry = entries.get(id);
+    if (!entry || entry.job.status !== 'running') return undefined;
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+  };
+
+  const cancelAll = () => {
+    for (const entry of entries.values()) {
+      entry.controller.abort();
+    }
+  };
+
+  return { create, get, cancel, subscribe, cancelAll };
+}
+
+export type GenerationJobStore = ReturnType<typeof createGenerationJobStore>;
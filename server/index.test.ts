@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { createApiServer, readServerConfig } from './index.ts';
+import type { GenerationJobSnapshot } from './generationJobs.ts';
+
+const server = createApiServer(readServerConfig({ BANANA_PROVIDER: 'mock' }));
+let baseUrl = '';
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function postGeneration(body: unknown): Promise<Response> {
+  return fetch(`${baseUrl}/generations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+async function waitForJob(id: string): Promise<GenerationJobSnapshot> {
+  for (;;) {
+    const job = (await (await fetch(`${baseUrl}/generations/${id}`)).json()) as GenerationJobSnapshot;
+    if (job.status !== 'running') return job;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+test('client-supplied apiKey and baseUrl are rejected', async () => {
+  for (const providerConfig of [{ provider: 'mock', apiKey: 'sk-client' }, { baseUrl: 'https://evil.example' }]) {
+    const response = await postGeneration({ prompt: 'a lighthouse', providerConfig });
+    assert.equal(response.status, 400);
+    const body = (await response.json()) as { error: { message: string; code: string } };
+    assert.equal(body.error.code, 'VALIDATION_ERROR');
+    assert.match(body.error.message, /Key 与 Base URL 由服务端配置/);
+  }
+});
+
+test('invalid bodies get 400 with the failing field', async () => {
+  const empty = await postGeneration({ prompt: '   ' });
+  assert.equal(empty.status, 400);
+  assert.match(((await empty.json()) as { error: { message: string } }).error.message, /提示词不能为空/);
+
+  const malformed = await postGeneration('{not json');
+  assert.equal(malformed.status, 400);
+  assert.deepEqual(await malformed.json(), { error: { message: 'Request body must be valid JSON' } });
+});
+
+test('a mock-provider generation runs to completion', async () => {
+  const response = await postGeneration({
+    prompt: 'a lighthouse at dusk',
+    settings: { batchSize: 2, aspectRatio: '1:1', resolution: '1K' }
+  });
+  assert.equal(response.status, 202);
+  const created = (await response.json()) as GenerationJobSnapshot;
+  assert.equal(response.headers.get('location'), `/generations/${created.id}`);
+  assert.equal(created.settings.provider, 'mock');
+
+  const job = await waitForJob(created.id);
+  assert.equal(job.status, 'completed');
+  assert.deepEqual(job.slots.map((slot) => slot.status), ['success', 'success']);
+  for (const slot of job.slots) {
+    assert.ok(slot.status === 'success');
+    assert.match(slot.image.data, /^data:image\/png;base64,/);
+  }
+});
+
+test('unknown routes, jobs and methods map to HTTP errors', async () => {
+  const missingJob = await fetch(`${baseUrl}/generations/does-not-exist`);
+  assert.equal(missingJob.status, 404);
+  assert.deepEqual(await missingJob.json(), { error: { message: 'Unknown generation job: does-not-exist' } });
+
+  const unknownRoute = await fetch(`${baseUrl}/nope`);
+  assert.equal(unknownRoute.status, 404);
+  await unknownRoute.body?.cancel();
+
+  const wrongMethod = await fetch(`${baseUrl}/generations/some-id`, { method: 'PUT' });
+  assert.equal(wrongMethod.status, 405);
+  await wrongMethod.body?.cancel();
+});
+
+test('a bearer token is required when configured', async () => {
+  const guarded = createApiServer(readServerConfig({ BANANA_PROVIDER: 'mock', BANANA_SERVER_TOKEN: 'secret' }));
+  await new Promise<void>((resolve) => guarded.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(guarded.address() as AddressInfo).port}/health`;
+  try {
+    const denied = await fetch(url);
+    assert.equal(denied.status, 401);
+    await denied.body?.cancel();
+
+    const allowed = await fetch(url, { headers: { Authorization: 'Bearer secret' } });
+    assert.deepEqual(await allowed.json(), { ok: true });
+  } finally {
+    guarded.closeAllConnections();
+    guarded.close();
+  }
+});
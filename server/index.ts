@@ -0,0 +1,258 @@
+#!/usr/bin/env -S node --experimental-transform-types --no-warnings
+import { realpathSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import {
+  applyProviderDefaults,
+  configureGenerationScheduler,
+  createPendingGenerationSlots,
+  expandBatchPrompts,
+  listImageProviders,
+  readProviderConfigFromEnv,
+  readSchedulerLimitsFromEnv,
+  requireImageProvider,
+  resolveSettings
+} from '../core/index.ts';
+import type { GenerationSlot, ProviderConfig } from '../types.ts';
+import { AppError, ValidationError } from '../types/errors.ts';
+import {
+  createGenerationJobStore,
+  toJobSnapshot,
+  type GenerationJobEvent,
+  type GenerationJobStore
+} from './generationJobs.ts';
+import { parseGenerationRequestBody } from './requestSchema.ts';
+
+type EnvSource = Record<string, string | undefined>;
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  token?: string;
+  maxBodyBytes: number;
+  env: EnvSource;
+}
+
+const SSE_HEARTBEAT_MS = 15_000;
+
+class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function readServerConfig(env: EnvSource): ServerConfig {
+  return {
+    host: env.BANANA_SERVER_HOST?.trim() || '127.0.0.1',
+    port: Number(env.BANANA_SERVER_PORT) || 8787,
+    token: env.BANANA_SERVER_TOKEN?.trim() || undefined,
+    maxBodyBytes: (Number(env.BANANA_SERVER_MAX_BODY_MB) || 50) * 1024 * 1024,
+    env
+  };
+}
+
+/**
+ * Builds the provider config for a request from server-side env only; clients
+ * may pick provider/model but never see or supply keys.
+ */
+function resolveServerProviderConfig(
+  env: EnvSource,
+  requested?: { provider?: string; model?: string }
+): Partial<ProviderConfig> {
+  const envConfig = readProviderConfigFromEnv(env, requested?.provider);
+  if (envConfig.provider) requireImageProvider(envConfig.provider);
+
+  return applyProviderDefaults({
+    ...envConfig,
+    ...(requested?.model ? { model: requested.model } : {})
+  });
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function writeSseEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function streamJobEvents(
+  req: IncomingMessage,
+  res: ServerResponse,
+  jobs: GenerationJobStore,
+  jobId: string
+): void {
+  const job = jobs.get(jobId);
+  if (!job) throw new HttpError(404, `Unknown generation job: ${jobId}`);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  writeSseEvent(res, 'snapshot', toJobSnapshot(job));
+
+  const unsubscribe = jobs.subscribe(jobId, (event: GenerationJobEvent) => {
+    if (event.type === 'slot') writeSseEvent(res, 'slot', event.result);
+    if (event.type === 'text') writeSseEvent(res, 'text', { text: event.text });
+    if (event.type === 'done') {
+      writeSseEvent(res, 'done', event.job);
+      cleanup();
+      res.end();
+    }
+  });
+
+  if (!unsubscribe) {
+    writeSseEvent(res, 'done', toJobSnapshot(job));
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  req.on('close', cleanup);
+}
+
+async function createJob(req: IncomingMessage, res: ServerResponse, jobs: GenerationJobStore, config: ServerConfig) {
+  const body = parseGenerationRequestBody(await readJsonBody(req, config.maxBodyBytes));
+  const providerConfig = resolveServerProviderConfig(config.env, body.providerConfig);
+  const settings = resolveSettings(body.settings, providerConfig);
+  const provider = requireImageProvider(settings.providerConfig.provider);
+
+  if (provider.capabilities.requiresApiKey && !settings.providerConfig.apiKey) {
+    throw new HttpError(503, `Server has no API key configured for provider "${provider.id}"`);
+  }
+
+  const slots: GenerationSlot[] = body.slots
+    ? body.slots.map((slot) => ({ ...slot, status: 'pending', attempts: 0 }))
+    : createPendingGenerationSlots(
+        expandBatchPrompts(body.prompt, settings.batchSize, { wildcards: body.wildcards })
+      );
+
+  const job = jobs.create({
+    prompt: body.prompt,
+    history: body.history,
+    uploadedImages: body.uploadedImages,
+    settings: { ...settings, batchSize: slots.length },
+    slots
+  });
+
+  res.setHeader('Location', `/generations/${job.id}`);
+  sendJson(res, 202, toJobSnapshot(job));
+}
+
+function listProviders(env: EnvSource) {
+  return listImageProviders().map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    defaultModel: provider.defaultModel,
+    capabilities: provider.capabilities,
+    configured:
+      !provider.capabilities.requiresApiKey ||
+      Boolean(readProviderConfigFromEnv(env, provider.id).apiKey)
+  }));
+}
+
+export function createApiServer(config: ServerConfig, jobs: GenerationJobStore = createGenerationJobStore()) {
+  return createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean);
+
+      if (config.token && req.headers.authorization !== `Bearer ${config.token}`) {
+        throw new HttpError(401, 'Missing or invalid bearer token');
+      }
+
+      if (req.method === 'GET' && url.pathname === '/health') {
+        return sendJson(res, 200, { ok: true });
+      }
+      if (req.method === 'GET' && url.pathname === '/providers') {
+        return sendJson(res, 200, { providers: listProviders(config.env) });
+      }
+
+      if (segments[0] !== 'generations' || segments.length > 3) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+
+      if (segments.length === 1 && req.method === 'POST') {
+        return await createJob(req, res, jobs, config);
+      }
+
+      const jobId = segments[1];
+      if (segments.length === 3 && segments[2] === 'events' && req.method === 'GET') {
+        return streamJobEvents(req, res, jobs, jobId);
+      }
+      if (segments.length === 2 && (req.method === 'GET' || req.method === 'DELETE')) {
+        const job = req.method === 'DELETE' ? jobs.cancel(jobId) : jobs.get(jobId);
+        if (!job) throw new HttpError(404, `Unknown generation job: ${jobId}`);
+        return sendJson(res, 200, toJobSnapshot(job));
+      }
+
+      throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        return sendJson(res, error.statusCode, { error: { message: error.message } });
+      }
+      if (error instanceof ValidationError) {
+        return sendJson(res, 400, { error: { message: error.userMessage, code: error.code } });
+      }
+      if (error instanceof AppError) {
+        return sendJson(res, 500, { error: { message: error.message, code: error.code } });
+      }
+      sendJson(res, 500, { error: { message: error instanceof Error ? error.message : String(error) } });
+    }
+  });
+}
+
+// Resolve the npm bin symlink and URL-encode the path before comparing.
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  const config = readServerConfig(process.env);
+  configureGenerationScheduler(readSchedulerLimitsFromEnv(process.env));
+  const jobs = createGenerationJobStore();
+  const server = createApiServer(config, jobs);
+
+  // Keep request/response dumps from the services out of the server log by default.
+  if (!process.env.BANANA_SERVER_VERBOSE) {
+    console.log = () => {};
+  }
+
+  server.listen(config.port, config.host, () => {
+    console.info(`Banana Batch API listening on http://${config.host}:${config.port}`);
+  });
+
+  process.once('SIGINT', () => {
+    jobs.cancelAll();
+    server.close();
+    server.closeAllConnections();
+  });
+}
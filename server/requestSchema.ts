@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { ASPECT_RATIO_OPTIONS, type Message, type UploadedImage } from '../types.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+import { ValidationError } from '../types/errors.ts';
+
+const aspectRatioValues = ASPECT_RATIO_OPTIONS.map((option) => option.value) as [
+  (typeof ASPECT_RATIO_OPTIONS)[number]['value'],
+  ...(typeof ASPECT_RATIO_OPTIONS)[number]['value'][]
+];
+
+const uploadedImageSchema = z.object({
+  id: z.string().optional(),
+  data: z.string().startsWith('data:image/', '参考图必须是 base64 data URI'),
+  mimeType: z.string(),
+  name: z.string().optional()
+});
+
+// History is forwarded to the services as-is; only the fields they branch on are checked.
+const historyMessageSchema = z.looseObject({
+  id: z.string(),
+  role: z.enum(['user', 'model']),
+  timestamp: z.number().default(0)
+});
+
+/**
+ * Body of `POST /generations`: a `GenerationRequest` without signal/callbacks.
+ * `apiKey` / `baseUrl` are server-side config and rejected here on purpose.
+ */
+export const generationRequestBodySchema = z.object({
+  prompt: z
+    .string()
+    .trim()
+    .min(1, '提示词不能为空')
+    .max(VALIDATION_LIMITS.MAX_PROMPT_LENGTH, `提示词不能超过 ${VALIDATION_LIMITS.MAX_PROMPT_LENGTH} 字符`),
+  history: z.array(historyMessageSchema).optional(),
+  uploadedImages: z
+    .array(uploadedImageSchema)
+    .max(VALIDATION_LIMITS.MAX_IMAGES_PER_REQUEST, `最多上传 ${VALIDATION_LIMITS.MAX_IMAGES_PER_REQUEST} 张参考图`)
+    .optional(),
+  settings: z
+    .object({
+      batchSize: z
+        .number()
+        .int()
+        .min(VALIDATION_LIMITS.MIN_BATCH_SIZE)
+        .max(VALIDATION_LIMITS.MAX_BATCH_SIZE),
+      aspectRatio: z.enum(aspectRatioValues),
+      resolution: z.enum(['1K', '2K', '4K'])
+    })
+    .partial()
+    .optional(),
+  providerConfig: z
+    .strictObject({
+      provider: z.string().min(1).optional(),
+      model: z.string().min(1).optional()
+    }, 'providerConfig 只允许 provider / model，Key 与 Base URL 由服务端配置')
+    .optional(),
+  // Lists for `__name__` placeholders in a dynamic prompt template.
+  wildcards: z.record(z.string(), z.array(z.string())).optional(),
+  slots: z
+    .array(z.object({
+      slotId: z.string().min(1),
+      index: z.number().int().min(0),
+      prompt: z.string().min(1).optional()
+    }))
+    .min(1)
+    .max(VALIDATION_LIMITS.MAX_DYNAMIC_PROMPT_SLOTS)
+    .optional()
+});
+
+export type GenerationRequestBody = Omit<
+  z.infer<typeof generationRequestBodySchema>,
+  'history' | 'uploadedImages'
+> & {
+  history?: Message[];
+  uploadedImages?: UploadedImage[];
+};
+
+export function parseGenerationRequestBody(body: unknown): GenerationRequestBody {
+  const result = generationRequestBodySchema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? issue.path.join('.') : undefined;
+    throw new ValidationError(issue.message, field);
+  }
+
+  const { history, uploadedImages, ...rest } = result.data;
+  return {
+    ...rest,
+    history: history as Message[] | undefined,
+    uploadedImages: uploadedImages?.map((image, index) => ({
+      ...image,
+      id: image.id ?? `upload-${index}`
+    }))
+  };
+}
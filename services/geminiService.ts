@@ -1,53 +1,34 @@
-import { GoogleGenAI, Content, Part } from "@google/genai";
-import {
+import { GoogleGenAI, type Content, type Part } from "@google/genai";
+import type {
   Message,
   GeneratedImage,
   AppSettings,
   UploadedImage,
+  GenerationErrorInfo,
   GenerationSlotDescriptor,
-  GenerationSlotResult
-} from "../types";
-import { generateUUID } from "../utils/uuid";
-import { logError, serializeGenerationError } from "../utils/errorHandler";
+  GenerationSlotResult,
+  ConversationContext,
+  PartialImage
+} from "../types.ts";
+import { generateUUID } from "../utils/uuid.ts";
 import {
   validateApiKey,
-  validatePrompt,
-  VALIDATION_LIMITS
-} from "../utils/validation";
-import { ImageProcessingError, SafetyFilterError, ValidationError } from "../types/errors";
-import { getSuccessfulImages } from "../core/generationSlots";
+  validatePrompt
+} from "../utils/validation.ts";
+import { ImageProcessingError, SafetyFilterError, ValidationError } from "../types/errors.ts";
+import { selectContextTurns } from "../core/conversationContext.ts";
+import {
+  addImageOrderPreamble,
+  addMaskAnnotations,
+  collectHistoryImages,
+  getBase64Data,
+  toUploadContextImages
+} from "../core/contextImages.ts";
+import { resolveRetryPolicy } from "../core/retryPolicy.ts";
+import { executeSlots } from "../core/slotExecutor.ts";
+import type { ImageProviderRequestPreview } from "../core/providerRegistry.ts";
 
 const MODEL_PRO = 'gemini-3-pro-image-preview';
-const MAX_CONCURRENT_REQUESTS = 10;
-const MAX_RETRIES = 3; 
-
-/**
- * Extracts base64 data from a data URI safely
- */
-function extractBase64Data(dataUri: string, imageId?: string): {
-  mimeType: string;
-  base64Data: string;
-} | null {
-  const base64Match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
-  if (!base64Match) {
-    logError('Image Processing', new ImageProcessingError(
-      `Invalid image data format${imageId ? ` for image ${imageId}` : ''}`
-    ));
-    return null;
-  }
-
-  const [, mimeTypeFromData, base64Data] = base64Match;
-  const finalMimeType = mimeTypeFromData || 'image/png';
-
-  if (!base64Data || base64Data.length === 0) {
-    logError('Image Processing', new ImageProcessingError(
-      `Empty base64 data${imageId ? ` for image ${imageId}` : ''}`
-    ));
-    return null;
-  }
-
-  return { mimeType: finalMimeType, base64Data };
-}
 
 interface ImageInput {
   mimeType: string;
@@ -55,49 +36,45 @@ interface ImageInput {
 }
 
 /**
- * Collects selected model images to be used as input for the current request.
+ * Constructs the conversation history formatted for the Gemini API.
+ * Text only; selected images are attached to the current turn.
  */
-function collectSelectedImages(messages: Message[]): ImageInput[] {
-  const selectedImages: ImageInput[] = [];
-
-  for (const msg of messages) {
-    if (msg.role !== 'model' || !msg.selectedImageId) {
-      continue;
-    }
-
-    const selectedImg = getSuccessfulImages(msg).find((img) => img.id === msg.selectedImageId);
-    if (!selectedImg || selectedImg.status !== 'success') {
-      continue;
-    }
-
-    const imageData = extractBase64Data(selectedImg.data, selectedImg.id);
-    if (!imageData) {
-      continue;
-    }
-
-    const estimatedSizeMB = (imageData.base64Data.length * 3 / 4) / (1024 * 1024);
-    if (estimatedSizeMB > VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB) {
-      logError('Image Processing', new ImageProcessingError(
-        `Selected image ${selectedImg.id} is too large (${estimatedSizeMB.toFixed(2)}MB)`
-      ));
-      continue;
-    }
-
-    selectedImages.push({
-      mimeType: imageData.mimeType,
-      base64Data: imageData.base64Data
-    });
-  }
-
-  return selectedImages;
+function buildHistory(messages: Message[], context?: ConversationContext) {
+  return selectContextTurns(messages, context).flatMap((turn) => [
+    { role: 'user' as const, parts: [{ text: turn.prompt }] },
+    { role: 'model' as const, parts: [{ text: turn.response }] }
+  ]);
 }
 
 /**
- * Constructs the conversation history formatted for the Gemini API.
- * Intentionally empty: prior text is not carried forward.
+ * Prompt and images of the current turn: selected history images first, then
+ * uploads, then tinted copies of masked uploads. With several images, the
+ * order the prompt's 图一/第2张 refer to is spelled out.
  */
-function buildHistory(_messages: Message[]): Content[] {
-  return [];
+function prepareGeminiReferences(prompt: string, history: Message[], uploadedImages?: UploadedImage[]) {
+  const uploads = toUploadContextImages(uploadedImages);
+  const annotated = addMaskAnnotations(prompt, [...collectHistoryImages(history), ...uploads]);
+  return {
+    prompt: prompt ? addImageOrderPreamble(annotated.prompt, annotated.images.length) : annotated.prompt,
+    images: annotated.images,
+    uploadsRejected: !!uploadedImages?.length && uploads.length === 0
+  };
+}
+
+// Same image order and prompt as the request; earlier turns follow the context mode.
+export function previewGeminiRequest(
+  prompt: string,
+  history: Message[],
+  uploadedImages?: UploadedImage[]
+): ImageProviderRequestPreview {
+  const references = prepareGeminiReferences(prompt, history, uploadedImages);
+  return {
+    route: 'gemini',
+    prompt: references.prompt,
+    images: references.images,
+    sendsHistory: true,
+    error: references.uploadsRejected ? '上传的图片均无法处理，请检查格式和大小' : undefined
+  };
 }
 
 function buildGeminiEndpoint(baseUrl: string, modelName: string): string {
@@ -125,6 +102,18 @@ function buildGeminiEndpoint(baseUrl: string, modelName: string): string {
   return `${normalized}/v1beta/models/${modelName}:generateContent`;
 }
 
+// Carries status and headers so retries can classify it and honour Retry-After.
+class GeminiHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly headers?: Headers
+  ) {
+    super(message);
+    this.name = 'GeminiHttpError';
+  }
+}
+
 function appendKeyParam(url: string, apiKey: string): string {
   if (!apiKey || url.includes('key=')) {
     return url;
@@ -164,8 +153,10 @@ async function fetchGeminiGenerateContent(
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => '');
-    throw new ImageProcessingError(
-      `Gemini proxy error (${response.status}): ${errorText || response.statusText}`
+    throw new GeminiHttpError(
+      `Gemini proxy error (${response.status}): ${errorText || response.statusText}`,
+      response.status,
+      response.headers
     );
   }
 
@@ -177,13 +168,11 @@ async function fetchGeminiGenerateContent(
   return data;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 export interface StreamCallbacks {
   onSlotResult: (result: GenerationSlotResult) => void;
   onText: (text: string) => void;
+  onAttemptFailed?: (slotId: string, error: GenerationErrorInfo) => void; // Every failed attempt, retried or not
+  onSlotPartialImage?: (slotId: string, image: PartialImage) => void; // Streamed preview frames
 }
 
 /**
@@ -214,7 +203,7 @@ export async function generateImageBatchStream(
   // Initialize the client per request with the provided key
   const ai = useProxy ? null : new GoogleGenAI({ apiKey });
   
-  const formattedHistory = buildHistory(history);
+  const formattedHistory = buildHistory(history, settings.context);
   
   // Build user message parts according to Gemini API best practices
   // Reference: https://ai.google.dev/gemini-api/docs/image-generation
@@ -222,87 +211,22 @@ export async function generateImageBatchStream(
   const userParts: Part[] = [];
   const userPartsProxy: Array<Record<string, unknown>> = [];
   
-  // Process and validate images first
-  const imageInputs: ImageInput[] = [];
-  const selectedImages = collectSelectedImages(history);
-  if (selectedImages.length > 0) {
-    imageInputs.push(...selectedImages);
-  }
-
-  const uploadedImageInputs: ImageInput[] = [];
-  if (uploadedImages && uploadedImages.length > 0) {
-    for (const img of uploadedImages) {
-      const imageData = extractBase64Data(img.data, img.id);
-      if (!imageData) {
-        continue; // Skip invalid images, error already logged
-      }
-
-      // Estimate image size (base64 is ~33% larger than binary)
-      const estimatedSizeMB = (imageData.base64Data.length * 3 / 4) / (1024 * 1024);
-
-      // Gemini API typically has a limit of ~20MB per image
-      if (estimatedSizeMB > VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB) {
-        logError('Image Processing', new ImageProcessingError(
-          `Image ${img.id} is too large (${estimatedSizeMB.toFixed(2)}MB)`
-        ));
-        continue;
-      }
-
-      uploadedImageInputs.push({
-        mimeType: imageData.mimeType,
-        base64Data: imageData.base64Data
-      });
-    }
-
-    // Throw error if no valid images were processed
-    if (uploadedImageInputs.length === 0 && uploadedImages.length > 0) {
-      throw new ImageProcessingError(
-        'No valid images could be processed. Please check image format and size.'
-      );
-    }
-  }
-
-  if (uploadedImageInputs.length > 0) {
-    imageInputs.push(...uploadedImageInputs);
+  const references = prepareGeminiReferences(prompt, history, uploadedImages);
+  if (references.uploadsRejected) {
+    throw new ImageProcessingError(
+      'No valid images could be processed. Please check image format and size.'
+    );
   }
+  const imageInputs: ImageInput[] = references.images.map((image) => ({
+    mimeType: image.mimeType,
+    base64Data: getBase64Data(image)
+  }));
   
   // According to Gemini API docs: text first, then images
   // This order helps the model better understand the context
-  if (prompt) {
-    let enhancedPrompt = prompt;
-    
-    // If there are multiple images, enhance the prompt to clarify image references
-    if (imageInputs.length > 1) {
-      // Check if prompt mentions image numbers (图一/第x张/image 1, etc.)
-      const imageRefPattern = new RegExp(
-        '(?:' +
-          '\\u56fe[\\u4e00\\u4e8c\\u4e09\\u56db\\u4e94\\u516d\\u4e03\\u516b\\u4e5d\\u5341\\d]+' +
-          '|image\\s*[1-9]\\d*' +
-          '|\\u7b2c[\\u4e00\\u4e8c\\u4e09\\u56db\\u4e94\\u516d\\u4e03\\u516b\\u4e5d\\u5341\\d]+\\u5f20' +
-          '|\\u7b2c[1-9]\\d*\\u5f20' +
-        ')',
-        'i'
-      );
-      const hasImageReference = imageRefPattern.test(prompt);
-      
-      if (hasImageReference) {
-        // Add clarification about image order
-        const imageCount = imageInputs.length;
-        const imageLabels = Array.from({ length: imageCount }, (_, i) => {
-          const num = i + 1;
-          const chineseNum = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'][num - 1] || num.toString();
-          return `图${chineseNum}第${num}张上传的图片`;
-        }).join('、');
-        
-        enhancedPrompt = `图片顺序如下${imageLabels}?
-
-${prompt}`;
-      }
-    }
-    
-    // Add text first (following API example pattern)
-    userParts.push({ text: enhancedPrompt });
-    userPartsProxy.push({ text: enhancedPrompt });
+  if (references.prompt) {
+    userParts.push({ text: references.prompt });
+    userPartsProxy.push({ text: references.prompt });
   }
   
   // Then add all images in order
@@ -351,125 +275,73 @@ ${prompt}`;
     imageConfig.imageSize = settings.resolution;
   }
 
-  const config = Object.keys(imageConfig).length > 0 ? { imageConfig } : undefined;
-
-  // Shared task queue
-  const taskQueue = Array.from({ length: slots.length }, (_, i) => i);
-
-  // Worker function
-  const worker = async (workerId: number): Promise<void> => {
-    while (taskQueue.length > 0) {
-      // Check for cancellation
-      if (signal.aborted) return;
-
-      const index = taskQueue.shift();
-      if (index === undefined) break;
-
-      let attempt = 0;
-      let success = false;
-      let lastError: unknown = null;
-
-      while (attempt <= MAX_RETRIES && !success) {
-        if (signal.aborted) return; // Check abort inside retry loop
-
-        try {
-          // Build contents array: history + current user message
-          const contents: Content[] = [
-            ...formattedHistory,
-            { role: 'user' as const, parts: userParts }
-          ];
-
-          const response = useProxy
-            ? await fetchGeminiGenerateContent(
-                proxyBaseUrl,
-                apiKey,
-                modelName,
-                [{ role: 'user', parts: userPartsProxy }],
-                imageConfig,
-                signal
-              )
-            : await ai!.models.generateContent({
-                model: modelName,
-                contents,
-                config
-              });
-
-          const candidate = response.candidates?.[0];
-          if (!candidate) {
-            throw new ImageProcessingError('No candidate returned from API');
-          }
-
-          // Handle safety filter
-          const finishReason = (candidate as any).finishReason || (candidate as any).finish_reason;
-          if (finishReason === 'SAFETY') {
-            throw new SafetyFilterError('Content blocked by safety filters');
-          }
-
-          const content = candidate.content;
-          if (!content?.parts) {
-            throw new ImageProcessingError('No content parts in response');
-          }
-
-          let generatedImage: GeneratedImage | undefined;
-          for (const part of content.parts as any[]) {
-            const inlineData = part.inlineData || part.inline_data;
-            if (inlineData && inlineData.data && !generatedImage) {
-              const mimeType = inlineData.mimeType || inlineData.mime_type || 'image/png';
-              generatedImage = {
-                id: generateUUID(),
-                data: `data:${mimeType};base64,${inlineData.data}`,
-                mimeType,
-                status: 'success'
-              };
-            } else if (part.text) {
-              callbacks.onText(part.text);
+  const retryPolicy = resolveRetryPolicy(settings.providerConfig?.retryPolicy);
+
+  // Build contents array: history + current user message
+  const contents: Content[] = [
+    ...formattedHistory,
+    { role: 'user' as const, parts: userParts }
+  ];
+
+  await executeSlots(
+    { slots, signal, retryPolicy, callbacks, label: 'Gemini', call: { route: 'gemini' } },
+    async ({ signal: attemptSignal, setRequestId }) => {
+      const response = useProxy
+        ? await fetchGeminiGenerateContent(
+            proxyBaseUrl,
+            apiKey,
+            modelName,
+            [...formattedHistory, { role: 'user', parts: userPartsProxy }],
+            imageConfig,
+            attemptSignal
+          )
+        : await ai!.models.generateContent({
+            model: modelName,
+            contents,
+            config: {
+              ...(Object.keys(imageConfig).length > 0 ? { imageConfig } : {}),
+              abortSignal: attemptSignal
             }
-          }
-
-          if (generatedImage) {
-            success = true;
-            callbacks.onSlotResult({
-              ...slots[index],
-              status: 'success',
-              attempts: attempt + 1,
-              image: generatedImage
-            });
-          } else {
-            throw new ImageProcessingError('No image data in response');
-          }
-        } catch (error) {
-          attempt++;
-          lastError = error;
-
-          // Only log errors if not aborted
-          if (!signal.aborted) {
-            logError(`Worker ${workerId} - Image ${index + 1} Attempt ${attempt}`, error);
-          }
-
-          // Retry with exponential backoff
-          const serialized = serializeGenerationError(error, attempt);
-          if (attempt <= MAX_RETRIES && !signal.aborted && serialized.retryable) {
-            const waitTime = 1000 * Math.pow(2, attempt - 1);
-            await delay(waitTime);
-          }
-        }
+          });
+
+      setRequestId(response.responseId);
+
+      const candidate = response.candidates?.[0];
+      if (!candidate) {
+        throw new ImageProcessingError('No candidate returned from API');
       }
 
-      // If failed and not aborted, report error image
-      if (!success && !signal.aborted) {
-        callbacks.onSlotResult({
-          ...slots[index],
-          status: 'failed',
-          attempts: attempt,
-          error: serializeGenerationError(lastError, attempt)
-        });
+      // Handle safety filter
+      const finishReason = (candidate as any).finishReason || (candidate as any).finish_reason;
+      if (finishReason === 'SAFETY') {
+        throw new SafetyFilterError('Content blocked by safety filters');
+      }
+
+      const content = candidate.content;
+      if (!content?.parts) {
+        throw new ImageProcessingError('No content parts in response');
       }
-    }
-  };
 
-  // Start workers
-  const numWorkers = Math.min(MAX_CONCURRENT_REQUESTS, slots.length);
-  const workers = Array.from({ length: numWorkers }, (_, i) => worker(i + 1));
+      let generatedImage: GeneratedImage | undefined;
+      for (const part of content.parts as any[]) {
+        const inlineData = part.inlineData || part.inline_data;
+        if (inlineData && inlineData.data && !generatedImage) {
+          const mimeType = inlineData.mimeType || inlineData.mime_type || 'image/png';
+          generatedImage = {
+            id: generateUUID(),
+            data: `data:${mimeType};base64,${inlineData.data}`,
+            mimeType,
+            status: 'success'
+          };
+        } else if (part.text) {
+          callbacks.onText(part.text);
+        }
+      }
 
-  await Promise.all(workers);
+      if (!generatedImage) {
+        throw new ImageProcessingError('No image data in response');
+      }
+      return generatedImage;
+    }
+  );
 }
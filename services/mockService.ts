@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type {
+  AppSettings,
+  GenerationSlotDescriptor,
+  UploadedImage
+} from '../types.ts';
+import { NetworkError } from '../types/errors.ts';
+import { hashString, renderPlaceholderImage } from '../utils/placeholderImage.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import { VALIDATION_LIMITS } from '../utils/validation.ts';
+import { resolveRetryPolicy } from '../core/retryPolicy.ts';
+import { executeSlots } from '../core/slotExecutor.ts';
+import type { StreamCallbacks } from './geminiService.ts';
+
+export const MOCK_FAILURE_KINDS = ['429', '451', '500', 'timeout', 'moderation'] as const;
+export type MockFailureKind = (typeof MOCK_FAILURE_KINDS)[number];
+
+export const mockProviderOptionsSchema = z.object({
+  latencyMs: z.number().int().min(0).max(60_000).default(800),
+  latencyJitterMs: z.number().int().min(0).max(60_000).default(400),
+  // Probability (0-1) that any single attempt fails.
+  failureRate: z.number().min(0).max(1).default(0),
+  failureKinds: z.array(z.enum(MOCK_FAILURE_KINDS)).default([...MOCK_FAILURE_KINDS]),
+  // Slot indexes that fail on every attempt.
+  failingSlots: z.array(z.number().int().min(0)).default([]),
+  // Every slot fails its first N attempts, then follows failureRate.
+  failFirstAttempts: z.number().int().min(0).max(VALIDATION_LIMITS.MAX_RETRY_ATTEMPTS).default(0),
+  seed: z.number().int().default(0)
+});
+
+export type MockProviderOptions = z.infer<typeof mockProviderOptionsSchema>;
+
+export const DEFAULT_MOCK_PROVIDER_OPTIONS: MockProviderOptions = mockProviderOptionsSchema.parse({});
+
+/**
+ * Mirrors the error shape of the OpenAI SDK so `serializeGenerationError`
+ * classifies injected failures exactly like real ones.
+ */
+class MockHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly requestID: string
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted || ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function createMockFailure(kind: MockFailureKind, requestId: string): Error {
+  switch (kind) {
+    case '429':
+      return new MockHttpError(429, 'rate_limit_exceeded', 'Rate limit reached for mock requests.', requestId);
+    case '451':
+      return new MockHttpError(451, 'unavailable_for_legal_reasons', 'This request is unavailable for legal reasons.', requestId);
+    case '500':
+      return new MockHttpError(500, 'server_error', 'The mock server had an error while processing your request.', requestId);
+    case 'timeout':
+      return new NetworkError('Request timeout (mock)');
+    case 'moderation':
+      return new MockHttpError(400, 'moderation_blocked', 'Your request was rejected by the safety system.', requestId);
+  }
+}
+
+export function resolveMockProviderOptions(options: unknown): MockProviderOptions {
+  return mockProviderOptionsSchema.parse(options ?? {});
+}
+
+/**
+ * Offline provider: renders deterministic placeholder PNGs after a simulated
+ * latency, with optional failure injection to exercise retries and partial
+ * failures without a network.
+ */
+export async function generateImageBatchStreamMock(
+  prompt: string,
+  settings: AppSettings,
+  uploadedImages: UploadedImage[] | undefined,
+  slots: GenerationSlotDescriptor[],
+  callbacks: StreamCallbacks,
+  signal: AbortSignal
+): Promise<void> {
+  const options = resolveMockProviderOptions(settings.providerConfig.options);
+  const retryPolicy = resolveRetryPolicy(settings.providerConfig.retryPolicy);
+  const failingSlots = new Set(options.failingSlots);
+  const failureKinds = options.failureKinds.length > 0 ? options.failureKinds : (['500'] as const);
+  const referenceNote = uploadedImages?.length ? ` [+${uploadedImages.length} REF]` : '';
+
+  await executeSlots(
+    { slots, signal, retryPolicy, callbacks, label: 'Mock', call: { route: 'mock' } },
+    async ({ slot, attempt, signal: attemptSignal }) => {
+      const roll = hashString(`${options.seed}|${prompt}|${slot.index}|${attempt}`);
+      await sleep(options.latencyMs + (roll % (options.latencyJitterMs + 1)), attemptSignal);
+      attemptSignal.throwIfAborted();
+
+      const shouldFail =
+        failingSlots.has(slot.index) ||
+        attempt <= options.failFirstAttempts ||
+        (roll % 10_000) / 10_000 < options.failureRate;
+      if (shouldFail) {
+        const kind = failureKinds[(roll >>> 8) % failureKinds.length];
+        throw createMockFailure(kind, `mock-${roll.toString(16)}`);
+      }
+
+      const image = renderPlaceholderImage({
+        prompt: `${prompt}${referenceNote}`,
+        slotIndex: slot.index,
+        aspectRatio: settings.aspectRatio,
+        resolution: settings.resolution,
+        seed: options.seed
+      });
+      return { id: generateUUID(), data: image.data, mimeType: image.mimeType, status: 'success' };
+    }
+  );
+}
@@ -1,31 +1,51 @@
 import OpenAI from 'openai';
-import {
+import { Stream } from 'openai/streaming';
+import { z } from 'zod';
+import type {
   Message,
   GeneratedImage,
   AppSettings,
   UploadedImage,
-  AspectRatio,
   Resolution,
-  GenerationSlotDescriptor
-} from '../types';
-import { generateUUID } from '../utils/uuid';
-import { logError, serializeGenerationError } from '../utils/errorHandler';
+  GenerationSlotDescriptor,
+  ConversationContext,
+  ImageMask,
+  PartialImage
+} from '../types.ts';
+import { generateUUID } from '../utils/uuid.ts';
 import {
   validateApiKey,
-  validatePrompt,
-  VALIDATION_LIMITS
-} from '../utils/validation';
+  validatePrompt
+} from '../utils/validation.ts';
 import {
   ImageProcessingError,
-  SafetyFilterError,
-  NetworkError
-} from '../types/errors';
-import { StreamCallbacks } from './geminiService';
-import { getSuccessfulImages } from '../core/generationSlots';
-
-const MAX_CONCURRENT_REQUESTS = 10;
-const MAX_RETRIES = 3;
-const REQUEST_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+  SafetyFilterError
+} from '../types/errors.ts';
+import type { StreamCallbacks } from './geminiService.ts';
+import type { ImageProviderRequestPreview } from '../core/providerRegistry.ts';
+import { getSuccessfulImages } from '../core/generationSlots.ts';
+import { selectContextTurns } from '../core/conversationContext.ts';
+import {
+  addMaskAnnotations,
+  collectHistoryImages,
+  takeEditMask,
+  toUploadContextImages,
+  type ContextImage
+} from '../core/contextImages.ts';
+import { resolveRetryPolicy } from '../core/retryPolicy.ts';
+import { executeSlots } from '../core/slotExecutor.ts';
+import { mapAspectRatioToOpenAISize } from '../core/openaiSizes.ts';
+
+export const openaiProviderOptionsSchema = z.object({
+  // Preview frames streamed per image by gpt-image models; 0 waits for the final image
+  partialImages: z.number().int().min(0).max(3).default(0)
+});
+
+export type OpenAIProviderOptions = z.infer<typeof openaiProviderOptionsSchema>;
+
+export function resolveOpenAIProviderOptions(options: unknown): OpenAIProviderOptions {
+  return openaiProviderOptionsSchema.parse(options ?? {});
+}
 
 class OpenAIHttpError extends Error {
   constructor(
@@ -34,27 +54,14 @@ class OpenAIHttpError extends Error {
     public readonly code?: string,
     public readonly type?: string,
     public readonly requestID?: string,
-    public readonly error?: Record<string, unknown>
+    public readonly error?: Record<string, unknown>,
+    public readonly headers?: Headers
   ) {
     super(message);
     this.name = 'OpenAIHttpError';
   }
 }
 
-function isRetryableOpenAIError(error: unknown): boolean {
-  const status = error instanceof OpenAI.APIError
-    ? error.status
-    : error instanceof OpenAIHttpError
-      ? error.status
-      : undefined;
-
-  if (status !== undefined) {
-    return status === 429 || status >= 500;
-  }
-
-  return true;
-}
-
 async function parseOpenAIHttpError(response: Response): Promise<OpenAIHttpError> {
   const responseText = await response.text();
   let body: Record<string, unknown> | undefined;
@@ -84,31 +91,11 @@ async function parseOpenAIHttpError(response: Response): Promise<OpenAIHttpError
     code,
     type,
     requestID,
-    nested
+    nested,
+    response.headers
   );
 }
 
-/**
- * Extracts base64 data from a data URI safely
- */
-function extractBase64Data(
-  dataUri: string
-): { mimeType: string; base64Data: string } | null {
-  const base64Match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
-  if (!base64Match) {
-    return null;
-  }
-
-  const [, mimeTypeFromData, base64Data] = base64Match;
-  const finalMimeType = mimeTypeFromData || 'image/png';
-
-  if (!base64Data || base64Data.length === 0) {
-    return null;
-  }
-
-  return { mimeType: finalMimeType, base64Data };
-}
-
 function shouldUseGeminiCompat(baseUrl: string): boolean {
   const normalized = baseUrl.trim().toLowerCase();
   if (!normalized) return false;
@@ -145,68 +132,40 @@ function hasReferenceImages(
   );
 }
 
-function mapAspectRatioToOpenAISize(
-  aspectRatio: AspectRatio | undefined,
-  model: string,
-  resolution?: Resolution
-): string {
-  const normalizedModel = model.toLowerCase();
-  const useDalleSizes = normalizedModel.includes('dall-e-3');
-  const isGptImage2 = normalizedModel.includes('gpt-image-2');
-
-  if (isGptImage2) {
-    if (!aspectRatio || aspectRatio === 'Auto') return 'auto';
-
-    const [width, height] = aspectRatio.split(':').map(Number);
-    if (!width || !height) return 'auto';
-
-    const longToShortRatio = Math.max(width, height) / Math.min(width, height);
-    if (longToShortRatio > 3) return 'auto';
-
-    const isSquare = width === height;
-    const longEdge = resolution === '4K'
-      ? 3840
-      : resolution === '2K'
-        ? 2048
-        : isSquare
-          ? 1024
-          : 1536;
-
-    let outputWidth = width >= height
-      ? longEdge
-      : Math.round((longEdge * width) / height / 16) * 16;
-    let outputHeight = height >= width
-      ? longEdge
-      : Math.round((longEdge * height) / width / 16) * 16;
-
-    const maxPixels = 8_294_400;
-    const totalPixels = outputWidth * outputHeight;
-    if (totalPixels > maxPixels) {
-      const scale = Math.sqrt(maxPixels / totalPixels);
-      outputWidth = Math.floor((outputWidth * scale) / 16) * 16;
-      outputHeight = Math.floor((outputHeight * scale) / 16) * 16;
-    }
-
-    return `${outputWidth}x${outputHeight}`;
-  }
-
-  if (!aspectRatio || aspectRatio === 'Auto') {
-    return '1024x1024';
-  }
+export type OpenAIRoute = 'images' | 'edits' | 'chat';
 
-  const [width, height] = aspectRatio.split(':').map(Number);
-  if (!width || !height || width === height) {
-    return '1024x1024';
-  }
+/**
+ * Endpoint a request goes to: gpt-image-2 uses the Images API (edits when
+ * there are reference images), nanobanana/Gemini models and Gemini-compatible
+ * base URLs use Chat Completions, everything else the Images API.
+ */
+export function resolveOpenAIRoute(model: string, baseUrl: string, hasRefImages: boolean): OpenAIRoute {
+  if (shouldUseImagesAPI(model)) return hasRefImages ? 'edits' : 'images';
+  if (shouldUseGeminiCompat(baseUrl) || shouldUseChatCompletionsAPI(model)) return 'chat';
+  return 'images';
+}
 
-  if (width < height) {
-    return useDalleSizes ? '1024x1792' : '1024x1536';
+/**
+ * Prompt and reference images as a route sends them. Edits put uploads first
+ * (a masked upload at the very front, since the mask applies to the first
+ * image); chat puts selected history images first and sends masks as tinted
+ * extra references.
+ */
+export function prepareOpenAIReferences(
+  route: OpenAIRoute,
+  prompt: string,
+  history: Message[],
+  uploadedImages: UploadedImage[] | undefined
+): { prompt: string; images: ContextImage[]; mask?: ImageMask } {
+  const historyImages = collectHistoryImages(history);
+  const uploads = toUploadContextImages(uploadedImages);
+  if (route === 'edits') {
+    return { prompt, ...takeEditMask([...uploads, ...historyImages]) };
   }
-
-  return useDalleSizes ? '1792x1024' : '1536x1024';
+  return addMaskAnnotations(prompt, [...historyImages, ...uploads]);
 }
 
-function mapResolutionToOpenAIQuality(
+export function mapResolutionToOpenAIQuality(
   resolution: Resolution | undefined,
   model: string
 ): 'standard' | 'hd' | 'low' | 'medium' | 'high' | 'auto' | undefined {
@@ -228,6 +187,36 @@ function mapResolutionToOpenAIQuality(
   return 'high';
 }
 
+export function previewOpenAIRequest(
+  baseUrl: string,
+  model: string,
+  prompt: string,
+  history: Message[],
+  settings: AppSettings,
+  uploadedImages?: UploadedImage[]
+): ImageProviderRequestPreview {
+  const hasRefImages = hasReferenceImages(history, uploadedImages);
+  const route = resolveOpenAIRoute(model, baseUrl, hasRefImages);
+  const { images, ...references } = prepareOpenAIReferences(route, prompt, history, uploadedImages);
+  if (route === 'chat') {
+    return { route, prompt: references.prompt, images, sendsHistory: true };
+  }
+
+  return {
+    route,
+    prompt,
+    images: route === 'edits' ? images : [],
+    size: mapAspectRatioToOpenAISize(settings.aspectRatio, model, settings.resolution),
+    quality: mapResolutionToOpenAIQuality(settings.resolution, model),
+    sendsHistory: false,
+    error: route === 'images' && hasRefImages
+      ? '该模型不支持参考图，请移除图片或改用 gpt-image-2'
+      : route === 'edits' && images.length === 0
+        ? '没有可用的参考图'
+        : undefined
+  };
+}
+
 function inferImageMimeTypeFromUrl(url: string): string {
   const cleanUrl = url.split('?')[0];
   const ext = cleanUrl.split('.').pop()?.toLowerCase();
@@ -238,59 +227,58 @@ function inferImageMimeTypeFromUrl(url: string): string {
 }
 
 /**
- * Collects selected model images to be used as input for the current request.
+ * Constructs the conversation history formatted for the OpenAI API.
+ * Text only; selected images are attached to the current turn.
  */
-function collectSelectedImages(messages: Message[]): OpenAI.Chat.ChatCompletionContentPart[] {
-  const selectedImages: OpenAI.Chat.ChatCompletionContentPart[] = [];
-
-  for (const msg of messages) {
-    if (msg.role !== 'model' || !msg.selectedImageId) {
-      continue;
-    }
-
-    const selectedImg = getSuccessfulImages(msg).find((img) => img.id === msg.selectedImageId);
-    if (!selectedImg || selectedImg.status !== 'success') {
-      continue;
-    }
+function buildHistory(
+  messages: Message[],
+  context?: ConversationContext
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return selectContextTurns(messages, context).flatMap((turn) => [
+    { role: 'user' as const, content: turn.prompt },
+    { role: 'assistant' as const, content: turn.response }
+  ]);
+}
 
-    const imageData = extractBase64Data(selectedImg.data);
-    if (!imageData) {
-      continue;
+/**
+ * Takes the first image of an Images API response
+ */
+function extractImageFromImagesResponse(response: OpenAI.ImagesResponse): GeneratedImage {
+  for (const item of response.data || []) {
+    if ('b64_json' in item && item.b64_json) {
+      return { id: generateUUID(), data: `data:image/png;base64,${item.b64_json}`, mimeType: 'image/png', status: 'success' };
     }
-
-    const estimatedSizeMB =
-      (imageData.base64Data.length * 3) / 4 / (1024 * 1024);
-    if (estimatedSizeMB > VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB) {
-      logError(
-        'Image Processing',
-        new ImageProcessingError(
-          `Selected image ${selectedImg.id} is too large (${estimatedSizeMB.toFixed(2)}MB)`
-        )
-      );
-      continue;
+    if ('url' in item && item.url) {
+      return { id: generateUUID(), data: item.url, mimeType: inferImageMimeTypeFromUrl(item.url), status: 'success' };
     }
-
-    selectedImages.push({
-      type: 'image_url',
-      image_url: {
-        url: selectedImg.data
-      }
-    });
   }
+  throw new ImageProcessingError('The API response did not contain image data.');
+}
 
-  return selectedImages;
+// Only gpt-image models stream partial frames
+function getPartialImageCount(settings: AppSettings, model: string): number {
+  const { partialImages } = resolveOpenAIProviderOptions(settings.providerConfig?.options);
+  return model.toLowerCase().includes('gpt-image') ? partialImages : 0;
 }
 
 /**
- * Constructs the conversation history formatted for the OpenAI API.
- * Intentionally empty: prior text is not carried forward.
+ * Reads a generation or edit event stream, forwarding partial frames and
+ * returning the completed image
  */
-function buildHistory(_messages: Message[]): OpenAI.Chat.ChatCompletionMessageParam[] {
-  return [];
-}
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+async function readImageStream(
+  stream: AsyncIterable<OpenAI.Images.ImageGenStreamEvent | OpenAI.Images.ImageEditStreamEvent>,
+  onPartialImage: (image: PartialImage) => void
+): Promise<GeneratedImage> {
+  for await (const event of stream) {
+    const mimeType = `image/${event.output_format || 'png'}`;
+    const data = `data:${mimeType};base64,${event.b64_json}`;
+    if (event.type === 'image_generation.partial_image' || event.type === 'image_edit.partial_image') {
+      onPartialImage({ data, mimeType, index: event.partial_image_index });
+    } else if (event.b64_json) {
+      return { id: generateUUID(), data, mimeType, status: 'success' };
+    }
+  }
+  throw new ImageProcessingError('The image stream ended without a completed image.');
 }
 
 /**
@@ -324,39 +312,9 @@ async function generateImageEditGptImage2(
   if (!prompt || prompt.trim().length === 0) {
     throw new ImageProcessingError('Prompt is required for gpt-image-2 image editing.');
   }
+  const retryPolicy = resolveRetryPolicy(settings.providerConfig?.retryPolicy);
 
-  // Collect reference images
-  const referenceImages: { data: string; mimeType: string }[] = [];
-
-  // Add uploaded images
-  if (uploadedImages && uploadedImages.length > 0) {
-    for (const img of uploadedImages) {
-      const imageData = extractBase64Data(img.data);
-      if (imageData) {
-        referenceImages.push({
-          data: img.data,
-          mimeType: imageData.mimeType
-        });
-      }
-    }
-  }
-
-  // Add selected images from history
-  for (const msg of history) {
-    if (msg.role !== 'model' || !msg.selectedImageId) {
-      continue;
-    }
-    const selectedImg = getSuccessfulImages(msg).find((img) => img.id === msg.selectedImageId);
-    if (selectedImg && selectedImg.status === 'success') {
-      const imageData = extractBase64Data(selectedImg.data);
-      if (imageData) {
-        referenceImages.push({
-          data: selectedImg.data,
-          mimeType: imageData.mimeType
-        });
-      }
-    }
-  }
+  const { images: referenceImages, mask } = prepareOpenAIReferences('edits', prompt, history, uploadedImages);
 
   if (referenceImages.length === 0) {
     throw new ImageProcessingError('No reference images found for image editing.');
@@ -364,6 +322,7 @@ async function generateImageEditGptImage2(
 
   const size = mapAspectRatioToOpenAISize(settings.aspectRatio, model, settings.resolution);
   const quality = mapResolutionToOpenAIQuality(settings.resolution, model);
+  const partialImages = getPartialImageCount(settings, model);
 
   console.log('[Images Edit API] Request params:', {
     model,
@@ -371,7 +330,9 @@ async function generateImageEditGptImage2(
     n: settings.batchSize,
     size,
     quality,
-    imageCount: referenceImages.length
+    partialImages,
+    imageCount: referenceImages.length,
+    hasMask: !!mask
   });
 
   // Workaround: Some proxy servers (like newapi.funmz.com) have issues with n>1
@@ -379,151 +340,70 @@ async function generateImageEditGptImage2(
   const actualBatchSize = 1;
   const numRequests = slots.length;
 
-  await Promise.allSettled(
-    Array.from({ length: numRequests }, async (_, reqIndex) => {
-      if (signal.aborted) return;
-      const descriptor = slots[reqIndex];
-
-      let attempt = 0;
-      let response: OpenAI.ImagesResponse | null = null;
-      let lastError: unknown = null;
-
-      while (attempt <= MAX_RETRIES && !response) {
-        if (signal.aborted) return;
-
-        const timeoutController = new AbortController();
-        const timeoutId = setTimeout(() => timeoutController.abort(), REQUEST_TIMEOUT_MS);
-        const onUserAbort = () => timeoutController.abort();
-        signal.addEventListener('abort', onUserAbort);
-
-        try {
-          const formData = new FormData();
-          formData.append('model', model);
-          formData.append('prompt', prompt);
-          formData.append('n', actualBatchSize.toString());
-          formData.append('size', size);
-          if (quality) {
-            formData.append('quality', quality);
-          }
-          formData.append('response_format', 'b64_json');
-
-          const imageFieldName = referenceImages.length > 1 ? 'image[]' : 'image';
-          for (let i = 0; i < referenceImages.length; i++) {
-            const refImg = referenceImages[i];
-            const blob = dataURItoBlob(refImg.data);
-            const rawExt = (refImg.mimeType.split('/')[1] || 'png').toLowerCase();
-            const ext = rawExt === 'jpeg' ? 'jpg' : rawExt;
-            formData.append(imageFieldName, blob, `image${i}.${ext}`);
-          }
-
-          const rawBaseUrl = openai.baseURL || 'https://gptproto.com/v1';
-          const baseUrl = rawBaseUrl.replace(/\/+$/, '');
-          const url = `${baseUrl}/images/edits`;
+  await executeSlots(
+    { slots, signal, retryPolicy, callbacks, label: 'OpenAI Image Edit', call: { route: 'edits', size } },
+    async ({ slot, signal: attemptSignal, setRequestId }) => {
+      const formData = new FormData();
+      formData.append('model', model);
+      formData.append('prompt', prompt);
+      formData.append('n', actualBatchSize.toString());
+      formData.append('size', size);
+      if (quality) {
+        formData.append('quality', quality);
+      }
+      if (partialImages > 0) {
+        formData.append('stream', 'true');
+        formData.append('partial_images', partialImages.toString());
+      } else {
+        formData.append('response_format', 'b64_json');
+      }
 
-          const fetchResponse = await fetch(url, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${openai.apiKey}` },
-            body: formData,
-            signal: timeoutController.signal
-          });
+      const imageFieldName = referenceImages.length > 1 ? 'image[]' : 'image';
+      for (let i = 0; i < referenceImages.length; i++) {
+        const refImg = referenceImages[i];
+        const blob = dataURItoBlob(refImg.data);
+        const rawExt = (refImg.mimeType.split('/')[1] || 'png').toLowerCase();
+        const ext = rawExt === 'jpeg' ? 'jpg' : rawExt;
+        formData.append(imageFieldName, blob, `image${i}.${ext}`);
+      }
+      if (mask) {
+        formData.append('mask', dataURItoBlob(mask.data), 'mask.png');
+      }
 
-          if (!fetchResponse.ok) {
-            throw await parseOpenAIHttpError(fetchResponse);
-          }
+      const rawBaseUrl = openai.baseURL || 'https://gptproto.com/v1';
+      const baseUrl = rawBaseUrl.replace(/\/+$/, '');
+      const url = `${baseUrl}/images/edits`;
 
-          response = await fetchResponse.json();
-
-          console.log('[Images Edit API] Response received:', {
-            hasData: !!response?.data,
-            dataLength: response?.data?.length,
-            requestIndex: reqIndex + 1,
-            totalRequests: numRequests
-          });
-        } catch (error) {
-          attempt++;
-          lastError = error;
-
-          const userAborted = signal.aborted;
-          const timedOut = !userAborted && timeoutController.signal.aborted;
-
-          if (!userAborted) {
-            if (timedOut) {
-              logError(`OpenAI Image Edit Req${reqIndex + 1} Attempt ${attempt}`, new NetworkError(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`));
-            } else if (error instanceof Error && (error.message.includes('fetch') || error.message.includes('network'))) {
-              logError(`OpenAI Image Edit Req${reqIndex + 1} Attempt ${attempt}`, new NetworkError(error.message));
-            } else {
-              logError(`OpenAI Image Edit Req${reqIndex + 1} Attempt ${attempt}`, error);
-            }
-          }
+      const fetchResponse = await fetch(url, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${openai.apiKey}` },
+        body: formData,
+        signal: attemptSignal
+      });
 
-          if (
-            attempt <= MAX_RETRIES &&
-            !userAborted &&
-            isRetryableOpenAIError(error)
-          ) {
-            const waitTime = 1000 * Math.pow(2, attempt - 1);
-            await delay(waitTime);
-          } else {
-            break;
-          }
-        } finally {
-          clearTimeout(timeoutId);
-          signal.removeEventListener('abort', onUserAbort);
-        }
+      if (!fetchResponse.ok) {
+        throw await parseOpenAIHttpError(fetchResponse);
       }
+      setRequestId(fetchResponse.headers.get('x-request-id'));
 
-      if (!response) {
-        callbacks.onSlotResult({
-          ...descriptor,
-          status: 'failed',
-          attempts: attempt,
-          error: serializeGenerationError(lastError, attempt)
-        });
-        return;
+      if (partialImages > 0) {
+        return readImageStream(
+          Stream.fromSSEResponse<OpenAI.Images.ImageEditStreamEvent>(fetchResponse, new AbortController()),
+          (image) => callbacks.onSlotPartialImage?.(slot.slotId, image)
+        );
       }
 
-      let generatedImage: GeneratedImage | undefined;
-      for (const item of response.data || []) {
-        if (signal.aborted) return;
-
-        let imageData: string | undefined;
-        let mimeType = 'image/png';
-
-        if ('b64_json' in item && item.b64_json) {
-          imageData = `data:image/png;base64,${item.b64_json}`;
-        } else if ('url' in item && item.url) {
-          imageData = item.url;
-          mimeType = inferImageMimeTypeFromUrl(item.url);
-        }
+      const response: OpenAI.ImagesResponse = await fetchResponse.json();
 
-        if (imageData) {
-          generatedImage = {
-            id: generateUUID(),
-            data: imageData,
-            mimeType,
-            status: 'success'
-          };
-          break;
-        }
-      }
+      console.log('[Images Edit API] Response received:', {
+        hasData: !!response?.data,
+        dataLength: response?.data?.length,
+        requestIndex: slot.index + 1,
+        totalRequests: numRequests
+      });
 
-      if (generatedImage) {
-        callbacks.onSlotResult({
-          ...descriptor,
-          status: 'success',
-          attempts: attempt + 1,
-          image: generatedImage
-        });
-      } else {
-        const error = new ImageProcessingError('The API response did not contain image data.');
-        callbacks.onSlotResult({
-          ...descriptor,
-          status: 'failed',
-          attempts: attempt + 1,
-          error: serializeGenerationError(error, attempt + 1)
-        });
-      }
-    })
+      return extractImageFromImagesResponse(response);
+    }
   );
 }
 
@@ -549,6 +429,7 @@ export async function generateImageBatchStreamOpenAI(
   if (prompt) {
     validatePrompt(prompt);
   }
+  const retryPolicy = resolveRetryPolicy(settings.providerConfig?.retryPolicy);
 
   // Normalize base URL based on model
   let normalizedBaseUrl = baseUrl;
@@ -575,21 +456,19 @@ export async function generateImageBatchStreamOpenAI(
   const openai = new OpenAI({
     apiKey,
     baseURL: normalizedBaseUrl,
-    timeout: REQUEST_TIMEOUT_MS,
-    maxRetries: 0, // We handle retries ourselves
+    maxRetries: 0, // Retries and timeouts are handled by the slot executor
     dangerouslyAllowBrowser: true // Required for browser usage
   });
 
   const useGeminiCompat = shouldUseGeminiCompat(baseUrl);
-  const useChatCompletions = shouldUseChatCompletionsAPI(model);
   const useImagesAPI = shouldUseImagesAPI(model);
+  const hasRefImages = hasReferenceImages(history, uploadedImages);
+  const route = resolveOpenAIRoute(model, baseUrl, hasRefImages);
 
   // Route 1: Standard OpenAI Images API (for gpt-image-2, dall-e-3, etc.)
-  if (useImagesAPI || (!useGeminiCompat && !useChatCompletions)) {
-    const hasRefImages = hasReferenceImages(history, uploadedImages);
-
+  if (route !== 'chat') {
     // If gpt-image-2 with reference images, use image edit endpoint
-    if (useImagesAPI && hasRefImages) {
+    if (route === 'edits') {
       return await generateImageEditGptImage2(
         openai,
         model,
@@ -619,6 +498,7 @@ export async function generateImageBatchStreamOpenAI(
     const size = mapAspectRatioToOpenAISize(settings.aspectRatio, model, settings.resolution);
     const quality = mapResolutionToOpenAIQuality(settings.resolution, model);
     const responseFormat = normalizedModel.includes('dall-e') ? 'b64_json' : 'b64_json';
+    const partialImages = getPartialImageCount(settings, model);
 
     // Workaround: Some proxy servers (like gptproto/newapi) have issues with n>1
     // Split into single-image requests when batchSize > 1
@@ -633,168 +513,75 @@ export async function generateImageBatchStreamOpenAI(
       numRequests,
       size,
       quality,
-      responseFormat
+      responseFormat,
+      partialImages
     });
 
-    await Promise.allSettled(
-      Array.from({ length: numRequests }, async (_, reqIndex) => {
-        if (signal.aborted) return;
-        const descriptor = slots[reqIndex];
-
-        let attempt = 0;
-        let response: OpenAI.ImagesResponse | null = null;
-        let lastError: unknown = null;
-
-        while (attempt <= MAX_RETRIES && !response) {
-          if (signal.aborted) return;
-
-          try {
-            response = await openai.images.generate({
-              model,
-              prompt,
-              n: perRequestN,
-              // The installed SDK types predate gpt-image-2 flexible sizes.
-              size: size as OpenAI.Images.ImageGenerateParams['size'],
-              ...(quality ? { quality } : {}),
-              response_format: responseFormat
-            });
-
-            console.log('[Images API] Response received:', {
-              hasData: !!response.data,
-              dataLength: response.data?.length,
-              requestIndex: reqIndex + 1,
-              totalRequests: numRequests
-            });
-          } catch (error) {
-            attempt++;
-            lastError = error;
-
-            if (!signal.aborted) {
-              if (
-                error instanceof Error &&
-                (error.message.includes('fetch') || error.message.includes('network'))
-              ) {
-                logError(`OpenAI Image API Req${reqIndex + 1} Attempt ${attempt}`, new NetworkError(error.message));
-              } else {
-                logError(`OpenAI Image API Req${reqIndex + 1} Attempt ${attempt}`, error);
-              }
-            }
-
-            if (
-              attempt <= MAX_RETRIES &&
-              !signal.aborted &&
-              isRetryableOpenAIError(error)
-            ) {
-              const waitTime = 1000 * Math.pow(2, attempt - 1);
-              await delay(waitTime);
-            } else {
-              break;
-            }
-          }
-        }
-
-        if (!response) {
-          callbacks.onSlotResult({
-            ...descriptor,
-            status: 'failed',
-            attempts: attempt,
-            error: serializeGenerationError(lastError, attempt)
-          });
-          return;
+    await executeSlots(
+      { slots, signal, retryPolicy, callbacks, label: 'OpenAI Image API', call: { route: 'images', size } },
+      async ({ slot, signal: attemptSignal, setRequestId }) => {
+        if (partialImages > 0) {
+          const { data: stream, request_id } = await openai.images
+            .generate(
+              {
+                model,
+                prompt,
+                n: perRequestN,
+                size: size as OpenAI.Images.ImageGenerateParams['size'],
+                ...(quality ? { quality } : {}),
+                stream: true,
+                partial_images: partialImages
+              },
+              { signal: attemptSignal }
+            )
+            .withResponse();
+          setRequestId(request_id);
+          return readImageStream(stream, (image) => callbacks.onSlotPartialImage?.(slot.slotId, image));
         }
 
-        let generatedImage: GeneratedImage | undefined;
-        for (const item of response.data || []) {
-          if (signal.aborted) return;
-
-          let imageData: string | undefined;
-          let mimeType = 'image/png';
-
-          if ('b64_json' in item && item.b64_json) {
-            imageData = `data:image/png;base64,${item.b64_json}`;
-          } else if ('url' in item && item.url) {
-            imageData = item.url;
-            mimeType = inferImageMimeTypeFromUrl(item.url);
-          }
+        const response = await openai.images.generate(
+          {
+            model,
+            prompt,
+            n: perRequestN,
+            // The installed SDK types predate gpt-image-2 flexible sizes.
+            size: size as OpenAI.Images.ImageGenerateParams['size'],
+            ...(quality ? { quality } : {}),
+            response_format: responseFormat
+          },
+          { signal: attemptSignal }
+        );
+        setRequestId(response._request_id);
 
-          if (imageData) {
-            generatedImage = {
-              id: generateUUID(),
-              data: imageData,
-              mimeType,
-              status: 'success'
-            };
-            break;
-          }
-        }
+        console.log('[Images API] Response received:', {
+          hasData: !!response.data,
+          dataLength: response.data?.length,
+          requestIndex: slot.index + 1,
+          totalRequests: numRequests
+        });
 
-        if (generatedImage) {
-          callbacks.onSlotResult({
-            ...descriptor,
-            status: 'success',
-            attempts: attempt + 1,
-            image: generatedImage
-          });
-        } else {
-          const error = new ImageProcessingError('The API response did not contain image data.');
-          callbacks.onSlotResult({
-            ...descriptor,
-            status: 'failed',
-            attempts: attempt + 1,
-            error: serializeGenerationError(error, attempt + 1)
-          });
-        }
-      })
+        return extractImageFromImagesResponse(response);
+      }
     );
 
     return;
   }
 
   // Route 2: Chat Completions API flow (for nanobanana, Gemini models)
-  const formattedHistory = buildHistory(history);
+  const formattedHistory = buildHistory(history, settings.context);
 
   // Build user message parts
   const userContent: OpenAI.Chat.ChatCompletionContentPart[] = [];
 
+  const references = prepareOpenAIReferences('chat', prompt, history, uploadedImages);
+
   // Add text first
-  if (prompt) {
-    userContent.push({ type: 'text', text: prompt });
+  if (references.prompt) {
+    userContent.push({ type: 'text', text: references.prompt });
   }
 
-  const selectedImages = collectSelectedImages(history);
-  if (selectedImages.length > 0) {
-    userContent.push(...selectedImages);
-  }
-
-  // Process and validate images
-  if (uploadedImages && uploadedImages.length > 0) {
-    for (const img of uploadedImages) {
-      const imageData = extractBase64Data(img.data);
-      if (!imageData) {
-        continue; // Skip invalid images
-      }
-
-      // Estimate image size
-      const estimatedSizeMB =
-        (imageData.base64Data.length * 3) / 4 / (1024 * 1024);
-
-      if (estimatedSizeMB > VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB) {
-        logError(
-          'Image Processing',
-          new ImageProcessingError(
-            `Image ${img.id} is too large (${estimatedSizeMB.toFixed(2)}MB)`
-          )
-        );
-        continue;
-      }
-
-      userContent.push({
-        type: 'image_url',
-        image_url: {
-          url: img.data // Use full data URI
-        }
-      });
-    }
+  for (const image of references.images) {
+    userContent.push({ type: 'image_url', image_url: { url: image.data } });
   }
 
   // Ensure at least one part exists
@@ -822,201 +609,129 @@ export async function generateImageBatchStreamOpenAI(
     extraBody.resolution = settings.resolution;
   }
 
-  // Shared task queue
-  const taskQueue = Array.from({ length: slots.length }, (_, i) => i);
-
-  // Worker function
-  const worker = async (workerId: number): Promise<void> => {
-    while (taskQueue.length > 0) {
-      if (signal.aborted) return;
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    ...formattedHistory,
+    { role: 'user', content: userContent }
+  ];
+
+  await executeSlots(
+    { slots, signal, retryPolicy, callbacks, label: 'OpenAI Chat', call: { route: 'chat' } },
+    async ({ signal: attemptSignal, setRequestId }) => {
+      const response = await openai.chat.completions.create(
+        {
+          model,
+          messages,
+          // Only add extra_body if there are parameters (for Gemini-compatible endpoints)
+          ...(Object.keys(extraBody).length > 0 ? {
+            // @ts-ignore - extra_body is not in types but supported by API
+            extra_body: extraBody
+          } : {})
+        },
+        { signal: attemptSignal }
+      );
+      setRequestId(response._request_id);
 
-      const index = taskQueue.shift();
-      if (index === undefined) break;
-      const descriptor = slots[index];
+      // Debug: Log the full response for troubleshooting
+      console.log('[OpenAI API Response]', {
+        model,
+        hasChoices: !!response.choices,
+        choicesLength: response.choices?.length,
+        firstChoice: response.choices?.[0],
+        fullResponse: response
+      });
 
-      let attempt = 0;
-      let success = false;
-      let lastError: unknown = null;
+      const choice = response.choices?.[0];
+      if (!choice) {
+        console.error('[OpenAI API] No choice in response:', response);
+        throw new ImageProcessingError('No choice returned from API');
+      }
 
-      while (attempt <= MAX_RETRIES && !success) {
-        if (signal.aborted) return;
+      // Check for content filtering
+      if (choice.finish_reason === 'content_filter') {
+        throw new SafetyFilterError('Content blocked by safety filters');
+      }
 
-        try {
-          const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-            ...formattedHistory,
-            { role: 'user', content: userContent }
-          ];
+      const message = choice.message;
+      if (!message?.content) {
+        console.error('[OpenAI API] No content in message:', { choice, message });
+        throw new ImageProcessingError('No content in response');
+      }
 
-          const response = await openai.chat.completions.create({
-            model,
-            messages,
-            // Only add extra_body if there are parameters (for Gemini-compatible endpoints)
-            ...(Object.keys(extraBody).length > 0 ? {
-              // @ts-ignore - extra_body is not in types but supported by API
-              extra_body: extraBody
-            } : {})
-          });
-
-          // Debug: Log the full response for troubleshooting
-          console.log('[OpenAI API Response]', {
-            model,
-            hasChoices: !!response.choices,
-            choicesLength: response.choices?.length,
-            firstChoice: response.choices?.[0],
-            fullResponse: response
-          });
-
-          const choice = response.choices?.[0];
-          if (!choice) {
-            console.error('[OpenAI API] No choice in response:', response);
-            throw new ImageProcessingError('No choice returned from API');
-          }
+      // Extract image and text from response
+      let generatedImage: GeneratedImage | undefined;
 
-          // Check for content filtering
-          if (choice.finish_reason === 'content_filter') {
-            throw new SafetyFilterError('Content blocked by safety filters');
-          }
+      console.log('[Content Type]', {
+        isString: typeof message.content === 'string',
+        isArray: Array.isArray(message.content),
+        content: message.content
+      });
 
-          const message = choice.message;
-          if (!message?.content) {
-            console.error('[OpenAI API] No content in message:', { choice, message });
-            throw new ImageProcessingError('No content in response');
+      // Handle different content formats
+      if (typeof message.content === 'string') {
+        // Try to extract data URI from string content
+        const dataUriMatch = message.content.match(
+          /data:image\/[^;]+;base64,[A-Za-z0-9+/=]+/
+        );
+        if (dataUriMatch) {
+          console.log('[Found image in string]', dataUriMatch[0].substring(0, 100));
+          const img: GeneratedImage = {
+            id: generateUUID(),
+            data: dataUriMatch[0],
+            mimeType: dataUriMatch[0].split(';')[0].split(':')[1],
+            status: 'success'
+          };
+          generatedImage = img;
+        } else {
+          // Text response - might contain URL or other format
+          console.log('[Text response]', message.content);
+          // Check if it's a URL
+          if (message.content.startsWith('http://') || message.content.startsWith('https://')) {
+            console.log('[Found image URL]', message.content);
+            const img: GeneratedImage = {
+              id: generateUUID(),
+              data: message.content,
+              mimeType: inferImageMimeTypeFromUrl(message.content),
+              status: 'success'
+            };
+            generatedImage = img;
+          } else {
+            callbacks.onText(message.content);
           }
-
-          // Extract image and text from response
-          let generatedImage: GeneratedImage | undefined;
-
-          console.log('[Content Type]', {
-            isString: typeof message.content === 'string',
-            isArray: Array.isArray(message.content),
-            content: message.content
-          });
-
-          // Handle different content formats
-          if (typeof message.content === 'string') {
-            // Try to extract data URI from string content
-            const dataUriMatch = message.content.match(
-              /data:image\/[^;]+;base64,[A-Za-z0-9+/=]+/
-            );
-            if (dataUriMatch) {
-              console.log('[Found image in string]', dataUriMatch[0].substring(0, 100));
-              const img: GeneratedImage = {
-                id: generateUUID(),
-                data: dataUriMatch[0],
-                mimeType: dataUriMatch[0].split(';')[0].split(':')[1],
-                status: 'success'
-              };
-              generatedImage = img;
-            } else {
-              // Text response - might contain URL or other format
-              console.log('[Text response]', message.content);
-              // Check if it's a URL
-              if (message.content.startsWith('http://') || message.content.startsWith('https://')) {
-                console.log('[Found image URL]', message.content);
+        }
+      } else if (Array.isArray(message.content)) {
+        // Handle array content
+        console.log('[Array content]', message.content.length, 'parts');
+        for (const part of message.content) {
+          if (typeof part === 'object' && part !== null) {
+            if ('image_url' in part && part.image_url) {
+              const imageUrl =
+                typeof part.image_url === 'string'
+                  ? part.image_url
+                  : part.image_url.url;
+
+              if (imageUrl) {
+                console.log('[Found image_url]', imageUrl.substring(0, 100));
                 const img: GeneratedImage = {
                   id: generateUUID(),
-                  data: message.content,
-                  mimeType: inferImageMimeTypeFromUrl(message.content),
+                  data: imageUrl,
+                  mimeType: imageUrl.split(';')[0].split(':')[1] || 'image/png',
                   status: 'success'
                 };
                 generatedImage = img;
-              } else {
-                callbacks.onText(message.content);
-              }
-            }
-          } else if (Array.isArray(message.content)) {
-            // Handle array content
-            console.log('[Array content]', message.content.length, 'parts');
-            for (const part of message.content) {
-              if (typeof part === 'object' && part !== null) {
-                if ('image_url' in part && part.image_url) {
-                  const imageUrl =
-                    typeof part.image_url === 'string'
-                      ? part.image_url
-                      : part.image_url.url;
-
-                  if (imageUrl) {
-                    console.log('[Found image_url]', imageUrl.substring(0, 100));
-                    const img: GeneratedImage = {
-                      id: generateUUID(),
-                      data: imageUrl,
-                      mimeType: imageUrl.split(';')[0].split(':')[1] || 'image/png',
-                      status: 'success'
-                    };
-                    generatedImage = img;
-                  }
-                } else if ('text' in part && part.text) {
-                  console.log('[Found text part]', part.text);
-                  callbacks.onText(part.text);
-                }
               }
+            } else if ('text' in part && part.text) {
+              console.log('[Found text part]', part.text);
+              callbacks.onText(part.text);
             }
           }
-
-          if (generatedImage) {
-            success = true;
-            callbacks.onSlotResult({
-              ...descriptor,
-              status: 'success',
-              attempts: attempt + 1,
-              image: generatedImage
-            });
-          } else {
-            console.error('[No image found in response]', { message });
-            throw new ImageProcessingError('No image data in response');
-          }
-        } catch (error) {
-          attempt++;
-
-          lastError = error;
-
-          if (!signal.aborted) {
-            // Classify network errors
-            if (
-              error instanceof Error &&
-              (error.message.includes('fetch') ||
-                error.message.includes('network'))
-            ) {
-              logError(
-                `Worker ${workerId} - Image ${index + 1} Attempt ${attempt}`,
-                new NetworkError(error.message)
-              );
-            } else {
-              logError(
-                `Worker ${workerId} - Image ${index + 1} Attempt ${attempt}`,
-                error
-              );
-            }
-          }
-
-          // Retry with exponential backoff
-          if (
-            attempt <= MAX_RETRIES &&
-            !signal.aborted &&
-            serializeGenerationError(error, attempt).retryable
-          ) {
-            const waitTime = 1000 * Math.pow(2, attempt - 1);
-            await delay(waitTime);
-          }
         }
       }
 
-      // If failed and not aborted, report error image
-      if (!success && !signal.aborted) {
-        callbacks.onSlotResult({
-          ...descriptor,
-          status: 'failed',
-          attempts: attempt,
-          error: serializeGenerationError(lastError, attempt)
-        });
+      if (!generatedImage) {
+        console.error('[No image found in response]', { message });
+        throw new ImageProcessingError('No image data in response');
       }
+      return generatedImage;
     }
-  };
-
-  // Start workers
-  const numWorkers = Math.min(MAX_CONCURRENT_REQUESTS, slots.length);
-  const workers = Array.from({ length: numWorkers }, (_, i) => worker(i + 1));
-
-  await Promise.all(workers);
-
+  );
 }
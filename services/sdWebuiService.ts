@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import type {
+  AppSettings,
+  AspectRatio,
+  GeneratedImage,
+  GenerationSlotDescriptor,
+  Message,
+  Resolution,
+  UploadedImage
+} from '../types.ts';
+import { ImageProcessingError } from '../types/errors.ts';
+import { generateUUID } from '../utils/uuid.ts';
+import type { StreamCallbacks } from './geminiService.ts';
+import type { ImageProviderRequestPreview } from '../core/providerRegistry.ts';
+import { collectHistoryImages, toUploadContextImages, type ContextImage } from '../core/contextImages.ts';
+import { resolveRetryPolicy } from '../core/retryPolicy.ts';
+import { executeSlots } from '../core/slotExecutor.ts';
+
+export const DEFAULT_SD_WEBUI_BASE_URL = 'http://127.0.0.1:7860';
+
+export const sdWebuiProviderOptionsSchema = z.object({
+  sampler: z.string().trim().min(1).default('Euler a'),
+  steps: z.number().int().min(1).max(150).default(20),
+  cfgScale: z.number().min(1).max(30).default(7),
+  // -1 lets the server pick; otherwise slot N uses seed + N
+  seed: z.number().int().min(-1).default(-1),
+  negativePrompt: z.string().default(''),
+  // img2img only: how far the result may drift from the init image
+  denoisingStrength: z.number().min(0).max(1).default(0.75),
+  // Leaves the requested checkpoint loaded on the server instead of switching back
+  // after each request; changes the checkpoint for everyone sharing the WebUI
+  keepCheckpointLoaded: z.boolean().default(false)
+});
+
+export type SdWebuiProviderOptions = z.infer<typeof sdWebuiProviderOptionsSchema>;
+
+export function resolveSdWebuiProviderOptions(options: unknown): SdWebuiProviderOptions {
+  return sdWebuiProviderOptionsSchema.parse(options ?? {});
+}
+
+export type SdWebuiRoute = 'txt2img' | 'img2img';
+
+class SdWebuiHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'SdWebuiHttpError';
+  }
+}
+
+// FastAPI errors carry `detail` (a string or a validation list); WebUI
+// exceptions use `error` / `errors`.
+async function parseSdWebuiHttpError(response: Response): Promise<SdWebuiHttpError> {
+  const responseText = await response.text();
+  let message = responseText.trim() || response.statusText || 'SD WebUI request failed';
+  try {
+    const body = JSON.parse(responseText) as Record<string, unknown>;
+    const detail = body.detail ?? body.errors ?? body.error;
+    if (typeof detail === 'string') {
+      message = detail;
+    } else if (detail !== undefined) {
+      message = JSON.stringify(detail);
+    }
+  } catch {
+    // Reverse proxies in front of the WebUI may answer with plain text.
+  }
+  return new SdWebuiHttpError(message.slice(0, 2000), response.status);
+}
+
+// Square edge per resolution; SD checkpoints degrade far above their training size.
+const SD_RESOLUTION_EDGES: Record<Resolution, number> = {
+  '1K': 1024,
+  '2K': 1536,
+  '4K': 2048
+};
+
+/**
+ * Keeps the pixel count of an `edge`² square at the requested ratio, rounded
+ * to multiples of 64 as the latent space requires. 'Auto' renders square.
+ */
+export function mapAspectRatioToSdSize(
+  aspectRatio: AspectRatio | undefined,
+  resolution: Resolution | undefined
+): { width: number; height: number } {
+  const edge = SD_RESOLUTION_EDGES[resolution ?? '1K'] ?? SD_RESOLUTION_EDGES['1K'];
+  const [ratioWidth, ratioHeight] = (aspectRatio ?? 'Auto').split(':').map(Number);
+  if (!ratioWidth || !ratioHeight) {
+    return { width: edge, height: edge };
+  }
+  const scale = Math.sqrt((edge * edge) / (ratioWidth * ratioHeight));
+  const roundTo64 = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+  return { width: roundTo64(ratioWidth * scale), height: roundTo64(ratioHeight * scale) };
+}
+
+// img2img starts from one image: the first upload, else the first selected history image.
+function pickInitImage(history: Message[], uploadedImages?: UploadedImage[]): ContextImage | undefined {
+  return [...toUploadContextImages(uploadedImages), ...collectHistoryImages(history)][0];
+}
+
+function detectImageMimeType(base64: string): string {
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+}
+
+export function previewSdWebuiRequest(
+  prompt: string,
+  history: Message[],
+  settings: AppSettings,
+  uploadedImages?: UploadedImage[]
+): ImageProviderRequestPreview {
+  const initImage = pickInitImage(history, uploadedImages);
+  const options = resolveSdWebuiProviderOptions(settings.providerConfig?.options);
+  const { width, height } = mapAspectRatioToSdSize(settings.aspectRatio, settings.resolution);
+  return {
+    route: initImage ? 'img2img' : 'txt2img',
+    prompt,
+    images: initImage ? [initImage] : [],
+    size: `${width}x${height}`,
+    quality: `${options.sampler} · ${options.steps} 步 · CFG ${options.cfgScale}`,
+    sendsHistory: false
+  };
+}
+
+/**
+ * Local Stable Diffusion WebUI (A1111 / Forge) through its `/sdapi/v1` API.
+ * Each slot is one request with batch_size 1; reference images switch the
+ * request to img2img. No API key and no network beyond the configured server.
+ */
+export async function generateImageBatchStreamSdWebui(
+  baseUrl: string,
+  model: string | undefined,
+  prompt: string,
+  history: Message[],
+  settings: AppSettings,
+  uploadedImages: UploadedImage[] | undefined,
+  slots: GenerationSlotDescriptor[],
+  callbacks: StreamCallbacks,
+  signal: AbortSignal
+): Promise<void> {
+  const options = resolveSdWebuiProviderOptions(settings.providerConfig?.options);
+  const retryPolicy = resolveRetryPolicy(settings.providerConfig?.retryPolicy);
+  const initImage = pickInitImage(history, uploadedImages);
+  const route: SdWebuiRoute = initImage ? 'img2img' : 'txt2img';
+  const { width, height } = mapAspectRatioToSdSize(settings.aspectRatio, settings.resolution);
+  const url = `${baseUrl.replace(/\/+$/, '')}/sdapi/v1/${route}`;
+
+  console.log('[SD WebUI] Request params:', {
+    route,
+    model,
+    prompt: prompt.substring(0, 50) + '...',
+    width,
+    height,
+    sampler: options.sampler,
+    steps: options.steps,
+    hasInitImage: Boolean(initImage)
+  });
+
+  await executeSlots(
+    { slots, signal, retryPolicy, callbacks, label: 'SD WebUI', call: { route, size: `${width}x${height}` } },
+    async ({ slot, signal: attemptSignal }) => {
+      const body: Record<string, unknown> = {
+        prompt,
+        negative_prompt: options.negativePrompt,
+        sampler_name: options.sampler,
+        steps: options.steps,
+        cfg_scale: options.cfgScale,
+        seed: options.seed >= 0 ? options.seed + slot.index : -1,
+        width,
+        height,
+        batch_size: 1,
+        n_iter: 1,
+        ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+        ...(model && options.keepCheckpointLoaded ? { override_settings_restore_afterwards: false } : {})
+      };
+      if (initImage) {
+        body.init_images = [initImage.data];
+        body.denoising_strength = options.denoisingStrength;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: attemptSignal
+      });
+      if (!response.ok) {
+        throw await parseSdWebuiHttpError(response);
+      }
+
+      const result = (await response.json()) as { images?: unknown };
+      const base64 = Array.isArray(result.images) ? result.images[0] : undefined;
+      if (typeof base64 !== 'string' || base64.length === 0) {
+        throw new ImageProcessingError('SD WebUI returned no image.');
+      }
+      const mimeType = detectImageMimeType(base64);
+      const image: GeneratedImage = {
+        id: generateUUID(),
+        data: `data:${mimeType};base64,${base64}`,
+        mimeType,
+        status: 'success'
+      };
+      return image;
+    }
+  );
+}
@@ -23,23 +23,55 @@ export interface GenerationErrorInfo {
   requestId?: string;
   attempts: number;
   retryable: boolean;
+  retryAfterMs?: number; // Server-requested wait from Retry-After / x-ratelimit-* headers
+}
+
+// Provider that produced a slot's image.
+export interface GenerationSource {
+  provider: Provider;
+  model?: string;
+  fallbackIndex?: number; // 1-based position in `AppSettings.fallbackProviders`; unset for the primary
+}
+
+// Provider endpoint a call went to: OpenAI Images generate / edit, Chat
+// Completions, Gemini generateContent; registered adapters add their own.
+export type GenerationRoute = 'images' | 'edits' | 'chat' | 'gemini' | 'mock' | (string & {});
+
+// Request details of a slot's provider call, reported by the slot executor.
+export interface SlotCallInfo {
+  route: GenerationRoute;
+  size?: string; // Requested output size, e.g. '1536x1024'
+  requestId?: string; // From the last attempt
 }
 
 interface GenerationSlotBase {
   slotId: string;
   index: number;
   attempts: number;
+  prompt?: string; // Resolved prompt after dynamic template expansion
+  groupId?: string; // Comparison column, see `Message.slotGroups`
+}
+
+// One provider/model column of a comparison message. Holds no API key; the
+// config is looked up again among the saved ones when its slots are rerun.
+export interface GenerationSlotGroup {
+  id: string;
+  provider: Provider;
+  model?: string;
+  baseUrl?: string;
 }
 
 export type GenerationSlot =
   | (GenerationSlotBase & { status: 'pending' })
-  | (GenerationSlotBase & { status: 'success'; image: GeneratedImage })
+  | (GenerationSlotBase & { status: 'success'; image: GeneratedImage; source?: GenerationSource })
   | (GenerationSlotBase & { status: 'failed'; error: GenerationErrorInfo })
   | (GenerationSlotBase & { status: 'cancelled'; reason: string });
 
 export interface GenerationSlotDescriptor {
   slotId: string;
   index: number;
+  prompt?: string; // Overrides the request prompt for this slot
+  groupId?: string;
 }
 
 export type GenerationSlotResult =
@@ -49,6 +81,8 @@ export type GenerationSlotResult =
       status: 'success';
       attempts: number;
       image: GeneratedImage;
+      source?: GenerationSource; // Set by the engine
+      call?: SlotCallInfo;
     }
   | {
       slotId: string;
@@ -56,6 +90,7 @@ export type GenerationSlotResult =
       status: 'failed';
       attempts: number;
       error: GenerationErrorInfo;
+      call?: SlotCallInfo;
     }
   | {
       slotId: string;
@@ -63,13 +98,29 @@ export type GenerationSlotResult =
       status: 'cancelled';
       attempts: number;
       reason: string;
+      call?: SlotCallInfo;
     };
 
+// Preview frame streamed while a slot is still generating; the slot's final
+// image replaces it
+export interface PartialImage {
+  data: string; // Base64 data URI
+  mimeType: string;
+  index: number; // 0-based frame number within the attempt
+}
+
+// Inpainting mask painted over an uploaded image
+export interface ImageMask {
+  data: string; // PNG data URI at the image's size; transparent where the image may change
+  annotated: string; // The image with the painted region tinted, for routes without mask support
+}
+
 export interface UploadedImage {
   id: string;
   data: string; // Base64 data URI
   mimeType: string;
   name?: string; // Original filename
+  mask?: ImageMask;
   storageSize?: number;
   lastAccessedAt?: number;
 }
@@ -109,13 +160,35 @@ export const GPT_IMAGE_ASPECT_RATIO_OPTIONS = [
 ] as const satisfies ReadonlyArray<{ value: AspectRatio; label: string }>;
 
 export type Resolution = '1K' | '2K' | '4K';
-export type Provider = 'gemini' | 'openai';
+export type BuiltinProvider = 'gemini' | 'openai' | 'mock' | 'sdwebui';
+// Additional adapters are registered by id through core/providerRegistry.
+export type Provider = BuiltinProvider | (string & {});
+
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per slot including the first; 1 disables retries
+  baseDelayMs: number; // Wait before the second attempt, doubled after each failure
+  maxDelayMs: number; // Cap for backoff and server-requested waits
+  jitter: number; // 0-1, share of each backoff delay that is randomized
+  retryOnKinds: GenerationErrorKind[];
+  retryOnStatusCodes?: number[]; // Retried regardless of kind; unset means 429 and any 5xx
+}
 
 export interface ProviderConfig {
   provider: Provider;
   apiKey: string;
   baseUrl?: string; // For OpenAI custom endpoint or Gemini proxy
   model?: string; // Model name
+  options?: Record<string, unknown>; // Adapter-specific settings, validated by the provider's configSchema
+  retryPolicy?: Partial<RetryPolicy>; // Unset fields use DEFAULT_RETRY_POLICY
+}
+
+// How much of a session's earlier conversation goes with each request:
+// selected images only, the last N turns of text, or every turn
+export type ContextMode = 'images' | 'recent' | 'full';
+
+export interface ConversationContext {
+  mode: ContextMode;
+  recentTurns?: number; // Turns kept in 'recent' mode
 }
 
 export interface AppSettings {
@@ -123,6 +196,18 @@ export interface AppSettings {
   aspectRatio: AspectRatio;
   resolution: Resolution;
   providerConfig: ProviderConfig;
+  // Tried in order when a slot fails with a retryable error
+  fallbackProviders?: ProviderConfig[];
+  // The sending session's context mode; unset means images only
+  context?: ConversationContext;
+  // Selected history images left out of this request only
+  excludedImageIds?: string[];
+}
+
+export interface DerivedImageSource {
+  kind: 'outpaint';
+  messageId: string; // Model message the source image belongs to
+  imageId: string;
 }
 
 export interface Message {
@@ -131,6 +216,7 @@ export interface Message {
   text?: string; // The primary text to display
   textVariations?: string[]; // All unique text responses received
   generationSlots?: GenerationSlot[]; // Single source of truth for new generations
+  slotGroups?: GenerationSlotGroup[]; // Set on comparison runs, one per provider/model
   images?: GeneratedImage[]; // Legacy import compatibility only
   uploadedImages?: UploadedImage[]; // User uploaded images (user only)
   // Store settings used for this generation to display correctly
@@ -141,10 +227,64 @@ export interface Message {
   // The index of the image the user selected to keep for context.
   // If undefined, no image from this batch is used in future context.
   selectedImageId?: string;
+  // Model messages made from an earlier generated image (outpainting)
+  derivedFrom?: DerivedImageSource;
   timestamp: number;
   isError?: boolean;
 }
 
+// Links each imported CSV/JSONL row to the message pair it produced
+export interface BatchImportRowRef {
+  rowNumber: number;
+  userMessageId: string;
+  modelMessageId: string;
+}
+
+export interface BatchImportInfo {
+  sourceName: string; // Imported file name
+  importedAt: number;
+  rows: BatchImportRowRef[];
+}
+
+// A running generation as recorded in IndexedDB, so slots a closed tab left
+// pending can be resumed with the parameters they were requested with.
+export interface GenerationJob {
+  id: string;
+  sessionId: string;
+  messageId: string; // The model message holding the slots
+  prompt: string;
+  settings: Pick<AppSettings, 'aspectRatio' | 'resolution'>;
+  provider: string;
+  model?: string;
+  slots: GenerationSlotDescriptor[];
+  createdAt: number;
+}
+
+// One provider call: a slot on one route, with all of its attempts. A slot
+// that falls back to another provider produces one entry per route.
+export interface GenerationUsage {
+  slotId: string;
+  provider: Provider;
+  model?: string;
+  fallbackIndex?: number;
+  route?: GenerationRoute;
+  size?: string;
+  attempts: number;
+  latencyMs: number; // From dispatch to the final result, retry waits included
+  outcome: 'success' | 'failed';
+  errorKind?: GenerationErrorKind;
+  statusCode?: number;
+  requestId?: string;
+}
+
+// A usage entry as stored in the IndexedDB `usage` store.
+export interface UsageRecord extends GenerationUsage {
+  id: string;
+  timestamp: number; // When the call settled
+  sessionId: string;
+  messageId: string;
+}
+
 export interface Session {
   id: string;
   title: string;
@@ -152,4 +292,6 @@ export interface Session {
   createdAt: number;
   updatedAt: number;
   messageCount?: number;
+  batchImport?: BatchImportInfo; // Set when the session was created by a batch import
+  context?: ConversationContext; // Unset means images only
 }
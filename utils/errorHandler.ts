@@ -62,6 +62,68 @@ function extractApiErrorDetails(error: unknown): ApiErrorDetails | null {
   return { status, code, type, requestId, message };
 }
 
+// Upper bound for server-requested waits, so a bogus header cannot stall a batch.
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    return readString(headers.get(name));
+  }
+  const record = asRecord(headers);
+  if (!record) return undefined;
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name);
+  return key ? readString(record[key]) : undefined;
+}
+
+/**
+ * Parses `Retry-After` (seconds or HTTP date) and OpenAI-style reset
+ * durations such as `1s`, `6m0s` or `250ms`.
+ */
+function parseWaitMs(value: string | undefined, unit: 'seconds' | 'duration'): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  if (unit === 'seconds') {
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) return undefined;
+  const scale: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return parts.reduce((total, [, amount, suffix]) => total + Number(amount) * scale[suffix], 0);
+}
+
+/**
+ * How long the server asked us to wait, from `retry-after-ms`, `Retry-After`,
+ * or an exhausted `x-ratelimit-remaining-*` bucket and its reset time.
+ */
+function extractRetryAfterMs(error: unknown): number | undefined {
+  const headers = asRecord(error)?.headers;
+  if (!headers) return undefined;
+
+  const retryAfterMsHeader = Number(readHeader(headers, 'retry-after-ms'));
+  let waitMs = Number.isFinite(retryAfterMsHeader) && retryAfterMsHeader >= 0
+    ? retryAfterMsHeader
+    : parseWaitMs(readHeader(headers, 'retry-after'), 'seconds');
+
+  if (waitMs === undefined) {
+    for (const bucket of ['requests', 'tokens']) {
+      if (readHeader(headers, `x-ratelimit-remaining-${bucket}`) === '0') {
+        const resetMs = parseWaitMs(readHeader(headers, `x-ratelimit-reset-${bucket}`), 'duration');
+        if (resetMs !== undefined) waitMs = Math.max(waitMs ?? 0, resetMs);
+      }
+    }
+  }
+
+  return waitMs === undefined ? undefined : Math.min(Math.ceil(waitMs), MAX_RETRY_AFTER_MS);
+}
+
+/** 429 and 503 responses mean the provider wants fewer concurrent requests. */
+export function isRateLimitError(error: GenerationErrorInfo): boolean {
+  return error.statusCode === 429 || error.statusCode === 503;
+}
+
 function formatApiError(details: ApiErrorDetails): string {
   const metadata = [
     details.status !== undefined ? `HTTP ${details.status}` : undefined,
@@ -111,6 +173,8 @@ export function serializeGenerationError(
     kind = 'http';
   }
 
+  const retryAfterMs = extractRetryAfterMs(error);
+
   return {
     kind,
     message: rawMessage,
@@ -122,7 +186,8 @@ export function serializeGenerationError(
     retryable:
       kind === 'network' ||
       statusCode === 429 ||
-      (statusCode !== undefined && statusCode >= 500)
+      (statusCode !== undefined && statusCode >= 500),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {})
   };
 }
 
@@ -247,9 +312,10 @@ export function getUserErrorMessage(error: unknown): string {
 
 /**
  * Logs error for debugging (only in development)
+ * `import.meta.env` only exists under Vite; Node callers (CLI/tests) skip logging.
  */
 export function logError(context: string, error: unknown): void {
-  if (import.meta.env.DEV) {
+  if (import.meta.env?.DEV) {
     const classifiedError = classifyError(error);
     // Only log in development mode
     console.error(`[${context}]`, {
@@ -0,0 +1,333 @@
+import { z } from 'zod';
+import { ValidationError } from '../types/errors.ts';
+import { bytesToBase64, encodeIndexedPng } from './pngEncoder.ts';
+
+/**
+ * Fetch-level record/replay for provider traffic. The recorder wraps a fetch
+ * implementation and keeps a sanitized copy of every exchange; the replayer
+ * serves those exchanges back so parsing can be tested without a network.
+ */
+
+export type FetchImpl = typeof fetch;
+
+export const REDACTED = '[REDACTED]';
+
+// Anything longer than this that looks like base64 is treated as image data.
+const MIN_BASE64_LENGTH = 256;
+const MAX_TEXT_LENGTH = 4000;
+
+const SENSITIVE_HEADERS = new Set(['authorization', 'x-goog-api-key', 'api-key', 'x-api-key', 'cookie']);
+const SENSITIVE_QUERY_PARAMS = new Set(['key', 'api_key', 'apikey', 'access_token']);
+const RECORDED_REQUEST_HEADERS = new Set(['content-type', 'accept', ...SENSITIVE_HEADERS]);
+const RECORDED_RESPONSE_HEADERS = new Set(['content-type', 'x-request-id', 'request-id', 'retry-after']);
+
+const DATA_URI_PATTERN = /data:([\w.+-]+\/[\w.+-]+);base64,[A-Za-z0-9+/=]+/g;
+const BASE64_PATTERN = /^[A-Za-z0-9+/=\r\n]+$/;
+
+// 1x1 banana-yellow PNG that stands in for every recorded image payload.
+export const PLACEHOLDER_PNG_BASE64 = bytesToBase64(
+  encodeIndexedPng(1, 1, [[255, 214, 0]], new Uint8Array(1))
+);
+
+const formDataEntrySchema = z.object({
+  name: z.string(),
+  value: z.string().optional(),
+  file: z.object({ name: z.string(), type: z.string(), size: z.number() }).optional()
+});
+
+const recordedRequestSchema = z.object({
+  method: z.string(),
+  url: z.string(),
+  headers: z.record(z.string(), z.string()).default({}),
+  body: z.unknown().optional(),
+  formData: z.array(formDataEntrySchema).optional()
+});
+
+const recordedResponseSchema = z.object({
+  status: z.number().int(),
+  statusText: z.string().optional(),
+  headers: z.record(z.string(), z.string()).default({}),
+  body: z.unknown().optional(),
+  // Image bodies (e.g. downloaded result URLs) are stored as base64.
+  bodyEncoding: z.enum(['json', 'text', 'base64']).default('json'),
+  // Set instead of a status when the request failed before a response arrived.
+  networkError: z.string().optional()
+});
+
+const httpFixtureSchema = z.object({
+  version: z.literal(1),
+  name: z.string(),
+  recordedAt: z.string(),
+  interactions: z.array(z.object({
+    request: recordedRequestSchema,
+    response: recordedResponseSchema
+  }))
+});
+
+export type RecordedRequest = z.infer<typeof recordedRequestSchema>;
+export type RecordedResponse = z.infer<typeof recordedResponseSchema>;
+export type HttpInteraction = z.infer<typeof httpFixtureSchema>['interactions'][number];
+export type HttpFixture = z.infer<typeof httpFixtureSchema>;
+
+export function parseHttpFixture(value: unknown): HttpFixture {
+  const result = httpFixtureSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ValidationError(`Invalid HTTP fixture: ${issue.message}`, issue.path.join('.') || 'fixture');
+  }
+  return result.data;
+}
+
+function scrubSecrets(value: string, secrets: readonly string[]): string {
+  return secrets.reduce(
+    (text, secret) => (secret ? text.split(secret).join(REDACTED) : text),
+    value
+  );
+}
+
+function truncateString(value: string, secrets: readonly string[]): string {
+  const replaced = value.replace(
+    DATA_URI_PATTERN,
+    (match, mimeType: string) =>
+      match.length >= MIN_BASE64_LENGTH ? `data:${mimeType};base64,${PLACEHOLDER_PNG_BASE64}` : match
+  );
+  if (replaced.length >= MIN_BASE64_LENGTH && BASE64_PATTERN.test(replaced)) {
+    return PLACEHOLDER_PNG_BASE64;
+  }
+  const scrubbed = scrubSecrets(replaced, secrets);
+  return scrubbed.length > MAX_TEXT_LENGTH ? `${scrubbed.slice(0, MAX_TEXT_LENGTH)}…[truncated]` : scrubbed;
+}
+
+/** Replaces image payloads with a placeholder PNG and scrubs known secrets. */
+export function sanitizeRecordedValue(value: unknown, secrets: readonly string[] = []): unknown {
+  if (typeof value === 'string') return truncateString(value, secrets);
+  if (Array.isArray(value)) return value.map((item) => sanitizeRecordedValue(item, secrets));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, sanitizeRecordedValue(item, secrets)])
+    );
+  }
+  return value;
+}
+
+export function redactUrl(url: string, secrets: readonly string[] = []): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SENSITIVE_QUERY_PARAMS.has(name.toLowerCase())) {
+        parsed.searchParams.set(name, REDACTED);
+      }
+    }
+    return scrubSecrets(parsed.toString().split(encodeURIComponent(REDACTED)).join(REDACTED), secrets);
+  } catch {
+    return scrubSecrets(url.replace(/([?&](?:key|api_key|apikey|access_token)=)[^&]*/gi, `$1${REDACTED}`), secrets);
+  }
+}
+
+function pickHeaders(headers: Headers, allowed: Set<string>): Record<string, string> {
+  const picked: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    const lower = name.toLowerCase();
+    if (SENSITIVE_HEADERS.has(lower)) {
+      picked[lower] = REDACTED;
+    } else if (allowed.has(lower) || lower.startsWith('x-ratelimit-')) {
+      picked[lower] = value;
+    }
+  });
+  return picked;
+}
+
+function parseBodyText(text: string): { body: unknown; encoding: 'json' | 'text' } {
+  try {
+    return { body: JSON.parse(text), encoding: 'json' };
+  } catch {
+    return { body: text, encoding: 'text' };
+  }
+}
+
+function describeRequest(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  secrets: readonly string[]
+): RecordedRequest {
+  const url = input instanceof Request ? input.url : input.toString();
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  const request: RecordedRequest = {
+    method,
+    url: redactUrl(url, secrets),
+    headers: pickHeaders(headers, RECORDED_REQUEST_HEADERS)
+  };
+
+  const body = init?.body;
+  if (body instanceof FormData) {
+    request.formData = [...body.entries()].map(([name, value]) =>
+      typeof value === 'string'
+        ? { name, value: truncateString(value, secrets) }
+        : { name, file: { name: value.name, type: value.type, size: value.size } }
+    );
+  } else if (typeof body === 'string') {
+    request.body = sanitizeRecordedValue(parseBodyText(body).body, secrets);
+  } else if (body instanceof Uint8Array || body instanceof ArrayBuffer) {
+    request.body = `[${body.byteLength} bytes]`;
+  }
+  return request;
+}
+
+async function describeResponse(response: Response, secrets: readonly string[]): Promise<RecordedResponse> {
+  const headers = pickHeaders(response.headers, RECORDED_RESPONSE_HEADERS);
+  const contentType = response.headers.get('content-type') ?? '';
+  const recorded: RecordedResponse = {
+    status: response.status,
+    statusText: response.statusText || undefined,
+    headers,
+    bodyEncoding: 'json'
+  };
+
+  if (contentType.startsWith('image/')) {
+    recorded.body = PLACEHOLDER_PNG_BASE64;
+    recorded.bodyEncoding = 'base64';
+    recorded.headers['content-type'] = 'image/png';
+    return recorded;
+  }
+
+  const { body, encoding } = parseBodyText(await response.text());
+  recorded.body = sanitizeRecordedValue(body, secrets);
+  recorded.bodyEncoding = encoding;
+  return recorded;
+}
+
+export interface FetchRecorderOptions {
+  fetch?: FetchImpl;
+  // Literal values (API keys, tokens) scrubbed from every recorded string.
+  secrets?: string[];
+}
+
+export interface FetchRecorder {
+  fetch: FetchImpl;
+  /** Waits for in-flight responses to finish recording and returns the fixture. */
+  toFixture: (name: string) => Promise<HttpFixture>;
+}
+
+export function createFetchRecorder(options: FetchRecorderOptions = {}): FetchRecorder {
+  const baseFetch = options.fetch ?? globalThis.fetch;
+  const secrets = (options.secrets ?? []).filter((secret) => secret.length >= 4);
+  const pending: Promise<HttpInteraction>[] = [];
+
+  const recordingFetch: FetchImpl = async (input, init) => {
+    const request = describeRequest(input, init, secrets);
+    let response: Response;
+    try {
+      response = await baseFetch(input, init);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // User cancellations are not part of the provider's behaviour.
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        pending.push(Promise.resolve({
+          request,
+          response: { status: 0, headers: {}, bodyEncoding: 'text', networkError: scrubSecrets(message, secrets) }
+        }));
+      }
+      throw error;
+    }
+
+    // Record from a clone so the caller can consume the body immediately.
+    pending.push(
+      describeResponse(response.clone(), secrets)
+        .catch((error): RecordedResponse => ({
+          status: response.status,
+          headers: pickHeaders(response.headers, RECORDED_RESPONSE_HEADERS),
+          bodyEncoding: 'text',
+          body: `[body not recorded: ${error instanceof Error ? error.message : String(error)}]`
+        }))
+        .then((recorded) => ({ request, response: recorded }))
+    );
+    return response;
+  };
+
+  return {
+    fetch: recordingFetch,
+    toFixture: async (name) => ({
+      version: 1,
+      name,
+      recordedAt: new Date().toISOString(),
+      interactions: await Promise.all(pending)
+    })
+  };
+}
+
+function matchKey(method: string, url: string): string {
+  try {
+    return `${method.toUpperCase()} ${new URL(url).pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return `${method.toUpperCase()} ${url.split('?')[0]}`;
+  }
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  if (recorded.networkError !== undefined) {
+    throw new TypeError(recorded.networkError);
+  }
+  const headers = new Headers(recorded.headers);
+  let body: BodyInit | null;
+  if (recorded.bodyEncoding === 'base64') {
+    body = Uint8Array.from(atob(String(recorded.body ?? '')), (char) => char.charCodeAt(0));
+  } else if (recorded.bodyEncoding === 'text') {
+    body = String(recorded.body ?? '');
+  } else {
+    body = recorded.body === undefined ? null : JSON.stringify(recorded.body);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  }
+  // Null-body statuses reject a body in the Response constructor.
+  if (recorded.status === 204 || recorded.status === 304) body = null;
+  return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers });
+}
+
+export interface ReplayFetch {
+  fetch: FetchImpl;
+  /** Sanitized copies of the requests served so far, in call order. */
+  requests: RecordedRequest[];
+}
+
+/**
+ * Serves recorded interactions by method and URL path (host and query are
+ * ignored so a fixture can be replayed against another base URL). Matching
+ * interactions are consumed in order; once exhausted the last one repeats,
+ * so retries and larger batches replay too.
+ */
+export function createReplayFetch(fixture: HttpFixture): ReplayFetch {
+  const queues = new Map<string, HttpInteraction[]>();
+  const lastServed = new Map<string, HttpInteraction>();
+  for (const interaction of fixture.interactions) {
+    const key = matchKey(interaction.request.method, interaction.request.url);
+    queues.set(key, [...(queues.get(key) ?? []), interaction]);
+  }
+
+  const requests: RecordedRequest[] = [];
+  const replayFetch: FetchImpl = async (input, init) => {
+    const request = describeRequest(input, init, []);
+    requests.push(request);
+    if (init?.signal?.aborted) {
+      throw new DOMException('This operation was aborted', 'AbortError');
+    }
+
+    const key = matchKey(request.method, request.url);
+    const interaction = queues.get(key)?.shift() ?? lastServed.get(key);
+    if (!interaction) {
+      throw new Error(`Fixture "${fixture.name}" has no recorded response for ${key}`);
+    }
+    lastServed.set(key, interaction);
+    return toResponse(interaction.response);
+  };
+
+  return { fetch: replayFetch, requests };
+}
+
+/** Swaps `globalThis.fetch` and returns a function that restores the original. */
+export function installFetch(impl: FetchImpl): () => void {
+  const previous = globalThis.fetch;
+  globalThis.fetch = impl;
+  return () => {
+    globalThis.fetch = previous;
+  };
+}
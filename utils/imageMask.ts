@@ -0,0 +1,119 @@
+import type { AspectRatio, ImageMask } from '../types';
+import { getOutpaintLayout } from '../core/outpaint';
+
+/**
+ * Inpainting and outpainting mask helpers. Strokes are painted on a canvas
+ * at the image's natural size; any painted pixel marks the region the model
+ * may change.
+ */
+
+// Strokes color; also the tint of the annotated copy sent to Gemini routes
+export const MASK_STROKE_COLOR = 'rgb(239, 68, 68)';
+const ANNOTATION_ALPHA = 0.55;
+const ANNOTATION_JPEG_QUALITY = 0.9;
+
+export function loadImageElement(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return [canvas, ctx];
+}
+
+function hasPaintedPixels(strokes: HTMLCanvasElement): boolean {
+  const ctx = strokes.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, strokes.width, strokes.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Exports the strokes as an OpenAI-style mask (opaque black, transparent where
+ * painted) plus a tinted copy of the image. `undefined` when nothing is painted.
+ */
+export function createImageMask(image: HTMLImageElement, strokes: HTMLCanvasElement): ImageMask | undefined {
+  if (!hasPaintedPixels(strokes)) return undefined;
+  const { width, height } = strokes;
+
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  maskCtx.fillStyle = '#000';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.globalCompositeOperation = 'destination-out';
+  maskCtx.drawImage(strokes, 0, 0);
+
+  const [annotatedCanvas, annotatedCtx] = createCanvas(width, height);
+  annotatedCtx.drawImage(image, 0, 0, width, height);
+  annotatedCtx.globalAlpha = ANNOTATION_ALPHA;
+  annotatedCtx.drawImage(strokes, 0, 0);
+
+  return {
+    data: maskCanvas.toDataURL('image/png'),
+    annotated: annotatedCanvas.toDataURL('image/jpeg', ANNOTATION_JPEG_QUALITY)
+  };
+}
+
+// Paints an existing mask's transparent region back onto the strokes canvas for editing.
+export async function drawMaskStrokes(strokes: HTMLCanvasElement, mask: ImageMask): Promise<void> {
+  const maskImage = await loadImageElement(mask.data);
+  const ctx = strokes.getContext('2d');
+  if (!ctx) return;
+  ctx.save();
+  ctx.fillStyle = MASK_STROKE_COLOR;
+  ctx.fillRect(0, 0, strokes.width, strokes.height);
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(maskImage, 0, 0, strokes.width, strokes.height);
+  ctx.restore();
+}
+
+/**
+ * Centers the image on a transparent canvas of the target ratio, with a mask
+ * that leaves only the border editable and a tinted copy for routes without
+ * mask support.
+ */
+export async function createOutpaintImage(
+  src: string,
+  aspectRatio: AspectRatio
+): Promise<{ data: string; mask: ImageMask }> {
+  const image = await loadImageElement(src);
+  const layout = getOutpaintLayout(image.naturalWidth, image.naturalHeight, aspectRatio);
+  const { width, height, x, y, imageWidth, imageHeight } = layout;
+
+  const [paddedCanvas, paddedCtx] = createCanvas(width, height);
+  paddedCtx.drawImage(image, x, y, imageWidth, imageHeight);
+
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  maskCtx.fillStyle = '#000';
+  maskCtx.fillRect(x, y, imageWidth, imageHeight);
+
+  const [annotatedCanvas, annotatedCtx] = createCanvas(width, height);
+  annotatedCtx.fillStyle = '#fff';
+  annotatedCtx.fillRect(0, 0, width, height);
+  annotatedCtx.globalAlpha = ANNOTATION_ALPHA;
+  annotatedCtx.fillStyle = MASK_STROKE_COLOR;
+  annotatedCtx.fillRect(0, 0, width, height);
+  annotatedCtx.globalAlpha = 1;
+  annotatedCtx.drawImage(image, x, y, imageWidth, imageHeight);
+
+  return {
+    data: paddedCanvas.toDataURL('image/png'),
+    mask: {
+      data: maskCanvas.toDataURL('image/png'),
+      annotated: annotatedCanvas.toDataURL('image/jpeg', ANNOTATION_JPEG_QUALITY)
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { GenerationJob, Session } from '../types.ts';
+import { findOrphanedGenerations } from '../core/generationJobs.ts';
+import { createPendingGenerationSlots, toSlotDescriptors } from '../core/generationSlots.ts';
+import { getAllGenerationJobs, getAllSessions, putGenerationJob, putSession } from './indexedDb.ts';
+
+test('pending slots survive a reload and are found as orphans', async () => {
+  const [pending] = createPendingGenerationSlots(1);
+  const session: Session = {
+    id: 'session',
+    title: 'kites',
+    createdAt: 0,
+    updatedAt: 0,
+    messages: [
+      { id: 'u1', role: 'user', text: 'a red kite', timestamp: 0 },
+      { id: 'm1', role: 'model', timestamp: 1, generationSlots: [pending] }
+    ]
+  };
+  const job: GenerationJob = {
+    id: 'job',
+    sessionId: 'session',
+    messageId: 'm1',
+    prompt: 'a red kite',
+    settings: { aspectRatio: '16:9', resolution: '2K' },
+    provider: 'openai',
+    model: 'gpt-image-2',
+    slots: toSlotDescriptors([pending]),
+    createdAt: 0
+  };
+  await putSession(session);
+  await putGenerationJob(job);
+
+  const [loaded] = await getAllSessions();
+  assert.deepEqual(loaded.messages[1].generationSlots, [pending]);
+
+  const { orphans, staleJobIds } = findOrphanedGenerations([loaded], await getAllGenerationJobs());
+  assert.deepEqual(orphans, [
+    { sessionId: 'session', messageId: 'm1', slots: toSlotDescriptors([pending]), job, jobIds: ['job'] }
+  ]);
+  assert.deepEqual(staleJobIds, []);
+});
@@ -3,18 +3,24 @@ import type {
   Message,
   GeneratedImage,
   UploadedImage,
+  ImageMask,
   GenerationErrorInfo,
-  GenerationSlot
-} from '../types';
-import { getMessageGenerationSlots, getSuccessfulImages } from '../core/generationSlots';
+  GenerationJob,
+  GenerationSlot,
+  GenerationSource,
+  UsageRecord
+} from '../types.ts';
+import { getMessageGenerationSlots, getSuccessfulImages } from '../core/generationSlots.ts';
 
 const DB_NAME = 'banana-batch-db';
-const DB_VERSION = 2;
+const DB_VERSION = 4;
 
 const STORE_SESSIONS = 'sessions';
 const STORE_MESSAGES = 'messages';
 const STORE_IMAGES = 'images';
 const STORE_META = 'meta';
+const STORE_GENERATION_JOBS = 'generationJobs';
+const STORE_USAGE = 'usage';
 
 const LEGACY_SESSIONS_STORE = 'sessions';
 
@@ -29,6 +35,8 @@ type SessionRecord = {
   title: string;
   createdAt: number;
   updatedAt: number;
+  batchImport?: Session['batchImport'];
+  context?: Session['context'];
 };
 
 type MessageRecord = {
@@ -38,17 +46,27 @@ type MessageRecord = {
   text?: string;
   textVariations?: string[];
   generationSettings?: Message['generationSettings'];
+  slotGroups?: Message['slotGroups'];
   selectedImageId?: string;
+  derivedFrom?: Message['derivedFrom'];
   timestamp: number;
   isError?: boolean;
   generationSlots?: GenerationSlotRecord[];
 };
 
+type GenerationSlotRecordBase = {
+  slotId: string;
+  index: number;
+  attempts: number;
+  prompt?: string;
+  groupId?: string;
+};
+
 type GenerationSlotRecord =
-  | { slotId: string; index: number; status: 'pending'; attempts: number }
-  | { slotId: string; index: number; status: 'success'; attempts: number; imageId: string }
-  | { slotId: string; index: number; status: 'failed'; attempts: number; error: GenerationErrorInfo }
-  | { slotId: string; index: number; status: 'cancelled'; attempts: number; reason: string };
+  | (GenerationSlotRecordBase & { status: 'pending' })
+  | (GenerationSlotRecordBase & { status: 'success'; imageId: string; source?: GenerationSource })
+  | (GenerationSlotRecordBase & { status: 'failed'; error: GenerationErrorInfo })
+  | (GenerationSlotRecordBase & { status: 'cancelled'; reason: string });
 
 type ImageRecord = {
   id: string;
@@ -59,6 +77,7 @@ type ImageRecord = {
   dataUrl?: string;
   mimeType: string;
   name?: string;
+  mask?: ImageMask; // Uploaded images only
   status: 'success' | 'error';
   size: number;
   createdAt: number;
@@ -110,6 +129,16 @@ function openDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_META)) {
         db.createObjectStore(STORE_META, { keyPath: 'key' });
       }
+
+      if (!db.objectStoreNames.contains(STORE_GENERATION_JOBS)) {
+        const jobsStore = db.createObjectStore(STORE_GENERATION_JOBS, { keyPath: 'id' });
+        jobsStore.createIndex('bySessionId', 'sessionId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORE_USAGE)) {
+        const usageStore = db.createObjectStore(STORE_USAGE, { keyPath: 'id' });
+        usageStore.createIndex('byTimestamp', 'timestamp', { unique: false });
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -197,46 +226,37 @@ function toSessionRecord(session: Session): SessionRecord {
     id: session.id,
     title: session.title,
     createdAt: session.createdAt,
-    updatedAt: session.updatedAt
+    updatedAt: session.updatedAt,
+    batchImport: session.batchImport,
+    context: session.context
   };
 }
 
 function toMessageRecord(sessionId: string, message: Message): MessageRecord {
   const generationSlots = message.role === 'model'
     ? getMessageGenerationSlots(message).map<GenerationSlotRecord>((slot) => {
+        const base: GenerationSlotRecordBase = {
+          slotId: slot.slotId,
+          index: slot.index,
+          attempts: slot.attempts,
+          ...(slot.prompt !== undefined ? { prompt: slot.prompt } : {}),
+          ...(slot.groupId !== undefined ? { groupId: slot.groupId } : {})
+        };
         if (slot.status === 'success') {
           return {
-            slotId: slot.slotId,
-            index: slot.index,
+            ...base,
             status: 'success',
-            attempts: slot.attempts,
-            imageId: slot.image.id
+            imageId: slot.image.id,
+            ...(slot.source ? { source: slot.source } : {})
           };
         }
         if (slot.status === 'failed') {
-          return {
-            slotId: slot.slotId,
-            index: slot.index,
-            status: 'failed',
-            attempts: slot.attempts,
-            error: slot.error
-          };
+          return { ...base, status: 'failed', error: slot.error };
         }
         if (slot.status === 'cancelled') {
-          return {
-            slotId: slot.slotId,
-            index: slot.index,
-            status: 'cancelled',
-            attempts: slot.attempts,
-            reason: slot.reason
-          };
+          return { ...base, status: 'cancelled', reason: slot.reason };
         }
-        return {
-          slotId: slot.slotId,
-          index: slot.index,
-          status: 'pending',
-          attempts: slot.attempts
-        };
+        return { ...base, status: 'pending' };
       })
     : undefined;
 
@@ -247,7 +267,9 @@ function toMessageRecord(sessionId: string, message: Message): MessageRecord {
     text: message.text,
     textVariations: message.textVariations,
     generationSettings: message.generationSettings,
+    slotGroups: message.slotGroups,
     selectedImageId: message.selectedImageId,
+    derivedFrom: message.derivedFrom,
     timestamp: message.timestamp,
     isError: message.isError,
     generationSlots
@@ -262,7 +284,9 @@ function createImageRecord(
   timestamp: number,
   status: 'success' | 'error'
 ): ImageRecord {
-  const size = image.data ? estimateDataUrlSize(image.data) : 0;
+  const mask = 'mask' in image ? image.mask : undefined;
+  const size = (image.data ? estimateDataUrlSize(image.data) : 0) +
+    (mask ? estimateDataUrlSize(mask.data) + estimateDataUrlSize(mask.annotated) : 0);
   const blob = image.data ? dataUrlToBlob(image.data) : undefined;
 
   return {
@@ -274,6 +298,7 @@ function createImageRecord(
     dataUrl: status === 'error' ? image.data : undefined,
     mimeType: image.mimeType,
     name: 'name' in image ? image.name : undefined,
+    mask,
     status,
     size,
     createdAt: timestamp,
@@ -381,6 +406,7 @@ async function hydrateImageRecord(record: ImageRecord): Promise<GeneratedImage |
     mimeType: record.mimeType,
     status: record.status,
     name: record.name,
+    ...(record.mask ? { mask: record.mask } : {}),
     storageSize: record.size,
     lastAccessedAt: record.lastAccessedAt
   } as GeneratedImage | UploadedImage;
@@ -420,6 +446,8 @@ async function hydrateSession(db: IDBDatabase, sessionRecord: SessionRecord): Pr
             return {
               slotId: slot.slotId,
               index: slot.index,
+              ...(slot.prompt !== undefined ? { prompt: slot.prompt } : {}),
+              ...(slot.groupId !== undefined ? { groupId: slot.groupId } : {}),
               status: 'failed',
               attempts: slot.attempts,
               error: {
@@ -430,15 +458,6 @@ async function hydrateSession(db: IDBDatabase, sessionRecord: SessionRecord): Pr
               }
             };
           }
-          if (slot.status === 'pending') {
-            return {
-              slotId: slot.slotId,
-              index: slot.index,
-              status: 'cancelled',
-              attempts: slot.attempts,
-              reason: '页面刷新导致生成任务中断。'
-            };
-          }
           return slot;
         })
         .sort((left, right) => left.index - right.index);
@@ -474,7 +493,9 @@ async function hydrateSession(db: IDBDatabase, sessionRecord: SessionRecord): Pr
       generationSlots: generationSlots.length > 0 ? generationSlots : undefined,
       uploadedImages: uploadedImages.length > 0 ? uploadedImages : undefined,
       generationSettings: messageRecord.generationSettings,
+      slotGroups: messageRecord.slotGroups,
       selectedImageId: selectedImageExists ? messageRecord.selectedImageId : undefined,
+      derivedFrom: messageRecord.derivedFrom,
       timestamp: messageRecord.timestamp,
       isError: messageRecord.isError
     });
@@ -579,10 +600,14 @@ export async function deleteSessionById(sessionId: string): Promise<void> {
   try {
     const messageRecords = await getMessagesForSession(db, sessionId);
     const imageRecords = await getImagesForSession(db, sessionId);
-    const tx = db.transaction([STORE_SESSIONS, STORE_MESSAGES, STORE_IMAGES], 'readwrite');
+    const tx = db.transaction(
+      [STORE_SESSIONS, STORE_MESSAGES, STORE_IMAGES, STORE_GENERATION_JOBS],
+      'readwrite'
+    );
     const sessionStore = tx.objectStore(STORE_SESSIONS);
     const messageStore = tx.objectStore(STORE_MESSAGES);
     const imageStore = tx.objectStore(STORE_IMAGES);
+    const jobsStore = tx.objectStore(STORE_GENERATION_JOBS);
 
     for (const message of messageRecords) {
       messageStore.delete(message.id);
@@ -592,6 +617,13 @@ export async function deleteSessionById(sessionId: string): Promise<void> {
       imageStore.delete(image.id);
     }
 
+    const jobKeys = await requestToPromise(
+      jobsStore.index('bySessionId').getAllKeys(IDBKeyRange.only(sessionId))
+    );
+    for (const key of jobKeys) {
+      jobsStore.delete(key);
+    }
+
     sessionStore.delete(sessionId);
     await transactionDone(tx);
   } finally {
@@ -605,7 +637,7 @@ export async function clearAllSessionData(
   const db = await openDb();
   try {
     const tx = db.transaction(
-      [STORE_SESSIONS, STORE_MESSAGES, STORE_IMAGES, STORE_META],
+      [STORE_SESSIONS, STORE_MESSAGES, STORE_IMAGES, STORE_META, STORE_GENERATION_JOBS],
       'readwrite'
     );
     const sessionStore = tx.objectStore(STORE_SESSIONS);
@@ -618,6 +650,7 @@ export async function clearAllSessionData(
     messageStore.clear();
     imageStore.clear();
     metaStore.clear();
+    tx.objectStore(STORE_GENERATION_JOBS).clear();
     sessionStore.put(toSessionRecord(emptySession));
     metaStore.put({ key: 'currentSessionId', value: emptySession.id } as MetaRecord);
     metaStore.put({ key: 'schemaV2Migrated', value: true } as MetaRecord);
@@ -652,6 +685,84 @@ export async function getMetaValue<T>(key: string): Promise<T | undefined> {
   }
 }
 
+/** Records a generation while it runs; see `findOrphanedGenerations`. */
+export async function putGenerationJob(job: GenerationJob): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(STORE_GENERATION_JOBS, 'readwrite');
+    tx.objectStore(STORE_GENERATION_JOBS).put(job);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteGenerationJobs(jobIds: string[]): Promise<void> {
+  if (jobIds.length === 0) return;
+  const db = await openDb();
+  try {
+    const tx = db.transaction(STORE_GENERATION_JOBS, 'readwrite');
+    const store = tx.objectStore(STORE_GENERATION_JOBS);
+    for (const id of jobIds) {
+      store.delete(id);
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+export async function getAllGenerationJobs(): Promise<GenerationJob[]> {
+  const db = await openDb();
+  try {
+    return (await requestToPromise(
+      db.transaction(STORE_GENERATION_JOBS, 'readonly').objectStore(STORE_GENERATION_JOBS).getAll()
+    )) as GenerationJob[];
+  } finally {
+    db.close();
+  }
+}
+
+/** Appends provider calls to the usage ledger; kept when sessions are cleared. */
+export async function putUsageRecords(records: UsageRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await openDb();
+  try {
+    const tx = db.transaction(STORE_USAGE, 'readwrite');
+    const store = tx.objectStore(STORE_USAGE);
+    for (const record of records) {
+      store.put(record);
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+/** Usage records in time order, optionally only those at or after `since`. */
+export async function getUsageRecords(since?: number): Promise<UsageRecord[]> {
+  const db = await openDb();
+  try {
+    const index = db.transaction(STORE_USAGE, 'readonly').objectStore(STORE_USAGE).index('byTimestamp');
+    return (await requestToPromise(
+      index.getAll(since === undefined ? undefined : IDBKeyRange.lowerBound(since))
+    )) as UsageRecord[];
+  } finally {
+    db.close();
+  }
+}
+
+export async function clearUsageRecords(): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(STORE_USAGE, 'readwrite');
+    tx.objectStore(STORE_USAGE).clear();
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
 export async function touchImageAccess(imageIds: string[]): Promise<void> {
   if (imageIds.length === 0) {
     return;
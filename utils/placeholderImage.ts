@@ -0,0 +1,253 @@
+import type { AspectRatio, Resolution } from '../types.ts';
+import { bytesToBase64, encodeIndexedPng, type RgbColor } from './pngEncoder.ts';
+
+export interface PlaceholderImageOptions {
+  prompt: string;
+  slotIndex: number;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  seed?: number;
+}
+
+export interface PlaceholderImage {
+  data: string; // Base64 data URI
+  mimeType: 'image/png';
+  width: number;
+  height: number;
+}
+
+// Placeholders only need to look like the requested shape, so keep them small.
+const LONG_EDGE: Record<Resolution, number> = {
+  '1K': 256,
+  '2K': 384,
+  '4K': 512
+};
+
+// 5x7 glyphs, one byte per column with the top row in the lowest bit.
+const GLYPHS: Record<string, readonly number[]> = {
+  ' ': [0x00, 0x00, 0x00, 0x00, 0x00],
+  '!': [0x00, 0x00, 0x5f, 0x00, 0x00],
+  '"': [0x00, 0x07, 0x00, 0x07, 0x00],
+  '#': [0x14, 0x7f, 0x14, 0x7f, 0x14],
+  "'": [0x00, 0x00, 0x07, 0x00, 0x00],
+  '(': [0x00, 0x1c, 0x22, 0x41, 0x00],
+  ')': [0x00, 0x41, 0x22, 0x1c, 0x00],
+  '*': [0x14, 0x08, 0x3e, 0x08, 0x14],
+  '+': [0x08, 0x08, 0x3e, 0x08, 0x08],
+  ',': [0x00, 0x50, 0x30, 0x00, 0x00],
+  '-': [0x08, 0x08, 0x08, 0x08, 0x08],
+  '.': [0x00, 0x60, 0x60, 0x00, 0x00],
+  '/': [0x20, 0x10, 0x08, 0x04, 0x02],
+  '0': [0x3e, 0x51, 0x49, 0x45, 0x3e],
+  '1': [0x00, 0x42, 0x7f, 0x40, 0x00],
+  '2': [0x42, 0x61, 0x51, 0x49, 0x46],
+  '3': [0x21, 0x41, 0x45, 0x4b, 0x31],
+  '4': [0x18, 0x14, 0x12, 0x7f, 0x10],
+  '5': [0x27, 0x45, 0x45, 0x45, 0x39],
+  '6': [0x3c, 0x4a, 0x49, 0x49, 0x30],
+  '7': [0x01, 0x71, 0x09, 0x05, 0x03],
+  '8': [0x36, 0x49, 0x49, 0x49, 0x36],
+  '9': [0x06, 0x49, 0x49, 0x29, 0x1e],
+  ':': [0x00, 0x36, 0x36, 0x00, 0x00],
+  '=': [0x14, 0x14, 0x14, 0x14, 0x14],
+  '?': [0x02, 0x01, 0x51, 0x09, 0x06],
+  A: [0x7e, 0x11, 0x11, 0x11, 0x7e],
+  B: [0x7f, 0x49, 0x49, 0x49, 0x36],
+  C: [0x3e, 0x41, 0x41, 0x41, 0x22],
+  D: [0x7f, 0x41, 0x41, 0x22, 0x1c],
+  E: [0x7f, 0x49, 0x49, 0x49, 0x41],
+  F: [0x7f, 0x09, 0x09, 0x09, 0x01],
+  G: [0x3e, 0x41, 0x49, 0x49, 0x7a],
+  H: [0x7f, 0x08, 0x08, 0x08, 0x7f],
+  I: [0x00, 0x41, 0x7f, 0x41, 0x00],
+  J: [0x20, 0x40, 0x41, 0x3f, 0x01],
+  K: [0x7f, 0x08, 0x14, 0x22, 0x41],
+  L: [0x7f, 0x40, 0x40, 0x40, 0x40],
+  M: [0x7f, 0x02, 0x0c, 0x02, 0x7f],
+  N: [0x7f, 0x04, 0x08, 0x10, 0x7f],
+  O: [0x3e, 0x41, 0x41, 0x41, 0x3e],
+  P: [0x7f, 0x09, 0x09, 0x09, 0x06],
+  Q: [0x3e, 0x41, 0x51, 0x21, 0x5e],
+  R: [0x7f, 0x09, 0x19, 0x29, 0x46],
+  S: [0x46, 0x49, 0x49, 0x49, 0x31],
+  T: [0x01, 0x01, 0x7f, 0x01, 0x01],
+  U: [0x3f, 0x40, 0x40, 0x40, 0x3f],
+  V: [0x1f, 0x20, 0x40, 0x20, 0x1f],
+  W: [0x3f, 0x40, 0x38, 0x40, 0x3f],
+  X: [0x63, 0x14, 0x08, 0x14, 0x63],
+  Y: [0x07, 0x08, 0x70, 0x08, 0x07],
+  Z: [0x61, 0x51, 0x49, 0x45, 0x43],
+  _: [0x40, 0x40, 0x40, 0x40, 0x40],
+  '|': [0x00, 0x00, 0x7f, 0x00, 0x00]
+};
+
+const GLYPH_ADVANCE = 6;
+const LINE_HEIGHT = 9;
+
+const PALETTE_INDEX = {
+  background: 0,
+  stripe: 1,
+  border: 2,
+  text: 3
+} as const;
+
+// FNV-1a; stable across runtimes, used to derive deterministic placeholder output.
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): RgbColor {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const segment = hue / 60;
+  const x = chroma * (1 - Math.abs((segment % 2) - 1));
+  const [r, g, b] =
+    segment < 1 ? [chroma, x, 0]
+      : segment < 2 ? [x, chroma, 0]
+        : segment < 3 ? [0, chroma, x]
+          : segment < 4 ? [0, x, chroma]
+            : segment < 5 ? [x, 0, chroma]
+              : [chroma, 0, x];
+  const m = lightness - chroma / 2;
+  return [r, g, b].map((channel) => Math.round((channel + m) * 255)) as unknown as RgbColor;
+}
+
+export function getPlaceholderSize(
+  aspectRatio: AspectRatio,
+  resolution: Resolution
+): { width: number; height: number } {
+  const longEdge = LONG_EDGE[resolution] ?? LONG_EDGE['1K'];
+  const [w, h] = aspectRatio === 'Auto' ? [1, 1] : aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longEdge, height: longEdge };
+
+  return w >= h
+    ? { width: longEdge, height: Math.max(16, Math.round((longEdge * h) / w)) }
+    : { width: Math.max(16, Math.round((longEdge * w) / h)), height: longEdge };
+}
+
+function toDrawableText(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[^\x20-\x7e]+/g, '?')
+    .split('')
+    .map((char) => (GLYPHS[char] ? char : '?'))
+    .join('');
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    const chunks = word.match(new RegExp(`.{1,${maxChars}}`, 'g')) ?? [''];
+    for (const chunk of chunks) {
+      const candidate = current ? `${current} ${chunk}` : chunk;
+      if (candidate.length <= maxChars) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = chunk;
+      }
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, Math.max(0, maxChars - 3))}...`;
+    return kept;
+  }
+  return lines;
+}
+
+/**
+ * Renders a deterministic placeholder PNG: a tinted card showing the slot
+ * number, the requested ratio/resolution and the prompt text.
+ */
+export function renderPlaceholderImage(options: PlaceholderImageOptions): PlaceholderImage {
+  const { prompt, slotIndex, aspectRatio, resolution, seed = 0 } = options;
+  const { width, height } = getPlaceholderSize(aspectRatio, resolution);
+  const hue = hashString(`${seed}|${prompt}|${slotIndex}`) % 360;
+  const palette: RgbColor[] = [
+    hslToRgb(hue, 0.55, 0.72),
+    hslToRgb(hue, 0.55, 0.66),
+    hslToRgb(hue, 0.45, 0.32),
+    [24, 24, 32]
+  ];
+  const pixels = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const onBorder = x < 2 || y < 2 || x >= width - 2 || y >= height - 2;
+      pixels[y * width + x] = onBorder
+        ? PALETTE_INDEX.border
+        : (x + y) % 24 < 12
+          ? PALETTE_INDEX.stripe
+          : PALETTE_INDEX.background;
+    }
+  }
+
+  const drawText = (text: string, left: number, top: number, scale: number) => {
+    for (const [charIndex, char] of [...text].entries()) {
+      const columns = GLYPHS[char] ?? GLYPHS['?'];
+      const charLeft = left + charIndex * GLYPH_ADVANCE * scale;
+      columns.forEach((bits, column) => {
+        for (let row = 0; row < 7; row++) {
+          if (!(bits & (1 << row))) continue;
+          for (let dy = 0; dy < scale; dy++) {
+            for (let dx = 0; dx < scale; dx++) {
+              const px = charLeft + column * scale + dx;
+              const py = top + row * scale + dy;
+              if (px < width - 2 && py < height - 2) {
+                pixels[py * width + px] = PALETTE_INDEX.text;
+              }
+            }
+          }
+        }
+      });
+    }
+  };
+
+  const margin = 6;
+  const innerWidth = width - margin * 2;
+  const title = toDrawableText(`#${slotIndex + 1}`);
+  const titleScale = Math.max(
+    1,
+    Math.min(4, Math.floor(height / 48), Math.floor(innerWidth / (title.length * GLYPH_ADVANCE)))
+  );
+  const bodyScale = Math.max(1, Math.floor(titleScale / 2));
+  let top = margin;
+
+  drawText(title, margin, top, titleScale);
+  const meta = toDrawableText(`${aspectRatio} ${resolution} MOCK`);
+  const metaLeft = margin + (title.length + 1) * GLYPH_ADVANCE * titleScale;
+  if (metaLeft + meta.length * GLYPH_ADVANCE * bodyScale <= width - margin) {
+    drawText(meta, metaLeft, top + (titleScale - bodyScale) * 7, bodyScale);
+    top += LINE_HEIGHT * titleScale;
+  } else {
+    top += LINE_HEIGHT * titleScale;
+    drawText(meta, margin, top, bodyScale);
+    top += LINE_HEIGHT * bodyScale;
+  }
+
+  const maxChars = Math.floor(innerWidth / (GLYPH_ADVANCE * bodyScale));
+  const maxLines = Math.floor((height - margin - top) / (LINE_HEIGHT * bodyScale));
+  if (maxChars > 3 && maxLines > 0) {
+    for (const line of wrapText(toDrawableText(prompt.trim()), maxChars, maxLines)) {
+      drawText(line, margin, top, bodyScale);
+      top += LINE_HEIGHT * bodyScale;
+    }
+  }
+
+  const png = encodeIndexedPng(width, height, palette, pixels);
+  return {
+    data: `data:image/png;base64,${bytesToBase64(png)}`,
+    mimeType: 'image/png',
+    width,
+    height
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Minimal PNG encoder for palette images. Uses stored (uncompressed) deflate
+ * blocks so it runs unchanged in the browser and in Node without zlib.
+ */
+
+export type RgbColor = readonly [number, number, number];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_STORED_BLOCK = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK));
+  const output = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  output[0] = 0x78;
+  output[1] = 0x01;
+
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, raw.length - start);
+    output[offset] = block === blockCount - 1 ? 1 : 0;
+    output[offset + 1] = length & 0xff;
+    output[offset + 2] = (length >>> 8) & 0xff;
+    output[offset + 3] = ~length & 0xff;
+    output[offset + 4] = (~length >>> 8) & 0xff;
+    output.set(raw.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  writeUint32(output, offset, adler32(raw));
+  return output;
+}
+
+/**
+ * Encodes an 8-bit indexed image. `pixels` holds one palette index per pixel,
+ * row-major, and must be exactly `width * height` long.
+ */
+export function encodeIndexedPng(
+  width: number,
+  height: number,
+  palette: readonly RgbColor[],
+  pixels: Uint8Array
+): Uint8Array {
+  if (pixels.length !== width * height) {
+    throw new Error(`Expected ${width * height} pixels, got ${pixels.length}`);
+  }
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error('Palette must contain 1-256 colors');
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 3; // color type: indexed
+
+  const paletteBytes = new Uint8Array(palette.length * 3);
+  palette.forEach(([r, g, b], index) => paletteBytes.set([r, g, b], index * 3));
+
+  // Each scanline is prefixed with filter type 0 (none).
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('PLTE', paletteBytes),
+    createChunk('IDAT', zlibStore(raw)),
+    createChunk('IEND', new Uint8Array(0))
+  ];
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
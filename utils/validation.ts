@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ValidationError } from '../types/errors';
+import { ValidationError } from '../types/errors.ts';
 
 // Constants for validation
 export const VALIDATION_LIMITS = {
@@ -7,6 +7,11 @@ export const VALIDATION_LIMITS = {
   MAX_IMAGE_SIZE_MB: 20,
   MIN_BATCH_SIZE: 1,
   MAX_BATCH_SIZE: 20,
+  MAX_DYNAMIC_PROMPT_SLOTS: 100, // Slots produced by expanding one prompt template
+  MAX_BATCH_IMPORT_ROWS: 500,
+  MAX_CONCURRENCY_LIMIT: 50, // Upper bound for scheduler limits
+  MAX_RETRY_ATTEMPTS: 10, // Attempts per slot, including the first
+  MAX_RETRY_DELAY_MS: 5 * 60 * 1000,
   MAX_PROMPT_LENGTH: 10000,
   API_KEY_MIN_LENGTH: 10 // Relaxed: support various API key formats
 } as const;